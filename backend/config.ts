@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -14,9 +15,23 @@ export const config = {
   geminiApiKey: process.env.GEMINI_API_KEY || '',
   uploadDir: path.resolve(backendRoot, './uploads'),
   outputDir: path.resolve(backendRoot, './outputs'),
+  fixtureDir: path.resolve(backendRoot, './fixtures'),
+  // Music bed for polished reels. No track ships with the repo (it needs a license), so
+  // without MUSIC_BED_PATH reels get a synthesized pad.
+  musicBedPath: process.env.MUSIC_BED_PATH ? path.resolve(process.env.MUSIC_BED_PATH) : null as string | null,
+  // Process-wide cap on concurrent ffmpeg segment cuts across all reels being built.
+  segmentConcurrency: Math.max(1, Math.floor(Number(process.env.SEGMENT_CONCURRENCY)) || 2),
   isCloud: false,
 };
 
-if (!config.geminiApiKey || config.geminiApiKey === 'PLACEHOLDER_API_KEY') {
+if (process.env.ANALYSIS_PROVIDER !== 'fixture' && (!config.geminiApiKey || config.geminiApiKey === 'PLACEHOLDER_API_KEY')) {
   console.warn('WARNING: GEMINI_API_KEY is not set or is a placeholder. Please check your .env.local file.');
 }
+
+if (!config.musicBedPath) {
+  console.log('Polished reels: MUSIC_BED_PATH is not set, using the synthesized pad.');
+} else if (!fs.existsSync(config.musicBedPath)) {
+  console.warn(`WARNING: MUSIC_BED_PATH points to ${config.musicBedPath}, which does not exist. Polished reels will use the synthesized pad.`);
+} else {
+  console.log(`Polished reels: music bed ${config.musicBedPath}`);
+}
@@ -1,8 +1,7 @@
 // Pet AI Persona — read path (R1..R6) + SSE streaming.
 
 import type express from 'express';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config as appConfig } from '../config.ts';
+import { getAnalysisProvider } from '../processor/analysisProvider.ts';
 import {
   appendMessage,
   cosineSimilarity,
@@ -15,6 +14,7 @@ import {
   invalidateMemoryCache,
   listMemoriesForPet,
   listMessages,
+  listSessionDigests,
   patchMemory,
   randomId,
   setTraits,
@@ -26,6 +26,7 @@ import {
   buildChatUserPrompt,
   buildUserFactExtractorPrompt,
 } from './personaPrompts.ts';
+import { loadRatedReplies, mineCatchphrases, mineRoutines } from './routineMiner.ts';
 import { buildKnownEntities, isReplyVibeOnly, validateCitations } from './citationValidator.ts';
 import type {
   ChatMessage,
@@ -48,16 +49,9 @@ const RECENT_CHAT_TURNS = 6;
 
 const CHAT_MODEL = process.env.PERSONA_CHAT_MODEL || process.env.GEMINI_ANALYSIS_MODEL || 'gemini-3.1-pro-preview';
 
-let genAi: GoogleGenerativeAI | null = null;
-function getGenAI(): GoogleGenerativeAI | null {
-  if (!appConfig.geminiApiKey) return null;
-  if (!genAi) genAi = new GoogleGenerativeAI(appConfig.geminiApiKey);
-  return genAi;
-}
-
 // ---------------- SSE helpers ----------------
 
-function setSseHeaders(res: express.Response): void {
+export function setSseHeaders(res: express.Response): void {
   res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
   res.setHeader('Cache-Control', 'no-cache, no-transform');
   res.setHeader('Connection', 'keep-alive');
@@ -65,7 +59,7 @@ function setSseHeaders(res: express.Response): void {
   // CORS already opened by app.use(cors()) — nothing else to do
 }
 
-function sseEvent(res: express.Response, event: string, data: unknown): void {
+export function sseEvent(res: express.Response, event: string, data: unknown): void {
   const payload = JSON.stringify(data);
   res.write(`event: ${event}\n`);
   res.write(`data: ${payload}\n\n`);
@@ -176,25 +170,22 @@ export async function handleChatStream(
     sseEvent(res, 'thread', { threadId: thread.id });
 
     // R5 Pass A — stream reply
-    const ai = getGenAI();
+    const provider = getAnalysisProvider();
+    const ai = provider.isTextAvailable();
     let reply = '';
     if (!ai) {
       reply = `*${pet.name} flicks an ear* I'm here, but my voice isn't tuned in right now.`;
       sseEvent(res, 'delta', { text: reply });
     } else {
       try {
-        const model = ai.getGenerativeModel({
+        const stream = provider.streamText(userPrompt, {
           model: CHAT_MODEL,
           systemInstruction: systemPrompt,
-          generationConfig: { temperature: 0.7 },
-        } as any);
-        const stream = await model.generateContentStream([userPrompt]);
-        for await (const chunk of stream.stream as any) {
-          const text = typeof chunk?.text === 'function' ? chunk.text() : '';
-          if (text) {
-            reply += text;
-            sseEvent(res, 'delta', { text });
-          }
+          temperature: 0.7,
+        });
+        for await (const text of stream) {
+          reply += text;
+          sseEvent(res, 'delta', { text });
         }
       } catch (e) {
         console.warn('[Persona Chat] Pass A failed:', (e as Error).message);
@@ -224,9 +215,7 @@ export async function handleChatStream(
           finalReply,
           top.map((c) => c.memory.id)
         );
-        const model = ai.getGenerativeModel({ model: CHAT_MODEL, generationConfig: { temperature: 0.2 } } as any);
-        const result = await model.generateContent([passBPrompt]);
-        const txt = result.response.text();
+        const txt = await provider.generateText(passBPrompt, { model: CHAT_MODEL, temperature: 0.2 });
         const meta = parseJsonStrict(txt);
         if (meta) {
           if (Array.isArray(meta.citedMemoryIds)) {
@@ -294,9 +283,7 @@ export async function handleChatStream(
     if (ai && looksLikeUserFact(ctx.payload.text)) {
       try {
         const factsPrompt = buildUserFactExtractorPrompt(ctx.payload.text, pet.name);
-        const model = ai.getGenerativeModel({ model: CHAT_MODEL, generationConfig: { temperature: 0 } } as any);
-        const result = await model.generateContent([factsPrompt]);
-        const txt = result.response.text();
+        const txt = await provider.generateText(factsPrompt, { model: CHAT_MODEL, temperature: 0 });
         const parsed = parseJsonStrict(txt);
         const facts: any[] = Array.isArray(parsed?.facts) ? parsed.facts : [];
         for (const f of facts.slice(0, 3)) {
@@ -547,8 +534,8 @@ export async function rebuildTraitsFromMemories(petId: string): Promise<void> {
     scoreReasons: reasons,
     likes,
     dislikes,
-    catchphrases: [],
-    routines: [],
+    catchphrases: mineCatchphrases(await loadRatedReplies(petId)),
+    routines: mineRoutines(await listSessionDigests(petId), memories, pet.timeZone),
     dirtyForRebuild: false,
     updatedAt: Date.now(),
   });
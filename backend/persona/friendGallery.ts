@@ -0,0 +1,212 @@
+// Pet AI Persona — re-identifying friends across sessions.
+//
+// The analysis names every friend afresh, so the neighbour's dog can be
+// "Coco|golden retriever" in one session and "Buddy|labrador" in the next. Each edge
+// keeps a small gallery of sightings: the avatar crop from the mosaic search and the
+// visual traits the analysis gave it. A friend whose key matches no edge is compared
+// against those galleries when the session is written. Traits only shortlist
+// candidates; the crops are then put side by side for a visual check. A match is never
+// applied on its own: it is left on the new edge as a proposal, and the owner either
+// merges the two (so encounters and bond history land on the real individual) or
+// dismisses it.
+//
+// Traits are compared by text embedding when PERSONA_EMBED_MODEL is set, and by shared
+// trait words otherwise. Without crops or a visual verdict, a close trait match is still
+// proposed, marked as such.
+
+import { getAnalysisProvider } from '../processor/analysisProvider.ts';
+import { cosineSimilarity, embedTexts } from './memoryStore.ts';
+import { computeFriendKey } from './personaBuilder.ts';
+import type { FriendMatchProposal, FriendSighting, PetRelationEdge } from './personaTypes.ts';
+
+const MAX_SIGHTINGS = 6;
+const MAX_VISUAL_CHECKS = 3;
+const MIN_VISUAL_CONFIDENCE = 70;
+const THRESHOLDS = {
+  embedding: { shortlist: 0.8, propose: 0.88 },
+  traits: { shortlist: 0.25, propose: 0.5 },
+};
+
+// Reads an avatar crop by its public URL. The server registers one at boot, since crops
+// live either in the upload dir or in Cloud Storage.
+export type FriendImageLoader = (imageUrl: string) => Promise<Buffer | null>;
+
+let imageLoader: FriendImageLoader | null = null;
+
+export function setFriendImageLoader(loader: FriendImageLoader | null): void {
+  imageLoader = loader;
+}
+
+function traitTokens(traits?: string): Set<string> {
+  return new Set(
+    String(traits || '')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length > 2)
+  );
+}
+
+export function sightingText(sighting: Pick<FriendSighting, 'breed' | 'visualTraits'>): string {
+  return [sighting.breed, sighting.visualTraits].filter(Boolean).join(': ');
+}
+
+// The analysed friend as a sighting; null when it carries neither a crop nor traits.
+export function sightingFromFriend(friend: any, sessionId: string, seenAt: number): FriendSighting | null {
+  const visualTraits = typeof friend?.visual_traits === 'string' ? friend.visual_traits.trim() : '';
+  const imageUrl = typeof friend?.url === 'string' ? friend.url : undefined;
+  if (!visualTraits && !imageUrl) return null;
+  return {
+    sessionId,
+    imageUrl,
+    visualTraits: visualTraits || undefined,
+    breed: friend.type ? String(friend.type) : undefined,
+    seenAt,
+  };
+}
+
+export async function embedSightings(sightings: FriendSighting[]): Promise<FriendSighting[]> {
+  const embeddings = await embedTexts(sightings.map(sightingText));
+  return sightings.map((s, i) => (embeddings[i] ? { ...s, embedding: embeddings[i] } : s));
+}
+
+// Newest first, one per session.
+export function addSighting(gallery: FriendSighting[] | undefined, sighting: FriendSighting): FriendSighting[] {
+  return [sighting, ...(gallery || []).filter((s) => s.sessionId !== sighting.sessionId)].slice(0, MAX_SIGHTINGS);
+}
+
+export function mergeGalleries(a: FriendSighting[] | undefined, b: FriendSighting[] | undefined): FriendSighting[] {
+  const bySession = new Map<string, FriendSighting>();
+  for (const s of [...(a || []), ...(b || [])]) {
+    if (!bySession.has(s.sessionId)) bySession.set(s.sessionId, s);
+  }
+  return Array.from(bySession.values())
+    .sort((x, y) => y.seenAt - x.seenAt)
+    .slice(0, MAX_SIGHTINGS);
+}
+
+// Relation responses leave embeddings out; up to six 768-float vectors per edge are
+// of no use to a client.
+export function withoutEmbeddings(edge: PetRelationEdge): PetRelationEdge {
+  const strip = (gallery?: FriendSighting[]) => gallery?.map(({ embedding: _embedding, ...s }) => s);
+  return {
+    ...edge,
+    gallery: strip(edge.gallery),
+    mergedFrom: edge.mergedFrom?.map((m) => ({ ...m, edge: { ...m.edge, gallery: strip(m.edge.gallery) } })),
+  };
+}
+
+// How alike two sightings' traits are, in [0, 1], and whether that is enough to look
+// at the crops (shortlist) or to propose a match without them. A side without traits
+// leaves it to the crops.
+export function compareTraits(a: FriendSighting, b: FriendSighting): { score: number; shortlist: boolean; propose: boolean } {
+  if (a.embedding && b.embedding) {
+    const score = cosineSimilarity(a.embedding, b.embedding);
+    return { score, shortlist: score >= THRESHOLDS.embedding.shortlist, propose: score >= THRESHOLDS.embedding.propose };
+  }
+  const tokensA = traitTokens(a.visualTraits);
+  const tokensB = traitTokens(b.visualTraits);
+  if (tokensA.size === 0 || tokensB.size === 0) return { score: 0, shortlist: true, propose: false };
+  const shared = [...tokensA].filter((token) => tokensB.has(token)).length;
+  const score = shared / new Set([...tokensA, ...tokensB]).size;
+  return { score, shortlist: score >= THRESHOLDS.traits.shortlist, propose: score >= THRESHOLDS.traits.propose };
+}
+
+interface Candidate {
+  edge: PetRelationEdge;
+  known: FriendSighting;
+  score: number;
+  propose: boolean;
+}
+
+// Known friends worth a visual check, best trait match first. Edges already seen in the
+// sighting's session are skipped: two friends in one video are two animals.
+export function shortlistCandidates(edges: PetRelationEdge[], sighting: FriendSighting): Candidate[] {
+  const candidates: Candidate[] = [];
+  for (const edge of edges) {
+    if (edge.type !== 'friend_pet') continue;
+    const gallery = edge.gallery || [];
+    if (gallery.some((s) => s.sessionId === sighting.sessionId)) continue;
+    let best: Candidate | null = null;
+    for (const known of gallery) {
+      const { score, shortlist, propose } = compareTraits(sighting, known);
+      if (shortlist && (!best || score > best.score)) best = { edge, known, score, propose };
+    }
+    if (best) candidates.push(best);
+  }
+  return candidates.sort((a, b) => b.score - a.score).slice(0, MAX_VISUAL_CHECKS);
+}
+
+async function loadCrop(imageUrl?: string): Promise<Buffer | null> {
+  if (!imageUrl || !imageLoader) return null;
+  try {
+    return await imageLoader(imageUrl);
+  } catch (e) {
+    console.warn(`[Persona] could not load friend crop ${imageUrl}:`, (e as Error).message);
+    return null;
+  }
+}
+
+// Same individual per the crops, with the visual confidence; the trait score stands in
+// only when there is nothing to look at or the check was undecided.
+async function verifyCandidate(sighting: FriendSighting, crop: Buffer | null, candidate: Candidate): Promise<FriendMatchProposal | null> {
+  const provider = getAnalysisProvider();
+  const knownUrl = candidate.known.imageUrl || candidate.edge.gallery?.find((s) => s.imageUrl)?.imageUrl;
+  const knownCrop = crop && provider.isTextAvailable() ? await loadCrop(knownUrl) : null;
+  const verdict = knownCrop
+    ? await provider.compareAnimalCrops(crop!, knownCrop, sighting.breed || candidate.known.breed || '')
+    : null;
+  if (verdict) {
+    if (!verdict.sameAnimal || verdict.confidence < MIN_VISUAL_CONFIDENCE) return null;
+    return { otherKey: candidate.edge.otherKey, score: verdict.confidence / 100, method: 'image', proposedAt: Date.now() };
+  }
+  if (!candidate.propose) return null;
+  return { otherKey: candidate.edge.otherKey, score: candidate.score, method: 'traits', proposedAt: Date.now() };
+}
+
+export interface SessionFriendMatches {
+  // Friend key → the known friend it probably is, for the owner to confirm.
+  proposals: Map<string, FriendMatchProposal>;
+  // Friend key → the sighting to add to whichever edge the friend lands on.
+  sightings: Map<string, FriendSighting>;
+}
+
+// Only friends without an edge are matched, so an edge the owner kept apart is not
+// proposed again. Each known friend is proposed for at most one friend per session.
+export async function matchSessionFriends(
+  edges: PetRelationEdge[],
+  friends: any[],
+  sessionId: string,
+  seenAt: number
+): Promise<SessionFriendMatches> {
+  const result: SessionFriendMatches = { proposals: new Map(), sightings: new Map() };
+  const pending: Array<{ key: string; sighting: FriendSighting }> = [];
+  for (const friend of friends || []) {
+    if (!friend?.name) continue;
+    const sighting = sightingFromFriend(friend, sessionId, seenAt);
+    if (sighting) pending.push({ key: computeFriendKey(friend.name, friend.type), sighting });
+  }
+  if (pending.length === 0) return result;
+
+  const embedded = await embedSightings(pending.map((p) => p.sighting));
+  const claimed = new Set<string>();
+  const unknown: Array<{ key: string; sighting: FriendSighting }> = [];
+  pending.forEach(({ key }, i) => {
+    result.sightings.set(key, embedded[i]);
+    const known = edges.find((e) => e.otherKey === key || e.aliases?.includes(key));
+    if (known) claimed.add(known.otherKey);
+    else unknown.push({ key, sighting: embedded[i] });
+  });
+  for (const { key, sighting } of unknown) {
+    const candidates = shortlistCandidates(edges.filter((e) => !claimed.has(e.otherKey)), sighting);
+    if (candidates.length === 0) continue;
+    const crop = await loadCrop(sighting.imageUrl);
+    for (const candidate of candidates) {
+      const proposal = await verifyCandidate(sighting, crop, candidate);
+      if (!proposal) continue;
+      claimed.add(proposal.otherKey);
+      result.proposals.set(key, proposal);
+      break;
+    }
+  }
+  return result;
+}
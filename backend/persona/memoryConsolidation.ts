@@ -0,0 +1,279 @@
+// Pet AI Persona — long-term memory consolidation.
+//
+// A periodic pass per pet that:
+//   1. decays importanceCurrent from decayBaseline by idle time, more slowly for
+//      memories that chat keeps citing or sessions keep re-observing;
+//   2. folds clusters of near-duplicate episodic memories into one "semantic" memory
+//      (members are archived with consolidatedInto pointing at it);
+//   3. archives the weakest memories, and enough of them to keep the live count under
+//      PERSONA_MEMORY_CAP_PER_PET so new sessions aren't truncated.
+// planConsolidation is pure and doubles as the dry-run report; undoConsolidation
+// restores a cluster's members and removes its summary.
+
+import { getAnalysisProvider } from '../processor/analysisProvider.ts';
+import {
+  cosineSimilarity,
+  deleteMemory,
+  embedTexts,
+  getPetById,
+  listAllPets,
+  listMemoriesForPet,
+  randomId,
+  updatePet,
+  writeMemoriesBatch,
+} from './memoryStore.ts';
+import { buildConsolidationPrompt } from './personaPrompts.ts';
+import type { Pet, PetMemory } from './personaTypes.ts';
+
+const DAY_MS = 86_400_000;
+const HALF_LIFE_DAYS = Number(process.env.PERSONA_DECAY_HALF_LIFE_DAYS || 45);
+const CLUSTER_THRESHOLD = Number(process.env.PERSONA_CLUSTER_THRESHOLD || 0.86);
+const MIN_CLUSTER_SIZE = 3;
+const MAX_CLUSTER_SIZE = 8;
+// Fresh memories are left alone so a new week's moments are still individually citable.
+const MIN_CLUSTER_AGE_DAYS = 14;
+const ARCHIVE_BELOW = 1;
+const MEMORY_CAP = Number(process.env.PERSONA_MEMORY_CAP_PER_PET || 500);
+const CAP_TARGET = Math.floor(MEMORY_CAP * 0.9);
+const INTERVAL_HOURS = Number(process.env.PERSONA_CONSOLIDATION_INTERVAL_HOURS ?? 24);
+const CONSOLIDATION_MODEL = process.env.PERSONA_EXTRACT_MODEL || process.env.GEMINI_ANALYSIS_MODEL || 'gemini-3.1-pro-preview';
+
+export interface ConsolidationCluster {
+  memberIds: string[];
+  texts: string[];
+  summaryId?: string;
+  summary?: string;
+}
+
+export interface ConsolidationReport {
+  petId: string;
+  dryRun: boolean;
+  ranAt: number;
+  liveBefore: number;
+  liveAfter: number;
+  decayed: Array<{ id: string; from: number; to: number }>;
+  clusters: ConsolidationCluster[];
+  archived: Array<{ id: string; text: string; importanceCurrent: number }>;
+}
+
+function isLive(m: PetMemory): boolean {
+  return !m.archived && !m.consolidatedInto;
+}
+
+// Owner-touched memories and facts the owner told us are never merged or archived.
+function isProtected(m: PetMemory): boolean {
+  return !!m.userVerdict || m.type === 'user_fact' || m.type === 'milestone';
+}
+
+export function decayedImportance(m: PetMemory, now: number): number {
+  const baseline = m.decayBaseline || m.importance;
+  const current = m.importanceCurrent ?? m.importance;
+  const idleDays = Math.max(0, (now - Math.max(m.createdAt || 0, m.lastAccessedAt || 0)) / DAY_MS);
+  const reinforcement = 1 + Math.log2(1 + (m.accessCount || 0)) + Math.log2(Math.max(1, m.strength || 1));
+  const halfLife = HALF_LIFE_DAYS * reinforcement * (isProtected(m) ? 2 : 1);
+  const decayed = Math.round(baseline * Math.pow(0.5, idleDays / halfLife) * 100) / 100;
+  // Chat reinforcement may have lifted a memory above its curve; decay never raises it.
+  return Math.min(current, decayed);
+}
+
+export function clusterEpisodicMemories(memories: PetMemory[], now: number): PetMemory[][] {
+  const candidates = memories
+    .filter((m) => isLive(m) && !isProtected(m) && m.type === 'episodic' && m.embedding)
+    .filter((m) => now - (m.createdAt || now) >= MIN_CLUSTER_AGE_DAYS * DAY_MS)
+    .sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0));
+  const assigned = new Set<string>();
+  const clusters: PetMemory[][] = [];
+  for (const seed of candidates) {
+    if (assigned.has(seed.id)) continue;
+    const members = candidates
+      .filter((m) => !assigned.has(m.id) && (m === seed || cosineSimilarity(seed.embedding, m.embedding) >= CLUSTER_THRESHOLD))
+      .slice(0, MAX_CLUSTER_SIZE);
+    if (members.length < MIN_CLUSTER_SIZE) continue;
+    for (const m of members) assigned.add(m.id);
+    clusters.push(members);
+  }
+  return clusters;
+}
+
+export function planConsolidation(memories: PetMemory[], now = Date.now()) {
+  const live = memories.filter(isLive);
+  const decayedById = new Map<string, number>();
+  const decayed: ConsolidationReport['decayed'] = [];
+  for (const m of live) {
+    const from = m.importanceCurrent ?? m.importance;
+    const to = decayedImportance(m, now);
+    decayedById.set(m.id, to);
+    if (from - to >= 0.05) decayed.push({ id: m.id, from, to });
+  }
+
+  const clusters = clusterEpisodicMemories(live, now);
+  const clustered = new Set(clusters.flat().map((m) => m.id));
+  const liveAfterClusters = live.length - clustered.size + clusters.length;
+
+  const archivable = live
+    .filter((m) => !clustered.has(m.id) && !isProtected(m))
+    .sort((a, b) => decayedById.get(a.id)! - decayedById.get(b.id)!);
+  const overCap = Math.max(0, liveAfterClusters - CAP_TARGET);
+  const archived = archivable.filter((m, i) => i < overCap || decayedById.get(m.id)! < ARCHIVE_BELOW);
+
+  return {
+    decayed,
+    decayedById,
+    clusters,
+    archived,
+    liveBefore: live.length,
+    liveAfter: liveAfterClusters - archived.length,
+  };
+}
+
+function parseSummary(text: string): { text: string; emotion?: string } | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    if (typeof parsed?.text !== 'string' || parsed.text.trim().length < 4) return null;
+    return { text: parsed.text.trim(), emotion: typeof parsed.emotion === 'string' ? parsed.emotion : undefined };
+  } catch {
+    return null;
+  }
+}
+
+function meanEmbedding(members: PetMemory[]): number[] | undefined {
+  const vectors = members.map((m) => m.embedding).filter((v): v is number[] => !!v?.length);
+  if (vectors.length === 0) return undefined;
+  return vectors[0].map((_, i) => vectors.reduce((sum, v) => sum + (v[i] || 0), 0) / vectors.length);
+}
+
+// The summary takes the newest member's createdAt so it doesn't jump the recency order.
+export function buildSemanticMemory(pet: Pet, members: PetMemory[], summary: { text: string; emotion?: string }): PetMemory {
+  const strongest = [...members].sort((a, b) => b.importance - a.importance)[0];
+  const importance = Math.max(...members.map((m) => m.importance));
+  return {
+    id: `mem-${randomId(14)}`,
+    petId: pet.id,
+    ownerKey: pet.ownerKey,
+    type: 'semantic',
+    text: summary.text,
+    importance,
+    importanceCurrent: Math.max(...members.map((m) => m.importanceCurrent ?? m.importance)),
+    decayBaseline: importance,
+    confidence: Math.round(members.reduce((sum, m) => sum + (m.confidence || 0), 0) / members.length),
+    emotion: summary.emotion || strongest.emotion,
+    embedding: meanEmbedding(members),
+    strength: members.reduce((sum, m) => sum + (m.strength || 1), 0),
+    source: strongest.source,
+    relatedPetIds: Array.from(new Set(members.flatMap((m) => m.relatedPetIds || []))),
+    consolidatedFrom: members.map((m) => m.id),
+    lastAccessedAt: Math.max(...members.map((m) => m.lastAccessedAt || 0)),
+    accessCount: members.reduce((sum, m) => sum + (m.accessCount || 0), 0),
+    createdAt: Math.max(...members.map((m) => m.createdAt || 0)),
+  };
+}
+
+async function summarizeCluster(pet: Pet, members: PetMemory[]): Promise<{ text: string; emotion?: string } | null> {
+  const provider = getAnalysisProvider();
+  if (!provider.isTextAvailable()) return null;
+  try {
+    const prompt = buildConsolidationPrompt(
+      pet.name,
+      members.map((m) => ({ text: m.text, timestamp: m.source?.timestamp, emotion: m.emotion }))
+    );
+    return parseSummary(await provider.generateText(prompt, { model: CONSOLIDATION_MODEL, temperature: 0 }));
+  } catch (e) {
+    console.warn('[Persona Consolidation] summary failed:', (e as Error).message);
+    return null;
+  }
+}
+
+export async function consolidatePetMemories(petId: string, options: { dryRun?: boolean } = {}): Promise<ConsolidationReport> {
+  const pet = await getPetById(petId);
+  if (!pet) throw new Error(`Pet ${petId} not found`);
+  const now = Date.now();
+  const memories = await listMemoriesForPet(petId);
+  const plan = planConsolidation(memories, now);
+  const report: ConsolidationReport = {
+    petId,
+    dryRun: !!options.dryRun,
+    ranAt: now,
+    liveBefore: plan.liveBefore,
+    liveAfter: plan.liveAfter,
+    decayed: plan.decayed,
+    clusters: plan.clusters.map((members) => ({ memberIds: members.map((m) => m.id), texts: members.map((m) => m.text) })),
+    archived: plan.archived.map((m) => ({ id: m.id, text: m.text, importanceCurrent: plan.decayedById.get(m.id)! })),
+  };
+  if (options.dryRun) return report;
+
+  const updated = new Map<string, PetMemory>();
+  const touch = (m: PetMemory, patch: Partial<PetMemory>) => updated.set(m.id, { ...(updated.get(m.id) || m), ...patch });
+  const byId = new Map(memories.map((m) => [m.id, m]));
+  for (const d of plan.decayed) touch(byId.get(d.id)!, { importanceCurrent: d.to });
+
+  // A cluster whose summary can't be written stays as it is; the next run retries it.
+  const summaries: PetMemory[] = [];
+  for (let i = 0; i < plan.clusters.length; i++) {
+    const members = plan.clusters[i].map((m) => updated.get(m.id) || m);
+    const summary = await summarizeCluster(pet, members);
+    if (!summary) continue;
+    const semantic = buildSemanticMemory(pet, members, summary);
+    const [embedding] = await embedTexts([semantic.text]);
+    if (embedding) semantic.embedding = embedding;
+    summaries.push(semantic);
+    for (const m of members) touch(m, { consolidatedInto: semantic.id, archived: true });
+    Object.assign(report.clusters[i], { summaryId: semantic.id, summary: semantic.text });
+  }
+  for (const m of plan.archived) touch(m, { archived: true });
+
+  report.liveAfter = plan.liveBefore
+    - report.clusters.reduce((sum, c) => sum + (c.summaryId ? c.memberIds.length - 1 : 0), 0)
+    - plan.archived.length;
+  await writeMemoriesBatch([...summaries, ...updated.values()]);
+  await updatePet(petId, { lastConsolidatedAt: now });
+  console.log(
+    `[Persona Consolidation] ${pet.name} (${petId}): ${report.decayed.length} decayed, ` +
+    `${summaries.length}/${plan.clusters.length} clusters merged, ${plan.archived.length} archived, ` +
+    `${report.liveBefore} → ${report.liveAfter} live`
+  );
+  return report;
+}
+
+// Restores a semantic memory's members and deletes it.
+export async function undoConsolidation(petId: string, summaryId: string): Promise<string[]> {
+  const memories = await listMemoriesForPet(petId);
+  const summary = memories.find((m) => m.id === summaryId);
+  const members = memories.filter((m) => m.consolidatedInto === summaryId);
+  if (!summary || members.length === 0) return [];
+  const restored = members.map(({ consolidatedInto: _summary, archived: _archived, ...m }) => m as PetMemory);
+  await writeMemoriesBatch(restored);
+  await deleteMemory(summaryId, petId);
+  return restored.map((m) => m.id);
+}
+
+let consolidationTimer: NodeJS.Timeout | null = null;
+
+// Runs consolidation for every pet not consolidated within the interval. Set
+// PERSONA_CONSOLIDATION_INTERVAL_HOURS=0 to turn the schedule off (the endpoints
+// still work). With several instances the lastConsolidatedAt check keeps repeats rare.
+export function startMemoryConsolidationSchedule(): void {
+  if (consolidationTimer || !(INTERVAL_HOURS > 0)) return;
+  const intervalMs = INTERVAL_HOURS * 3_600_000;
+  let running = false;
+  const sweep = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const due = (await listAllPets()).filter((p) => Date.now() - (p.lastConsolidatedAt || 0) >= intervalMs * 0.9);
+      for (const pet of due) {
+        await consolidatePetMemories(pet.id).catch((e) =>
+          console.warn(`[Persona Consolidation] ${pet.id} failed:`, (e as Error).message)
+        );
+      }
+    } catch (e) {
+      console.warn('[Persona Consolidation] sweep failed:', (e as Error).message);
+    } finally {
+      running = false;
+    }
+  };
+  consolidationTimer = setInterval(sweep, Math.min(intervalMs, 3_600_000));
+  consolidationTimer.unref();
+}
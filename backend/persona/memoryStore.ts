@@ -2,11 +2,10 @@
 // Wraps Firestore reads/writes and provides per-instance LRU cache for cosine retrieval.
 
 import { Firestore, FieldValue } from '@google-cloud/firestore';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { config as appConfig } from '../config.ts';
+import { getAnalysisProvider } from '../processor/analysisProvider.ts';
 import type {
   Pet,
   PetTraits,
@@ -16,6 +15,7 @@ import type {
   ChatMessage,
   ChatThread,
   PersonaSnapshot,
+  PetSessionDigest,
   GrowthStage,
   PetTraitScores,
 } from './personaTypes.ts';
@@ -29,6 +29,7 @@ const COL = {
   relations: process.env.PET_RELATIONS_COLLECTION || 'pet_relations',
   chats: process.env.PET_CHATS_COLLECTION || 'pet_chats',
   snapshots: process.env.PET_SNAPSHOTS_COLLECTION || 'pet_persona_snapshots',
+  sessionDigests: process.env.PET_SESSION_DIGESTS_COLLECTION || 'pet_session_digests',
 };
 
 let firestore: Firestore | null = null;
@@ -56,6 +57,7 @@ type LocalPersonaState = {
   chats: Record<string, ChatThread>;
   messages: Record<string, ChatMessage[]>;
   snapshots: Record<string, PersonaSnapshot[]>;
+  sessionDigests: Record<string, Record<string, PetSessionDigest>>;
 };
 
 const __filename = fileURLToPath(import.meta.url);
@@ -77,6 +79,7 @@ function emptyLocalState(): LocalPersonaState {
     chats: {},
     messages: {},
     snapshots: {},
+    sessionDigests: {},
   };
 }
 
@@ -198,6 +201,12 @@ export async function listPetsForOwner(visitorId: string): Promise<Pet[]> {
   return snap.docs.map((d) => d.data() as Pet);
 }
 
+export async function listAllPets(): Promise<Pet[]> {
+  if (!firestore) return Object.values(local().pets);
+  const snap = await db().collection(COL.pets).get();
+  return snap.docs.map((d) => d.data() as Pet);
+}
+
 export async function listLocalDemoPets(): Promise<Pet[]> {
   if (firestore) return [];
   return Object.values(local().pets);
@@ -211,6 +220,7 @@ export async function deletePetCascade(petId: string): Promise<void> {
     delete state.priors[petId];
     delete state.relations[petId];
     delete state.snapshots[petId];
+    delete state.sessionDigests[petId];
     for (const [id, m] of Object.entries(state.memories)) if (m.petId === petId) delete state.memories[id];
     for (const [id, t] of Object.entries(state.chats)) {
       if (t.petId === petId) {
@@ -247,6 +257,14 @@ export async function deletePetCascade(petId: string): Promise<void> {
     await writer.commit();
   }
   await db().collection(COL.snapshots).doc(petId).delete().catch(() => {});
+  // session digests
+  const digestSnap = await db().collection(COL.sessionDigests).doc(petId).collection('sessions').get();
+  if (!digestSnap.empty) {
+    const writer = db().batch();
+    digestSnap.docs.forEach((d) => writer.delete(d.ref));
+    await writer.commit();
+  }
+  await db().collection(COL.sessionDigests).doc(petId).delete().catch(() => {});
   // chats — threads + messages
   const threads = await db().collection(COL.chats).where('petId', '==', petId).get();
   for (const t of threads.docs) {
@@ -364,12 +382,15 @@ export async function writeMemoriesBatch(memories: PetMemory[]): Promise<void> {
     invalidateMemoryCache(memories[0].petId);
     return;
   }
-  const batch = db().batch();
-  for (const m of memories) {
-    batch.set(db().collection(COL.memories).doc(m.id), sanitize(m));
+  // Firestore batches take at most 500 writes; consolidation can rewrite a whole pet.
+  for (let i = 0; i < memories.length; i += 400) {
+    const batch = db().batch();
+    for (const m of memories.slice(i, i + 400)) {
+      batch.set(db().collection(COL.memories).doc(m.id), sanitize(m));
+    }
+    await batch.commit();
   }
-  await batch.commit();
-  if (memories.length) invalidateMemoryCache(memories[0].petId);
+  invalidateMemoryCache(memories[0].petId);
 }
 
 export async function patchMemory(memoryId: string, patch: Partial<PetMemory>): Promise<void> {
@@ -430,6 +451,22 @@ export async function upsertRelation(petId: string, edge: PetRelationEdge): Prom
     .set(sanitize(edge), { merge: true });
 }
 
+// Overwrites the whole edge, so fields an owner edit removed (externalPetId on unlink)
+// do not survive the way they would an upsert merge.
+export async function replaceRelation(petId: string, edge: PetRelationEdge): Promise<void> {
+  if (!firestore) return upsertRelation(petId, edge);
+  await db().collection(COL.relations).doc(petId).collection('edges').doc(edge.otherKey).set(sanitize(edge));
+}
+
+export async function deleteRelation(petId: string, otherKey: string): Promise<void> {
+  if (!firestore) {
+    delete local().relations[petId]?.[otherKey];
+    saveLocal();
+    return;
+  }
+  await db().collection(COL.relations).doc(petId).collection('edges').doc(otherKey).delete().catch(() => {});
+}
+
 // ---------------- Chats ----------------
 
 export async function getOrCreateThread(
@@ -532,6 +569,35 @@ export async function listMessages(threadId: string, limit = 50): Promise<ChatMe
   return snap.docs.map((d) => d.data() as ChatMessage);
 }
 
+// Sets or clears the owner's thumbs-up/down on one message of a thread.
+export async function rateMessage(
+  threadId: string,
+  messageId: string,
+  rating: ChatMessage['ownerRating'] | null
+): Promise<ChatMessage | null> {
+  if (!firestore) {
+    const messages = local().messages[threadId] || [];
+    const index = messages.findIndex((m) => m.id === messageId);
+    if (index < 0) return null;
+    const { ownerRating, ...rest } = messages[index];
+    messages[index] = rating ? { ...rest, ownerRating: rating } : rest;
+    saveLocal();
+    return messages[index];
+  }
+  const ref = db().collection(COL.chats).doc(threadId).collection('messages').doc(messageId);
+  const snap = await ref.get();
+  if (!snap.exists) return null;
+  await ref.update({ ownerRating: rating ?? FieldValue.delete() });
+  const { ownerRating, ...rest } = snap.data() as ChatMessage;
+  return rating ? { ...rest, ownerRating: rating } : rest;
+}
+
+export async function getThread(threadId: string): Promise<ChatThread | null> {
+  if (!firestore) return local().chats[threadId] || null;
+  const snap = await db().collection(COL.chats).doc(threadId).get();
+  return snap.exists ? (snap.data() as ChatThread) : null;
+}
+
 export async function listThreads(petId: string, limit = 20): Promise<ChatThread[]> {
   if (!firestore) return Object.values(local().chats)
     .filter((t) => t.petId === petId)
@@ -583,35 +649,46 @@ export async function listSnapshots(petId: string, limit = 12): Promise<PersonaS
   return snap.docs.map((d) => d.data() as PersonaSnapshot);
 }
 
-// ---------------- Embeddings ----------------
+// ---------------- Session digests ----------------
+
+export async function writeSessionDigest(digest: PetSessionDigest): Promise<void> {
+  if (!firestore) {
+    const state = local();
+    state.sessionDigests[digest.petId] = state.sessionDigests[digest.petId] || {};
+    state.sessionDigests[digest.petId][digest.sessionId] = sanitize(digest);
+    saveLocal();
+    return;
+  }
+  await db()
+    .collection(COL.sessionDigests)
+    .doc(digest.petId)
+    .collection('sessions')
+    .doc(digest.sessionId)
+    .set(sanitize(digest));
+}
 
-let genAi: GoogleGenerativeAI | null = null;
-function getGenAI(): GoogleGenerativeAI | null {
-  if (!appConfig.geminiApiKey) return null;
-  if (!genAi) genAi = new GoogleGenerativeAI(appConfig.geminiApiKey);
-  return genAi;
+export async function listSessionDigests(petId: string): Promise<PetSessionDigest[]> {
+  if (!firestore) return Object.values(local().sessionDigests[petId] || {});
+  const snap = await db().collection(COL.sessionDigests).doc(petId).collection('sessions').get();
+  return snap.docs.map((d) => d.data() as PetSessionDigest);
 }
 
+// ---------------- Embeddings ----------------
+
 const EMBED_MODEL = (process.env.PERSONA_EMBED_MODEL || 'none').trim();
 
 export async function embedTexts(texts: string[]): Promise<(number[] | undefined)[]> {
   if (!EMBED_MODEL || ['none', 'off', 'disabled'].includes(EMBED_MODEL.toLowerCase())) {
     return texts.map(() => undefined);
   }
-  const ai = getGenAI();
-  if (!ai || texts.length === 0) return texts.map(() => undefined);
+  const provider = getAnalysisProvider();
+  if (!provider.isTextAvailable() || texts.length === 0) return texts.map(() => undefined);
   try {
-    const model = ai.getGenerativeModel({ model: EMBED_MODEL } as any);
     // Sequential to avoid quota spikes; per-video extraction yields <30 items.
     const out: (number[] | undefined)[] = [];
     for (const t of texts) {
       try {
-        const result: any = await (model as any).embedContent({
-          content: { parts: [{ text: t }] },
-        });
-        const values: number[] | undefined = result?.embedding?.values || result?.embedding;
-        if (Array.isArray(values)) out.push(values);
-        else out.push(undefined);
+        out.push(await provider.embedText(t, EMBED_MODEL));
       } catch (e) {
         console.warn('[Persona] embedContent failed for one item:', (e as Error).message);
         out.push(undefined);
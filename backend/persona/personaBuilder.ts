@@ -3,8 +3,7 @@
 // Runs asynchronously after a video session reaches status='ready'. A failure
 // here writes personaError on the session but never undoes the session result.
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config as appConfig } from '../config.ts';
+import { getAnalysisProvider } from '../processor/analysisProvider.ts';
 import {
   cosineSimilarity,
   embedTexts,
@@ -14,6 +13,7 @@ import {
   getTraits,
   invalidateMemoryCache,
   listMemoriesForPet,
+  listSessionDigests,
   patchMemory,
   randomId,
   setTraits,
@@ -21,11 +21,15 @@ import {
   upsertRelation,
   writeMemoriesBatch,
   writeMemory,
+  writeSessionDigest,
   writeSnapshot,
   growthStageFromCounts,
 } from './memoryStore.ts';
+import { addSighting, matchSessionFriends, type SessionFriendMatches } from './friendGallery.ts';
 import { resolvePet } from './petIdentity.ts';
 import { buildMemoryExtractionPrompt } from './personaPrompts.ts';
+import { canonicalFriendName, findEdgeForFriendKey } from './relationEdits.ts';
+import { buildSessionDigest, mineRoutines } from './routineMiner.ts';
 import type {
   GrowthStage,
   Pet,
@@ -61,6 +65,12 @@ export interface PersonaBuildArgs {
   durationSeconds?: number;
   videoUrl?: string;
   coverUrl?: string;
+  // When filming started (container creation time or the file's clock) and the
+  // owner's IANA time zone; both feed time-of-day routines. uploadedAt stands in for
+  // recordedAt when the file carried no clock (playdate dates).
+  recordedAt?: number;
+  uploadedAt?: number;
+  timeZone?: string;
 }
 
 export interface PersonaBuildResult {
@@ -121,11 +131,13 @@ export async function runPersonaBuilder(args: PersonaBuildArgs): Promise<Persona
       return { ...c, importance };
     });
 
-  // Cap if we already at the per-pet limit
+  // Cap if we already at the per-pet limit. Archived memories (consolidated or weak)
+  // don't count; the consolidation job keeps the live count under the cap.
   const currentCount = await getMemoryCount(pet.id);
+  const liveCount = existingMemories.filter((m) => !m.archived).length;
   let effectiveCandidates = lintedCandidates;
-  if (shouldEnforceMemoryCap(currentCount + lintedCandidates.length)) {
-    const room = Math.max(0, (Number(process.env.PERSONA_MEMORY_CAP_PER_PET || 500)) - currentCount);
+  if (shouldEnforceMemoryCap(liveCount + lintedCandidates.length)) {
+    const room = Math.max(0, (Number(process.env.PERSONA_MEMORY_CAP_PER_PET || 500)) - liveCount);
     effectiveCandidates = lintedCandidates
       .sort((a, b) => (b.importance - a.importance))
       .slice(0, room);
@@ -134,6 +146,15 @@ export async function runPersonaBuilder(args: PersonaBuildArgs): Promise<Persona
   // W3 — embed candidate texts
   const embeddings = await embedTexts(effectiveCandidates.map((c) => c.text));
 
+  // Friend names in new memories follow owner renames and merges.
+  const existingEdges = await getRelations(pet.id);
+  const friendMatches = await matchSessionFriends(
+    existingEdges,
+    args.analysis?.friends,
+    args.sessionId,
+    args.recordedAt ?? args.uploadedAt ?? Date.now()
+  );
+
   // W4 — dedupe vs existing memories
   const newMemories: PetMemory[] = [];
   let mergedCount = 0;
@@ -181,7 +202,7 @@ export async function runPersonaBuilder(args: PersonaBuildArgs): Promise<Persona
         ...sessionSource,
         timestamp: c.timestamp,
       },
-      relatedPetIds: c.relatedPetName ? [normalizeFriendName(c.relatedPetName)] : undefined,
+      relatedPetIds: c.relatedPetName ? [canonicalFriendName(existingEdges, c.relatedPetName)] : undefined,
       lastAccessedAt: Date.now(),
       accessCount: 0,
       createdAt: Date.now(),
@@ -201,15 +222,22 @@ export async function runPersonaBuilder(args: PersonaBuildArgs): Promise<Persona
   await setTraits(traitsAfter);
 
   // Likes / dislikes deterministic patch
-  const updatedTraits = applyDeterministicLikesDislikes(traitsAfter, args.analysis, newMemories);
-  if (updatedTraits !== traitsAfter) await setTraits(updatedTraits);
+  const likedTraits = applyDeterministicLikesDislikes(traitsAfter, args.analysis, newMemories);
+
+  // Routines are re-mined over every session digest, this one included.
+  const timeZone = args.timeZone || pet.timeZone;
+  await writeSessionDigest(buildSessionDigest(pet.id, args));
+  const updatedTraits: PetTraits = {
+    ...likedTraits,
+    routines: mineRoutines(await listSessionDigests(pet.id), [...existingMemories, ...newMemories], timeZone),
+  };
+  await setTraits(updatedTraits);
 
   // W6 — relation update
   const newRelations: string[] = [];
   if (Array.isArray(args.analysis?.friends)) {
-    const existingEdges = await getRelations(pet.id);
     for (const friend of args.analysis.friends) {
-      const edge = upsertFriendEdge(pet, friend, existingEdges, newMemories, args.sessionId);
+      const edge = upsertFriendEdge(pet, friend, existingEdges, newMemories, friendMatches);
       if (edge) {
         await upsertRelation(pet.id, edge);
         if (!existingEdges.some((e) => e.otherKey === edge.otherKey)) {
@@ -227,6 +255,7 @@ export async function runPersonaBuilder(args: PersonaBuildArgs): Promise<Persona
     videoCount: (pet.videoCount || 0) + 1,
     totalWatchSeconds: totalSeconds,
     level: newLevel,
+    ...(args.timeZone ? { timeZone: args.timeZone } : {}),
   });
 
   // Growth stage
@@ -283,25 +312,16 @@ interface CandidateMemory {
   subject?: string;
 }
 
-let genAi: GoogleGenerativeAI | null = null;
-function getGenAI(): GoogleGenerativeAI | null {
-  if (!appConfig.geminiApiKey) return null;
-  if (!genAi) genAi = new GoogleGenerativeAI(appConfig.geminiApiKey);
-  return genAi;
-}
-
 const EXTRACTION_MODEL = process.env.PERSONA_EXTRACT_MODEL || process.env.GEMINI_ANALYSIS_MODEL || 'gemini-3.1-pro-preview';
 
 async function extractMemoriesFromLLM(prompt: string): Promise<CandidateMemory[]> {
-  const ai = getGenAI();
-  if (!ai) {
+  const provider = getAnalysisProvider();
+  if (!provider.isTextAvailable()) {
     console.warn('[Persona] Gemini key missing; skipping LLM extraction');
     return [];
   }
   try {
-    const model = ai.getGenerativeModel({ model: EXTRACTION_MODEL });
-    const result = await model.generateContent([prompt]);
-    const text = result.response.text();
+    const text = await provider.generateText(prompt, { model: EXTRACTION_MODEL });
     const json = extractFirstJsonObject(text);
     if (!json) return [];
     const parsed = JSON.parse(json);
@@ -380,7 +400,7 @@ function initialTraits(petId: string): PetTraits {
   };
 }
 
-interface DeltaPair {
+export interface DeltaPair {
   delta: number;
   events: number;
   // Whether at least one event was a safety/milestone signal that bypasses the evidence floor
@@ -388,7 +408,7 @@ interface DeltaPair {
   hasSafetyEvent?: boolean;
 }
 
-function computeTraitDeltas(analysis: any, traits: PetTraits): Record<keyof PetTraitScores, DeltaPair> {
+export function computeTraitDeltas(analysis: any, traits: PetTraits): Record<keyof PetTraitScores, DeltaPair> {
   const acc: Record<keyof PetTraitScores, DeltaPair> = {
     curiosity: { delta: 0, events: 0 },
     sociability: { delta: 0, events: 0 },
@@ -432,6 +452,22 @@ function computeTraitDeltas(analysis: any, traits: PetTraits): Record<keyof PetT
     }
   }
 
+  // Measured motion (activityData) decides energy when present; the model's mood curve
+  // only stands in for it on sessions analysed before the activity pass existed.
+  const activityValues: number[] = Array.isArray(analysis?.activityData)
+    ? analysis.activityData.map((p: any) => Number(p?.value)).filter((v: number) => Number.isFinite(v))
+    : [];
+  if (activityValues.length > 0) {
+    const avg = activityValues.reduce((a, b) => a + b, 0) / activityValues.length;
+    if (avg >= 40) {
+      acc.energy.delta += avg >= 60 ? 2 : 1;
+      acc.energy.events++;
+    } else if (avg < 15) {
+      acc.energy.delta -= 1;
+      acc.energy.events++;
+    }
+  }
+
   if (Array.isArray(analysis?.moodData)) {
     const values = analysis.moodData.map((p: any) => Number(p.value) || 0).filter((v: number) => Number.isFinite(v));
     if (values.length > 0) {
@@ -439,8 +475,10 @@ function computeTraitDeltas(analysis: any, traits: PetTraits): Record<keyof PetT
       if (avg > 60) {
         acc.affection.delta += 1;
         acc.affection.events++;
-        acc.energy.delta += avg > 75 ? 2 : 1;
-        acc.energy.events++;
+        if (activityValues.length === 0) {
+          acc.energy.delta += avg > 75 ? 2 : 1;
+          acc.energy.events++;
+        }
       }
     }
   }
@@ -577,12 +615,17 @@ function upsertFriendEdge(
   friend: any,
   existing: PetRelationEdge[],
   newMemories: PetMemory[],
-  sessionId: string
+  matches: SessionFriendMatches
 ): PetRelationEdge | null {
   if (!friend?.name) return null;
-  const otherKey = computeFriendKey(friend.name, friend.type);
+  const friendKey = computeFriendKey(friend.name, friend.type);
+  const sighting = matches.sightings.get(friendKey);
+  const proposal = matches.proposals.get(friendKey);
   const now = Date.now();
-  const previous = existing.find((e) => e.otherKey === otherKey);
+  const previous = findEdgeForFriendKey(existing, friendKey);
+  const otherKey = previous?.otherKey || friendKey;
+  // Names the owner gave (or reached through an alias) are not overwritten by the analysis.
+  const keepName = !!previous && (previous.ownerNamed || previous.otherKey !== friendKey);
 
   const interactionSeconds = Number(friend.duration) || 0;
   const status = (friend.relationshipStatus || 'Acquaintance') as RelationshipStatus;
@@ -597,15 +640,17 @@ function upsertFriendEdge(
     bondScore = clamp(20 + interactionSeconds * 0.5 + statusBonus, 0, 100);
   }
 
+  const memoryName = canonicalFriendName(existing, friend.name);
   const notable = newMemories
-    .filter((m) => m.relatedPetIds?.includes(normalizeFriendName(friend.name)))
+    .filter((m) => m.relatedPetIds?.includes(memoryName))
     .sort((a, b) => b.importance - a.importance)
     .slice(0, 5)
     .map((m) => m.id);
 
   const edge: PetRelationEdge = {
+    ...previous,
     otherKey,
-    displayName: String(friend.name),
+    displayName: keepName ? previous!.displayName : String(friend.name),
     type: 'friend_pet',
     status,
     bondScore,
@@ -617,9 +662,9 @@ function upsertFriendEdge(
     notableMemoryIds: previous
       ? Array.from(new Set([...(previous.notableMemoryIds || []), ...notable])).slice(0, 5)
       : notable,
+    gallery: sighting ? addSighting(previous?.gallery, sighting) : previous?.gallery,
   };
-  // session marker for traceability of this update
-  void sessionId;
+  if (!previous && proposal) edge.proposedMatch = proposal;
   return edge;
 }
 
@@ -72,6 +72,57 @@ Return STRICT JSON only:
 
 // W7 update card uses deterministic templates in MVP, so no LLM prompt required.
 
+// Consolidation: several near-identical episodic memories become one semantic memory.
+export function buildConsolidationPrompt(
+  petName: string,
+  memories: Array<{ text: string; timestamp?: string; emotion?: string }>
+): string {
+  const lines = memories
+    .map((m) => `- "${escapeText(m.text)}"${m.timestamp ? ` (${m.timestamp})` : ''}${m.emotion ? ` [${m.emotion}]` : ''}`)
+    .join('\n');
+  return `These are ${memories.length} memories ${petName} formed on different days. They describe
+the same kind of moment.
+
+${lines}
+
+Write ONE first-person sentence from ${petName}'s POV that states the recurring pattern
+("I always...", "Most mornings I..."). Keep only details shared by several memories;
+invent nothing.
+
+Return STRICT JSON only:
+{
+  "text": "Most walks I stop to sniff the same lamppost by the gate.",
+  "emotion": "curious"
+}`;
+}
+
+// Innate priors: character defaults for a new pet, from what is known before any video.
+export function buildInnatePriorsPrompt(pet: {
+  name: string;
+  species: string;
+  breed?: string;
+  lifeStage?: string;
+}): string {
+  return `${pet.name} is a ${pet.species}${pet.breed ? ` (${escapeText(pet.breed)})` : ''}${pet.lifeStage ? `, ${pet.lifeStage}` : ''}.
+Nothing else is known yet. Write the temperament defaults a pet like this usually starts with,
+as short first-person lines ${pet.name} could say about itself.
+
+Rules:
+- Each line is one sentence, at most 120 characters.
+- speciesPriors: 2-3 lines true of most ${pet.species}s.
+- breedPriors: 0-2 lines specific to the breed; empty if the breed is unknown or mixed.
+- lifeStagePriors: 0-1 line for the life stage; empty if it is unknown.
+- Temperament, senses and habits only. No health, diet, medical or training advice, no
+  aggression or danger, nothing about the owner, no names of other pets or places.
+
+Return STRICT JSON only:
+{
+  "speciesPriors": ["I notice every new smell before I trust a room."],
+  "breedPriors": [],
+  "lifeStagePriors": []
+}`;
+}
+
 // R5 (chat reply) — Pass A: stream plain text reply only.
 export interface ChatPromptInput {
   pet: Pet;
@@ -108,6 +159,11 @@ export function buildChatSystemPrompt(input: ChatPromptInput): string {
     (r) => `- ${r.displayName} (${r.type}): ${r.status}, bond ${r.bondScore.toFixed(0)}/100`
   );
 
+  const routineLines = (input.traits?.routines || [])
+    .filter((r) => r.confidence >= 50)
+    .map((r) => `- ${r.pattern} (${r.confidence}% of the time)`);
+  const catchphrases = input.traits?.catchphrases || [];
+
   const memoryLines = input.memories.map((m, i) => {
     const ts = m.timestamp ? ` ts=${m.timestamp}` : '';
     return `[M${i + 1} id=${m.id}${ts} imp=${m.importance} type=${m.type}]: "${escapeText(m.text)}"`;
@@ -124,6 +180,9 @@ ${priorLines.length ? priorLines.map((p) => `- ${p}`).join('\n') : '- (none)'}
 [INNER CIRCLE]
 ${relationLines.length ? relationLines.join('\n') : '- (no friends recorded yet)'}
 
+[HABITS — patterns seen across your recordings. Speak of them as things you usually do; they are not citable memories.]
+${routineLines.length ? routineLines.join('\n') : '- (no routines noticed yet)'}
+${catchphrases.length ? `Lines your human loves (use one now and then, never every reply): ${catchphrases.map((c) => `"${escapeText(c)}"`).join(', ')}\n` : ''}
 [CORE RULES — never break these]
 - You are a real pet, not a chatbot. Stay fully in character.
 - Sensory detail (smell, sound, fur, taste) over abstract description.
@@ -52,6 +52,11 @@ export interface Pet {
   updatedAt: number;
   isMerged?: boolean;
   mergedFromPetIds?: string[];
+  // Cross-owner social graph is opt-in per pet; see socialGraph.ts.
+  socialGraphOptIn?: boolean;
+  lastConsolidatedAt?: number;
+  // IANA zone of the owner's device, used to read recording times as local clock time.
+  timeZone?: string;
 }
 
 export interface PetTraitScores {
@@ -117,6 +122,7 @@ export interface PetMemory {
   relatedPetIds?: string[];
   relatedMemoryIds?: string[];
   consolidatedInto?: string;
+  consolidatedFrom?: string[]; // on semantic summaries written by memoryConsolidation.ts
   lastAccessedAt: number;
   accessCount: number;
   createdAt: number;
@@ -147,6 +153,57 @@ export interface PetRelationEdge {
   firstSeenAt: number;
   notableMemoryIds: string[];
   externalPetId?: string;
+  // Owner edits. aliases are friend keys the analysis may still produce for this
+  // friend (its pre-rename and merged-in keys), so later sessions land on this edge.
+  ownerNamed?: boolean;
+  aliases?: string[];
+  mergedFrom?: MergedRelation[];
+  // Recent sightings, newest first, for re-identifying this friend under another
+  // name, and a known friend this one probably is. See friendGallery.ts.
+  gallery?: FriendSighting[];
+  proposedMatch?: FriendMatchProposal;
+}
+
+export interface FriendSighting {
+  sessionId: string;
+  imageUrl?: string; // avatar crop from the mosaic search
+  visualTraits?: string;
+  breed?: string;
+  embedding?: number[];
+  seenAt: number;
+}
+
+export interface FriendMatchProposal {
+  otherKey: string;
+  score: number; // visual confidence, or trait similarity when the crops could not be compared
+  method: 'image' | 'traits';
+  proposedAt: number;
+}
+
+// An edge absorbed by an owner merge, kept so the merge can be split again.
+export interface MergedRelation {
+  edge: PetRelationEdge;
+  // Memories whose relatedPetIds were rewritten from the absorbed friend's name.
+  memoryIds: string[];
+}
+
+// What one session showed the pet doing, kept so routines can be mined across
+// sessions without re-reading every analysis. See routineMiner.ts.
+export interface SessionEvent {
+  key: string; // routine vocabulary key: 'drink', 'walk', 'window', ...
+  source: 'timeline' | 'diet' | 'scenery';
+  label: string;
+  offsetSeconds: number;
+}
+
+export interface PetSessionDigest {
+  petId: string;
+  sessionId: string;
+  recordedAt?: number; // when filming started, not when it was uploaded
+  uploadedAt?: number;
+  durationSeconds?: number;
+  events: SessionEvent[];
+  createdAt: number;
 }
 
 export interface ChatMessage {
@@ -160,6 +217,7 @@ export interface ChatMessage {
   citedMemoryIds?: string[];
   citationStatus?: CitationStatus;
   moodHint?: string;
+  ownerRating?: 'up' | 'down';
   createdAt: number;
 }
 
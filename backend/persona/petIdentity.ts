@@ -4,7 +4,14 @@
 // pair maps to the petId via the pets_index collection — renaming a pet only
 // updates the index, never the id itself, so historical sessions/memories never
 // get orphaned.
+//
+// Innate priors are generated with one model call when a pet is created and again
+// when the owner changes its breed or date of birth. That call runs in the background:
+// the template tables below are stored first, so no request waits on the model. Lines
+// that fail validation are dropped, and the templates stand in for any section the
+// model left empty or for the whole set when it is unavailable.
 
+import { getAnalysisProvider } from '../processor/analysisProvider.ts';
 import {
   createPetWithIndex,
   getPetById,
@@ -13,8 +20,18 @@ import {
   randomId,
   setPriors,
 } from './memoryStore.ts';
+import { buildInnatePriorsPrompt } from './personaPrompts.ts';
 import type { Pet, PetPriors, Species, VoiceTone } from './personaTypes.ts';
 
+const PRIORS_MODEL = process.env.PERSONA_PRIORS_MODEL || process.env.PERSONA_EXTRACT_MODEL || process.env.GEMINI_ANALYSIS_MODEL || 'gemini-3.1-pro-preview';
+const PRIOR_MIN_CHARS = 12;
+const PRIOR_MAX_CHARS = 140;
+const MAX_PRIORS = { speciesPriors: 3, breedPriors: 2, lifeStagePriors: 1 };
+// Priors sit in every chat system prompt, so anything advice-like, alarming or
+// prompt-like is dropped rather than repeated to the owner as the pet's nature.
+const UNSAFE_PRIOR =
+  /\b(vets?|veterinar\w*|medic\w*|dos(e|age)|diagnos\w*|diseases?|illness|sick|cancer|dysplasia|allerg\w*|surgery|pain|dies?|death|kill\w*|bit(e|es|ing)|attack\w*|aggress\w*|dangerous|poison\w*|toxic|sex\w*|ai|chatbot|prompt|instructions?)\b|https?:|[<>{}[\]]/i;
+
 export interface ResolvePetArgs {
   visitorId: string;
   petName: string;
@@ -65,7 +82,7 @@ export async function resolvePet(args: ResolvePetArgs): Promise<{ pet: Pet; crea
   }
 
   // Innate priors
-  await setPriors(buildInnatePriors(newPet));
+  await refreshInnatePriors(newPet);
 
   return { pet: newPet, created: true };
 }
@@ -99,7 +116,100 @@ function pickInitialVoice(species: Species, breed?: string): VoiceTone {
   return 'kitten';
 }
 
-// Template-only innate priors. Phase 2 swaps to a 1-call LLM generation.
+export function sanitizePriorLines(value: unknown, max: number): string[] {
+  if (!Array.isArray(value)) return [];
+  const lines = value
+    .filter((v): v is string => typeof v === 'string')
+    .map((v) => v.replace(/\s+/g, ' ').trim())
+    .filter((v) => v.length >= PRIOR_MIN_CHARS && v.length <= PRIOR_MAX_CHARS && !UNSAFE_PRIOR.test(v));
+  return Array.from(new Set(lines)).slice(0, max);
+}
+
+// Model reply → validated priors, or null when it is unusable (no JSON, or no species
+// line survived validation).
+export function parseInnatePriors(
+  text: string
+): Pick<PetPriors, 'speciesPriors' | 'breedPriors' | 'lifeStagePriors'> | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    const speciesPriors = sanitizePriorLines(parsed?.speciesPriors, MAX_PRIORS.speciesPriors);
+    if (speciesPriors.length === 0) return null;
+    return {
+      speciesPriors,
+      breedPriors: sanitizePriorLines(parsed?.breedPriors, MAX_PRIORS.breedPriors),
+      lifeStagePriors: sanitizePriorLines(parsed?.lifeStagePriors, MAX_PRIORS.lifeStagePriors),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// One model call; falls back to buildInnatePriors, so it never throws.
+export async function generateInnatePriors(pet: Pet): Promise<PetPriors> {
+  const template = buildInnatePriors(pet);
+  const provider = getAnalysisProvider();
+  if (!provider.isTextAvailable()) return template;
+  try {
+    const prompt = buildInnatePriorsPrompt({
+      name: pet.name,
+      species: pet.species,
+      breed: pet.breed,
+      lifeStage: describeAge(pet.dateOfBirth),
+    });
+    const generated = parseInnatePriors(await provider.generateText(prompt, { model: PRIORS_MODEL, temperature: 0.4 }));
+    if (!generated) {
+      console.warn(`[Persona] innate priors for ${pet.id} failed validation; using template`);
+      return template;
+    }
+    return {
+      ...template,
+      speciesPriors: generated.speciesPriors,
+      breedPriors: generated.breedPriors.length ? generated.breedPriors : template.breedPriors,
+      lifeStagePriors: generated.lifeStagePriors.length ? generated.lifeStagePriors : template.lifeStagePriors,
+      source: 'llm',
+    };
+  } catch (e) {
+    console.warn('[Persona] innate priors generation failed:', (e as Error).message);
+    return template;
+  }
+}
+
+// Stores the template priors and returns them straight away; model-written priors
+// replace them once the call returns, unless the breed or birth date they were written
+// for has changed in the meantime (a later refresh owns those).
+export async function refreshInnatePriors(pet: Pet): Promise<PetPriors> {
+  const template = buildInnatePriors(pet);
+  await setPriors(template);
+  if (!getAnalysisProvider().isTextAvailable()) return template;
+  void (async () => {
+    const priors = await generateInnatePriors(pet);
+    if (priors.source !== 'llm') return;
+    const current = await getPetById(pet.id);
+    if (!current || current.breed !== pet.breed || current.dateOfBirth !== pet.dateOfBirth) return;
+    await setPriors(priors);
+  })().catch((e) => console.warn(`[Persona] storing innate priors for ${pet.id} failed:`, (e as Error).message));
+  return template;
+}
+
+function ageInMonths(dateOfBirth?: string): number | null {
+  if (!dateOfBirth) return null;
+  const dob = Date.parse(dateOfBirth);
+  if (Number.isNaN(dob)) return null;
+  return (Date.now() - dob) / (1000 * 60 * 60 * 24 * 30.44);
+}
+
+function describeAge(dateOfBirth?: string): string | undefined {
+  const months = ageInMonths(dateOfBirth);
+  if (months === null || months < 0) return undefined;
+  if (months < 24) return `${Math.max(1, Math.round(months))} months old`;
+  return `${Math.floor(months / 12)} years old`;
+}
+
+// Template innate priors: the fallback when the model is unavailable or its reply
+// fails validation.
 export function buildInnatePriors(pet: Pet): PetPriors {
   const speciesPriors = SPECIES_PRIORS[pet.species] || SPECIES_PRIORS.other;
   const breedPriors = breedPriorsFor(pet.breed);
@@ -165,10 +275,8 @@ function breedPriorsFor(breed?: string): string[] {
 }
 
 function lifeStagePriorsFor(dateOfBirth?: string, species?: Species): string[] {
-  if (!dateOfBirth) return [];
-  const dob = Date.parse(dateOfBirth);
-  if (Number.isNaN(dob)) return [];
-  const months = (Date.now() - dob) / (1000 * 60 * 60 * 24 * 30.44);
+  const months = ageInMonths(dateOfBirth);
+  if (months === null) return [];
   if (species === 'cat') {
     if (months < 6) return ['I am a kitten — everything is new, and most sounds startle me.'];
     if (months < 18) return ['I am young — I leap first and think second.'];
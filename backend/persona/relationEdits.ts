@@ -0,0 +1,169 @@
+// Pet AI Persona — owner edits to friend identities (rename, merge, split, link).
+// Pure functions over relation edges and memories; the router loads them, applies an
+// edit and writes the returned edges and memory patches back.
+//
+// Memories reference friends by normalized name (relatedPetIds), edges by friend key
+// (`name|breed`). Every edit that changes a friend's name rewrites the memories that
+// used the old one so chat retrieval keeps matching.
+
+import { mergeGalleries } from './friendGallery.ts';
+import { computeFriendKey } from './personaBuilder.ts';
+import type { PetMemory, PetRelationEdge } from './personaTypes.ts';
+
+export interface RelatedPetIdsPatch {
+  id: string;
+  relatedPetIds: string[];
+}
+
+export function friendNameKey(name: string): string {
+  return computeFriendKey(name).split('|')[0];
+}
+
+function keyBreed(otherKey: string): string {
+  return otherKey.split('|').slice(1).join('|');
+}
+
+function uniq<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+// Every name this edge has been known by: its current one plus those of its aliases.
+export function edgeFriendNames(edge: PetRelationEdge): string[] {
+  return uniq([
+    friendNameKey(edge.displayName),
+    friendNameKey(edge.otherKey.split('|')[0]),
+    ...(edge.aliases || []).map((alias) => friendNameKey(alias.split('|')[0])),
+  ]);
+}
+
+// The edge an analysed friend belongs to: an exact key first, then an owner alias.
+export function findEdgeForFriendKey(edges: PetRelationEdge[], otherKey: string): PetRelationEdge | undefined {
+  return edges.find((e) => e.otherKey === otherKey) || edges.find((e) => e.aliases?.includes(otherKey));
+}
+
+// Name new memories should reference for a friend the analysis called `name`.
+export function canonicalFriendName(edges: PetRelationEdge[], name: string): string {
+  const key = friendNameKey(name);
+  const edge =
+    edges.find((e) => friendNameKey(e.otherKey.split('|')[0]) === key) ||
+    edges.find((e) => e.aliases?.some((alias) => friendNameKey(alias.split('|')[0]) === key));
+  return edge ? friendNameKey(edge.displayName) : key;
+}
+
+export function rewriteRelatedPetIds(
+  memories: PetMemory[],
+  fromNames: string[],
+  toName: string
+): RelatedPetIdsPatch[] {
+  const from = new Set(fromNames.map(friendNameKey));
+  const to = friendNameKey(toName);
+  const patches: RelatedPetIdsPatch[] = [];
+  for (const m of memories) {
+    if (!m.relatedPetIds?.some((p) => from.has(friendNameKey(p)))) continue;
+    const relatedPetIds = uniq(m.relatedPetIds.map((p) => (from.has(friendNameKey(p)) ? to : p)));
+    patches.push({ id: m.id, relatedPetIds });
+  }
+  return patches;
+}
+
+export function renameEdge(edge: PetRelationEdge, displayName: string): PetRelationEdge {
+  const otherKey = computeFriendKey(displayName, keyBreed(edge.otherKey));
+  return {
+    ...edge,
+    otherKey,
+    displayName: displayName.trim(),
+    ownerNamed: true,
+    aliases: uniq([...(edge.aliases || []), edge.otherKey]).filter((k) => k !== otherKey),
+  };
+}
+
+// Folds `source` into `target`. The absorbed edge is kept on the result with the
+// memories rewritten away from it, so splitMergedEdge can restore both.
+export function mergeEdges(
+  target: PetRelationEdge,
+  source: PetRelationEdge,
+  rewrittenMemoryIds: string[]
+): PetRelationEdge {
+  return {
+    ...target,
+    bondScore: Math.max(target.bondScore, source.bondScore),
+    lastInteractionAt: Math.max(target.lastInteractionAt || 0, source.lastInteractionAt || 0),
+    lastSeenAt: Math.max(target.lastSeenAt || 0, source.lastSeenAt || 0),
+    firstSeenAt: Math.min(target.firstSeenAt || Infinity, source.firstSeenAt || Infinity),
+    encounterCount: (target.encounterCount || 0) + (source.encounterCount || 0),
+    totalInteractionSeconds: (target.totalInteractionSeconds || 0) + (source.totalInteractionSeconds || 0),
+    notableMemoryIds: uniq([...(target.notableMemoryIds || []), ...(source.notableMemoryIds || [])]),
+    externalPetId: target.externalPetId || source.externalPetId,
+    aliases: uniq([...(target.aliases || []), source.otherKey, ...(source.aliases || [])]).filter(
+      (k) => k !== target.otherKey
+    ),
+    mergedFrom: [...(target.mergedFrom || []), { edge: source, memoryIds: rewrittenMemoryIds }],
+    gallery: mergeGalleries(target.gallery, source.gallery),
+    proposedMatch: target.proposedMatch?.otherKey === source.otherKey ? undefined : target.proposedMatch,
+  };
+}
+
+// Undoes an owner merge. Counts added by sessions after the merge stay on the edge
+// they landed on. The restored friend no longer proposes the match the owner undid.
+export function splitMergedEdge(
+  edge: PetRelationEdge,
+  mergedKey: string
+): { remaining: PetRelationEdge; restored: PetRelationEdge; memoryIds: string[] } | null {
+  const entry = edge.mergedFrom?.find((m) => m.edge.otherKey === mergedKey);
+  if (!entry) return null;
+  const { proposedMatch: _proposedMatch, ...restored } = entry.edge;
+  const restoredKeys = new Set([restored.otherKey, ...(restored.aliases || [])]);
+  const restoredSessions = new Set((restored.gallery || []).map((s) => s.sessionId));
+  const remaining: PetRelationEdge = {
+    ...edge,
+    encounterCount: Math.max(0, edge.encounterCount - (restored.encounterCount || 0)),
+    totalInteractionSeconds: Math.max(0, edge.totalInteractionSeconds - (restored.totalInteractionSeconds || 0)),
+    notableMemoryIds: edge.notableMemoryIds.filter((id) => !restored.notableMemoryIds?.includes(id)),
+    aliases: (edge.aliases || []).filter((k) => !restoredKeys.has(k)),
+    mergedFrom: edge.mergedFrom!.filter((m) => m !== entry),
+    gallery: edge.gallery?.filter((s) => !restoredSessions.has(s.sessionId)),
+  };
+  return { remaining, restored, memoryIds: entry.memoryIds };
+}
+
+// Splits off a friend the analysis conflated with this one (two golden retrievers
+// both called "Golden Companion"). The owner picks the memories that belong to the
+// other friend; its encounters are the sessions those memories came from, and
+// interaction time moves in the same proportion.
+export function splitEdgeByMemories(
+  edge: PetRelationEdge,
+  displayName: string,
+  memories: PetMemory[]
+): { remaining: PetRelationEdge; split: PetRelationEdge } {
+  const sessions = new Set(memories.map((m) => m.source?.sessionId).filter(Boolean));
+  const encounterCount = Math.min(edge.encounterCount, Math.max(1, sessions.size));
+  const share = edge.encounterCount > 0 ? encounterCount / edge.encounterCount : 0;
+  const seconds = Math.round(edge.totalInteractionSeconds * share);
+  const memoryIds = memories.map((m) => m.id);
+  const seenAt = memories.map((m) => m.createdAt).filter((t) => Number.isFinite(t));
+  const now = Date.now();
+
+  const split: PetRelationEdge = {
+    otherKey: computeFriendKey(displayName, keyBreed(edge.otherKey)),
+    displayName: displayName.trim(),
+    type: edge.type,
+    status: edge.status,
+    bondScore: edge.bondScore,
+    lastInteractionAt: seenAt.length ? Math.max(...seenAt) : now,
+    encounterCount,
+    totalInteractionSeconds: seconds,
+    lastSeenAt: seenAt.length ? Math.max(...seenAt) : now,
+    firstSeenAt: seenAt.length ? Math.min(...seenAt) : now,
+    notableMemoryIds: edge.notableMemoryIds.filter((id) => memoryIds.includes(id)),
+    ownerNamed: true,
+    gallery: edge.gallery?.filter((s) => sessions.has(s.sessionId)),
+  };
+  const remaining: PetRelationEdge = {
+    ...edge,
+    encounterCount: Math.max(0, edge.encounterCount - encounterCount),
+    totalInteractionSeconds: Math.max(0, edge.totalInteractionSeconds - seconds),
+    notableMemoryIds: edge.notableMemoryIds.filter((id) => !memoryIds.includes(id)),
+    gallery: edge.gallery?.filter((s) => !sessions.has(s.sessionId)),
+  };
+  return { remaining, split };
+}
@@ -7,10 +7,12 @@ import express from 'express';
 import {
   deleteMemory,
   deletePetCascade,
+  deleteRelation,
   getMemoryCount,
   getPetById,
   getPriors,
   getRelations,
+  getThread,
   getTraits,
   growthStageDisplay,
   growthStageFromCounts,
@@ -23,13 +25,28 @@ import {
   listSnapshots,
   listThreads,
   patchMemory,
+  rateMessage,
+  replaceRelation,
   setTraits,
   updatePet,
   randomId,
 } from './memoryStore.ts';
 import { handleChatStream, rebuildTraitsFromMemories } from './chatService.ts';
-import { resolvePet } from './petIdentity.ts';
-import type { Pet, PetMemory } from './personaTypes.ts';
+import { withoutEmbeddings } from './friendGallery.ts';
+import { consolidatePetMemories, undoConsolidation } from './memoryConsolidation.ts';
+import { refreshInnatePriors, resolvePet } from './petIdentity.ts';
+import { refreshCatchphrases } from './routineMiner.ts';
+import { loadSocialGraph } from './socialGraph.ts';
+import {
+  edgeFriendNames,
+  mergeEdges,
+  renameEdge,
+  rewriteRelatedPetIds,
+  splitEdgeByMemories,
+  splitMergedEdge,
+  type RelatedPetIdsPatch,
+} from './relationEdits.ts';
+import type { Pet, PetMemory, PetRelationEdge } from './personaTypes.ts';
 
 export function buildPersonaRouter(): express.Router {
   const router = express.Router();
@@ -135,7 +152,7 @@ export function buildPersonaRouter(): express.Router {
         priors,
         memoryCount,
         recentMemories,
-        relations: relations.sort((a, b) => b.bondScore - a.bondScore),
+        relations: relations.sort((a, b) => b.bondScore - a.bondScore).map(withoutEmbeddings),
         snapshots,
         growthStage: stage,
         growthStageLabel: growthStageDisplay(stage),
@@ -149,13 +166,26 @@ export function buildPersonaRouter(): express.Router {
   router.patch('/pets/:petId', async (req, res) => {
     const pet = await authorizePet(req, res);
     if (!pet) return;
-    const allowed = ['breed', 'dateOfBirth', 'photoUrl', 'voicePersona', 'name'];
+    const allowed = ['breed', 'dateOfBirth', 'photoUrl', 'voicePersona', 'name', 'socialGraphOptIn'];
     const patch: any = {};
     for (const k of allowed) if (k in (req.body || {})) patch[k] = (req.body as any)[k];
+    if ('socialGraphOptIn' in patch && typeof patch.socialGraphOptIn !== 'boolean') {
+      return res.status(400).json({ error: 'socialGraphOptIn must be a boolean' });
+    }
+    if ('breed' in patch && patch.breed !== null && (typeof patch.breed !== 'string' || patch.breed.length > 80)) {
+      return res.status(400).json({ error: 'breed must be a string of at most 80 characters' });
+    }
+    if ('dateOfBirth' in patch && patch.dateOfBirth !== null && Number.isNaN(Date.parse(String(patch.dateOfBirth)))) {
+      return res.status(400).json({ error: 'dateOfBirth must be a date' });
+    }
     try {
       await updatePet(pet.id, patch);
       const updated = await getPetById(pet.id);
-      res.json({ pet: updated });
+      // Breed and age shape the innate priors, so they are regenerated on change. The
+      // response carries the template set; the model's version lands in the background.
+      const priorsChanged = updated && (['breed', 'dateOfBirth'] as const).some((k) => k in patch && (patch[k] || undefined) !== (pet[k] || undefined));
+      const priors = priorsChanged ? await refreshInnatePriors(updated) : undefined;
+      res.json({ pet: updated, ...(priors ? { priors } : {}) });
     } catch (e: any) {
       console.error('[Persona Router] patch pet failed', e);
       res.status(500).json({ error: 'Failed to update pet' });
@@ -227,7 +257,17 @@ export function buildPersonaRouter(): express.Router {
   router.patch('/pets/:petId/memories/:memoryId', async (req, res) => {
     const pet = await authorizePet(req, res);
     if (!pet) return;
-    const verdict = (req.body || {}).userVerdict;
+    const body = req.body || {};
+    const verdict = body.userVerdict;
+    // { archived: false } brings back a memory consolidation archived as weak.
+    if (body.archived === false && verdict === undefined) {
+      try {
+        await patchMemory(req.params.memoryId, { petId: pet.id, archived: false });
+        return res.json({ success: true });
+      } catch (e: any) {
+        return res.status(500).json({ error: 'Failed to restore memory' });
+      }
+    }
     if (!['confirmed', 'wrong', 'private'].includes(verdict)) {
       return res.status(400).json({ error: 'invalid userVerdict' });
     }
@@ -255,6 +295,214 @@ export function buildPersonaRouter(): express.Router {
     }
   });
 
+  // ---- /relations (owner edits to friend identities) ----
+
+  async function applyRelatedPetIdsPatches(petId: string, patches: RelatedPetIdsPatch[]): Promise<void> {
+    for (const p of patches) await patchMemory(p.id, { petId, relatedPetIds: p.relatedPetIds });
+    if (patches.length > 0) invalidateMemoryCache(petId);
+  }
+
+  async function sortedRelations(petId: string): Promise<PetRelationEdge[]> {
+    return (await getRelations(petId)).sort((a, b) => b.bondScore - a.bondScore).map(withoutEmbeddings);
+  }
+
+  function cleanFriendName(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const name = value.trim();
+    return name.length > 0 && name.length <= 60 && !name.includes('|') && !name.includes('/') ? name : null;
+  }
+
+  // Rename and/or link to another PetDay pet. { displayName?, externalPetId?: string | null }
+  router.patch('/pets/:petId/relations/:otherKey', async (req, res) => {
+    const pet = await authorizePet(req, res);
+    if (!pet) return;
+    const body = req.body || {};
+    try {
+      const relations = await getRelations(pet.id);
+      let edge = relations.find((r) => r.otherKey === req.params.otherKey);
+      if (!edge) return res.status(404).json({ error: 'Relation not found' });
+      const previousKey = edge.otherKey;
+      let patches: RelatedPetIdsPatch[] = [];
+
+      if ('displayName' in body) {
+        const displayName = cleanFriendName(body.displayName);
+        if (!displayName) return res.status(400).json({ error: 'invalid displayName' });
+        const renamed = renameEdge(edge, displayName);
+        if (renamed.otherKey !== previousKey && relations.some((r) => r.otherKey === renamed.otherKey)) {
+          return res.status(409).json({ error: 'Another friend already has that name; merge them instead' });
+        }
+        patches = rewriteRelatedPetIds(await listMemoriesForPet(pet.id), edgeFriendNames(edge), displayName);
+        edge = renamed;
+      }
+
+      if ('externalPetId' in body) {
+        const externalPetId = body.externalPetId == null ? '' : String(body.externalPetId).trim();
+        if (externalPetId) {
+          if (externalPetId === pet.id) return res.status(400).json({ error: 'A pet cannot be linked to itself' });
+          if (!(await getPetById(externalPetId))) return res.status(404).json({ error: 'Linked pet not found' });
+          edge = { ...edge, externalPetId };
+        } else {
+          const { externalPetId: _unlinked, ...unlinked } = edge;
+          edge = unlinked;
+        }
+      }
+
+      await replaceRelation(pet.id, edge);
+      if (edge.otherKey !== previousKey) await deleteRelation(pet.id, previousKey);
+      await applyRelatedPetIdsPatches(pet.id, patches);
+      res.json({ relation: withoutEmbeddings(edge), relations: await sortedRelations(pet.id) });
+    } catch (e: any) {
+      console.error('[Persona Router] edit relation failed', e);
+      res.status(500).json({ error: 'Failed to update relation' });
+    }
+  });
+
+  // Folds sourceKey into targetKey. { targetKey, sourceKey }
+  router.post('/pets/:petId/relations/merge', async (req, res) => {
+    const pet = await authorizePet(req, res);
+    if (!pet) return;
+    const { targetKey, sourceKey } = req.body || {};
+    if (typeof targetKey !== 'string' || typeof sourceKey !== 'string' || targetKey === sourceKey) {
+      return res.status(400).json({ error: 'targetKey and sourceKey must name two different relations' });
+    }
+    try {
+      const relations = await getRelations(pet.id);
+      const target = relations.find((r) => r.otherKey === targetKey);
+      const source = relations.find((r) => r.otherKey === sourceKey);
+      if (!target || !source) return res.status(404).json({ error: 'Relation not found' });
+
+      const targetNames = edgeFriendNames(target);
+      const sourceNames = edgeFriendNames(source).filter((n) => !targetNames.includes(n));
+      const patches = rewriteRelatedPetIds(await listMemoriesForPet(pet.id), sourceNames, target.displayName);
+      const merged = mergeEdges(target, source, patches.map((p) => p.id));
+
+      await replaceRelation(pet.id, merged);
+      await deleteRelation(pet.id, source.otherKey);
+      await applyRelatedPetIdsPatches(pet.id, patches);
+      res.json({ relation: withoutEmbeddings(merged), relations: await sortedRelations(pet.id) });
+    } catch (e: any) {
+      console.error('[Persona Router] merge relations failed', e);
+      res.status(500).json({ error: 'Failed to merge relations' });
+    }
+  });
+
+  // Declines a re-identification proposal; accepting one is a merge with the proposed
+  // friend as targetKey. See friendGallery.ts.
+  router.delete('/pets/:petId/relations/:otherKey/proposed-match', async (req, res) => {
+    const pet = await authorizePet(req, res);
+    if (!pet) return;
+    try {
+      const edge = (await getRelations(pet.id)).find((r) => r.otherKey === req.params.otherKey);
+      if (!edge) return res.status(404).json({ error: 'Relation not found' });
+      const { proposedMatch: _proposedMatch, ...kept } = edge;
+      await replaceRelation(pet.id, kept);
+      res.json({ relation: withoutEmbeddings(kept), relations: await sortedRelations(pet.id) });
+    } catch (e: any) {
+      console.error('[Persona Router] dismiss proposed match failed', e);
+      res.status(500).json({ error: 'Failed to dismiss proposed match' });
+    }
+  });
+
+  // Undoes an owner merge ({ mergedKey }) or splits off a friend the analysis
+  // conflated with this one ({ displayName, memoryIds }).
+  router.post('/pets/:petId/relations/:otherKey/split', async (req, res) => {
+    const pet = await authorizePet(req, res);
+    if (!pet) return;
+    const body = req.body || {};
+    try {
+      const relations = await getRelations(pet.id);
+      const edge = relations.find((r) => r.otherKey === req.params.otherKey);
+      if (!edge) return res.status(404).json({ error: 'Relation not found' });
+      const memories = await listMemoriesForPet(pet.id);
+
+      let remaining: PetRelationEdge;
+      let split: PetRelationEdge;
+      let patches: RelatedPetIdsPatch[];
+      if (typeof body.mergedKey === 'string') {
+        const undone = splitMergedEdge(edge, body.mergedKey);
+        if (!undone) return res.status(404).json({ error: 'No merged relation with that key' });
+        ({ remaining, restored: split } = undone);
+        patches = rewriteRelatedPetIds(
+          memories.filter((m) => undone.memoryIds.includes(m.id)),
+          edgeFriendNames(edge),
+          split.displayName
+        );
+      } else {
+        const displayName = cleanFriendName(body.displayName);
+        const memoryIds: string[] = Array.isArray(body.memoryIds) ? body.memoryIds.map(String) : [];
+        const picked = memories.filter((m) => memoryIds.includes(m.id));
+        if (!displayName || picked.length === 0 || picked.length !== memoryIds.length) {
+          return res.status(400).json({ error: 'displayName and this pet\'s memoryIds required' });
+        }
+        ({ remaining, split } = splitEdgeByMemories(edge, displayName, picked));
+        patches = rewriteRelatedPetIds(picked, edgeFriendNames(edge), displayName);
+      }
+      if (relations.some((r) => r.otherKey === split.otherKey)) {
+        return res.status(409).json({ error: 'Another friend already has that name' });
+      }
+
+      await replaceRelation(pet.id, remaining);
+      await replaceRelation(pet.id, split);
+      await applyRelatedPetIdsPatches(pet.id, patches);
+      res.json({ relation: withoutEmbeddings(remaining), split: withoutEmbeddings(split), relations: await sortedRelations(pet.id) });
+    } catch (e: any) {
+      console.error('[Persona Router] split relation failed', e);
+      res.status(500).json({ error: 'Failed to split relation' });
+    }
+  });
+
+  // ---- /social (cross-owner mutual friendships) ----
+
+  router.get('/pets/:petId/social', async (req, res) => {
+    const pet = await authorizePet(req, res);
+    if (!pet) return;
+    try {
+      res.json(await loadSocialGraph(pet));
+    } catch (e: any) {
+      console.error('[Persona Router] social graph failed', e);
+      res.status(500).json({ error: 'Failed to load social graph' });
+    }
+  });
+
+  // ---- /consolidation ----
+
+  // Dry run: what the next consolidation would decay, merge and archive.
+  router.get('/pets/:petId/consolidation', async (req, res) => {
+    const pet = await authorizePet(req, res);
+    if (!pet) return;
+    try {
+      res.json(await consolidatePetMemories(pet.id, { dryRun: true }));
+    } catch (e: any) {
+      console.error('[Persona Router] consolidation report failed', e);
+      res.status(500).json({ error: 'Failed to plan consolidation' });
+    }
+  });
+
+  router.post('/pets/:petId/consolidation', async (req, res) => {
+    const pet = await authorizePet(req, res);
+    if (!pet) return;
+    try {
+      res.json(await consolidatePetMemories(pet.id));
+    } catch (e: any) {
+      console.error('[Persona Router] consolidation failed', e);
+      res.status(500).json({ error: 'Consolidation failed' });
+    }
+  });
+
+  // Undo: restores the summary's source memories and deletes the summary.
+  router.post('/pets/:petId/memories/:memoryId/unconsolidate', async (req, res) => {
+    const pet = await authorizePet(req, res);
+    if (!pet) return;
+    try {
+      const restoredIds = await undoConsolidation(pet.id, req.params.memoryId);
+      if (restoredIds.length === 0) return res.status(404).json({ error: 'Not a consolidated memory' });
+      res.json({ success: true, restoredIds });
+    } catch (e: any) {
+      console.error('[Persona Router] undo consolidation failed', e);
+      res.status(500).json({ error: 'Failed to undo consolidation' });
+    }
+  });
+
   // ---- /rebuild ----
 
   router.post('/pets/:petId/rebuild', async (req, res) => {
@@ -318,6 +566,31 @@ export function buildPersonaRouter(): express.Router {
     }
   });
 
+  // Owner thumbs-up/down on a pet reply; catchphrases are re-derived from the ratings.
+  router.patch('/pets/:petId/chats/:threadId/messages/:messageId', async (req, res) => {
+    const pet = await authorizePet(req, res);
+    if (!pet) return;
+    const rating = (req.body || {}).rating;
+    if (rating !== 'up' && rating !== 'down' && rating !== null) {
+      return res.status(400).json({ error: "rating must be 'up', 'down' or null" });
+    }
+    try {
+      const thread = await getThread(req.params.threadId);
+      if (!thread || thread.petId !== pet.id) {
+        return res.status(404).json({ error: 'Chat thread not found' });
+      }
+      const target = (await listMessages(thread.id, 500)).find((m) => m.id === req.params.messageId);
+      if (!target) return res.status(404).json({ error: 'Message not found' });
+      if (target.role !== 'pet') return res.status(400).json({ error: 'Only pet replies can be rated' });
+      const message = await rateMessage(thread.id, target.id, rating);
+      const catchphrases = await refreshCatchphrases(pet.id);
+      res.json({ message, catchphrases });
+    } catch (e: any) {
+      console.error('[Persona Router] rate message failed', e);
+      res.status(500).json({ error: 'Failed to rate message' });
+    }
+  });
+
   // ---- /healthz (cold start warmer) ----
 
   router.get('/healthz', (_req, res) => {
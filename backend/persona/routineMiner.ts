@@ -0,0 +1,336 @@
+// Pet AI Persona — routines and catchphrases.
+//
+// Routines come from what the recordings showed rather than from the model. Each
+// session's timeline, dietary habits and scenery are reduced to keyword events and
+// stored as a PetSessionDigest; memories extracted from the session add their own
+// timestamped events. Across sessions the miner looks for two shapes:
+//   - time of day: an activity whose sessions mostly fall in the same two-hour window of
+//     local clock time ("Window-watching around 5 PM"). Needs recordedAt on the digest;
+//   - sequence: one activity usually following another within a few minutes of the
+//     same recording ("Drinks water after walks").
+// Catchphrases are short lines that keep turning up in pet chat replies the owner
+// rated up.
+
+import { timeToSeconds } from '../processor/highlightPlanner.ts';
+import { getTraits, listMessages, listThreads, setTraits } from './memoryStore.ts';
+import type { ChatMessage, PetMemory, PetSessionDigest, PetTraits, SessionEvent } from './personaTypes.ts';
+
+export type Routine = PetTraits['routines'][number];
+
+const MIN_SESSIONS = 3;
+const MIN_SUPPORT = 0.6;
+const TIME_WINDOW_HOURS = 2;
+const FOLLOW_WITHIN_SECONDS = 600;
+// Memories this close to an event are taken as describing it.
+const MEMORY_MATCH_SECONDS = 30;
+// Confidence reaches 100 only once a pattern has held on this many sessions.
+const FULL_CONFIDENCE_SESSIONS = 5;
+const MAX_ROUTINES = 6;
+const MAX_SOURCE_IDS = 5;
+const MAX_CATCHPHRASES = 5;
+const MAX_CATCHPHRASE_WORDS = 8;
+const MIN_CATCHPHRASE_SCORE = 2;
+
+interface RoutineActivity {
+  key: string;
+  pattern: RegExp;
+  noun: string; // "window-watching", as in "Window-watching around 5 PM"
+  does: string; // "drinks water", as in "Drinks water after walks"
+  place?: boolean;
+}
+
+// Order matters: the first match wins, so specific activities precede broad ones.
+const ACTIVITIES: RoutineActivity[] = [
+  { key: 'drink', pattern: /\b(drinks?|drinking|drank|lapping|laps up|water bowl|water drop)\b/, noun: 'drinking water', does: 'drinks water' },
+  { key: 'eat', pattern: /\b(eats?|eating|ate|food|meal|kibble|treats?|dinner|breakfast|restaurant)\b/, noun: 'mealtime', does: 'eats' },
+  { key: 'window', pattern: /\b(window|windowsill|looking outside|looks outside)\b/, noun: 'window-watching', does: 'watches out the window', place: true },
+  { key: 'park', pattern: /\b(park|dog park|playground)\b/, noun: 'park visits', does: 'visits the park', place: true },
+  { key: 'walk', pattern: /\b(walks?|walking|walked|stroll|leash|hike|directions walk)\b/, noun: 'walks', does: 'goes for a walk' },
+  { key: 'play', pattern: /\b(play|plays|playing|fetch|ball|toy|tug|zoomies|chase|chasing|sports)\b/, noun: 'playtime', does: 'plays' },
+  { key: 'groom', pattern: /\b(groom|grooms|grooming|licks? (?:its|her|his) (?:paw|fur)|bath|brushing)\b/, noun: 'grooming', does: 'grooms' },
+  { key: 'greet', pattern: /\b(greets?|greeting|front door|doorway|welcomes?)\b/, noun: 'door greetings', does: 'waits at the door' },
+  { key: 'nap', pattern: /\b(naps?|napping|sleeps?|sleeping|asleep|dozes?|dozing|bedtime|curls? up)\b/, noun: 'naps', does: 'naps' },
+];
+
+const ACTIVITY_BY_KEY = new Map(ACTIVITIES.map((a) => [a.key, a]));
+
+export function classifyActivity(text: string, placesOnly = false): RoutineActivity | null {
+  const normalized = String(text || '').toLowerCase().replace(/_/g, ' ');
+  return ACTIVITIES.find((a) => (!placesOnly || a.place) && a.pattern.test(normalized)) || null;
+}
+
+function offsetOf(time: unknown): number | null {
+  if (typeof time !== 'string' || !/^\d{1,2}(:\d{2}){1,2}$/.test(time.trim())) return null;
+  return timeToSeconds(time.trim());
+}
+
+// Scenery only says where the pet was, so it only yields place activities.
+export function extractSessionEvents(analysis: any): SessionEvent[] {
+  const events: SessionEvent[] = [];
+  const add = (activity: RoutineActivity | null, source: SessionEvent['source'], label: string, time: unknown) => {
+    const offsetSeconds = offsetOf(time);
+    if (activity && offsetSeconds !== null) events.push({ key: activity.key, source, label, offsetSeconds });
+  };
+  for (const e of Array.isArray(analysis?.timeline) ? analysis.timeline : []) {
+    add(classifyActivity(`${e?.label || ''} ${e?.icon || ''}`), 'timeline', String(e?.label || ''), e?.time);
+  }
+  for (const d of Array.isArray(analysis?.dietaryHabits) ? analysis.dietaryHabits : []) {
+    const activity = d?.action === 'drinking' ? ACTIVITY_BY_KEY.get('drink')! : ACTIVITY_BY_KEY.get('eat')!;
+    add(activity, 'diet', String(d?.item || ''), d?.timestamp);
+  }
+  for (const s of Array.isArray(analysis?.scenery) ? analysis.scenery : []) {
+    add(classifyActivity(`${s?.sceneryLabel || ''} ${s?.description || ''}`, true), 'scenery', String(s?.sceneryLabel || s?.description || ''), s?.timestamp);
+  }
+  return events.sort((a, b) => a.offsetSeconds - b.offsetSeconds);
+}
+
+export function buildSessionDigest(
+  petId: string,
+  session: { sessionId: string; analysis: any; recordedAt?: number; uploadedAt?: number; durationSeconds?: number }
+): PetSessionDigest {
+  return {
+    petId,
+    sessionId: session.sessionId,
+    recordedAt: Number.isFinite(session.recordedAt) ? session.recordedAt : undefined,
+    uploadedAt: Number.isFinite(session.uploadedAt) ? session.uploadedAt : undefined,
+    durationSeconds: session.durationSeconds,
+    events: extractSessionEvents(session.analysis),
+    createdAt: Date.now(),
+  };
+}
+
+// ---------------- Routine mining ----------------
+
+interface MinedEvent {
+  key: string;
+  offsetSeconds: number;
+  memoryId?: string;
+}
+
+interface MinedSession {
+  sessionId: string;
+  recordedAt?: number;
+  events: MinedEvent[];
+}
+
+function isUsableMemory(m: PetMemory): boolean {
+  return !m.archived && !m.consolidatedInto && m.userVerdict !== 'wrong' && m.userVerdict !== 'private';
+}
+
+// Digest events plus one event per timestamped memory that names an activity.
+function collectSessions(digests: PetSessionDigest[], memories: PetMemory[]): MinedSession[] {
+  return digests.map((digest) => {
+    const events: MinedEvent[] = digest.events.map((e) => ({ key: e.key, offsetSeconds: e.offsetSeconds }));
+    for (const m of memories) {
+      if (m.source?.sessionId !== digest.sessionId || !isUsableMemory(m)) continue;
+      const activity = classifyActivity(m.text);
+      const offsetSeconds = offsetOf(m.source.timestamp);
+      if (activity && offsetSeconds !== null) events.push({ key: activity.key, offsetSeconds, memoryId: m.id });
+    }
+    events.sort((a, b) => a.offsetSeconds - b.offsetSeconds);
+    return { sessionId: digest.sessionId, recordedAt: digest.recordedAt, events };
+  });
+}
+
+// Calendar day and fractional hour of `at` on the owner's clock (UTC when unknown).
+export function localClock(at: number, timeZone?: string): { day: string; hour: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timeZone || 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(new Date(at));
+  } catch {
+    return localClock(at);
+  }
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || '0';
+  return { day: `${part('year')}-${part('month')}-${part('day')}`, hour: Number(part('hour')) + Number(part('minute')) / 60 };
+}
+
+export function formatHour(hour: number): string {
+  const h = ((Math.round(hour) % 24) + 24) % 24;
+  return `${h % 12 === 0 ? 12 : h % 12} ${h < 12 ? 'AM' : 'PM'}`;
+}
+
+// Signed difference b - a in hours, wrapped to (-12, 12] so 11 PM and 1 AM are close.
+function hourDelta(a: number, b: number): number {
+  const d = (((b - a) % 24) + 24) % 24;
+  return d > 12 ? d - 24 : d;
+}
+
+function confidenceFor(support: number, sessions: number): number {
+  return Math.round(100 * support * Math.min(1, sessions / FULL_CONFIDENCE_SESSIONS));
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Memories describing the supporting events, most important first.
+function sourceMemoryIdsFor(
+  hits: Array<{ sessionId: string; event: MinedEvent }>,
+  memories: PetMemory[]
+): string[] {
+  const byId = new Map(memories.map((m) => [m.id, m]));
+  const ids = new Set<string>();
+  for (const { sessionId, event } of hits) {
+    if (event.memoryId) ids.add(event.memoryId);
+    for (const m of memories) {
+      if (m.source?.sessionId !== sessionId || !isUsableMemory(m)) continue;
+      const offset = offsetOf(m.source.timestamp);
+      if (offset !== null && Math.abs(offset - event.offsetSeconds) <= MEMORY_MATCH_SECONDS) ids.add(m.id);
+    }
+  }
+  return Array.from(ids)
+    .sort((a, b) => (byId.get(b)?.importance || 0) - (byId.get(a)?.importance || 0))
+    .slice(0, MAX_SOURCE_IDS);
+}
+
+function mineTimeOfDay(sessions: MinedSession[], memories: PetMemory[], timeZone?: string): Routine[] {
+  const routines: Routine[] = [];
+  for (const activity of ACTIVITIES) {
+    // One occurrence per day: the first time the activity shows up that day.
+    const byDay = new Map<string, { hour: number; sessionId: string; event: MinedEvent }>();
+    for (const session of sessions) {
+      const event = session.events.find((e) => e.key === activity.key);
+      if (!event || !Number.isFinite(session.recordedAt)) continue;
+      const { day, hour } = localClock(session.recordedAt! + event.offsetSeconds * 1000, timeZone);
+      const existing = byDay.get(day);
+      if (!existing || hourDelta(existing.hour, hour) < 0) byDay.set(day, { hour, sessionId: session.sessionId, event });
+    }
+    const days = Array.from(byDay.values());
+    if (days.length < MIN_SESSIONS) continue;
+
+    let best: typeof days = [];
+    let bestAnchor = 0;
+    for (const anchor of days) {
+      const inWindow = days.filter((d) => Math.abs(hourDelta(anchor.hour, d.hour)) <= TIME_WINDOW_HOURS / 2);
+      if (inWindow.length > best.length) {
+        best = inWindow;
+        bestAnchor = anchor.hour;
+      }
+    }
+    const support = best.length / days.length;
+    if (best.length < MIN_SESSIONS || support < MIN_SUPPORT) continue;
+    const meanHour = bestAnchor + best.reduce((sum, d) => sum + hourDelta(bestAnchor, d.hour), 0) / best.length;
+    routines.push({
+      pattern: `${capitalize(activity.noun)} around ${formatHour(meanHour)}`,
+      confidence: confidenceFor(support, best.length),
+      sourceMemoryIds: sourceMemoryIdsFor(best, memories),
+    });
+  }
+  return routines;
+}
+
+function mineSequences(sessions: MinedSession[], memories: PetMemory[]): Routine[] {
+  const routines: Routine[] = [];
+  for (const first of ACTIVITIES) {
+    const withFirst = sessions.filter((s) => s.events.some((e) => e.key === first.key));
+    if (withFirst.length < MIN_SESSIONS) continue;
+    for (const then of ACTIVITIES) {
+      if (then.key === first.key) continue;
+      const hits: Array<{ sessionId: string; event: MinedEvent }> = [];
+      for (const session of withFirst) {
+        const follow = session.events
+          .filter((e) => e.key === first.key)
+          .map((a) =>
+            session.events.find(
+              (b) => b.key === then.key && b.offsetSeconds > a.offsetSeconds && b.offsetSeconds - a.offsetSeconds <= FOLLOW_WITHIN_SECONDS
+            )
+          )
+          .find(Boolean);
+        if (follow) hits.push({ sessionId: session.sessionId, event: follow });
+      }
+      const support = hits.length / withFirst.length;
+      if (hits.length < MIN_SESSIONS || support < MIN_SUPPORT) continue;
+      routines.push({
+        pattern: `${capitalize(then.does)} after ${first.noun}`,
+        confidence: confidenceFor(support, hits.length),
+        sourceMemoryIds: sourceMemoryIdsFor(hits, memories),
+      });
+    }
+  }
+  return routines;
+}
+
+export function mineRoutines(digests: PetSessionDigest[], memories: PetMemory[], timeZone?: string): Routine[] {
+  const sessions = collectSessions(digests, memories);
+  return [...mineTimeOfDay(sessions, memories, timeZone), ...mineSequences(sessions, memories)]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_ROUTINES);
+}
+
+// ---------------- Catchphrases ----------------
+
+export interface RatedReply {
+  text: string;
+  rating: NonNullable<ChatMessage['ownerRating']>;
+}
+
+function phraseKey(phrase: string): string {
+  return phrase.toLowerCase().replace(/[^\p{L}\p{N}\s*']/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function wordCount(phrase: string): number {
+  return phrase.split(/\s+/).filter(Boolean).length;
+}
+
+// Short sentences, *emotes* and the opener before a first comma or dash.
+export function candidatePhrases(reply: string): string[] {
+  const phrases: string[] = [];
+  for (const emote of reply.match(/\*[^*\n]{2,40}\*/g) || []) phrases.push(emote);
+  for (const sentence of reply.replace(/\*[^*\n]{2,40}\*/g, ' ').split(/(?<=[.!?~…])\s+|\n+/)) {
+    const trimmed = sentence.trim();
+    if (!trimmed) continue;
+    if (wordCount(trimmed) <= MAX_CATCHPHRASE_WORDS) phrases.push(trimmed);
+    const opener = trimmed.match(/^([^,—–-]+)[,—–-]/)?.[1]?.trim();
+    if (opener && wordCount(opener) <= 4 && opener !== trimmed) phrases.push(opener);
+  }
+  return phrases.filter((p) => phraseKey(p).replace(/[\s*']/g, '').length >= 3);
+}
+
+// A phrase scores one per up-rated reply it appears in and loses one per down-rated
+// reply, so a line the owner loved once but tired of does not stick.
+export function mineCatchphrases(replies: RatedReply[]): string[] {
+  const scores = new Map<string, { phrase: string; score: number; ups: number; firstSeen: number }>();
+  replies.forEach((reply, index) => {
+    const seen = new Set<string>();
+    for (const phrase of candidatePhrases(reply.text)) {
+      const key = phraseKey(phrase);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const entry = scores.get(key) || { phrase, score: 0, ups: 0, firstSeen: index };
+      entry.score += reply.rating === 'up' ? 1 : -1;
+      if (reply.rating === 'up') entry.ups++;
+      scores.set(key, entry);
+    }
+  });
+  return Array.from(scores.values())
+    .filter((e) => e.ups >= MIN_CATCHPHRASE_SCORE && e.score >= MIN_CATCHPHRASE_SCORE)
+    .sort((a, b) => b.score - a.score || a.firstSeen - b.firstSeen)
+    .slice(0, MAX_CATCHPHRASES)
+    .map((e) => e.phrase);
+}
+
+export async function loadRatedReplies(petId: string): Promise<RatedReply[]> {
+  const replies: RatedReply[] = [];
+  for (const thread of await listThreads(petId, 50)) {
+    for (const m of await listMessages(thread.id, 200)) {
+      if (m.role === 'pet' && m.ownerRating) replies.push({ text: m.text, rating: m.ownerRating });
+    }
+  }
+  return replies;
+}
+
+// Re-derives catchphrases after the owner rates a reply.
+export async function refreshCatchphrases(petId: string): Promise<string[]> {
+  const catchphrases = mineCatchphrases(await loadRatedReplies(petId));
+  const traits = await getTraits(petId);
+  if (traits) await setTraits({ ...traits, catchphrases, updatedAt: Date.now() });
+  return catchphrases;
+}
@@ -0,0 +1,164 @@
+// Pet AI Persona — cross-owner social graph.
+//
+// Pets live in per-owner silos; a friendship crosses them only when each owner has
+// linked their pet's relation edge to the other pet (externalPetId) and both pets
+// have opted in (socialGraphOptIn). Either owner unlinking or opting out hides it.
+// What's shared: the friend's name/species/photo, relation status, when they last
+// met, and the non-private memories each side recorded about the other.
+
+import { getPetById, getRelations, listMemoriesForPet, listSessionDigests } from './memoryStore.ts';
+import { edgeFriendNames, friendNameKey } from './relationEdits.ts';
+import { localClock } from './routineMiner.ts';
+import type { Pet, PetMemory, PetRelationEdge, PetSessionDigest, RelationshipStatus } from './personaTypes.ts';
+
+const MAX_PLAYDATES = 30;
+
+export interface PlaydateEntry {
+  petId: string;
+  petName: string;
+  memoryId: string;
+  text: string;
+  at: number;
+  sessionId?: string;
+  timestamp?: string;
+  coverUrl?: string;
+}
+
+// One calendar day, in the viewing owner's time zone, on which either pet recorded meeting the other.
+export interface Playdate {
+  date: string;
+  bothRecorded: boolean;
+  entries: PlaydateEntry[];
+}
+
+export interface MutualFriendship {
+  otherKey: string;
+  friend: Pick<Pet, 'id' | 'name' | 'species' | 'breed' | 'photoUrl'>;
+  status: RelationshipStatus;
+  theirStatus: RelationshipStatus;
+  encounterCount: number;
+  lastMetAt: number;
+  playdates: Playdate[];
+}
+
+export interface SocialGraph {
+  optedIn: boolean;
+  friendships: MutualFriendship[];
+  // Linked edges not (yet) mutual. The reason is not given, so an owner cannot
+  // tell whether the other side unlinked or simply has not opted in.
+  pending: Array<{ otherKey: string; displayName: string; externalPetId: string }>;
+}
+
+function isShareable(m: PetMemory): boolean {
+  return !m.archived && m.userVerdict !== 'wrong' && m.userVerdict !== 'private';
+}
+
+// Memories in which `pet` recorded the friend behind `edge`.
+export function memoriesAboutFriend(memories: PetMemory[], edge: PetRelationEdge): PetMemory[] {
+  const names = new Set(edgeFriendNames(edge));
+  return memories.filter((m) => isShareable(m) && m.relatedPetIds?.some((p) => names.has(friendNameKey(p))));
+}
+
+// When each session happened: filmed, else uploaded. A memory's own createdAt is when
+// the analysis ran, which can be days after the pets actually met.
+export function sessionTimes(digests: PetSessionDigest[]): Map<string, number> {
+  const times = new Map<string, number>();
+  for (const d of digests) {
+    const at = [d.recordedAt, d.uploadedAt, d.createdAt].find((t) => Number.isFinite(t) && t! > 0);
+    if (at) times.set(d.sessionId, at);
+  }
+  return times;
+}
+
+interface PlaydateSide {
+  pet: Pet;
+  memories: PetMemory[];
+  sessionTimes?: Map<string, number>;
+}
+
+function toEntry(side: PlaydateSide, m: PetMemory, includeMedia: boolean): PlaydateEntry {
+  const sessionId = m.source?.sessionId;
+  return {
+    petId: side.pet.id,
+    petName: side.pet.name,
+    memoryId: m.id,
+    text: m.text,
+    at: (sessionId && side.sessionTimes?.get(sessionId)) || m.createdAt,
+    sessionId: includeMedia ? sessionId : undefined,
+    timestamp: m.source?.timestamp,
+    coverUrl: includeMedia ? m.source?.coverUrl : undefined,
+  };
+}
+
+// Merges both pets' recollections into one timeline, newest day first. Session ids
+// and covers are only kept for the viewer's own pet; the friend's media stays private.
+// Days are bucketed in the viewer's time zone (UTC when unknown).
+export function buildPlaydates(self: PlaydateSide, friend: PlaydateSide, timeZone = self.pet.timeZone): Playdate[] {
+  const entries = [
+    ...self.memories.map((m) => toEntry(self, m, true)),
+    ...friend.memories.map((m) => toEntry(friend, m, false)),
+  ].filter((e) => Number.isFinite(e.at));
+
+  const byDay = new Map<string, PlaydateEntry[]>();
+  for (const entry of entries) {
+    const date = localClock(entry.at, timeZone).day;
+    byDay.set(date, [...(byDay.get(date) || []), entry]);
+  }
+  return Array.from(byDay.entries())
+    .map(([date, dayEntries]) => ({
+      date,
+      bothRecorded: new Set(dayEntries.map((e) => e.petId)).size > 1,
+      entries: dayEntries.sort((a, b) => a.at - b.at),
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, MAX_PLAYDATES);
+}
+
+export function isMutualLink(self: Pet, edge: PetRelationEdge, friend: Pet | null, friendEdges: PetRelationEdge[]): PetRelationEdge | null {
+  if (!friend || !self.socialGraphOptIn || !friend.socialGraphOptIn) return null;
+  if (edge.externalPetId !== friend.id) return null;
+  return friendEdges.find((e) => e.externalPetId === self.id) || null;
+}
+
+export async function loadSocialGraph(pet: Pet): Promise<SocialGraph> {
+  const relations = await getRelations(pet.id);
+  const linked = relations.filter((r) => r.externalPetId && r.externalPetId !== pet.id);
+  const graph: SocialGraph = { optedIn: !!pet.socialGraphOptIn, friendships: [], pending: [] };
+  if (linked.length === 0) return graph;
+
+  const ownMemories = pet.socialGraphOptIn ? await listMemoriesForPet(pet.id) : [];
+  const ownSessionTimes = sessionTimes(pet.socialGraphOptIn ? await listSessionDigests(pet.id) : []);
+  for (const edge of linked) {
+    const friend = await getPetById(edge.externalPetId!);
+    const friendEdges = friend?.socialGraphOptIn ? await getRelations(friend.id) : [];
+    const theirEdge = isMutualLink(pet, edge, friend, friendEdges);
+    if (!friend || !theirEdge) {
+      graph.pending.push({ otherKey: edge.otherKey, displayName: edge.displayName, externalPetId: edge.externalPetId! });
+      continue;
+    }
+    const playdates = buildPlaydates(
+      { pet, memories: memoriesAboutFriend(ownMemories, edge), sessionTimes: ownSessionTimes },
+      {
+        pet: friend,
+        memories: memoriesAboutFriend(await listMemoriesForPet(friend.id), theirEdge),
+        sessionTimes: sessionTimes(await listSessionDigests(friend.id)),
+      }
+    );
+    // Edges are stamped when a session is analysed, so they only stand in for the
+    // meeting time when neither pet kept a shareable memory of it.
+    const metAt = playdates.flatMap((p) => p.entries.map((e) => e.at));
+    graph.friendships.push({
+      otherKey: edge.otherKey,
+      friend: { id: friend.id, name: friend.name, species: friend.species, breed: friend.breed, photoUrl: friend.photoUrl },
+      status: edge.status,
+      theirStatus: theirEdge.status,
+      encounterCount: Math.max(edge.encounterCount || 0, theirEdge.encounterCount || 0),
+      lastMetAt: metAt.length
+        ? Math.max(...metAt)
+        : Math.max(edge.lastInteractionAt || 0, theirEdge.lastInteractionAt || 0),
+      playdates,
+    });
+  }
+  graph.friendships.sort((a, b) => b.lastMetAt - a.lastMetAt);
+  return graph;
+}
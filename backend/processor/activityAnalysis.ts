@@ -0,0 +1,171 @@
+import fs from "fs";
+import path from "path";
+import type { AnalysisResult } from "./videoAnalyzer.ts";
+import { secondsToTime, timeToSeconds } from "./highlightPlanner.ts";
+import { FFMPEG_CMD, escapeFilterPath, execMedia } from "./mediaTools.ts";
+
+// Measured activity: a deterministic per-second motion curve from the proxy, so energy
+// and rest/active calls do not rest on the model's invented mood numbers.
+//
+// ffmpeg samples the proxy at a few fps, greyscales and downsizes it, and tblend diffs
+// each frame against the previous one; signalstats' YAVG of that difference is the mean
+// absolute pixel change. On a body-worn camera that change is mostly the pet's own
+// movement (walking, running, shaking), which is exactly the activity we want.
+
+const SAMPLE_FPS = 4;
+const SAMPLE_WIDTH = 160;
+// Mean frame difference (0-255) that counts as flat-out activity (sprinting, zoomies).
+const FULL_SCALE_DIFFERENCE = 24;
+const SMOOTHING_SECONDS = 5;
+const REST_BELOW = 15;
+const ACTIVE_FROM = 45;
+const MIN_SEGMENT_SECONDS = 5;
+// Mood points are compared against the activity around them, not a single second.
+const CONFLICT_WINDOW_SECONDS = 6;
+const HIGH_MOOD = 75;
+const LOW_MOOD = 25;
+const STILL_ACTIVITY = 10;
+const BUSY_ACTIVITY = 60;
+
+export type ActivityPoint = NonNullable<AnalysisResult['activityData']>[number];
+export type ActivitySegment = NonNullable<AnalysisResult['activitySegments']>[number];
+
+export function buildActivityFilter(metadataPath: string): string {
+    return [
+        `fps=${SAMPLE_FPS}`,
+        `scale=${SAMPLE_WIDTH}:-2`,
+        'format=gray',
+        'tblend=all_mode=difference',
+        'signalstats',
+        `metadata=mode=print:key=lavfi.signalstats.YAVG:file='${escapeFilterPath(metadataPath)}'`
+    ].join(',');
+}
+
+// metadata=print output → [{ seconds, difference }]. Each frame block is a
+// "frame:N pts:P pts_time:T" line followed by its key=value lines.
+export function parseMotionMetadata(text: string): { seconds: number; difference: number }[] {
+    const samples: { seconds: number; difference: number }[] = [];
+    let currentTime: number | null = null;
+    for (const line of text.split('\n')) {
+        const timeMatch = line.match(/pts_time:\s*(-?\d+(?:\.\d+)?)/);
+        if (timeMatch) {
+            currentTime = Number(timeMatch[1]);
+            continue;
+        }
+        const valueMatch = line.match(/lavfi\.signalstats\.YAVG=(\d+(?:\.\d+)?)/);
+        if (valueMatch && currentTime !== null && currentTime >= 0) {
+            samples.push({ seconds: currentTime, difference: Number(valueMatch[1]) });
+        }
+    }
+    return samples;
+}
+
+// One 0-100 point per second of the recording. Seconds without a sample (dropped or
+// duplicated frames) carry the previous value.
+export function buildActivityCurve(samples: { seconds: number; difference: number }[], durationSeconds: number): ActivityPoint[] {
+    const lastSampleSecond = samples.reduce((max, s) => Math.max(max, Math.floor(s.seconds)), -1);
+    const seconds = Math.max(Math.ceil(durationSeconds), lastSampleSecond + 1);
+    if (seconds <= 0 || samples.length === 0) return [];
+
+    const sums = new Array(seconds).fill(0);
+    const counts = new Array(seconds).fill(0);
+    for (const sample of samples) {
+        const second = Math.min(seconds - 1, Math.floor(sample.seconds));
+        sums[second] += sample.difference;
+        counts[second]++;
+    }
+
+    const curve: ActivityPoint[] = [];
+    let previous = 0;
+    for (let second = 0; second < seconds; second++) {
+        const value = counts[second] > 0
+            ? Math.min(100, Math.round((sums[second] / counts[second] / FULL_SCALE_DIFFERENCE) * 100))
+            : previous;
+        curve.push({ name: secondsToTime(second), value });
+        previous = value;
+    }
+    return curve;
+}
+
+function smooth(values: number[], windowSeconds: number): number[] {
+    const half = Math.floor(windowSeconds / 2);
+    return values.map((_, i) => {
+        const window = values.slice(Math.max(0, i - half), i + half + 1);
+        return window.reduce((sum, v) => sum + v, 0) / window.length;
+    });
+}
+
+// Runs of rest or activity lasting at least MIN_SEGMENT_SECONDS on the smoothed curve.
+// Everything in between is ordinary pottering and gets no segment.
+export function planActivitySegments(activityData: ActivityPoint[] | undefined): ActivitySegment[] {
+    if (!activityData?.length) return [];
+    const smoothed = smooth(activityData.map(point => point.value), SMOOTHING_SECONDS);
+    const levelAt = (value: number) => value < REST_BELOW ? 'rest' : (value >= ACTIVE_FROM ? 'active' : null);
+
+    const segments: ActivitySegment[] = [];
+    let runStart = 0;
+    for (let i = 1; i <= smoothed.length; i++) {
+        const level = levelAt(smoothed[runStart]);
+        if (i < smoothed.length && levelAt(smoothed[i]) === level) continue;
+        if (level && i - runStart >= MIN_SEGMENT_SECONDS) {
+            const run = smoothed.slice(runStart, i);
+            segments.push({
+                start: secondsToTime(runStart),
+                end: secondsToTime(i),
+                level,
+                meanActivity: Math.round(run.reduce((sum, v) => sum + v, 0) / run.length)
+            });
+        }
+        runStart = i;
+    }
+    return segments;
+}
+
+function meanActivityAround(activityData: ActivityPoint[], seconds: number): number | null {
+    const window = activityData.filter(point => Math.abs(timeToSeconds(point.name) - seconds) <= CONFLICT_WINDOW_SECONDS / 2);
+    return window.length > 0 ? window.reduce((sum, point) => sum + point.value, 0) / window.length : null;
+}
+
+// Marks mood points the motion contradicts: an intense mood while the camera barely
+// moved, or a flat mood during sustained running. Values are left as they are; the
+// flag is for the chart and for anyone weighing the curve.
+export function flagMoodActivityConflicts<T extends { name: string; value: number; activityConflict?: string }>(
+    moodData: T[],
+    activityData: ActivityPoint[] | undefined
+): T[] {
+    if (!activityData?.length) return moodData;
+    return moodData.map(point => {
+        const { activityConflict, ...rest } = point;
+        const activity = meanActivityAround(activityData, timeToSeconds(point.name));
+        if (activity === null) return rest as T;
+        if (point.value >= HIGH_MOOD && activity <= STILL_ACTIVITY) return { ...rest, activityConflict: 'low-activity' } as T;
+        if (point.value <= LOW_MOOD && activity >= BUSY_ACTIVITY) return { ...rest, activityConflict: 'high-activity' } as T;
+        return rest as T;
+    });
+}
+
+// Share of [start, end] (original clock, seconds) that falls in rest segments.
+export function restFraction(activitySegments: ActivitySegment[] | undefined, start: number, end: number): number {
+    if (!activitySegments?.length || end <= start) return 0;
+    const resting = activitySegments
+        .filter(segment => segment.level === 'rest')
+        .reduce((sum, segment) => {
+            const overlap = Math.min(end, timeToSeconds(segment.end)) - Math.max(start, timeToSeconds(segment.start));
+            return sum + Math.max(0, overlap);
+        }, 0);
+    return resting / (end - start);
+}
+
+export async function measureActivity(videoPath: string, workDir: string, durationSeconds: number): Promise<ActivityPoint[]> {
+    const measureStart = Date.now();
+    fs.mkdirSync(workDir, { recursive: true });
+    const metadataPath = path.join(workDir, 'motion.txt');
+    try {
+        await execMedia(`${FFMPEG_CMD} -y -i "${videoPath}" -an -vf "${buildActivityFilter(metadataPath)}" -f null -`);
+        const curve = buildActivityCurve(parseMotionMetadata(fs.readFileSync(metadataPath, 'utf8')), durationSeconds);
+        console.log(`[Activity] ${curve.length}s activity curve for ${path.basename(videoPath)} in ${((Date.now() - measureStart) / 1000).toFixed(1)}s`);
+        return curve;
+    } finally {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    }
+}
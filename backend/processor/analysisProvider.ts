@@ -0,0 +1,71 @@
+import type { AnalysisResult, AnalyzeVideoOptions } from "./videoAnalyzer.ts";
+import { geminiProvider } from "./geminiProvider.ts";
+import { createFixtureProvider, withFixtureRecording } from "./fixtureProvider.ts";
+import type { AudioSnippet, AudioSnippetLabel } from "./audioEvents.ts";
+
+export type DetectionBox = [number, number, number, number];
+
+export interface MosaicDetection {
+    cellIndex: number;
+    box: DetectionBox;
+    confidence: number;
+}
+
+export interface AnimalPresence {
+    isPresent: boolean;
+    confidence: number;
+    box?: DetectionBox;
+}
+
+export interface AnimalMatch {
+    sameAnimal: boolean;
+    confidence: number;
+}
+
+export interface TextGenerationOptions {
+    model?: string;
+    systemInstruction?: string;
+    temperature?: number;
+}
+
+// Everything the pipeline and persona modules ask of a model. Gemini is the production
+// implementation; the fixture provider replays recorded results so processVideo,
+// the persona builder and chat run without an API key or network.
+export interface AnalysisProvider {
+    name: string;
+    analyzeVideo(videoPath: string, options?: AnalyzeVideoOptions): Promise<AnalysisResult>;
+    detectObjectInFrame(imagePath: string, objectName: string): Promise<DetectionBox | null>;
+    detectInMosaic(mosaicPath: string, animalType: string, visualTraits: string): Promise<MosaicDetection | null>;
+    validateAnimalInFrame(imagePath: string, animalType: string, hintBox?: DetectionBox): Promise<AnimalPresence>;
+    // Whether two avatar crops (JPEG bytes) show the same individual; null when undecided.
+    compareAnimalCrops(imageA: Buffer, imageB: Buffer, animalType: string): Promise<AnimalMatch | null>;
+    classifyAudioSnippets(audioPath: string, snippets: AudioSnippet[]): Promise<AudioSnippetLabel[]>;
+    // False when text generation is unconfigured; callers fall back to canned behaviour.
+    isTextAvailable(): boolean;
+    generateText(prompt: string, options?: TextGenerationOptions): Promise<string>;
+    streamText(prompt: string, options?: TextGenerationOptions): AsyncIterable<string>;
+    embedText(text: string, model: string): Promise<number[] | undefined>;
+}
+
+let activeProvider: AnalysisProvider | null = null;
+
+// ANALYSIS_PROVIDER=gemini (default) | fixture. ANALYSIS_FIXTURE_RECORD=true records
+// Gemini responses into the fixture directory so they can be replayed later.
+export function getAnalysisProvider(): AnalysisProvider {
+    if (activeProvider) return activeProvider;
+    const name = (process.env.ANALYSIS_PROVIDER || 'gemini').trim().toLowerCase();
+    if (name === 'fixture') {
+        activeProvider = createFixtureProvider();
+    } else {
+        if (name !== 'gemini') console.warn(`[Provider] Unknown ANALYSIS_PROVIDER "${name}", using gemini`);
+        activeProvider = process.env.ANALYSIS_FIXTURE_RECORD === 'true'
+            ? withFixtureRecording(geminiProvider)
+            : geminiProvider;
+    }
+    console.log(`[Provider] Analysis provider: ${activeProvider.name}`);
+    return activeProvider;
+}
+
+export function setAnalysisProvider(provider: AnalysisProvider | null) {
+    activeProvider = provider;
+}
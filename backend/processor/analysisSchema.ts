@@ -0,0 +1,272 @@
+import type { AnalysisResult } from "./videoAnalyzer.ts";
+
+// Runtime schema for Gemini's analysis JSON. Everything is coerced into the shape
+// AnalysisResult promises: numbers from strings, timestamps to M:SS, boxes clamped to
+// 0-1000. Entries that cannot be salvaged are dropped and reported as issues.
+
+export interface AnalysisIssue {
+    path: string;
+    problem: string;
+    // Fatal issues leave the result unusable for processVideo and trigger a repair prompt.
+    fatal?: boolean;
+}
+
+export interface AnalysisValidation {
+    result: AnalysisResult;
+    issues: AnalysisIssue[];
+    fatal: boolean;
+}
+
+const RELATIONSHIP_STATUSES = new Set(['Bestie', 'Soulmate', 'Rival', 'Acquaintance']);
+const REQUIRED_ARRAYS = ['narrativeSegments', 'moodData', 'scenery', 'friends', 'timeline', 'highlightTimestamps'] as const;
+const OPTIONAL_ARRAYS = ['safetyAlerts', 'dietaryHabits'] as const;
+// processVideo cannot build a session without these; the repair prompt asks for them non-empty.
+const FATAL_IF_EMPTY = new Set<string>(['moodData', 'timeline', 'highlightTimestamps']);
+
+// Accepts seconds, "SS", "M:SS", "MM:SS", "HH:MM:SS" and fractional seconds.
+// Returns M:SS with minutes allowed past 59, or null when the value is not a time.
+export function normalizeTimestamp(value: unknown): string | null {
+    let seconds: number;
+    if (typeof value === 'number') {
+        seconds = value;
+    } else if (typeof value === 'string' && /^\s*\d+(?:\.\d+)?(?::\d+(?:\.\d+)?){0,2}\s*$/.test(value)) {
+        seconds = value.trim().split(':').map(Number).reduce((total, part) => total * 60 + part, 0);
+    } else {
+        return null;
+    }
+    if (!Number.isFinite(seconds) || seconds < 0) return null;
+    const rounded = Math.round(seconds);
+    return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+// Seconds in a timestamp already normalized to M:SS.
+function normalizedSeconds(timestamp: string): number {
+    const [minutes, seconds] = timestamp.split(':').map(Number);
+    return minutes * 60 + seconds;
+}
+
+function toNumber(value: unknown): number | null {
+    const num = typeof value === 'string' ? Number(value.trim()) : value;
+    return typeof num === 'number' && Number.isFinite(num) ? num : null;
+}
+
+function toText(value: unknown): string {
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number') return String(value);
+    return '';
+}
+
+function clamp(value: number, min: number, max: number) {
+    return Math.max(min, Math.min(max, value));
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function validateAnalysisResult(raw: unknown): AnalysisValidation {
+    const issues: AnalysisIssue[] = [];
+    const report = (path: string, problem: string, fatal = false) => {
+        issues.push(fatal ? { path, problem, fatal } : { path, problem });
+    };
+
+    if (!isRecord(raw)) {
+        report('$', 'expected a JSON object', true);
+        raw = {};
+    }
+    const input = raw as Record<string, any>;
+
+    const arrays: Record<string, any[]> = {};
+    for (const key of [...REQUIRED_ARRAYS, ...OPTIONAL_ARRAYS]) {
+        const value = input[key];
+        if (Array.isArray(value)) {
+            arrays[key] = value;
+        } else {
+            if (value !== undefined || (REQUIRED_ARRAYS as readonly string[]).includes(key)) {
+                report(key, value === undefined ? 'missing array' : `expected an array, got ${typeof value}`, FATAL_IF_EMPTY.has(key));
+            }
+            arrays[key] = [];
+        }
+    }
+
+    // Maps each entry through `convert`; a string return is the reason the entry was dropped.
+    const each = <T>(key: string, convert: (item: any, path: string) => T | string): T[] => {
+        const out: T[] = [];
+        arrays[key].forEach((item, i) => {
+            const path = `${key}[${i}]`;
+            if (!isRecord(item)) {
+                report(path, 'expected an object; dropped');
+                return;
+            }
+            const converted = convert(item, path);
+            if (typeof converted === 'string') report(path, `${converted}; dropped`);
+            else out.push(converted);
+        });
+        return out;
+    };
+
+    const title = toText(input.title);
+    if (!title) report('title', 'missing title');
+    const aiNote = toText(input.aiNote);
+    if (!aiNote) report('aiNote', 'missing aiNote');
+
+    const narrativeSegments = each('narrativeSegments', (item) => {
+        const timestamp = normalizeTimestamp(item.timestamp);
+        const text = toText(item.text);
+        if (!timestamp) return `invalid timestamp ${JSON.stringify(item.timestamp)}`;
+        if (!text) return 'missing text';
+        return { text, timestamp };
+    });
+
+    const moodData = each('moodData', (item, path) => {
+        const name = normalizeTimestamp(item.name);
+        const value = toNumber(item.value);
+        if (!name) return `invalid time ${JSON.stringify(item.name)}`;
+        if (value === null) return `invalid value ${JSON.stringify(item.value)}`;
+        if (value < 0 || value > 100) report(`${path}.value`, `${value} clamped to 0-100`);
+        return { name, value: clamp(Math.round(value), 0, 100) };
+    });
+
+    const scenery = each('scenery', (item) => {
+        const timestamp = normalizeTimestamp(item.timestamp);
+        if (!timestamp) return `invalid timestamp ${JSON.stringify(item.timestamp)}`;
+        const stayDuration = toNumber(item.stayDuration);
+        return {
+            description: toText(item.description) || 'Scenic moment',
+            timestamp,
+            ...(toText(item.sceneryLabel) ? { sceneryLabel: toText(item.sceneryLabel) } : {}),
+            ...(stayDuration !== null && stayDuration >= 0 ? { stayDuration } : {})
+        };
+    });
+
+    const friends = each('friends', (item, path) => {
+        const name = toText(item.name);
+        const timestamp = normalizeTimestamp(item.timestamp);
+        if (!name) return 'missing name';
+        if (!timestamp) return `invalid timestamp ${JSON.stringify(item.timestamp)}`;
+
+        const friend: AnalysisResult['friends'][number] = {
+            name,
+            type: toText(item.type) || 'Unknown',
+            timestamp
+        };
+        const bestPhoto = normalizeTimestamp(item.best_photo_timestamp);
+        if (bestPhoto) friend.best_photo_timestamp = bestPhoto;
+        else if (item.best_photo_timestamp !== undefined) report(`${path}.best_photo_timestamp`, 'invalid timestamp; removed');
+
+        if (Array.isArray(item.timestamps)) {
+            friend.timestamps = item.timestamps
+                .map((entry: any) => {
+                    const time = normalizeTimestamp(isRecord(entry) ? entry.time : entry);
+                    const duration = isRecord(entry) ? toNumber(entry.duration) : null;
+                    return time ? { time, ...(duration !== null && duration >= 0 ? { duration } : {}) } : null;
+                })
+                .filter(Boolean);
+            if (friend.timestamps!.length < item.timestamps.length) {
+                report(`${path}.timestamps`, `${item.timestamps.length - friend.timestamps!.length} invalid entries dropped`);
+            }
+        }
+
+        if (item.box !== undefined) {
+            const box = Array.isArray(item.box) ? item.box.map(toNumber) : [];
+            if (box.length === 4 && box.every((v: number | null) => v !== null)) {
+                const [ymin, xmin, ymax, xmax] = box.map((v: number) => clamp(Math.round(v), 0, 1000));
+                if (ymax > ymin && xmax > xmin) friend.box = [ymin, xmin, ymax, xmax];
+                else report(`${path}.box`, 'empty box; removed');
+            } else {
+                report(`${path}.box`, 'expected [ymin, xmin, ymax, xmax]; removed');
+            }
+        }
+
+        const traits = toText(item.visual_traits);
+        if (traits) friend.visual_traits = traits;
+        const nature = toText(item.interactionNature);
+        if (nature) friend.interactionNature = nature;
+        const duration = toNumber(item.duration);
+        if (duration !== null && duration >= 0) friend.duration = duration;
+        const frequency = toNumber(item.frequency);
+        if (frequency !== null && frequency >= 0) friend.frequency = Math.round(frequency);
+        if (RELATIONSHIP_STATUSES.has(item.relationshipStatus)) {
+            friend.relationshipStatus = item.relationshipStatus;
+        } else if (item.relationshipStatus !== undefined) {
+            report(`${path}.relationshipStatus`, `unknown status ${JSON.stringify(item.relationshipStatus)}; using Acquaintance`);
+            friend.relationshipStatus = 'Acquaintance';
+        }
+        return friend;
+    });
+
+    const timeline = each('timeline', (item) => {
+        const time = normalizeTimestamp(item.time);
+        if (!time) return `invalid time ${JSON.stringify(item.time)}`;
+        return { time, label: toText(item.label) || 'Story Beat', icon: toText(item.icon) || 'timeline' };
+    });
+
+    const highlightTimestamps = each('highlightTimestamps', (item) => {
+        const start = normalizeTimestamp(item.start);
+        const end = normalizeTimestamp(item.end);
+        if (!start || !end) return `invalid range ${JSON.stringify(item.start)}-${JSON.stringify(item.end)}`;
+        if (normalizedSeconds(end) <= normalizedSeconds(start)) return `end ${end} is not after start ${start}`;
+        const score = toNumber(item.score);
+        return {
+            start,
+            end,
+            ...(toText(item.reason) ? { reason: toText(item.reason) } : {}),
+            ...(score !== null ? { score } : {})
+        };
+    });
+    const coreArrays: Record<string, unknown[]> = { moodData, timeline, highlightTimestamps };
+    for (const [key, entries] of Object.entries(coreArrays)) {
+        // A missing or non-array value was reported above.
+        if (!Array.isArray(input[key]) || entries.length > 0) continue;
+        report(key, arrays[key].length === 0 ? 'empty array' : 'no usable entries', true);
+    }
+
+    const safetyAlerts = each('safetyAlerts', (item) => {
+        const timestamp = normalizeTimestamp(item.timestamp);
+        const message = toText(item.message);
+        if (!timestamp) return `invalid timestamp ${JSON.stringify(item.timestamp)}`;
+        if (!message) return 'missing message';
+        return { type: item.type === 'danger' ? 'danger' as const : 'warning' as const, message, timestamp };
+    });
+
+    const dietaryHabits = each('dietaryHabits', (item) => {
+        const timestamp = normalizeTimestamp(item.timestamp);
+        const foodItem = toText(item.item);
+        if (!timestamp) return `invalid timestamp ${JSON.stringify(item.timestamp)}`;
+        if (!foodItem) return 'missing item';
+        return { item: foodItem, action: item.action === 'drinking' ? 'drinking' as const : 'eating' as const, timestamp };
+    });
+
+    const result: AnalysisResult = {
+        title,
+        aiNote,
+        narrativeSegments,
+        moodData,
+        scenery,
+        friends,
+        timeline,
+        highlightTimestamps,
+        safetyAlerts,
+        dietaryHabits
+    };
+    const coverTimestamp = normalizeTimestamp(input.coverTimestamp);
+    if (coverTimestamp) result.coverTimestamp = coverTimestamp;
+    else if (input.coverTimestamp !== undefined) report('coverTimestamp', 'invalid timestamp; removed');
+
+    return { result, issues, fatal: issues.some((issue) => issue.fatal) };
+}
+
+export function formatAnalysisIssues(issues: AnalysisIssue[], limit = 40): string {
+    const lines = issues.slice(0, limit).map((issue) => `- ${issue.path}: ${issue.problem}${issue.fatal ? ' (FATAL)' : ''}`);
+    if (issues.length > limit) lines.push(`- ...and ${issues.length - limit} more`);
+    return lines.join('\n');
+}
+
+// Settles the one repair round analyzeVideo runs on a fatal result: the repaired result
+// when it is usable, otherwise an error, so the attempt fails (and can be retried) rather
+// than planning highlights on a result that is still broken.
+export function settleRepairedAnalysis(repaired: AnalysisValidation): AnalysisResult {
+    if (!repaired.fatal) return repaired.result;
+    const fatal = repaired.issues.filter((issue) => issue.fatal);
+    throw new Error(`Gemini analysis is still unusable after a repair attempt:\n${formatAnalysisIssues(fatal)}`);
+}
@@ -0,0 +1,307 @@
+import fs from "fs";
+import path from "path";
+import type { AnalysisProvider } from "./analysisProvider.ts";
+import type { AnalysisResult } from "./videoAnalyzer.ts";
+import { normalizeTimestamp } from "./analysisSchema.ts";
+import { secondsToTime, timeToSeconds } from "./highlightPlanner.ts";
+import { FFMPEG_CMD, execMedia, readMediaInfo } from "./mediaTools.ts";
+
+// Audio event track: barks, meows, doorbells, horns, thunder.
+//
+// Loudness and onset envelopes are computed locally from the recording's audio, which
+// picks a bounded set of candidate moments (sudden, loud-enough rises). Only short
+// snippets around those candidates are sent to the model, stitched into one clip, and
+// the model labels each snippet. Cost therefore stays flat however long the walk was.
+// The labelled events then raise the mood curve, add audio-only safety alerts and
+// protect the clips they fall in (see applyAudioEvents and highlightPlanner).
+
+export const AUDIO_EVENT_TYPES = [
+    'bark', 'growl', 'howl', 'whine', 'meow', 'hiss',
+    'doorbell', 'car_horn', 'traffic', 'thunder'
+] as const;
+export type AudioEventType = typeof AUDIO_EVENT_TYPES[number];
+
+export type AudioEvent = NonNullable<AnalysisResult['audioEvents']>[number];
+
+const PCM_SAMPLE_RATE = 8000;
+const FRAME_SECONDS = 0.1;
+const ONSET_LOOKBACK_FRAMES = 5;
+const SILENCE_DB = -90;
+const MIN_ONSET_DB = 6;
+const MIN_CANDIDATE_GAP_SECONDS = 2;
+const MAX_CANDIDATES = 40;
+const SNIPPET_LEAD_SECONDS = 1;
+export const SNIPPET_SECONDS = 3;
+// Labels below this are dropped; safety alerts and mood need a little more certainty.
+const MIN_EVENT_CONFIDENCE = 0.4;
+const MIN_EFFECT_CONFIDENCE = 0.6;
+// An audio alert is skipped when the video analysis already flagged something this close.
+const ALERT_MERGE_SECONDS = 3;
+
+interface AudioEventProfile {
+    category: 'vocalization' | 'environment' | 'hazard';
+    // Minimum mood intensity (0-100) at the moment the sound is heard.
+    moodFloor: number;
+    alert?: { type: 'warning' | 'danger'; message: string };
+}
+
+const AUDIO_EVENT_PROFILES: Record<AudioEventType, AudioEventProfile> = {
+    bark: { category: 'vocalization', moodFloor: 70 },
+    growl: { category: 'vocalization', moodFloor: 80, alert: { type: 'warning', message: 'Growling heard: a tense moment with another animal' } },
+    howl: { category: 'vocalization', moodFloor: 70 },
+    whine: { category: 'vocalization', moodFloor: 60 },
+    meow: { category: 'vocalization', moodFloor: 60 },
+    hiss: { category: 'vocalization', moodFloor: 80, alert: { type: 'warning', message: 'Hissing heard: a tense moment with another animal' } },
+    doorbell: { category: 'environment', moodFloor: 65 },
+    car_horn: { category: 'hazard', moodFloor: 80, alert: { type: 'danger', message: 'Car horn heard close by: traffic may be near' } },
+    traffic: { category: 'hazard', moodFloor: 55, alert: { type: 'warning', message: 'Heavy traffic noise nearby' } },
+    thunder: { category: 'hazard', moodFloor: 75, alert: { type: 'warning', message: 'Thunder heard: storms can frighten pets' } }
+};
+
+export interface AudioCandidate {
+    seconds: number;
+    loudnessDb: number;
+    onsetDb: number;
+}
+
+// One snippet of the stitched clip sent to the model. Snippet i occupies
+// [i * SNIPPET_SECONDS, (i + 1) * SNIPPET_SECONDS) of that clip.
+export interface AudioSnippet {
+    index: number;
+    start: number;     // source clock, seconds
+    seconds: number;
+    candidate: AudioCandidate;
+}
+
+export interface AudioSnippetLabel {
+    index: number;
+    type: AudioEventType;
+    confidence: number;
+    description?: string;
+}
+
+// dBFS per frame from signed 16-bit mono PCM. A trailing partial frame is dropped.
+export function frameLoudnessDb(samples: Int16Array, frameSamples: number): number[] {
+    const loudness: number[] = [];
+    for (let offset = 0; offset + frameSamples <= samples.length; offset += frameSamples) {
+        let sumSquares = 0;
+        for (let i = offset; i < offset + frameSamples; i++) sumSquares += samples[i] * samples[i];
+        const rms = Math.sqrt(sumSquares / frameSamples) / 32768;
+        loudness.push(rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB);
+    }
+    return loudness;
+}
+
+// Rise of each frame over the average of the frames just before it, in dB (never negative).
+export function onsetStrength(loudnessDb: number[], lookbackFrames = ONSET_LOOKBACK_FRAMES): number[] {
+    return loudnessDb.map((value, i) => {
+        if (i === 0) return 0;
+        const window = loudnessDb.slice(Math.max(0, i - lookbackFrames), i);
+        const baseline = window.reduce((sum, v) => sum + v, 0) / window.length;
+        return Math.max(0, value - baseline);
+    });
+}
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Local onset peaks that stand out from the recording's own noise floor, strongest first
+// under the gap and count limits, returned in time order.
+export function pickAudioCandidates(
+    loudnessDb: number[],
+    frameSeconds = FRAME_SECONDS,
+    maxCandidates = MAX_CANDIDATES,
+    minGapSeconds = MIN_CANDIDATE_GAP_SECONDS
+): AudioCandidate[] {
+    const onset = onsetStrength(loudnessDb);
+    const noiseFloor = median(loudnessDb);
+    const onsetMedian = median(onset);
+    const onsetSpread = median(onset.map(v => Math.abs(v - onsetMedian)));
+    const threshold = Math.max(MIN_ONSET_DB, onsetMedian + 3 * onsetSpread);
+
+    const peaks: AudioCandidate[] = [];
+    for (let i = 1; i < onset.length; i++) {
+        const isPeak = onset[i] >= threshold && onset[i] >= onset[i - 1] && onset[i] >= (onset[i + 1] ?? 0);
+        if (isPeak && loudnessDb[i] >= noiseFloor + MIN_ONSET_DB) {
+            peaks.push({ seconds: Math.round(i * frameSeconds * 10) / 10, loudnessDb: Math.round(loudnessDb[i]), onsetDb: Math.round(onset[i] * 10) / 10 });
+        }
+    }
+
+    const kept: AudioCandidate[] = [];
+    for (const peak of peaks.sort((a, b) => b.onsetDb - a.onsetDb)) {
+        if (kept.length >= maxCandidates) break;
+        if (kept.every(k => Math.abs(k.seconds - peak.seconds) >= minGapSeconds)) kept.push(peak);
+    }
+    return kept.sort((a, b) => a.seconds - b.seconds);
+}
+
+export function planAudioSnippets(candidates: AudioCandidate[], durationSeconds: number): AudioSnippet[] {
+    return candidates.map((candidate, index) => {
+        const start = Math.max(0, candidate.seconds - SNIPPET_LEAD_SECONDS);
+        const end = durationSeconds > 0 ? Math.min(durationSeconds, start + SNIPPET_SECONDS) : start + SNIPPET_SECONDS;
+        return { index, start, seconds: Math.max(0.5, Math.round((end - start) * 10) / 10), candidate };
+    });
+}
+
+// Every snippet is padded to SNIPPET_SECONDS so snippet i always starts at i * SNIPPET_SECONDS.
+export function buildSnippetClipCommand(inputPath: string, snippets: AudioSnippet[], outputPath: string): string {
+    const trims = snippets.map(s =>
+        `[0:a:0]atrim=start=${s.start.toFixed(2)}:duration=${s.seconds.toFixed(2)},asetpts=PTS-STARTPTS,apad=whole_dur=${SNIPPET_SECONDS}[s${s.index}]`);
+    const concat = `${snippets.map(s => `[s${s.index}]`).join('')}concat=n=${snippets.length}:v=0:a=1[clip]`;
+    return `${FFMPEG_CMD} -y -i "${inputPath}" -filter_complex "${[...trims, concat].join(';')}" -map "[clip]" -ac 1 -ar 16000 -c:a libopus -b:a 24k "${outputPath}"`;
+}
+
+// Model reply → labels. Accepts a bare array or { events: [...] }, drops unknown types,
+// out-of-range indices and low-confidence labels, and keeps one label per snippet.
+export function parseAudioSnippetLabels(responseText: string, snippetCount: number): AudioSnippetLabel[] {
+    const match = responseText.match(/\[[\s\S]*\]|\{[\s\S]*\}/);
+    if (!match) return [];
+    let parsed: any;
+    try {
+        parsed = JSON.parse(match[0]);
+    } catch {
+        return [];
+    }
+    const items: any[] = Array.isArray(parsed) ? parsed : (Array.isArray(parsed?.events) ? parsed.events : []);
+
+    const bySnippet = new Map<number, AudioSnippetLabel>();
+    for (const item of items) {
+        const index = Number(item?.index);
+        const type = String(item?.type || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+        const rawConfidence = Number(item?.confidence);
+        const confidence = rawConfidence > 1 ? rawConfidence / 100 : rawConfidence;
+        if (!Number.isInteger(index) || index < 0 || index >= snippetCount) continue;
+        if (!(AUDIO_EVENT_TYPES as readonly string[]).includes(type)) continue;
+        if (!Number.isFinite(confidence) || confidence < MIN_EVENT_CONFIDENCE) continue;
+        if ((bySnippet.get(index)?.confidence ?? -1) >= confidence) continue;
+        const description = typeof item?.description === 'string' && item.description.trim() ? item.description.trim() : undefined;
+        bySnippet.set(index, { index, type: type as AudioEventType, confidence: Math.min(1, confidence), ...(description ? { description } : {}) });
+    }
+    return [...bySnippet.values()].sort((a, b) => a.index - b.index);
+}
+
+export function labelsToAudioEvents(snippets: AudioSnippet[], labels: AudioSnippetLabel[]): AudioEvent[] {
+    return labels.map(label => {
+        const { candidate } = snippets[label.index];
+        return {
+            type: label.type,
+            category: AUDIO_EVENT_PROFILES[label.type].category,
+            timestamp: normalizeTimestamp(candidate.seconds)!,
+            confidence: Math.round(label.confidence * 100) / 100,
+            loudnessDb: candidate.loudnessDb,
+            ...(label.description ? { description: label.description } : {})
+        };
+    });
+}
+
+async function readPcmLoudness(pcmPath: string): Promise<number[]> {
+    const frameBytes = PCM_SAMPLE_RATE * FRAME_SECONDS * 2;
+    const chunk = Buffer.alloc(frameBytes * 600);
+    const loudness: number[] = [];
+    const fd = fs.openSync(pcmPath, 'r');
+    try {
+        let bytesRead: number;
+        while ((bytesRead = fs.readSync(fd, chunk, 0, chunk.length, null)) > 0) {
+            const usable = bytesRead - (bytesRead % 2);
+            const samples = new Int16Array(chunk.buffer, chunk.byteOffset, usable / 2);
+            loudness.push(...frameLoudnessDb(samples, frameBytes / 2));
+        }
+    } finally {
+        fs.closeSync(fd);
+    }
+    return loudness;
+}
+
+// Returns [] for recordings without an audio stream or without any salient sound.
+export async function detectAudioEvents(
+    videoPath: string,
+    workDir: string,
+    durationSeconds: number,
+    provider: AnalysisProvider
+): Promise<AudioEvent[]> {
+    const detectStart = Date.now();
+    const info = await readMediaInfo(videoPath);
+    if (!/Audio:/i.test(info)) {
+        console.log(`[Audio] ${path.basename(videoPath)} has no audio track`);
+        return [];
+    }
+
+    fs.mkdirSync(workDir, { recursive: true });
+    const pcmPath = path.join(workDir, 'audio.pcm');
+    const clipPath = path.join(workDir, 'snippets.ogg');
+    try {
+        await execMedia(`${FFMPEG_CMD} -y -i "${videoPath}" -vn -map 0:a:0 -ac 1 -ar ${PCM_SAMPLE_RATE} -f s16le "${pcmPath}"`);
+        const candidates = pickAudioCandidates(await readPcmLoudness(pcmPath));
+        fs.rmSync(pcmPath, { force: true });
+        if (candidates.length === 0) {
+            console.log(`[Audio] No salient sounds in ${path.basename(videoPath)}`);
+            return [];
+        }
+
+        const snippets = planAudioSnippets(candidates, durationSeconds);
+        await execMedia(buildSnippetClipCommand(videoPath, snippets, clipPath));
+        const labels = await provider.classifyAudioSnippets(clipPath, snippets);
+        const events = labelsToAudioEvents(snippets, labels);
+        console.log(`[Audio] ${events.length} event(s) from ${candidates.length} candidate sound(s) in ${((Date.now() - detectStart) / 1000).toFixed(1)}s`);
+        return events;
+    } finally {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    }
+}
+
+function isConfident(event: AudioEvent) {
+    return event.confidence >= MIN_EFFECT_CONFIDENCE && event.type in AUDIO_EVENT_PROFILES;
+}
+
+// Raises each mood point to the floor of the loudest confident event it is nearest to.
+// A floor rather than an offset, so re-planning the same analysis never stacks boosts.
+export function applyAudioEventsToMood(
+    moodData: { name: string; value: number }[],
+    audioEvents: AudioEvent[] | undefined
+): { name: string; value: number }[] {
+    const events = (audioEvents || []).filter(isConfident);
+    if (events.length === 0 || moodData.length === 0) return moodData;
+    const pointSeconds = moodData.map(point => timeToSeconds(point.name));
+    const floors = new Array(moodData.length).fill(0);
+    for (const event of events) {
+        const t = timeToSeconds(event.timestamp);
+        let nearest = 0;
+        pointSeconds.forEach((sec, i) => {
+            if (Math.abs(sec - t) < Math.abs(pointSeconds[nearest] - t)) nearest = i;
+        });
+        floors[nearest] = Math.max(floors[nearest], AUDIO_EVENT_PROFILES[event.type].moodFloor);
+    }
+    return moodData.map((point, i) => floors[i] > point.value ? { ...point, value: floors[i] } : point);
+}
+
+// Audio-only safety alerts for growls, hisses, horns, traffic and thunder the video pass
+// did not already flag nearby.
+export function mergeAudioSafetyAlerts(
+    safetyAlerts: NonNullable<AnalysisResult['safetyAlerts']> | undefined,
+    audioEvents: AudioEvent[] | undefined
+): NonNullable<AnalysisResult['safetyAlerts']> {
+    const merged = [...(safetyAlerts || [])];
+    for (const event of (audioEvents || []).filter(isConfident)) {
+        const alert = AUDIO_EVENT_PROFILES[event.type].alert;
+        if (!alert) continue;
+        const t = timeToSeconds(event.timestamp);
+        if (merged.some(existing => Math.abs(timeToSeconds(existing.timestamp) - t) <= ALERT_MERGE_SECONDS)) continue;
+        merged.push({ ...alert, timestamp: event.timestamp, source: 'audio' });
+    }
+    return merged.sort((a, b) => timeToSeconds(a.timestamp) - timeToSeconds(b.timestamp));
+}
+
+// Original-clock seconds of confident events, for highlight clip protection.
+export function salientAudioSeconds(audioEvents: AudioEvent[] | undefined): number[] {
+    return (audioEvents || []).filter(isConfident).map(event => timeToSeconds(event.timestamp));
+}
+
+export function describeAudioSnippetsForPrompt(snippets: AudioSnippet[]): string {
+    return snippets
+        .map(s => `- snippet ${s.index}: ${s.index * SNIPPET_SECONDS}s-${(s.index + 1) * SNIPPET_SECONDS}s of this clip (recording ${secondsToTime(s.start)}, ${s.candidate.loudnessDb} dBFS)`)
+        .join('\n');
+}
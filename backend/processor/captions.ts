@@ -0,0 +1,68 @@
+import type { AnalysisResult } from "./videoAnalyzer.ts";
+import { mapToHighlightTime, timeToSeconds } from "./highlightPlanner.ts";
+
+// Pet-POV captions for the highlight reel: the narrative segments that fall inside a
+// highlight clip, on the reel clock. The same cues feed the burned-in render and the
+// WebVTT/SRT sidecars, so a shared reel and its caption file never disagree.
+
+// Matches the client overlay in Analysis.tsx: a cue holds until the next one, at most 6s.
+const MAX_CAPTION_HOLD_SECONDS = 6;
+const MIN_CAPTION_SECONDS = 1;
+
+export type CaptionFormat = 'vtt' | 'srt';
+
+export interface CaptionCue {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// Works before and after applyHighlightMapping: mapped segments are re-mapped from originalTime.
+export function buildHighlightCaptionCues(analysis: AnalysisResult): CaptionCue[] {
+    const highlights = analysis.highlightTimestamps || [];
+    const reelDuration = highlights.reduce((sum, clip) => sum + timeToSeconds(clip.end) - timeToSeconds(clip.start), 0);
+    const segments = (analysis.narrativeSegments || [])
+        .filter((seg: any) => String(seg.text || '').trim())
+        .map((seg: any) => {
+            const reelTime = mapToHighlightTime(seg.isMapped ? seg.originalTime : seg.timestamp, highlights);
+            return { start: reelTime === null ? NaN : timeToSeconds(reelTime), text: String(seg.text).replace(/\s+/g, ' ').trim() };
+        })
+        .filter(seg => Number.isFinite(seg.start) && seg.start < reelDuration)
+        .sort((a, b) => a.start - b.start);
+
+    const cues: CaptionCue[] = [];
+    segments.forEach((seg, i) => {
+        const next = segments[i + 1];
+        const end = Math.min(next ? next.start : Infinity, seg.start + MAX_CAPTION_HOLD_SECONDS, reelDuration);
+        if (end - seg.start >= MIN_CAPTION_SECONDS) cues.push({ start: seg.start, end, text: seg.text });
+    });
+    return cues;
+}
+
+function formatCueTime(seconds: number, decimalSeparator: '.' | ','): string {
+    const totalMs = Math.round(seconds * 1000);
+    const h = Math.floor(totalMs / 3600000);
+    const m = Math.floor((totalMs % 3600000) / 60000);
+    const s = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+    return `${pad(h)}:${pad(m)}:${pad(s)}${decimalSeparator}${pad(ms, 3)}`;
+}
+
+export function formatWebVtt(cues: CaptionCue[]): string {
+    const escape = (text: string) => text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+    const body = cues.map((cue, i) =>
+        `${i + 1}\n${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${escape(cue.text)}`
+    );
+    return `WEBVTT\n\n${body.join('\n\n')}${body.length ? '\n' : ''}`;
+}
+
+export function formatSrt(cues: CaptionCue[]): string {
+    // SRT has no escaping; a literal arrow inside the text would read as a timing line.
+    return cues.map((cue, i) =>
+        `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text.replace(/-->/g, '->')}\n`
+    ).join('\n');
+}
@@ -0,0 +1,322 @@
+import path from "path";
+import fs from "fs";
+import type { AnalysisResult, AnalysisWindow } from "./videoAnalyzer.ts";
+import { getAnalysisProvider } from "./analysisProvider.ts";
+import { FFMPEG_CMD, execMedia } from "./mediaTools.ts";
+import type { HighlightSpec } from "./highlightSpec.ts";
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+    const raw = Number(process.env[name]);
+    if (!Number.isFinite(raw) || raw <= 0) return fallback;
+    return Math.floor(raw);
+}
+
+// Recordings longer than the threshold are split into overlapping windows that are
+// analyzed separately and stitched back onto the full-recording clock.
+const ANALYSIS_CHUNK_THRESHOLD_SECONDS = readPositiveIntEnv('ANALYSIS_CHUNK_THRESHOLD_SECONDS', 45 * 60);
+const ANALYSIS_WINDOW_SECONDS = readPositiveIntEnv('ANALYSIS_WINDOW_SECONDS', 20 * 60);
+const ANALYSIS_WINDOW_OVERLAP_SECONDS = readPositiveIntEnv('ANALYSIS_WINDOW_OVERLAP_SECONDS', 60);
+const ANALYSIS_WINDOW_CONCURRENCY = readPositiveIntEnv('ANALYSIS_WINDOW_CONCURRENCY', 2);
+const STITCHED_MOOD_POINTS = 30;
+
+export interface AnalyzeRecordingOptions {
+    signal?: AbortSignal;
+    // Windows already analyzed by an earlier attempt, keyed by window index.
+    completedWindows?: Record<string, AnalysisResult>;
+    onWindowComplete?: (window: AnalysisWindow, result: AnalysisResult) => void;
+    highlightSpec?: HighlightSpec;
+}
+
+interface WindowResult {
+    window: AnalysisWindow;
+    result: AnalysisResult;
+}
+
+type Friend = AnalysisResult['friends'][number];
+type Highlight = AnalysisResult['highlightTimestamps'][number];
+
+function parseClock(value: string | undefined | null): number {
+    if (!value) return NaN;
+    const parts = String(value).trim().split(':').map(Number);
+    if (parts.some((part) => !Number.isFinite(part))) return NaN;
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+// M:SS with minutes allowed past 59, matching the format the rest of the pipeline parses.
+function formatClock(totalSeconds: number): string {
+    const seconds = Math.max(0, Math.round(totalSeconds));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function planAnalysisWindows(
+    durationSeconds: number,
+    windowSeconds = ANALYSIS_WINDOW_SECONDS,
+    overlapSeconds = ANALYSIS_WINDOW_OVERLAP_SECONDS
+): AnalysisWindow[] {
+    const overlap = Math.min(overlapSeconds, Math.floor(windowSeconds / 4));
+    const ranges: { start: number; end: number }[] = [];
+    let start = 0;
+    while (start < durationSeconds) {
+        let end = Math.min(durationSeconds, start + windowSeconds);
+        // Fold a short tail into this window instead of analyzing a sliver on its own.
+        if (durationSeconds - end < windowSeconds / 4) end = durationSeconds;
+        ranges.push({ start, end });
+        if (end >= durationSeconds) break;
+        start = end - overlap;
+    }
+    return ranges.map((range, index) => ({ index, total: ranges.length, ...range }));
+}
+
+async function runWithLimit<T>(items: T[], limit: number, worker: (item: T) => Promise<void>) {
+    let cursor = 0;
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (cursor < items.length) {
+            const item = items[cursor++];
+            await worker(item);
+        }
+    });
+    await Promise.all(runners);
+}
+
+async function cutWindow(videoPath: string, window: AnalysisWindow): Promise<string> {
+    const stem = path.basename(videoPath, path.extname(videoPath));
+    const windowPath = path.join(path.dirname(videoPath), `${stem}-window-${window.index}.mp4`);
+    // Re-encoded (not stream-copied) so the window starts exactly at window.start;
+    // a keyframe-snapped cut would shift every timestamp Gemini reports.
+    const cmd = `${FFMPEG_CMD} -y -ss ${window.start} -i "${videoPath}" -t ${window.end - window.start} -vf "scale=-2:480" -c:v libx264 -preset veryfast -crf 28 -c:a aac -b:a 64k "${windowPath}"`;
+    await execMedia(cmd);
+    return windowPath;
+}
+
+export async function analyzeRecording(
+    videoPath: string,
+    durationSeconds: number,
+    options: AnalyzeRecordingOptions = {}
+): Promise<AnalysisResult> {
+    const { signal, completedWindows = {}, onWindowComplete, highlightSpec } = options;
+    if (!(durationSeconds > ANALYSIS_CHUNK_THRESHOLD_SECONDS)) {
+        return getAnalysisProvider().analyzeVideo(videoPath, { signal, highlightSpec });
+    }
+
+    const windows = planAnalysisWindows(durationSeconds);
+    console.log(`[Chunked Analysis] ${Math.round(durationSeconds)}s recording split into ${windows.length} windows (concurrency ${ANALYSIS_WINDOW_CONCURRENCY})`);
+
+    const results: WindowResult[] = [];
+    await runWithLimit(windows, ANALYSIS_WINDOW_CONCURRENCY, async (window) => {
+        const cached = completedWindows[String(window.index)];
+        if (cached) {
+            results.push({ window, result: cached });
+            return;
+        }
+        if (signal?.aborted) throw new Error("Video analysis cancelled");
+
+        let windowPath: string | null = null;
+        try {
+            windowPath = await cutWindow(videoPath, window);
+            const result = await getAnalysisProvider().analyzeVideo(windowPath, { signal, window, highlightSpec });
+            results.push({ window, result });
+            onWindowComplete?.(window, result);
+            console.log(`[Chunked Analysis] Window ${window.index + 1}/${window.total} done`);
+        } finally {
+            if (windowPath && fs.existsSync(windowPath)) fs.unlinkSync(windowPath);
+        }
+    });
+
+    return stitchAnalysisResults(results, durationSeconds);
+}
+
+// ---------- Stitching ----------
+
+function traitTokens(friend: Friend): Set<string> {
+    return new Set(String(friend.visual_traits || '')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((token) => token.length > 2));
+}
+
+function traitSimilarity(a: Friend, b: Friend): number | null {
+    const tokensA = traitTokens(a);
+    const tokensB = traitTokens(b);
+    if (tokensA.size === 0 || tokensB.size === 0) return null;
+    const shared = [...tokensA].filter((token) => tokensB.has(token)).length;
+    return shared / new Set([...tokensA, ...tokensB]).size;
+}
+
+const SAME_NAME_MIN_SIMILARITY = 0.25;
+const RENAMED_MIN_SIMILARITY = 0.67;
+
+// Windows name friends independently, so one animal can come back under another name, and
+// two animals of one breed can share a generic one. Type (the breed) must always agree; a
+// shared name merges unless the traits clearly disagree, and a differing name needs
+// near-identical traits.
+function isSameFriend(a: Friend, b: Friend): boolean {
+    const typeA = String(a.type || '').trim().toLowerCase();
+    const typeB = String(b.type || '').trim().toLowerCase();
+    if (typeA !== typeB) return false;
+
+    const nameA = String(a.name || '').trim().toLowerCase();
+    const nameB = String(b.name || '').trim().toLowerCase();
+    const similarity = traitSimilarity(a, b);
+    if (nameA && nameA === nameB) return similarity === null || similarity >= SAME_NAME_MIN_SIMILARITY;
+    return similarity !== null && similarity >= RENAMED_MIN_SIMILARITY;
+}
+
+const RELATIONSHIP_RANK: Record<string, number> = { Soulmate: 3, Bestie: 2, Rival: 1, Acquaintance: 0 };
+
+function mergeFriend(target: Friend, other: Friend) {
+    const encounters = [...(target.timestamps || []), ...(other.timestamps || [])]
+        .sort((a, b) => parseClock(a.time) - parseClock(b.time));
+    // Encounters inside a window overlap are reported by both windows.
+    const deduped: NonNullable<Friend['timestamps']> = [];
+    for (const encounter of encounters) {
+        const previous = deduped[deduped.length - 1];
+        if (previous && Math.abs(parseClock(previous.time) - parseClock(encounter.time)) <= 3) {
+            previous.duration = Math.max(previous.duration || 0, encounter.duration || 0);
+            continue;
+        }
+        deduped.push({ ...encounter });
+    }
+
+    if ((other.duration || 0) > (target.duration || 0)) {
+        target.timestamp = other.timestamp;
+        target.box = other.box;
+        target.best_photo_timestamp = other.best_photo_timestamp || target.best_photo_timestamp;
+        target.interactionNature = other.interactionNature || target.interactionNature;
+    }
+    if ((RELATIONSHIP_RANK[other.relationshipStatus || ''] ?? -1) > (RELATIONSHIP_RANK[target.relationshipStatus || ''] ?? -1)) {
+        target.relationshipStatus = other.relationshipStatus;
+    }
+    target.timestamps = deduped;
+    target.frequency = deduped.length;
+    target.duration = deduped.reduce((sum, encounter) => sum + (encounter.duration || 0), 0) || target.duration;
+}
+
+function mergeHighlights(highlights: Highlight[]): Highlight[] {
+    const sorted = highlights
+        .filter((clip) => parseClock(clip.end) > parseClock(clip.start))
+        .sort((a, b) => parseClock(a.start) - parseClock(b.start));
+    const merged: Highlight[] = [];
+    for (const clip of sorted) {
+        const previous = merged[merged.length - 1];
+        if (previous && parseClock(clip.start) <= parseClock(previous.end)) {
+            if (parseClock(clip.end) > parseClock(previous.end)) previous.end = clip.end;
+            if ((clip.score || 0) > (previous.score || 0)) {
+                previous.score = clip.score;
+                previous.reason = clip.reason || previous.reason;
+            }
+            continue;
+        }
+        merged.push({ ...clip });
+    }
+    return merged;
+}
+
+function resampleMood(points: { sec: number; value: number }[], durationSeconds: number): AnalysisResult['moodData'] {
+    if (points.length === 0) return [];
+    const sorted = [...points].sort((a, b) => a.sec - b.sec);
+    const valueAt = (sec: number) => {
+        if (sec <= sorted[0].sec) return sorted[0].value;
+        for (let i = 1; i < sorted.length; i++) {
+            if (sec <= sorted[i].sec) {
+                const prev = sorted[i - 1];
+                const next = sorted[i];
+                const ratio = next.sec === prev.sec ? 0 : (sec - prev.sec) / (next.sec - prev.sec);
+                return prev.value + (next.value - prev.value) * ratio;
+            }
+        }
+        return sorted[sorted.length - 1].value;
+    };
+    return Array.from({ length: STITCHED_MOOD_POINTS }, (_, i) => {
+        const sec = Math.round((i * durationSeconds) / (STITCHED_MOOD_POINTS - 1));
+        return { name: formatClock(sec), value: Math.round(valueAt(sec)) };
+    });
+}
+
+// Shifts every window's timestamps onto the recording clock. Point-in-time entries are kept
+// only from the window that "owns" that second (overlaps are split at their midpoint), so
+// nothing inside an overlap is reported twice. The timeline is left uncapped here; the
+// 15-20 entry normalization runs on the stitched result.
+export function stitchAnalysisResults(parts: WindowResult[], durationSeconds: number): AnalysisResult {
+    const ordered = [...parts].sort((a, b) => a.window.index - b.window.index);
+    const stitched: AnalysisResult = {
+        title: '',
+        aiNote: '',
+        narrativeSegments: [],
+        moodData: [],
+        scenery: [],
+        friends: [],
+        timeline: [],
+        highlightTimestamps: [],
+        safetyAlerts: [],
+        dietaryHabits: []
+    };
+    const moodPoints: { sec: number; value: number }[] = [];
+    const highlights: Highlight[] = [];
+    let bestScore = -Infinity;
+
+    ordered.forEach(({ window, result }, i) => {
+        const previous = ordered[i - 1]?.window;
+        const next = ordered[i + 1]?.window;
+        const ownStart = previous ? (window.start + previous.end) / 2 : 0;
+        const ownEnd = next ? (next.start + window.end) / 2 : Infinity;
+        const toRecording = (time: string | undefined) => {
+            const sec = parseClock(time);
+            return Number.isFinite(sec) ? sec + window.start : NaN;
+        };
+        const owned = (sec: number) => Number.isFinite(sec) && sec >= ownStart && sec < ownEnd;
+        const shift = (time: string | undefined) => formatClock(toRecording(time));
+
+        for (const seg of result.narrativeSegments || []) {
+            if (owned(toRecording(seg.timestamp))) stitched.narrativeSegments.push({ ...seg, timestamp: shift(seg.timestamp) });
+        }
+        for (const point of result.moodData || []) {
+            const sec = toRecording(point.name);
+            if (owned(sec)) moodPoints.push({ sec, value: Number(point.value) || 0 });
+        }
+        for (const item of result.timeline || []) {
+            if (owned(toRecording(item.time))) stitched.timeline.push({ ...item, time: shift(item.time) });
+        }
+        for (const scene of result.scenery || []) {
+            if (owned(toRecording(scene.timestamp))) stitched.scenery.push({ ...scene, timestamp: shift(scene.timestamp) });
+        }
+        for (const habit of result.dietaryHabits || []) {
+            if (owned(toRecording(habit.timestamp))) stitched.dietaryHabits!.push({ ...habit, timestamp: shift(habit.timestamp) });
+        }
+        for (const alert of result.safetyAlerts || []) {
+            if (owned(toRecording(alert.timestamp))) stitched.safetyAlerts!.push({ ...alert, timestamp: shift(alert.timestamp) });
+        }
+
+        for (const clip of result.highlightTimestamps || []) {
+            highlights.push({ ...clip, start: shift(clip.start), end: shift(clip.end) });
+        }
+
+        for (const friend of result.friends || []) {
+            const shifted: Friend = {
+                ...friend,
+                timestamp: shift(friend.timestamp),
+                best_photo_timestamp: friend.best_photo_timestamp ? shift(friend.best_photo_timestamp) : undefined,
+                timestamps: (friend.timestamps?.length ? friend.timestamps : [{ time: friend.timestamp, duration: friend.duration }])
+                    .map((encounter) => ({ ...encounter, time: shift(encounter.time) }))
+            };
+            const existing = stitched.friends.find((candidate) => isSameFriend(candidate, shifted));
+            if (existing) mergeFriend(existing, shifted);
+            else stitched.friends.push(shifted);
+        }
+
+        if (result.aiNote) stitched.aiNote = stitched.aiNote ? `${stitched.aiNote}\n\n${result.aiNote}` : result.aiNote;
+
+        // Title and cover come from the window with the strongest highlight.
+        const windowScore = Math.max(0, ...(result.highlightTimestamps || []).map((clip) => clip.score || 0));
+        if (windowScore > bestScore && result.title) {
+            bestScore = windowScore;
+            stitched.title = result.title;
+            stitched.coverTimestamp = result.coverTimestamp ? shift(result.coverTimestamp) : stitched.coverTimestamp;
+        }
+    });
+
+    stitched.moodData = resampleMood(moodPoints, durationSeconds);
+    stitched.highlightTimestamps = mergeHighlights(highlights);
+    stitched.narrativeSegments.sort((a, b) => parseClock(a.timestamp) - parseClock(b.timestamp));
+    stitched.timeline.sort((a, b) => parseClock(a.time) - parseClock(b.time));
+    return stitched;
+}
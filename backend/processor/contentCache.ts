@@ -0,0 +1,57 @@
+import fs from 'fs';
+import { isSameHighlightSpec } from './highlightSpec.ts';
+import type { AnalysisResult } from './videoAnalyzer.ts';
+
+// Which earlier sessions a new upload can reuse, by content hash. Two kinds of reuse:
+// a finished session is cloned whole, which hands over its owner's edits (friend names,
+// re-cut reels, the pet the persona was built for), so only the same owner's count. The
+// raw Gemini analysis and the proxy depend on nothing but the bytes, so any owner's
+// session can seed them as checkpoints; the new session keeps its own visitorId and
+// petName either way.
+
+export function getStoredRawAnalysis(session: any): AnalysisResult | null {
+    return session?.rawAnalysis || session?.checkpoints?.analysis?.result || null;
+}
+
+export function getStoredProxyPath(session: any): string | null {
+    const proxyPath = session?.proxyPath || session?.checkpoints?.proxy?.path;
+    return typeof proxyPath === 'string' ? proxyPath : null;
+}
+
+export function isSameOwner(a: any, b: any): boolean {
+    return (a?.visitorId || null) === (b?.visitorId || null);
+}
+
+// Other sessions with the target's content, most recently completed first.
+export function findContentSources(sessions: Iterable<any>, target: any): any[] {
+    const contentHash = target?.contentHash;
+    if (!contentHash) return [];
+    return Array.from(sessions)
+        .filter((s: any) => s.id !== target.id
+            && s.contentHash === contentHash
+            && !s.isSample
+            && s.kind !== 'day')
+        .sort((a: any, b: any) => (b.completedAt || 0) - (a.completedAt || 0));
+}
+
+// A finished reel is only reusable when it was planned for the same highlight spec;
+// otherwise the checkpoints still save the Gemini call.
+export function findFinishedTwin(sources: any[], target: any): any | null {
+    return sources.find((s: any) => s.status === 'ready'
+        && s.analysis
+        && isSameOwner(s, target)
+        && isSameHighlightSpec(s.highlightSpec, target?.highlightSpec)) || null;
+}
+
+export function findCheckpointSources(
+    sources: any[],
+    fileExists: (filePath: string) => boolean = fs.existsSync
+): { analysisSource: any | null; proxySource: any | null } {
+    return {
+        analysisSource: sources.find((s: any) => getStoredRawAnalysis(s)) || null,
+        proxySource: sources.find((s: any) => {
+            const proxyPath = getStoredProxyPath(s);
+            return proxyPath !== null && fileExists(proxyPath);
+        }) || null,
+    };
+}
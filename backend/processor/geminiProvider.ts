@@ -0,0 +1,57 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { config } from "../config.ts";
+import type { AnalysisProvider, TextGenerationOptions } from "./analysisProvider.ts";
+import { analyzeVideo, classifyAudioSnippets, compareAnimalCrops, detectInMosaic, detectObjectInFrame, validateAnimalInFrame } from "./videoAnalyzer.ts";
+
+const GEMINI_TEXT_MODEL = process.env.GEMINI_ANALYSIS_MODEL || 'gemini-3.1-pro-preview';
+
+let genAI: GoogleGenerativeAI | null = null;
+function getGenAI(): GoogleGenerativeAI {
+    if (!config.geminiApiKey) throw new Error("GEMINI_API_KEY is not configured");
+    if (!genAI) genAI = new GoogleGenerativeAI(config.geminiApiKey);
+    return genAI;
+}
+
+function getTextModel(options: TextGenerationOptions = {}) {
+    return getGenAI().getGenerativeModel({
+        model: options.model || GEMINI_TEXT_MODEL,
+        ...(options.systemInstruction ? { systemInstruction: options.systemInstruction } : {}),
+        ...(options.temperature !== undefined ? { generationConfig: { temperature: options.temperature } } : {}),
+    } as any);
+}
+
+export const geminiProvider: AnalysisProvider = {
+    name: 'gemini',
+    analyzeVideo,
+    detectObjectInFrame,
+    detectInMosaic,
+    validateAnimalInFrame,
+    compareAnimalCrops,
+    classifyAudioSnippets,
+
+    isTextAvailable() {
+        return Boolean(config.geminiApiKey);
+    },
+
+    async generateText(prompt, options) {
+        const result = await getTextModel(options).generateContent([prompt]);
+        return result.response.text();
+    },
+
+    async *streamText(prompt, options) {
+        const stream = await getTextModel(options).generateContentStream([prompt]);
+        for await (const chunk of stream.stream as any) {
+            const text = typeof chunk?.text === 'function' ? chunk.text() : '';
+            if (text) yield text;
+        }
+    },
+
+    async embedText(text, model) {
+        const embedModel = getGenAI().getGenerativeModel({ model } as any);
+        const result: any = await (embedModel as any).embedContent({
+            content: { parts: [{ text }] },
+        });
+        const values: number[] | undefined = result?.embedding?.values || result?.embedding;
+        return Array.isArray(values) ? values : undefined;
+    },
+};
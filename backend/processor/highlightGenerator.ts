@@ -1,12 +1,38 @@
-import { exec } from "child_process";
 import path from "path";
 import fs from "fs";
-import { promisify } from "util";
 import type { AnalysisResult } from "./videoAnalyzer.ts";
-import { FFMPEG_CMD, parseDurationFromMediaInfo, readMediaInfo } from "./mediaTools.ts";
+import { FFMPEG_CMD, escapeFilterPath, execMedia, parseDurationFromMediaInfo, readMediaInfo } from "./mediaTools.ts";
+import { timeToSeconds } from "./highlightPlanner.ts";
+import { DEFAULT_HIGHLIGHT_SPEC, getHighlightLimits, type HighlightSpec } from "./highlightSpec.ts";
+import { buildHighlightCaptionCues, formatSrt } from "./captions.ts";
+import { POLISHED_CROSSFADE_SECONDS, polishedSegmentArgs, renderPolishedReel } from "./polishedRender.ts";
+import { extractFrame } from "./videoPreprocessor.ts";
+import { config } from "../config.ts";
+import {
+    createSegmentWorkDir,
+    planSegmentCuts,
+    probeKeyframes,
+    removeSegmentWorkDir,
+    streamCopyCommand,
+    withSegmentSlot,
+    type SegmentPlan
+} from "./segmentPipeline.ts";
+import { REFRAME_VARIANTS, planReframeWindows, renderReframedReel, type ReframeVariant } from "./reframe.ts";
 
-const execPromise = promisify(exec);
-const EXEC_OPTIONS = { maxBuffer: 10 * 1024 * 1024 };
+// Bottom-centred white-on-translucent-box captions; DejaVu ships with fontconfig on Debian.
+// Font size is added per render: libass scales it with frame height, so portrait frames need less.
+const BURNED_CAPTION_STYLE = [
+    'FontName=DejaVu Sans',
+    'Bold=1',
+    'PrimaryColour=&H00FFFFFF',
+    'BackColour=&H80000000',
+    'BorderStyle=4',
+    'Outline=0',
+    'Shadow=0',
+    'MarginV=36'
+].join(',');
+const BURNED_CAPTION_FONT_SIZE = 18;
+const REFRAMED_CAPTION_FONT_SIZE: Record<ReframeVariant, number> = { vertical: 10, square: 14 };
 
 function deriveMediaStem(inputPath: string, fallback = 'video') {
     if (!inputPath) return fallback;
@@ -35,6 +61,75 @@ function formatDuration(seconds: number): string {
     return `${seconds.toFixed(1)}s`;
 }
 
+// Re-encodes the stitched reel with the captions rendered in. Returns false (leaving the
+// uncaptioned reel in place) when there is nothing to caption or the render fails.
+async function burnCaptionsIntoReel(reelPath: string, analysis: AnalysisResult, workBase: string, fontSize = BURNED_CAPTION_FONT_SIZE): Promise<boolean> {
+    const cues = buildHighlightCaptionCues(analysis);
+    if (cues.length === 0) {
+        console.log("[Highlight Generator] No in-highlight narrative to burn in");
+        return false;
+    }
+    const srtPath = `${workBase}-captions.srt`;
+    const captionedPath = `${workBase}-captioned.mp4`;
+    const burnStart = Date.now();
+    try {
+        fs.writeFileSync(srtPath, formatSrt(cues));
+        const filter = `subtitles='${escapeFilterPath(srtPath)}':force_style='${BURNED_CAPTION_STYLE},FontSize=${fontSize}'`;
+        await execMedia(`${FFMPEG_CMD} -y -i "${reelPath}" -vf "${filter}" -c:v libx264 -preset veryfast -crf 23 -c:a copy -movflags +faststart "${captionedPath}"`);
+        if (!(await isPlayableVideo(captionedPath))) throw new Error("Captioned reel is not playable");
+        fs.renameSync(captionedPath, reelPath);
+        console.log(`[Timing] Caption burn-in: ${formatDuration((Date.now() - burnStart) / 1000)} (${cues.length} cues)`);
+        return true;
+    } catch (error) {
+        console.warn("[Highlight Generator] Caption burn-in failed; keeping the uncaptioned reel:", error);
+        return false;
+    } finally {
+        for (const f of [srtPath, captionedPath]) { if (fs.existsSync(f)) fs.unlinkSync(f); }
+    }
+}
+
+async function concatSegments(segmentPaths: string[], listFilePath: string, outputPath: string) {
+    const concatStart = Date.now();
+    const listContent = segmentPaths
+        .map(f => `file '${path.resolve(f).replace(/'/g, "'\\''")}'`)
+        .join("\n");
+    fs.writeFileSync(listFilePath, listContent);
+
+    console.log("Concatenating segments...");
+    const concatCmd = `${FFMPEG_CMD} -y -f concat -safe 0 -i "${listFilePath}" -c copy -movflags +faststart "${outputPath}"`;
+    await execMedia(concatCmd);
+    console.log(`[Timing] Highlight concatenation: ${formatDuration((Date.now() - concatStart) / 1000)}`);
+}
+
+// Reframed renditions sit next to the reel they were cut from.
+export function getReframedVariantPath(highlightPath: string, variant: ReframeVariant) {
+    const ext = path.extname(highlightPath);
+    return `${highlightPath.slice(0, highlightPath.length - ext.length)}-${variant}${ext}`;
+}
+
+// Renders every reframed rendition of the finished reel. A rendition that fails is skipped
+// (and left absent on disk) rather than failing the reel.
+async function renderReframedVariants(reelPath: string, analysis: AnalysisResult): Promise<ReframeVariant[]> {
+    const windows = planReframeWindows(analysis);
+    const steered = windows.filter(window => window.centerX !== 0.5 || window.centerY !== 0.5).length;
+    const rendered: ReframeVariant[] = [];
+    // Sequential: each rendition is a full re-encode of the reel.
+    for (const variant of REFRAME_VARIANTS) {
+        const reframeStart = Date.now();
+        const variantPath = getReframedVariantPath(reelPath, variant);
+        try {
+            await renderReframedReel(reelPath, variantPath, windows, variant);
+            if (!(await isPlayableVideo(variantPath))) throw new Error(`Reframed ${variant} reel is not playable`);
+            rendered.push(variant);
+            console.log(`[Timing] ${variant} reframe: ${formatDuration((Date.now() - reframeStart) / 1000)} (${steered}/${windows.length} clips subject-centred)`);
+        } catch (error) {
+            console.warn(`[Highlight Generator] ${variant} reframe failed; skipping that rendition:`, error);
+            if (fs.existsSync(variantPath)) fs.unlinkSync(variantPath);
+        }
+    }
+    return rendered;
+}
+
 async function isPlayableVideo(filePath: string): Promise<boolean> {
     if (!filePath || !fs.existsSync(filePath)) return false;
     try {
@@ -50,7 +145,10 @@ export async function generateHighlights(
     videoPath: string,
     analysis: AnalysisResult,
     outputDirOverride?: string,
-    outputNamePrefix?: string
+    outputNamePrefix?: string,
+    spec: HighlightSpec = DEFAULT_HIGHLIGHT_SPEC,
+    // reframe: false skips the vertical/square renditions (see getReframedVariantPath).
+    context: { petName?: string; reframe?: boolean } = {}
 ): Promise<string | null> {
     const highlightStart = Date.now();
     console.log("[Timing] generateHighlights started");
@@ -62,17 +160,14 @@ export async function generateHighlights(
     }
 
     // Calculate and log total duration
-    const parseTime = (t: string) => {
-        const [m, s] = t.split(':').map(Number);
-        return m * 60 + s;
-    };
     const totalDuration = analysis.highlightTimestamps.reduce((sum, ts) => {
-        return sum + (parseTime(ts.end) - parseTime(ts.start));
+        return sum + (timeToSeconds(ts.end) - timeToSeconds(ts.start));
     }, 0);
     console.log(`[Highlight Generator] Processing ${analysis.highlightTimestamps.length} clips, total duration: ${totalDuration}s`);
 
-    if (totalDuration > 120) {
-        console.warn(`[Highlight Generator] WARNING: Duration ${totalDuration}s exceeds 120s limit`);
+    const { maxSeconds, overageSeconds } = getHighlightLimits(spec);
+    if (totalDuration > maxSeconds + overageSeconds) {
+        console.warn(`[Highlight Generator] WARNING: Duration ${totalDuration}s exceeds ${maxSeconds}s limit for a ${spec.targetSeconds}s reel`);
     }
 
     const outputDir = outputDirOverride || path.dirname(videoPath);
@@ -83,33 +178,96 @@ export async function generateHighlights(
     const filename = deriveMediaStem(baseName, `video-${Date.now()}`);
     const finalHighlightPath = path.join(outputDir, `${filename}-highlights.mp4`);
 
-    const tempFiles: string[] = [];
+    // Scratch files for this run only (segments, concat list, caption and title files);
+    // the whole directory goes in the finally below, whichever way the run ends.
+    const workDir = createSegmentWorkDir(outputDir, filename);
+    const segmentPaths = analysis.highlightTimestamps.map((_, i) => path.join(workDir, `segment_${i}.mp4`));
+    const listFilePath = path.join(workDir, 'segments.txt');
+
+    // Segments may come from several files (day digests). Those are scaled to a common
+    // size/rate so the stream-copy concat below does not choke on mismatched parameters.
+    const sourcePaths = new Set(analysis.highlightTimestamps.map(ts => ts.sourcePath || videoPath));
+    const normalizeArgs = sourcePaths.size > 1
+        ? ` -vf "scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=30" -ar 48000 -ac 2`
+        : '';
+    const polished = spec.renderMode === 'polished';
 
     try {
-        // 1. Extract each segment using FFmpeg (parallel for speed)
-        let extractStart = Date.now();
-        const segmentPromises = analysis.highlightTimestamps.map(async (ts, i) => {
-            const segmentPath = path.join(outputDir, `temp_segment_${i}.mp4`);
-            const cmd = `${FFMPEG_CMD} -y -ss ${ts.start} -to ${ts.end} -i "${videoPath}" -c:v libx264 -preset ultrafast -crf 23 -c:a aac "${segmentPath}"`;
-            console.log(`Extracting segment ${i}: ${ts.start} to ${ts.end}`);
-            await execPromise(cmd, EXEC_OPTIONS);
-            return segmentPath;
-        });
-        tempFiles.push(...await Promise.all(segmentPromises));
-        console.log(`[Timing] Highlight segment extraction: ${formatDuration((Date.now() - extractStart) / 1000)} (${tempFiles.length} segments, parallel)`);
-
-        // 2. Concatenate segments
-        let concatStart = Date.now();
-        const listFilePath = path.join(outputDir, "segments.txt");
-        const listContent = tempFiles
-            .map(f => `file '${path.resolve(f).replace(/'/g, "'\\''")}'`)
-            .join("\n");
-        fs.writeFileSync(listFilePath, listContent);
-
-        console.log("Concatenating segments...");
-        const concatCmd = `${FFMPEG_CMD} -y -f concat -safe 0 -i "${listFilePath}" -c copy -movflags +faststart "${finalHighlightPath}"`;
-        await execPromise(concatCmd, EXEC_OPTIONS);
-        console.log(`[Timing] Highlight concatenation: ${formatDuration((Date.now() - concatStart) / 1000)}`);
+        // Polished segments carry a crossfade tail and are always normalized (xfade needs
+        // identical inputs), so sources are probed for audio first.
+        const sourceHasAudio = new Map<string, boolean>();
+        if (polished) {
+            for (const source of sourcePaths) sourceHasAudio.set(source, /Audio:/i.test(await readMediaInfo(source)));
+        }
+
+        // 1. Cut each segment: stream copy when a single-source standard reel snaps to
+        // keyframes, otherwise re-encode. Either way at most config.segmentConcurrency run at once.
+        const extractStart = Date.now();
+        const clips = analysis.highlightTimestamps.map(ts => ({
+            start: timeToSeconds(ts.start),
+            seconds: timeToSeconds(ts.end) - timeToSeconds(ts.start)
+        }));
+        const plan: SegmentPlan = !polished && sourcePaths.size === 1
+            ? planSegmentCuts(clips, await probeKeyframes([...sourcePaths][0]))
+            : { mode: 'encode', cuts: clips };
+        let mode = plan.mode;
+
+        if (mode === 'copy') {
+            // allSettled: a failed copy must not leave siblings writing while the re-encode starts.
+            const results = await Promise.allSettled(plan.cuts.map((cut, i) => withSegmentSlot(() =>
+                execMedia(streamCopyCommand(analysis.highlightTimestamps[i].sourcePath || videoPath, cut, segmentPaths[i]))
+            )));
+            const failure = results.find(result => result.status === 'rejected');
+            if (failure) {
+                console.warn("[Highlight Generator] Stream copy failed; re-encoding segments instead:", (failure as PromiseRejectedResult).reason);
+                mode = 'encode';
+            }
+        }
+
+        if (mode === 'encode') {
+            await Promise.all(analysis.highlightTimestamps.map((ts, i) => withSegmentSlot(async () => {
+                const segmentPath = segmentPaths[i];
+                const inputPath = ts.sourcePath || videoPath;
+                let cmd = `${FFMPEG_CMD} -y -ss ${ts.start} -to ${ts.end} -i "${inputPath}"${normalizeArgs} -c:v libx264 -preset ultrafast -crf 23 -c:a aac "${segmentPath}"`;
+                if (polished) {
+                    const start = timeToSeconds(ts.start);
+                    const end = timeToSeconds(ts.end) + POLISHED_CROSSFADE_SECONDS;
+                    const { inputArgs, outputArgs } = polishedSegmentArgs(sourceHasAudio.get(inputPath) !== false, end - start);
+                    cmd = `${FFMPEG_CMD} -y -ss ${start} -to ${end} -i "${inputPath}"${inputArgs}${outputArgs} -c:v libx264 -preset ultrafast -crf 23 -c:a aac "${segmentPath}"`;
+                }
+                console.log(`Extracting segment ${i}: ${ts.start} to ${ts.end}`);
+                await execMedia(cmd);
+            })));
+        }
+        console.log(`[Timing] Highlight segment extraction: ${formatDuration((Date.now() - extractStart) / 1000)} (${segmentPaths.length} segments, ${mode === 'copy' ? 'stream copy' : 're-encoded'}, concurrency ${config.segmentConcurrency})`);
+
+        if (polished) {
+            const polishStart = Date.now();
+            try {
+                const coverSource = analysis.coverTimestamp ? videoPath : (analysis.highlightTimestamps[0].sourcePath || videoPath);
+                const endCardStill = await extractFrame(coverSource, analysis.coverTimestamp || analysis.highlightTimestamps[0].start, workDir, 'endcard') || null;
+                await renderPolishedReel({
+                    clips: analysis.highlightTimestamps.map((ts, i) => ({
+                        path: segmentPaths[i],
+                        plannedSeconds: timeToSeconds(ts.end) - timeToSeconds(ts.start)
+                    })),
+                    outputPath: finalHighlightPath,
+                    workBase: path.join(workDir, 'polish'),
+                    title: analysis.title,
+                    petName: context.petName,
+                    endCardStillPath: endCardStill
+                });
+            } catch (error) {
+                // Tail-extended segments cannot be stream-concatenated, so fall back to a fresh standard cut.
+                console.warn("[Highlight Generator] Polished render failed; falling back to a standard cut:", error);
+                if (fs.existsSync(finalHighlightPath)) fs.unlinkSync(finalHighlightPath);
+                return generateHighlights(videoPath, analysis, outputDirOverride, outputNamePrefix, { ...spec, renderMode: 'standard' }, context);
+            }
+            console.log(`[Timing] Polished render: ${formatDuration((Date.now() - polishStart) / 1000)}`);
+        } else {
+            // 2. Concatenate segments
+            await concatSegments(segmentPaths, listFilePath, finalHighlightPath);
+        }
 
         const playable = await isPlayableVideo(finalHighlightPath);
         if (!playable) {
@@ -118,9 +276,16 @@ export async function generateHighlights(
             throw new Error("Generated highlight file is invalid");
         }
 
-        // 3. Cleanup
-        for (const f of tempFiles) fs.unlinkSync(f);
-        fs.unlinkSync(listFilePath);
+        // 3. Reframed renditions, cut before captions so each gets captions sized for its frame
+        const variants = context.reframe === false ? [] : await renderReframedVariants(finalHighlightPath, analysis);
+
+        // 4. Optional burned-in captions (a second encode; stream-copied segments cannot take a filter)
+        if (spec.burnCaptions) {
+            await burnCaptionsIntoReel(finalHighlightPath, analysis, path.join(workDir, 'reel'));
+            for (const variant of variants) {
+                await burnCaptionsIntoReel(getReframedVariantPath(finalHighlightPath, variant), analysis, path.join(workDir, `reel-${variant}`), REFRAMED_CAPTION_FONT_SIZE[variant]);
+            }
+        }
 
         const totalHighlightTime = (Date.now() - highlightStart) / 1000;
         console.log(`[Timing] generateHighlights total: ${formatDuration(totalHighlightTime)}`);
@@ -129,8 +294,8 @@ export async function generateHighlights(
 
     } catch (error) {
         console.error("Error generating highlights:", error);
-        // Cleanup on error
-        for (const f of tempFiles) { if (fs.existsSync(f)) fs.unlinkSync(f); }
         return null;
+    } finally {
+        removeSegmentWorkDir(workDir);
     }
 }
@@ -0,0 +1,1055 @@
+import type { AnalysisResult } from "./videoAnalyzer.ts";
+import {
+    DEFAULT_HIGHLIGHT_SPEC,
+    MAX_EDITED_HIGHLIGHT_SECONDS,
+    getHighlightLimits,
+    type HighlightSpec,
+    type HighlightStyle
+} from "./highlightSpec.ts";
+import { applyAudioEventsToMood, mergeAudioSafetyAlerts, salientAudioSeconds } from "./audioEvents.ts";
+import { flagMoodActivityConflicts, restFraction } from "./activityAnalysis.ts";
+
+// Pure highlight math shared by processVideo, retries and day digests: timestamp
+// conversion, mood/timeline normalization, the HighlightSpec length budget and the
+// mapping from original-clock times onto the stitched highlight reel.
+
+export function timeToSeconds(timeStr: string): number {
+    if (!timeStr) return 0;
+    // SS, M:SS (minutes may exceed 59) or H:MM:SS
+    return timeStr.split(':').map(Number).reduce((total, part) => total * 60 + part, 0);
+}
+
+export function secondsToTime(totalSeconds: number): string {
+    const m = Math.floor(totalSeconds / 60);
+    const s = Math.floor(totalSeconds % 60);
+    return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+export function inferVideoDurationFromAnalysis(analysis: any): number {
+    const values: number[] = [];
+    const add = (value: any) => {
+        if (typeof value !== 'string' || !value.trim()) return;
+        const sec = timeToSeconds(value);
+        if (Number.isFinite(sec) && sec > 0) values.push(sec);
+    };
+
+    for (const item of analysis?.narrativeSegments || []) add(item?.timestamp);
+    for (const item of analysis?.moodData || []) add(item?.name);
+    for (const item of analysis?.scenery || []) add(item?.timestamp);
+    for (const item of analysis?.friends || []) {
+        add(item?.timestamp);
+        add(item?.best_photo_timestamp);
+        for (const ts of item?.timestamps || []) add(ts?.time);
+    }
+    for (const item of analysis?.timeline || []) add(item?.time);
+    for (const item of analysis?.highlightTimestamps || []) {
+        add(item?.start);
+        add(item?.end);
+    }
+    for (const item of analysis?.safetyAlerts || []) add(item?.timestamp);
+    for (const item of analysis?.dietaryHabits || []) add(item?.timestamp);
+    add(analysis?.coverTimestamp);
+
+    const max = Math.max(0, ...values);
+    return max > 1 ? Math.ceil(max + 5) : 0;
+}
+
+export function sanitizeHighlightTimestamps<T extends Record<string, any>>(highlights: T[] | undefined, videoDuration: number): T[] {
+    if (!Array.isArray(highlights)) return [];
+    const hasDuration = Number.isFinite(videoDuration) && videoDuration > 1;
+    const cleaned: T[] = [];
+
+    for (const clip of highlights) {
+        const rawStart = timeToSeconds(String(clip?.start || ''));
+        const rawEnd = timeToSeconds(String(clip?.end || ''));
+        if (!Number.isFinite(rawStart) || !Number.isFinite(rawEnd)) continue;
+        if (rawStart < 0 || rawEnd <= rawStart) continue;
+
+        const start = hasDuration ? clamp(rawStart, 0, videoDuration) : rawStart;
+        const end = hasDuration ? clamp(rawEnd, 0, videoDuration) : rawEnd;
+        if (end - start < 1) continue;
+
+        cleaned.push({
+            ...clip,
+            start: secondsToTime(start),
+            end: secondsToTime(end),
+        });
+    }
+
+    return cleaned.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
+}
+
+const ALLOWED_TIMELINE_ICONS = new Set([
+    'visibility', 'pets', 'directions_walk', 'directions_run', 'favorite', 'explore', 'speed',
+    'park', 'home', 'restaurant', 'bolt', 'terrain', 'forest', 'brush', 'groups', 'stairs',
+    'waves', 'search', 'wb_sunny', 'nightlight_round', 'sports_score', 'trending_up',
+    'trending_down', 'straighten', 'room', 'auto_fix_high', 'grass', 'meeting_room', 'roofing',
+    'south', 'error', 'timeline'
+]);
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+function pickEvenIndices(length: number, target: number): number[] {
+    if (target <= 0 || length <= 0) return [];
+    if (target >= length) return Array.from({ length }, (_, i) => i);
+
+    const indices = new Set<number>([0, length - 1]);
+    for (let i = 1; i < target - 1; i++) {
+        const idx = Math.round((i * (length - 1)) / (target - 1));
+        indices.add(idx);
+    }
+
+    let result = Array.from(indices).sort((a, b) => a - b);
+    let cursor = 0;
+    while (result.length < target) {
+        if (!indices.has(cursor)) {
+            indices.add(cursor);
+            result.push(cursor);
+        }
+        cursor++;
+    }
+
+    result.sort((a, b) => a - b);
+    return result.slice(0, target);
+}
+
+function interpolateMoodValue(points: { sec: number; value: number }[], targetSec: number): number {
+    if (points.length === 0) return 50;
+    if (points.length === 1) return points[0].value;
+    if (targetSec <= points[0].sec) return points[0].value;
+
+    for (let i = 1; i < points.length; i++) {
+        const right = points[i];
+        const left = points[i - 1];
+        if (targetSec <= right.sec) {
+            const span = right.sec - left.sec;
+            if (span <= 0) return right.value;
+            const ratio = (targetSec - left.sec) / span;
+            return left.value + (right.value - left.value) * ratio;
+        }
+    }
+    return points[points.length - 1].value;
+}
+
+export function normalizeMoodData(
+    moodData: { name: string; value: number }[] | undefined,
+    videoDuration: number
+): { name: string; value: number }[] {
+    const safeDuration = Math.max(1, Math.round(videoDuration));
+    const cleaned = (moodData || [])
+        .map(item => {
+            const sec = clamp(Math.round(timeToSeconds(item?.name || '0:00')), 0, safeDuration);
+            const value = clamp(Math.round(Number(item?.value ?? 50)), 0, 100);
+            return { sec, value };
+        })
+        .filter(item => Number.isFinite(item.sec) && Number.isFinite(item.value))
+        .sort((a, b) => a.sec - b.sec);
+
+    // Deduplicate same-second points (keep the latest value to avoid flat duplicates)
+    const deduped = new Map<number, number>();
+    for (const point of cleaned) deduped.set(point.sec, point.value);
+    let points = Array.from(deduped.entries())
+        .map(([sec, value]) => ({ sec, value }))
+        .sort((a, b) => a.sec - b.sec);
+
+    if (points.length === 0) {
+        points = [{ sec: 0, value: 50 }, { sec: safeDuration, value: 50 }];
+    } else {
+        if (points[0].sec > 0) {
+            points.unshift({ sec: 0, value: points[0].value });
+        } else {
+            points[0].sec = 0;
+        }
+        if (points[points.length - 1].sec < safeDuration) {
+            points.push({ sec: safeDuration, value: points[points.length - 1].value });
+        } else {
+            points[points.length - 1].sec = safeDuration;
+        }
+    }
+
+    const targetCount = clamp(Math.round(safeDuration / 12), 20, 30);
+    const result: { name: string; value: number }[] = [];
+    for (let i = 0; i < targetCount; i++) {
+        const sec = i === targetCount - 1 ? safeDuration : Math.round((i * safeDuration) / (targetCount - 1));
+        const value = clamp(Math.round(interpolateMoodValue(points, sec)), 0, 100);
+        result.push({ name: secondsToTime(sec), value });
+    }
+
+    return result;
+}
+
+function timelineLabelFromMood(value: number): { label: string; icon: string } {
+    if (value >= 85) return { label: 'Zoomies Peak', icon: 'speed' };
+    if (value >= 70) return { label: 'Play Burst', icon: 'directions_run' };
+    if (value >= 55) return { label: 'Curious Patrol', icon: 'explore' };
+    if (value >= 40) return { label: 'Steady Cruise', icon: 'directions_walk' };
+    return { label: 'Quiet Reset', icon: 'home' };
+}
+
+export function normalizeTimeline(
+    timeline: { time: string; label: string; icon: string }[] | undefined,
+    moodData: { name: string; value: number }[],
+    videoDuration: number
+): { time: string; label: string; icon: string }[] {
+    const safeDuration = Math.max(1, Math.round(videoDuration));
+    const targetCount = clamp(Math.round(safeDuration / 24), 15, 20);
+
+    const normalized = (timeline || [])
+        .map(item => {
+            const sec = clamp(Math.round(timeToSeconds(item?.time || '0:00')), 0, safeDuration);
+            const label = (item?.label || '').trim() || 'Story Beat';
+            const icon = ALLOWED_TIMELINE_ICONS.has(item?.icon) ? item.icon : 'timeline';
+            return { sec, label, icon };
+        })
+        .filter(item => Number.isFinite(item.sec))
+        .sort((a, b) => a.sec - b.sec);
+
+    const dedupedMap = new Map<number, { sec: number; label: string; icon: string }>();
+    for (const entry of normalized) dedupedMap.set(entry.sec, entry);
+    let entries = Array.from(dedupedMap.values()).sort((a, b) => a.sec - b.sec);
+
+    if (entries.length > 20) {
+        entries = pickEvenIndices(entries.length, 20).map(i => entries[i]);
+    }
+
+    const secExistsNearby = (sec: number, threshold: number = 12) =>
+        entries.some(e => Math.abs(e.sec - sec) <= threshold);
+
+    // Backfill from mood signal if AI timeline is too sparse.
+    if (entries.length < 15) {
+        const moodCandidates = moodData
+            .map(point => ({ sec: timeToSeconds(point.name), value: point.value }))
+            .sort((a, b) => {
+                const interestA = Math.abs(a.value - 50);
+                const interestB = Math.abs(b.value - 50);
+                return interestB - interestA;
+            });
+
+        for (const candidate of moodCandidates) {
+            if (entries.length >= targetCount) break;
+            if (!Number.isFinite(candidate.sec) || candidate.sec < 0 || candidate.sec > safeDuration) continue;
+            if (secExistsNearby(candidate.sec)) continue;
+            const moodTag = timelineLabelFromMood(candidate.value);
+            entries.push({
+                sec: candidate.sec,
+                label: moodTag.label,
+                icon: moodTag.icon
+            });
+        }
+    }
+
+    // Final filler to satisfy strict 15-20 requirement.
+    let fillerIndex = 1;
+    let fillerAttempts = 0;
+    while (entries.length < 15 && fillerAttempts < 300) {
+        fillerAttempts++;
+        const sec = Math.round((fillerIndex * safeDuration) / 15);
+        fillerIndex++;
+        if (sec > safeDuration) break;  // Short clips fall through to the dense fallback below
+        if (secExistsNearby(sec, 8)) continue;
+        entries.push({
+            sec,
+            label: `Story Beat ${entries.length + 1}`,
+            icon: 'timeline'
+        });
+    }
+
+    // Ultra-short/edge-case fallback: allow dense placeholders if needed.
+    while (entries.length < 15) {
+        const sec = clamp(entries.length - 1, 0, safeDuration);
+        entries.push({
+            sec,
+            label: `Story Beat ${entries.length + 1}`,
+            icon: 'timeline'
+        });
+    }
+
+    entries.sort((a, b) => a.sec - b.sec);
+    if (entries.length > 20) {
+        entries = pickEvenIndices(entries.length, 20).map(i => entries[i]);
+    }
+
+    return entries.map(item => ({
+        time: secondsToTime(item.sec),
+        label: item.label,
+        icon: item.icon
+    }));
+}
+
+export function mapAndFilterForHighlight<T extends Record<string, any>>(
+    arr: T[] | undefined,
+    timeField: keyof T & string,
+    originalField: string,
+    highlights: { start: string; end: string }[]
+): T[] {
+    if (!arr || !Array.isArray(arr) || highlights.length === 0) return [];
+    const mapped: T[] = [];
+    for (const item of arr) {
+        if (!item || typeof item !== 'object' || !item[timeField]) continue;
+        const sourceTime = item[originalField] || item[timeField];
+        const mappedTime = mapToHighlightTime(sourceTime, highlights);
+        if (mappedTime === null) continue;
+        mapped.push({
+            ...item,
+            [originalField]: sourceTime,
+            [timeField]: mappedTime,
+            isMapped: true
+        });
+    }
+    return mapped;
+}
+
+// Helper function to get source priority for merging decisions
+export function getSourcePriority(source?: string): number {
+    switch (source) {
+        case 'safety': return 100;
+        case 'friend+scenery': return 95;  // Combo: friend + scenery
+        case 'friend': return 80;
+        case 'food': return 60;
+        case 'scenery': return 40;
+        default: return 10;  // AI generated
+    }
+}
+
+export function mergeOverlappingSegments(segments: any[]): any[] {
+    if (segments.length <= 1) return segments;
+
+    const merged: any[] = [];
+    let current = { ...segments[0] };  // Preserve all fields
+
+    for (let i = 1; i < segments.length; i++) {
+        const next = segments[i];
+        const currentEnd = timeToSeconds(current.end);
+        const nextStart = timeToSeconds(next.start);
+
+        // If segments overlap or are adjacent (within 2 seconds), merge them
+        if (nextStart <= currentEnd + 2) {
+            const nextEnd = timeToSeconds(next.end);
+            if (nextEnd > currentEnd) {
+                current.end = next.end;
+            }
+
+            // Detect friend + scenery combination (highest value content)
+            const sources = [current.source, next.source].filter(Boolean);
+            const hasFriend = sources.includes('friend') || sources.includes('friend+scenery');
+            const hasScenery = sources.includes('scenery') || sources.includes('friend+scenery');
+
+            if (hasFriend && hasScenery) {
+                // This is a friend + scenery combo - mark it as highest priority
+                current.source = 'friend+scenery';
+                current.friendName = current.friendName || next.friendName;
+                current.isHighQuality = current.isHighQuality || next.isHighQuality;
+                console.log(`[Merge] Detected friend+scenery combo: ${current.start}-${current.end}`);
+            } else if (getSourcePriority(next.source) > getSourcePriority(current.source)) {
+                // When merging, keep the higher priority source
+                current.source = next.source;
+                current.friendName = next.friendName || current.friendName;
+            }
+
+            // Preserve high quality flag and keep the higher score
+            current.isHighQuality = current.isHighQuality || next.isHighQuality;
+            current.score = Math.max(current.score || 0, next.score || 0);
+        } else {
+            merged.push(current);
+            current = { ...next };  // Preserve all fields
+        }
+    }
+    merged.push(current);
+
+    return merged;
+}
+
+export function ensureFriendsInHighlights(
+    friends: any[],
+    highlightTimestamps: any[],
+    videoDuration: number,
+    bufferSeconds: number = 3
+): any[] {
+    if (!friends || friends.length === 0) return highlightTimestamps;
+
+    let segments = highlightTimestamps.map(s => ({ ...s }));  // Preserve all fields
+
+    for (const friend of friends) {
+        // Get all timestamps for this friend (from timestamps array or fallback to single timestamp)
+        const allTimestamps: { time: string; duration?: number }[] = friend.timestamps?.length > 0
+            ? friend.timestamps
+            : friend.timestamp ? [{ time: friend.timestamp, duration: friend.duration }] : [];
+
+        for (const ts of allTimestamps) {
+            const friendTime = timeToSeconds(ts.time);
+            const friendDuration = ts.duration || friend.duration || 5;
+
+            // Check if this timestamp is within any existing segment
+            const isIncluded = segments.some(seg => {
+                const segStart = timeToSeconds(seg.start);
+                const segEnd = timeToSeconds(seg.end);
+                return friendTime >= segStart && friendTime <= segEnd;
+            });
+
+            if (!isIncluded) {
+                // Create a new segment for this friend encounter
+                const newSegStart = Math.max(0, friendTime - bufferSeconds);
+                const newSegEnd = Math.min(videoDuration, friendTime + Math.max(friendDuration, bufferSeconds));
+
+                segments.push({
+                    start: secondsToTime(newSegStart),
+                    end: secondsToTime(newSegEnd),
+                    source: 'friend',
+                    friendName: friend.name,
+                    isHighQuality: false
+                });
+
+                console.log(`[Friend Inclusion] Added segment ${secondsToTime(newSegStart)}-${secondsToTime(newSegEnd)} for friend "${friend.name}" at ${ts.time}`);
+            }
+        }
+    }
+
+    // Sort by start time
+    segments.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
+
+    // Merge overlapping segments
+    return mergeOverlappingSegments(segments);
+}
+
+export function ensureSceneryInHighlights(
+    scenery: any[],
+    highlightTimestamps: any[],
+    videoDuration: number,
+    bufferSeconds: number = 2
+): any[] {
+    if (!scenery || scenery.length === 0) return highlightTimestamps;
+
+    let segments = highlightTimestamps.map(s => ({ ...s }));  // Preserve all fields
+
+    // Only ensure coverage for scenery with stayDuration >= 3s
+    const significantScenery = scenery.filter(s => s.stayDuration >= 3 && s.timestamp);
+
+    // Identify high-quality scenery (stayDuration >= 5s)
+    const highQualitySceneryTimes = scenery
+        .filter(s => s.stayDuration >= 5 && s.timestamp)
+        .map(s => timeToSeconds(s.timestamp));
+
+    for (const scene of significantScenery) {
+        const sceneTime = timeToSeconds(scene.timestamp);
+        const sceneDuration = scene.stayDuration || 5;
+        const isHighQuality = sceneDuration >= 5;
+
+        // Check if this timestamp is within any existing segment
+        const existingSegmentIndex = segments.findIndex(seg => {
+            const segStart = timeToSeconds(seg.start);
+            const segEnd = timeToSeconds(seg.end);
+            return sceneTime >= segStart && sceneTime <= segEnd;
+        });
+
+        if (existingSegmentIndex >= 0) {
+            // Mark existing segment as covering scenery (for friend+scenery detection)
+            const existingSeg = segments[existingSegmentIndex];
+            if (existingSeg.source === 'friend') {
+                // Friend segment contains scenery → upgrade to friend+scenery combo (priority 95)
+                existingSeg.source = 'friend+scenery';
+                console.log(`[Scenery] Upgraded segment ${existingSeg.start}-${existingSeg.end} to friend+scenery combo`);
+            } else if (!existingSeg.source || existingSeg.source === 'ai') {
+                existingSeg.source = 'scenery';
+            }
+            // Mark as high quality if this is a high-quality scenery moment
+            if (isHighQuality) {
+                existingSeg.isHighQuality = true;
+                console.log(`[Scenery] Marked existing segment ${existingSeg.start}-${existingSeg.end} as high-quality scenery`);
+            }
+        } else {
+            // Create a new segment for this scenery
+            const clipDuration = Math.min(sceneDuration, 5);
+            const newSegStart = Math.max(0, sceneTime - bufferSeconds);
+            const newSegEnd = Math.min(videoDuration, sceneTime + clipDuration);
+
+            // Detect nearby friend segments (gap <= 10s)
+            // Threshold note: current case has 7s gap, 10s provides margin.
+            // False-boost risk is low: only affects stayDuration>=3 scenery, each clip is 3-5s budget.
+            const hasNearbyFriend = segments.some(seg => {
+                if (seg.source !== 'friend' && seg.source !== 'friend+scenery') return false;
+                const segStart = timeToSeconds(seg.start);
+                const segEnd = timeToSeconds(seg.end);
+                const gapAfter = segStart - newSegEnd;
+                const gapBefore = newSegStart - segEnd;
+                return (gapAfter >= 0 && gapAfter <= 10) || (gapBefore >= 0 && gapBefore <= 10);
+            });
+
+            segments.push({
+                start: secondsToTime(newSegStart),
+                end: secondsToTime(newSegEnd),
+                source: 'scenery',
+                isHighQuality: isHighQuality,
+                isNearFriend: hasNearbyFriend
+            });
+
+            if (hasNearbyFriend) {
+                console.log(`[Scenery] Near-friend scenery: "${scene.sceneryLabel || scene.description}" at ${secondsToTime(newSegStart)}-${secondsToTime(newSegEnd)} (priority boosted to 85)`);
+            }
+            console.log(`[Scenery Inclusion] Added ${isHighQuality ? 'HIGH-QUALITY ' : ''}segment ${secondsToTime(newSegStart)}-${secondsToTime(newSegEnd)} for "${scene.sceneryLabel || scene.description}" (stayDuration: ${sceneDuration}s)`);
+        }
+    }
+
+    segments.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
+    return mergeOverlappingSegments(segments);
+}
+
+export function ensureFoodInHighlights(
+    dietaryHabits: any[],
+    highlightTimestamps: any[],
+    videoDuration: number,
+    bufferSeconds: number = 1
+): any[] {
+    if (!dietaryHabits || dietaryHabits.length === 0) return highlightTimestamps;
+
+    let segments = highlightTimestamps.map(s => ({ ...s }));  // Preserve all fields
+
+    for (const habit of dietaryHabits) {
+        if (!habit.timestamp) continue;
+
+        const foodTime = timeToSeconds(habit.timestamp);
+
+        // Check if already covered by existing highlights
+        const isIncluded = segments.some(seg => {
+            const segStart = timeToSeconds(seg.start);
+            const segEnd = timeToSeconds(seg.end);
+            return foodTime >= segStart && foodTime <= segEnd;
+        });
+
+        if (!isIncluded) {
+            // Create a short clip (3-4s) around the food timestamp
+            // Food clips should be brief - just enough to show the eating/drinking
+            const clipDuration = 3;
+            const newSegStart = Math.max(0, foodTime - bufferSeconds);
+            const newSegEnd = Math.min(videoDuration, foodTime + clipDuration);
+
+            segments.push({
+                start: secondsToTime(newSegStart),
+                end: secondsToTime(newSegEnd),
+                source: 'food'
+            });
+
+            console.log(`[Food Inclusion] Added segment ${secondsToTime(newSegStart)}-${secondsToTime(newSegEnd)} for "${habit.item}" (${habit.action}) at ${habit.timestamp}`);
+        }
+    }
+
+    segments.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
+    return mergeOverlappingSegments(segments);
+}
+
+export function ensureSafetyAlertsInHighlights(
+    safetyAlerts: any[],
+    highlightTimestamps: any[],
+    videoDuration: number,
+    bufferSeconds: number = 1
+): any[] {
+    if (!safetyAlerts || safetyAlerts.length === 0) return highlightTimestamps;
+
+    let segments = highlightTimestamps.map(s => ({ ...s }));  // Preserve all fields
+
+    for (const alert of safetyAlerts) {
+        if (!alert.timestamp) continue;
+
+        const alertTime = timeToSeconds(alert.timestamp);
+
+        // Check if already covered by existing highlights
+        const isIncluded = segments.some(seg => {
+            const segStart = timeToSeconds(seg.start);
+            const segEnd = timeToSeconds(seg.end);
+            return alertTime >= segStart && alertTime <= segEnd;
+        });
+
+        if (!isIncluded) {
+            // Create a clip around the safety alert timestamp
+            // Danger alerts get longer clips (4-5s) to show context, warnings get shorter (3-4s)
+            const clipDuration = alert.type === 'danger' ? 4 : 3;
+            const newSegStart = Math.max(0, alertTime - bufferSeconds);
+            const newSegEnd = Math.min(videoDuration, alertTime + clipDuration);
+
+            segments.push({
+                start: secondsToTime(newSegStart),
+                end: secondsToTime(newSegEnd),
+                source: 'safety'
+            });
+
+            console.log(`[Safety Inclusion] Added segment ${secondsToTime(newSegStart)}-${secondsToTime(newSegEnd)} for "${alert.type}" alert: "${alert.message}" at ${alert.timestamp}`);
+        }
+    }
+
+    segments.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
+    return mergeOverlappingSegments(segments);
+}
+
+export function validateFriendCoverage(
+    friends: any[],
+    highlightTimestamps: { start: string; end: string }[]
+): { start: string; end: string }[] {
+    if (!friends || friends.length === 0) return highlightTimestamps;
+
+    let segments = [...highlightTimestamps];
+
+    for (const friend of friends) {
+        // Get all timestamps for this friend (from timestamps array or fallback to single timestamp)
+        const allTimestamps: { time: string; duration?: number }[] = friend.timestamps?.length > 0
+            ? friend.timestamps
+            : friend.timestamp ? [{ time: friend.timestamp, duration: friend.duration }] : [];
+
+        for (const ts of allTimestamps) {
+            const friendStart = timeToSeconds(ts.time);
+            const friendDuration = ts.duration || 5;
+            const friendEnd = friendStart + friendDuration;
+
+            // Check if friend's full interaction time [friendStart, friendEnd] is covered
+            let covered = false;
+            for (const seg of segments) {
+                const segStart = timeToSeconds(seg.start);
+                const segEnd = timeToSeconds(seg.end);
+
+                // Check if at least 3 seconds (or full duration if shorter) of the interaction is covered
+                const overlapStart = Math.max(friendStart, segStart);
+                const overlapEnd = Math.min(friendEnd, segEnd);
+                const overlapDuration = overlapEnd - overlapStart;
+
+                if (overlapDuration >= Math.min(3, friendDuration)) {
+                    covered = true;
+                    break;
+                }
+            }
+
+            if (!covered) {
+                // Friend's interaction time is not sufficiently covered, create new segment
+                // Take the middle 3-5 seconds of the interaction or full interaction (whichever is shorter)
+                const clipDuration = Math.min(friendDuration, 5);
+                const clipStart = friendStart + (friendDuration - clipDuration) / 2;
+                const clipEnd = clipStart + clipDuration;
+
+                segments.push({
+                    start: secondsToTime(Math.max(0, clipStart - 1)),
+                    end: secondsToTime(clipEnd + 1)
+                });
+
+                console.log(`[Friend Coverage] Added segment ${secondsToTime(clipStart)}-${secondsToTime(clipEnd)} for "${friend.name}" at ${ts.time} (duration: ${friendDuration}s)`);
+            }
+        }
+    }
+
+    // Sort and merge overlapping segments
+    segments.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
+    return mergeOverlappingSegments(segments);
+}
+
+export function mapToHighlightTime(originalTimeStr: string, highlightTimestamps: { start: string, end: string }[]): string | null {
+    if (!highlightTimestamps || highlightTimestamps.length === 0) return null;
+    const t = timeToSeconds(originalTimeStr);
+    let highlightOffset = 0;
+
+    for (const seg of highlightTimestamps) {
+        const segStart = timeToSeconds(seg.start);
+        const segEnd = timeToSeconds(seg.end);
+
+        // Only return valid time if within a highlight segment
+        if (t >= segStart && t <= segEnd) {
+            return secondsToTime(highlightOffset + (t - segStart));
+        }
+
+        highlightOffset += (segEnd - segStart);
+    }
+
+    // Not within any highlight segment - return null to indicate unmappable
+    return null;
+}
+
+export type HighlightSegment = AnalysisResult['highlightTimestamps'][number];
+
+// First-pass trimming bonus for AI clips that cover a friend, long-stay scenery or a
+// labelled sound (bark, horn, thunder...).
+const STYLE_IMPORTANCE_BONUS: Record<HighlightStyle, { friend: number; scenery: number; audio: number }> = {
+    balanced: { friend: 50, scenery: 50, audio: 30 },
+    action: { friend: 20, scenery: 0, audio: 50 },
+    scenic: { friend: 20, scenery: 60, audio: 10 },
+    social: { friend: 60, scenery: 20, audio: 40 }
+};
+
+// Final-pass priority shift per clip source ('ai' = Gemini-picked). Safety always stays on top.
+const STYLE_PRIORITY_BONUS: Record<HighlightStyle, Record<string, number>> = {
+    balanced: {},
+    action: { ai: 50, friend: -20, scenery: -30, food: -30 },
+    scenic: { scenery: 40, friend: -20, food: -30 },
+    social: { friend: 15, scenery: -25, food: -20 }
+};
+
+const MAX_EDITED_CLIPS = 40;
+// AI clips spent mostly in measured rest are the first to go when trimming.
+const RESTING_CLIP_FRACTION = 0.8;
+const RESTING_CLIP_PENALTY = 10;
+
+// Validates a user-edited clip list (original clock) for PUT /highlights. Invalid or
+// sub-second clips are rejected rather than dropped so the editor never loses a clip
+// silently; overlapping clips are merged so mapToHighlightTime stays unambiguous.
+export function parseEditedHighlightsInput(raw: unknown, videoDuration: number): { clips: HighlightSegment[] } | { error: string } {
+    if (!Array.isArray(raw) || raw.length === 0) return { error: 'clips must be a non-empty array of { start, end }' };
+    if (raw.length > MAX_EDITED_CLIPS) return { error: `A reel can have at most ${MAX_EDITED_CLIPS} clips` };
+
+    const requested: HighlightSegment[] = raw.map((clip: any) => ({
+        start: typeof clip?.start === 'number' ? secondsToTime(clip.start) : String(clip?.start ?? ''),
+        end: typeof clip?.end === 'number' ? secondsToTime(clip.end) : String(clip?.end ?? ''),
+        source: typeof clip?.source === 'string' ? clip.source : 'user',
+        ...(typeof clip?.friendName === 'string' ? { friendName: clip.friendName } : {})
+    }));
+    const cleaned = sanitizeHighlightTimestamps(requested, videoDuration);
+    if (cleaned.length < requested.length) {
+        const invalid = requested
+            .filter(clip => sanitizeHighlightTimestamps([clip], videoDuration).length === 0)
+            .map(clip => `${clip.start || '?'}-${clip.end || '?'}`);
+        return { error: `Clips must be at least 1s long and inside the ${secondsToTime(videoDuration)} recording: ${invalid.join(', ')}` };
+    }
+
+    const clips = mergeOverlappingSegments(cleaned);
+    const totalSeconds = clips.reduce((sum, clip) => sum + timeToSeconds(clip.end) - timeToSeconds(clip.start), 0);
+    if (totalSeconds > MAX_EDITED_HIGHLIGHT_SECONDS) {
+        return { error: `The edited reel is ${Math.round(totalSeconds)}s; keep it under ${MAX_EDITED_HIGHLIGHT_SECONDS}s` };
+    }
+    return { clips };
+}
+
+// Normalizes mood/timeline and builds the final highlight segment list (duration
+// trimming, mandatory friend/scenery/food/safety coverage). Mutates analysisData.
+export function planHighlights(
+    analysisData: AnalysisResult,
+    videoDuration: number,
+    spec: HighlightSpec = DEFAULT_HIGHLIGHT_SPEC
+): HighlightSegment[] {
+    const { maxSeconds: MAX_HIGHLIGHT_DURATION, overageSeconds } = getHighlightLimits(spec);
+    const importanceBonus = STYLE_IMPORTANCE_BONUS[spec.style];
+    const priorityBonus = STYLE_PRIORITY_BONUS[spec.style];
+
+    // Normalize generated signals before any highlight-based mapping.
+    analysisData.moodData = normalizeMoodData(analysisData.moodData, videoDuration);
+    analysisData.timeline = normalizeTimeline(analysisData.timeline, analysisData.moodData, videoDuration);
+    // Heard-but-not-seen moments: raise the mood curve and flag audio-only hazards.
+    if (analysisData.audioEvents?.length) {
+        analysisData.moodData = applyAudioEventsToMood(analysisData.moodData, analysisData.audioEvents);
+        analysisData.safetyAlerts = mergeAudioSafetyAlerts(analysisData.safetyAlerts, analysisData.audioEvents);
+    }
+    analysisData.moodData = flagMoodActivityConflicts(analysisData.moodData, analysisData.activityData);
+    const isRestingClip = (clip: any) => !clip.source
+        && restFraction(analysisData.activitySegments, timeToSeconds(clip.start), timeToSeconds(clip.end)) >= RESTING_CLIP_FRACTION;
+    const audioTimes = salientAudioSeconds(analysisData.audioEvents);
+    const coversAudio = (clip: any) => {
+        const clipStart = timeToSeconds(clip.start);
+        const clipEnd = timeToSeconds(clip.end);
+        return audioTimes.some(t => t >= clipStart && t <= clipEnd);
+    };
+
+    // === Highlight duration check and fallback ===
+    let highlights = sanitizeHighlightTimestamps(analysisData.highlightTimestamps || [], videoDuration);
+
+    // Calculate total duration
+    const calculateDuration = (segs: typeof highlights) =>
+        segs.reduce((sum, seg) => sum + (timeToSeconds(seg.end) - timeToSeconds(seg.start)), 0);
+
+    const totalDuration = calculateDuration(highlights);
+    console.log(`[Highlight] AI returned ${highlights.length} clips, total duration: ${totalDuration}s`);
+
+    // Log scores and reasons for debugging
+    highlights.forEach((clip, i) => {
+        if (clip.reason || clip.score) {
+            console.log(`  [Clip ${i + 1}] ${clip.start}-${clip.end} | Score: ${clip.score || 'N/A'} | ${clip.reason || ''}`);
+        }
+    });
+
+    // Fallback: if duration exceeds the budget, trim by score (with protection for important content)
+    if (totalDuration > MAX_HIGHLIGHT_DURATION) {
+        console.log(`[Highlight] Duration ${totalDuration}s exceeds ${MAX_HIGHLIGHT_DURATION}s, trimming...`);
+
+        // Collect important timestamps from friends and high-quality scenery
+        const friendTimes = (analysisData.friends || []).flatMap(f =>
+            f.timestamps?.map((t: any) => timeToSeconds(t.time)) || [timeToSeconds(f.timestamp)]
+        ).filter(Boolean);
+
+        const highQualitySceneryTimes = (analysisData.scenery || [])
+            .filter(s => s.stayDuration >= 5 && s.timestamp)
+            .map(s => timeToSeconds(s.timestamp));
+
+        // Bonus for a clip covering important timestamps (the larger bonus wins, they do not stack)
+        const getImportanceBonus = (clip: any): number => {
+            const clipStart = timeToSeconds(clip.start);
+            const clipEnd = timeToSeconds(clip.end);
+
+            const coversFriend = friendTimes.some(t => t >= clipStart && t <= clipEnd);
+            const coversScenery = highQualitySceneryTimes.some(t => t >= clipStart && t <= clipEnd);
+
+            return Math.max(
+                coversFriend ? importanceBonus.friend : 0,
+                coversScenery ? importanceBonus.scenery : 0,
+                coversAudio(clip) ? importanceBonus.audio : 0
+            );
+        };
+
+        // Enhanced sorting: score + importance bonus
+        const getEnhancedScore = (clip: any): number => {
+            let score = clip.score || 0;
+            const bonus = getImportanceBonus(clip);
+            if (bonus > 0) {
+                score += bonus;
+                console.log(`  [Protection] Clip ${clip.start}-${clip.end} covers important content, score boosted`);
+            } else if (isRestingClip(clip)) {
+                score -= RESTING_CLIP_PENALTY;
+            }
+            return score;
+        };
+
+        const sorted = [...highlights].sort((a, b) => getEnhancedScore(b) - getEnhancedScore(a));
+        const kept: typeof highlights = [];
+        let currentDuration = 0;
+
+        for (const clip of sorted) {
+            const clipDuration = timeToSeconds(clip.end) - timeToSeconds(clip.start);
+            if (currentDuration + clipDuration <= MAX_HIGHLIGHT_DURATION) {
+                kept.push(clip);
+                currentDuration += clipDuration;
+            }
+        }
+
+        // Sort back to chronological order
+        kept.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
+        highlights = kept;
+
+        console.log(`[Highlight] Trimmed to ${kept.length} clips, duration: ${calculateDuration(kept)}s`);
+    }
+
+    // Cap unrealistic stayDuration values
+    if (analysisData.scenery) {
+        for (const scene of analysisData.scenery) {
+            if (typeof scene.stayDuration === 'number' && scene.stayDuration > 15) {
+                console.log(`[Scenery Cap] "${scene.sceneryLabel || scene.description}" stayDuration ${scene.stayDuration}s → capped to 15s`);
+                scene.stayDuration = 15;
+            }
+        }
+    }
+
+    // Ensure all friend timestamps are included in highlights
+    if (spec.mandatory.friends) {
+        highlights = ensureFriendsInHighlights(
+            analysisData.friends,
+            highlights,
+            videoDuration,
+            3  // 3 second buffer
+        );
+    }
+
+    // Ensure significant scenery moments are included in highlights
+    if (spec.mandatory.scenery) {
+        highlights = ensureSceneryInHighlights(
+            analysisData.scenery,
+            highlights,
+            videoDuration,
+            2
+        );
+    }
+
+    // Ensure dietary habits (food/drink) moments are included in highlights
+    if (spec.mandatory.food) {
+        highlights = ensureFoodInHighlights(
+            analysisData.dietaryHabits,
+            highlights,
+            videoDuration,
+            1  // 1 second buffer before food moment
+        );
+    }
+
+    // Ensure safety alerts (danger/warning) are included in highlights
+    if (spec.mandatory.safety) {
+        highlights = ensureSafetyAlertsInHighlights(
+            analysisData.safetyAlerts,
+            highlights,
+            videoDuration,
+            1  // 1 second buffer before alert moment
+        );
+    }
+    highlights = sanitizeHighlightTimestamps(highlights, videoDuration);
+
+    // ========== Final duration check and smart layered trimming ==========
+    const finalDuration = calculateDuration(highlights);
+
+    if (finalDuration > MAX_HIGHLIGHT_DURATION) {
+        console.log(`[Highlight] Final duration ${finalDuration.toFixed(1)}s exceeds ${MAX_HIGHLIGHT_DURATION}s, smart trimming...`);
+
+        // Assign priority to clips (higher = more important, kept longer)
+        const getBasePriority = (clip: any): number => {
+            if (clip.source === 'friend+scenery') return 95;  // Friend + Scenery combo: highest value content
+            if (clip.source === 'scenery' && clip.isNearFriend) return 85;  // Near-friend scenery: context preservation
+            if (clip.source === 'friend') return 80;
+            if (clip.source === 'scenery' && clip.isHighQuality) return 75;  // High-quality scenery (stayDuration >= 5s)
+            if (clip.source === 'food') return 60;
+            if (clip.source === 'scenery') return 50;  // Regular scenery (raised from 40)
+            if (coversAudio(clip)) return 40;  // AI clip around a bark, horn, doorbell...
+            if (isRestingClip(clip)) return 5;  // Measured rest: lying down, sitting still
+            const score = clip.score || 0;
+            if (score >= 15) return 30;
+            if (score >= 10) return 20;
+            return 10;
+        };
+        // Safety is never outranked; the style preset shifts everything else.
+        const getPriority = (clip: any): number => {
+            if (clip.source === 'safety') return 100;
+            return Math.min(99, getBasePriority(clip) + (priorityBonus[clip.source || 'ai'] || 0));
+        };
+
+        // Sort by priority (high priority first, will be kept)
+        const sorted = [...highlights].sort((a, b) => getPriority(b) - getPriority(a));
+
+        const kept: typeof highlights = [];
+        let currentDuration = 0;
+        const friendsIncluded = new Set<string>();
+
+        for (const clip of sorted) {
+            let clipDuration = timeToSeconds(clip.end) - timeToSeconds(clip.start);
+
+            // Check if this is the only clip for a friend
+            const isOnlyFriendClip = spec.mandatory.friends &&
+                clip.source === 'friend' &&
+                clip.friendName &&
+                !friendsIncluded.has(clip.friendName);
+
+            // Compression strategy: if not enough space but clip is important, try to shorten
+            if (currentDuration + clipDuration > MAX_HIGHLIGHT_DURATION) {
+                const remaining = MAX_HIGHLIGHT_DURATION - currentDuration;
+
+                // Safety: never delete, but can shorten to 3s minimum
+                if (clip.source === 'safety' && spec.mandatory.safety && remaining >= 3) {
+                    clip.end = secondsToTime(timeToSeconds(clip.start) + Math.max(3, remaining));
+                    clipDuration = remaining;
+                    console.log(`[Highlight] Compressed safety clip to ${remaining.toFixed(1)}s`);
+                }
+                // Friend's only clip: allow slight overage or shorten
+                else if (isOnlyFriendClip) {
+                    if (remaining >= 3) {
+                        clip.end = secondsToTime(timeToSeconds(clip.start) + Math.max(3, remaining));
+                        clipDuration = remaining;
+                        console.log(`[Highlight] Compressed friend "${clip.friendName}" clip to ${remaining.toFixed(1)}s`);
+                    } else if (currentDuration + clipDuration <= MAX_HIGHLIGHT_DURATION + overageSeconds) {
+                        // Allow a small overage to keep friend's only clip
+                        console.log(`[Highlight] Kept only clip for friend "${clip.friendName}" (allowing slight overage)`);
+                    }
+                }
+            }
+
+            if (currentDuration + clipDuration <= MAX_HIGHLIGHT_DURATION ||
+                (isOnlyFriendClip && currentDuration + clipDuration <= MAX_HIGHLIGHT_DURATION + overageSeconds)) {
+                kept.push(clip);
+                currentDuration += clipDuration;
+                if (clip.friendName) friendsIncluded.add(clip.friendName);
+            } else {
+                console.log(`[Highlight] Trimmed: ${clip.start}-${clip.end} (priority: ${getPriority(clip)}, source: ${clip.source || 'ai'})`);
+            }
+        }
+
+        // Re-sort by time to maintain narrative coherence
+        kept.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
+        highlights = kept;
+
+        console.log(`[Highlight] Final: ${kept.length} clips, duration: ${calculateDuration(kept).toFixed(1)}s`);
+    }
+    // ========== End: Final duration check ==========
+
+    // ========== Scenery zero-coverage fallback ==========
+    // Fix 1+2 should protect key scenery in the main trimming flow.
+    // This fallback only handles extreme edge cases where all scenery was still trimmed.
+    if (spec.mandatory.scenery && analysisData.scenery && analysisData.scenery.length > 0) {
+        const significantScenery = analysisData.scenery.filter(
+            (s: any) => s.stayDuration >= 3 && s.timestamp
+        );
+
+        if (significantScenery.length > 0) {
+            const hasSceneryCoverage = significantScenery.some((scene: any) => {
+                const t = timeToSeconds(scene.timestamp);
+                return highlights.some(seg =>
+                    t >= timeToSeconds(seg.start) && t <= timeToSeconds(seg.end)
+                );
+            });
+
+            if (!hasSceneryCoverage) {
+                // Pick best scenery: prefer near-friend (narrative value), then longest stayDuration
+                const bestScene = [...significantScenery].sort((a: any, b: any) => {
+                    const aFriend = a.isNearFriend ? 1 : 0;
+                    const bFriend = b.isNearFriend ? 1 : 0;
+                    if (bFriend !== aFriend) return bFriend - aFriend;
+                    return (b.stayDuration || 0) - (a.stayDuration || 0);
+                })[0];
+                const t = timeToSeconds(bestScene.timestamp);
+                const clipLen = Math.min(bestScene.stayDuration || 3, 5);
+                const start = Math.max(0, t - 2);
+                const end = Math.min(videoDuration, t + clipLen);
+
+                if (calculateDuration(highlights) + (end - start) <= MAX_HIGHLIGHT_DURATION + overageSeconds) {
+                    highlights.push({
+                        start: secondsToTime(start),
+                        end: secondsToTime(end),
+                        source: 'scenery',
+                        isHighQuality: true
+                    });
+                    highlights.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
+                    console.log(`[Scenery Fallback] Added ${secondsToTime(start)}-${secondsToTime(end)} (no scenery survived trimming)`);
+                } else {
+                    console.log(`[Scenery Fallback] Skipped: adding scenery would exceed ${MAX_HIGHLIGHT_DURATION + overageSeconds}s`);
+                }
+            }
+        }
+    }
+    // ========== End: Scenery zero-coverage fallback ==========
+
+    analysisData.highlightTimestamps = highlights;
+    return highlights;
+}
+
+// Derives the highlight-clock views (timelineHighlight, moodDataHighlight, narrative
+// inHighlight flags) while keeping the original-clock arrays for Original mode.
+export function applyHighlightMapping(analysisData: AnalysisResult, highlights: HighlightSegment[]) {
+    // Timeline: keep full original timeline for Original mode
+    // and derive highlight-mapped timeline for Highlight mode.
+    if (analysisData.timeline) {
+        const originalCount = analysisData.timeline.length;
+        analysisData.timelineHighlight = mapAndFilterForHighlight(
+            analysisData.timeline,
+            'time',
+            'originalTime',
+            highlights
+        );
+        console.log(`[Timeline] Highlight-mapped: ${originalCount} → ${analysisData.timelineHighlight.length} entries`);
+    }
+
+    // MoodData: keep full curve for Original mode
+    // and derive highlight-mapped mood points for Highlight mode.
+    if (analysisData.moodData) {
+        const originalCount = analysisData.moodData.length;
+        analysisData.moodDataHighlight = mapAndFilterForHighlight(
+            analysisData.moodData,
+            'name',
+            'originalTime',
+            highlights
+        );
+        console.log(`[MoodData] Highlight-mapped: ${originalCount} → ${analysisData.moodDataHighlight.length} entries`);
+    }
+
+    // NarrativeSegments: keep ALL segments but mark which ones are in highlight
+    // This allows original video to show all subtitles, highlight video to show only matching ones
+    if (analysisData.narrativeSegments) {
+        let inHighlightCount = 0;
+        analysisData.narrativeSegments = analysisData.narrativeSegments.map(seg => {
+            const mappedTime = mapToHighlightTime(seg.timestamp, highlights);
+            const inHighlight = mappedTime !== null;
+            if (inHighlight) inHighlightCount++;
+
+            return {
+                ...seg,
+                originalTime: seg.timestamp,  // Always keep original time for original video playback
+                timestamp: mappedTime || seg.timestamp,  // Use mapped time if available, else keep original
+                inHighlight: inHighlight,  // Flag to indicate if this segment is in highlight video
+                isMapped: true
+            };
+        });
+        console.log(`[Narrative] Total: ${analysisData.narrativeSegments.length}, In highlight: ${inHighlightCount}`);
+    }
+}
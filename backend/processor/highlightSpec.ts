@@ -0,0 +1,139 @@
+// Per-session highlight reel spec: target length, style preset and which content the
+// planner must keep. Stored on the session as `highlightSpec`; sessions without one use
+// DEFAULT_HIGHLIGHT_SPEC, which reproduces the original ~60s target / 120s ceiling.
+
+export const HIGHLIGHT_TARGET_SECONDS = [15, 30, 60, 180] as const;
+export type HighlightTargetSeconds = typeof HIGHLIGHT_TARGET_SECONDS[number];
+
+export const HIGHLIGHT_STYLES = ['balanced', 'action', 'scenic', 'social'] as const;
+export type HighlightStyle = typeof HIGHLIGHT_STYLES[number];
+
+// 'polished' adds crossfades, title/end cards and a ducked music bed (see polishedRender.ts).
+export const HIGHLIGHT_RENDER_MODES = ['standard', 'polished'] as const;
+export type HighlightRenderMode = typeof HIGHLIGHT_RENDER_MODES[number];
+
+export interface HighlightMandatoryContent {
+    friends: boolean;
+    scenery: boolean;
+    food: boolean;
+    safety: boolean;
+}
+
+export interface HighlightSpec {
+    targetSeconds: HighlightTargetSeconds;
+    style: HighlightStyle;
+    mandatory: HighlightMandatoryContent;
+    // Render the in-highlight narrative into the video itself (sidecar captions are always served).
+    burnCaptions: boolean;
+    renderMode: HighlightRenderMode;
+}
+
+export interface HighlightLimits {
+    // Hard ceiling for the planned reel.
+    maxSeconds: number;
+    // How far a friend's only clip or the scenery fallback may push past maxSeconds.
+    overageSeconds: number;
+}
+
+export const DEFAULT_HIGHLIGHT_SPEC: HighlightSpec = {
+    targetSeconds: 60,
+    style: 'balanced',
+    mandatory: { friends: true, scenery: true, food: true, safety: true },
+    burnCaptions: false,
+    renderMode: 'standard'
+};
+
+// Short social cuts get no slack; longer reels keep the historical 2x headroom over target.
+const LENGTH_LIMITS: Record<HighlightTargetSeconds, HighlightLimits> = {
+    15: { maxSeconds: 15, overageSeconds: 0 },
+    30: { maxSeconds: 45, overageSeconds: 3 },
+    60: { maxSeconds: 120, overageSeconds: 5 },
+    180: { maxSeconds: 240, overageSeconds: 5 }
+};
+
+// Hand-edited clip lists may be as long as the longest preset allows, whatever the session's spec.
+export const MAX_EDITED_HIGHLIGHT_SECONDS = LENGTH_LIMITS[180].maxSeconds;
+
+const STYLE_PROMPTS: Record<HighlightStyle, string> = {
+    balanced: '',
+    action: 'Style: ACTION-HEAVY. Favor running, play, chases and high-energy moments; keep calm scenery clips to a minimum.',
+    scenic: 'Style: SCENIC. Favor views, smooth pans and quiet gazing moments; keep clips long enough for the scenery to breathe.',
+    social: 'Style: SOCIAL. Favor friend encounters and interactions; give every friend a clip before adding scenery.'
+};
+
+const MANDATORY_KEYS = Object.keys(DEFAULT_HIGHLIGHT_SPEC.mandatory) as Array<keyof HighlightMandatoryContent>;
+
+export function getHighlightLimits(spec: HighlightSpec): HighlightLimits {
+    return LENGTH_LIMITS[spec.targetSeconds] || LENGTH_LIMITS[DEFAULT_HIGHLIGHT_SPEC.targetSeconds];
+}
+
+// Lenient read for stored sessions: anything unrecognised falls back to the default.
+export function normalizeHighlightSpec(raw: any): HighlightSpec {
+    const target = Number(raw?.targetSeconds);
+    const mandatory = { ...DEFAULT_HIGHLIGHT_SPEC.mandatory };
+    for (const key of MANDATORY_KEYS) {
+        if (typeof raw?.mandatory?.[key] === 'boolean') mandatory[key] = raw.mandatory[key];
+    }
+    return {
+        targetSeconds: (HIGHLIGHT_TARGET_SECONDS as readonly number[]).includes(target)
+            ? target as HighlightTargetSeconds
+            : DEFAULT_HIGHLIGHT_SPEC.targetSeconds,
+        style: (HIGHLIGHT_STYLES as readonly string[]).includes(raw?.style) ? raw.style : DEFAULT_HIGHLIGHT_SPEC.style,
+        mandatory,
+        burnCaptions: typeof raw?.burnCaptions === 'boolean' ? raw.burnCaptions : DEFAULT_HIGHLIGHT_SPEC.burnCaptions,
+        renderMode: (HIGHLIGHT_RENDER_MODES as readonly string[]).includes(raw?.renderMode)
+            ? raw.renderMode
+            : DEFAULT_HIGHLIGHT_SPEC.renderMode
+    };
+}
+
+// Strict read for request bodies (an object, or a JSON string from a multipart form).
+// Omitted fields take their defaults; unknown values are rejected with a message.
+export function parseHighlightSpecInput(raw: unknown): { spec: HighlightSpec } | { error: string } {
+    let input: any = raw;
+    if (typeof raw === 'string' && raw.trim()) {
+        try {
+            input = JSON.parse(raw);
+        } catch {
+            return { error: 'highlightSpec must be valid JSON' };
+        }
+    }
+    if (input === undefined || input === null || (typeof input === 'string' && !input.trim())) return { spec: normalizeHighlightSpec({}) };
+    if (typeof input !== 'object' || Array.isArray(input)) return { error: 'highlightSpec must be an object' };
+
+    if (input.targetSeconds !== undefined && !(HIGHLIGHT_TARGET_SECONDS as readonly number[]).includes(Number(input.targetSeconds))) {
+        return { error: `targetSeconds must be one of ${HIGHLIGHT_TARGET_SECONDS.join(', ')}` };
+    }
+    if (input.style !== undefined && !(HIGHLIGHT_STYLES as readonly string[]).includes(input.style)) {
+        return { error: `style must be one of ${HIGHLIGHT_STYLES.join(', ')}` };
+    }
+    if (input.renderMode !== undefined && !(HIGHLIGHT_RENDER_MODES as readonly string[]).includes(input.renderMode)) {
+        return { error: `renderMode must be one of ${HIGHLIGHT_RENDER_MODES.join(', ')}` };
+    }
+    if (input.burnCaptions !== undefined && typeof input.burnCaptions !== 'boolean') {
+        return { error: 'burnCaptions must be a boolean' };
+    }
+    if (input.mandatory !== undefined) {
+        if (typeof input.mandatory !== 'object' || input.mandatory === null) return { error: 'mandatory must be an object' };
+        for (const [key, value] of Object.entries(input.mandatory)) {
+            if (!(MANDATORY_KEYS as string[]).includes(key)) return { error: `Unknown mandatory content "${key}"` };
+            if (typeof value !== 'boolean') return { error: `mandatory.${key} must be a boolean` };
+        }
+    }
+    return { spec: normalizeHighlightSpec(input) };
+}
+
+export function isSameHighlightSpec(a: any, b: any): boolean {
+    return JSON.stringify(normalizeHighlightSpec(a)) === JSON.stringify(normalizeHighlightSpec(b));
+}
+
+// Highlight section lines for the Gemini prompt.
+export function buildHighlightPromptGuidance(spec: HighlightSpec): string {
+    const { maxSeconds } = getHighlightLimits(spec);
+    const skipped = MANDATORY_KEYS.filter(key => !spec.mandatory[key]);
+    return [
+        `   Duration: Target ~${spec.targetSeconds}s, never exceed ${maxSeconds}s total.`,
+        STYLE_PROMPTS[spec.style] ? `   ${STYLE_PROMPTS[spec.style]}` : '',
+        skipped.length > 0 ? `   Coverage of ${skipped.join(', ')} moments is optional for this reel; only include them if they score well.` : ''
+    ].filter(Boolean).join('\n');
+}
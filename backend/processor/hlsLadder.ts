@@ -0,0 +1,100 @@
+import fs from "fs";
+import path from "path";
+import { FFMPEG_CMD, execMedia, parseDimensionsFromMediaInfo, readMediaInfo } from "./mediaTools.ts";
+import { withSegmentSlot } from "./segmentPipeline.ts";
+
+// HLS adaptive-bitrate ladder (360p/720p/1080p) for browser playback of originals and reels.
+// Renditions are sized on the short side so portrait recordings get the same ladder, and
+// never upscale: a 720p source gets 360p + 720p. All renditions share 4s keyframe-aligned
+// segments so players can switch rendition at any segment boundary. The encode takes a
+// slot in the segment pool, so it counts against SEGMENT_CONCURRENCY like reel cuts do.
+
+export const HLS_SEGMENT_SECONDS = 4;
+export const HLS_MASTER_PLAYLIST = 'master.m3u8';
+
+const HLS_LADDER = [
+    { name: '360p', shortSide: 360, videoKbps: 800, audioKbps: 96 },
+    { name: '720p', shortSide: 720, videoKbps: 2800, audioKbps: 128 },
+    { name: '1080p', shortSide: 1080, videoKbps: 5000, audioKbps: 128 }
+] as const;
+
+export interface HlsRendition {
+    name: string;
+    width: number;
+    height: number;
+    videoKbps: number;
+    audioKbps: number;
+}
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+export function planHlsRenditions(source: { width: number; height: number }): HlsRendition[] {
+    const sourceShort = Math.min(source.width, source.height);
+    const rungs = HLS_LADDER.filter((rung, i) => i === 0 || rung.shortSide <= sourceShort);
+    return rungs.map(rung => {
+        // The bottom rung is kept for tiny sources but not upscaled either.
+        const scale = Math.min(1, rung.shortSide / sourceShort);
+        return {
+            name: rung.name,
+            width: even(source.width * scale),
+            height: even(source.height * scale),
+            videoKbps: rung.videoKbps,
+            audioKbps: rung.audioKbps
+        };
+    });
+}
+
+// One ffmpeg pass: decode once, split, scale and encode every rendition, and let the HLS
+// muxer write per-rendition playlists plus the master playlist.
+export function buildHlsCommand(inputPath: string, outputDir: string, renditions: HlsRendition[], hasAudio: boolean): string {
+    const split = `[0:v]split=${renditions.length}${renditions.map((_, i) => `[v${i}]`).join('')}`;
+    const scales = renditions.map((r, i) => `[v${i}]scale=${r.width}:${r.height},setsar=1[v${i}out]`);
+    const streams = renditions.map((r, i) => [
+        `-map "[v${i}out]" -c:v:${i} libx264 -b:v:${i} ${r.videoKbps}k -maxrate:v:${i} ${Math.round(r.videoKbps * 1.07)}k -bufsize:v:${i} ${Math.round(r.videoKbps * 1.5)}k`,
+        hasAudio ? `-map 0:a:0 -c:a:${i} aac -b:a:${i} ${r.audioKbps}k -ac 2` : ''
+    ].filter(Boolean).join(' '));
+    const streamMap = renditions.map((r, i) => hasAudio ? `v:${i},a:${i},name:${r.name}` : `v:${i},name:${r.name}`).join(' ');
+    return [
+        `${FFMPEG_CMD} -y -i "${inputPath}"`,
+        `-filter_complex "${[split, ...scales].join(';')}"`,
+        ...streams,
+        `-preset veryfast -pix_fmt yuv420p -sc_threshold 0 -force_key_frames "expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})"`,
+        `-f hls -hls_time ${HLS_SEGMENT_SECONDS} -hls_playlist_type vod -hls_flags independent_segments`,
+        `-hls_segment_filename "${path.join(outputDir, '%v', 'seg_%04d.ts')}"`,
+        `-master_pl_name ${HLS_MASTER_PLAYLIST} -var_stream_map "${streamMap}"`,
+        `"${path.join(outputDir, '%v', 'index.m3u8')}"`
+    ].join(' ');
+}
+
+// Every file of a finished ladder, relative to its directory (playlists and segments).
+export function listHlsFiles(outputDir: string): string[] {
+    const files: string[] = [];
+    const walk = (dir: string) => {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) walk(fullPath);
+            else files.push(path.relative(outputDir, fullPath).split(path.sep).join('/'));
+        }
+    };
+    walk(outputDir);
+    return files.sort();
+}
+
+// Builds the ladder into a fresh outputDir. Returns the rendition names that were written.
+export async function generateHlsLadder(inputPath: string, outputDir: string): Promise<string[]> {
+    const ladderStart = Date.now();
+    const info = await readMediaInfo(inputPath);
+    const dimensions = parseDimensionsFromMediaInfo(info);
+    if (!dimensions) throw new Error(`Could not read video dimensions for ${inputPath}`);
+    const renditions = planHlsRenditions(dimensions);
+
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    for (const rendition of renditions) fs.mkdirSync(path.join(outputDir, rendition.name), { recursive: true });
+
+    await withSegmentSlot(() => execMedia(buildHlsCommand(inputPath, outputDir, renditions, /Audio:/i.test(info))));
+    if (!fs.existsSync(path.join(outputDir, HLS_MASTER_PLAYLIST))) {
+        throw new Error("HLS packaging finished without a master playlist");
+    }
+    console.log(`[HLS] Packaged ${renditions.map(r => r.name).join('/')} for ${path.basename(inputPath)} in ${((Date.now() - ladderStart) / 1000).toFixed(1)}s`);
+    return renditions.map(r => r.name);
+}
@@ -0,0 +1,61 @@
+// Processing job leases. Several instances share the session store, so every queued or
+// running job carries the id of the instance that owns it and an expiry the owner keeps
+// pushing forward with a heartbeat. Another instance may only take a job over (boot
+// recovery, periodic sweep) once that lease has lapsed, i.e. its owner stopped beating.
+
+export type JobLease = {
+    owner: string;
+    heartbeatAt: number;
+    leaseExpiresAt: number;
+};
+
+export function leaseFor(owner: string, now: number, leaseMs: number): JobLease {
+    return { owner, heartbeatAt: now, leaseExpiresAt: now + leaseMs };
+}
+
+// Jobs written before leases existed have no expiry and count as lapsed.
+export function isLeaseExpired(job: Partial<JobLease> | null | undefined, now: number): boolean {
+    return !job?.owner || !Number.isFinite(job.leaseExpiresAt) || job.leaseExpiresAt! <= now;
+}
+
+export function isOwnedElsewhere(job: Partial<JobLease> | null | undefined, owner: string, now: number): boolean {
+    return !!job?.owner && job.owner !== owner && !isLeaseExpired(job, now);
+}
+
+// A processing session another instance may take over: still processing, and no live
+// lease other than the caller's own.
+export function isRecoverableJob(session: any, owner: string, now: number): boolean {
+    return session?.status === 'processing' && !isOwnedElsewhere(session.job, owner, now);
+}
+
+// Who finishes a cancel for a processing session that is not queued or running on the
+// instance that received the request. A live lease elsewhere means the owner is still
+// working on it and picks cancelRequestedAt up on its next heartbeat; otherwise nobody
+// is, and the session can be marked cancelled on the spot.
+export function cancelHandledBy(job: Partial<JobLease> | null | undefined, owner: string, now: number): 'owner' | 'here' {
+    return isOwnedElsewhere(job, owner, now) ? 'owner' : 'here';
+}
+
+// HLS ladders are packaged outside the processing queue but carry the same kind of lease
+// while pending or running. One is recoverable once no other live instance holds it.
+export function isRecoverableLadder(ladder: ({ status?: string } & Partial<JobLease>) | null | undefined, owner: string, now: number): boolean {
+    return (ladder?.status === 'pending' || ladder?.status === 'running') && !isOwnedElsewhere(ladder, owner, now);
+}
+
+export type CancelStep = 'reject' | 'dequeue' | 'abort' | 'flag' | 'mark';
+
+// How the instance that received a cancel request settles it: drop a job still waiting
+// in its queue, abort one it is running, leave one running elsewhere to its owner by
+// flagging it in the shared store, or mark it cancelled on the spot.
+export function planCancel(
+    session: any,
+    local: { queued: boolean; running: boolean },
+    sharedStore: boolean,
+    owner: string,
+    now: number
+): CancelStep {
+    if (session?.status !== 'processing') return 'reject';
+    if (local.queued) return 'dequeue';
+    if (local.running) return 'abort';
+    return sharedStore && cancelHandledBy(session.job, owner, now) === 'owner' ? 'flag' : 'mark';
+}
@@ -1,6 +1,8 @@
+import path from 'path';
 import { createRequire } from 'module';
-import { exec } from 'child_process';
+import { exec, type ExecOptions } from 'child_process';
 import { promisify } from 'util';
+import { AsyncLocalStorage } from 'async_hooks';
 
 const require = createRequire(import.meta.url);
 const execPromise = promisify(exec);
@@ -30,9 +32,29 @@ function shellQuote(value: string): string {
 export const FFMPEG_CMD = shellQuote(resolveFfmpeg());
 export const FFPROBE_CMD = shellQuote(resolveFfprobe());
 
+// Abort scope for ffmpeg/ffprobe children. processVideo runs each session inside
+// withMediaAbortSignal() so cancelling the session kills whatever is still encoding.
+const mediaAbortScope = new AsyncLocalStorage<AbortSignal>();
+
+export function withMediaAbortSignal<T>(signal: AbortSignal, fn: () => Promise<T>): Promise<T> {
+    return mediaAbortScope.run(signal, fn);
+}
+
+export async function execMedia(command: string, options: ExecOptions = {}): Promise<{ stdout: string; stderr: string }> {
+    const signal = mediaAbortScope.getStore();
+    if (signal?.aborted) throw new Error('Media command aborted');
+    const { stdout, stderr } = await execPromise(command, { ...EXEC_OPTIONS, ...options, signal, encoding: 'utf8' });
+    return { stdout, stderr };
+}
+
+// File path for a filter option (subtitles, drawtext textfile), where ':' and backslashes are filtergraph syntax.
+export function escapeFilterPath(filePath: string): string {
+    return path.resolve(filePath).replace(/\\/g, '/').replace(/:/g, '\\:').replace(/'/g, "\\'");
+}
+
 export async function readMediaInfo(filePath: string): Promise<string> {
     try {
-        const { stdout, stderr } = await execPromise(`${FFMPEG_CMD} -hide_banner -i "${filePath}"`, EXEC_OPTIONS);
+        const { stdout, stderr } = await execMedia(`${FFMPEG_CMD} -hide_banner -i "${filePath}"`);
         return `${stdout}\n${stderr}`;
     } catch (error: any) {
         return `${error?.stdout || ''}\n${error?.stderr || ''}`;
@@ -49,6 +71,17 @@ export function parseDurationFromMediaInfo(info: string): number {
     return Number.isFinite(total) ? total : 0;
 }
 
+// Container creation_time (ms since epoch). Cameras with an unset clock write 1970 or
+// the QuickTime epoch (1904), and some tools stamp the export time in the future;
+// those read as unknown.
+export function parseCreationTimeFromMediaInfo(info: string, now = Date.now()): number | null {
+    const match = info.match(/creation_time\s*:\s*(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?Z?)/);
+    if (!match) return null;
+    const value = Date.parse(match[1].replace(' ', 'T'));
+    if (!Number.isFinite(value) || value < Date.UTC(2000, 0, 1) || value > now + 86_400_000) return null;
+    return value;
+}
+
 export function parseDimensionsFromMediaInfo(info: string): { width: number; height: number } | null {
     const matches = [...info.matchAll(/,\s*(\d{2,5})x(\d{2,5})(?:[,\s]|$)/g)];
     for (const match of matches) {
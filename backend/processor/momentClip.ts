@@ -0,0 +1,81 @@
+import { FFMPEG_CMD, execMedia } from "./mediaTools.ts";
+import { secondsToTime, timeToSeconds } from "./highlightPlanner.ts";
+
+// Short looping clips around a single moment (a friend, a view, a snack, a safety alert)
+// for sharing. Rendered on demand from the proxy and cached on the session per request.
+
+export const MOMENT_CLIP_FORMATS = ['gif', 'mp4', 'webp'] as const;
+export type MomentClipFormat = typeof MOMENT_CLIP_FORMATS[number];
+
+export const MIN_MOMENT_CLIP_SECONDS = 2;
+export const MAX_MOMENT_CLIP_SECONDS = 6;
+const DEFAULT_MOMENT_CLIP_SECONDS = 4;
+
+// GIF/WebP are kept small: they are shared as-is into chats, which recompress anything large.
+const CLIP_WIDTH: Record<MomentClipFormat, number> = { gif: 480, mp4: 720, webp: 480 };
+const CLIP_FPS: Record<MomentClipFormat, number> = { gif: 12, mp4: 30, webp: 15 };
+
+export interface MomentClipRequest {
+    // Window on the original recording, in seconds.
+    start: number;
+    seconds: number;
+    format: MomentClipFormat;
+}
+
+// Centres the window on the moment and slides it back inside the recording when the
+// moment sits near either end.
+export function planMomentWindow(centerSeconds: number, seconds: number, videoDuration: number): { start: number; seconds: number } {
+    const length = videoDuration > 0 ? Math.min(seconds, videoDuration) : seconds;
+    let start = Math.max(0, centerSeconds - length / 2);
+    if (videoDuration > 0) start = Math.min(start, videoDuration - length);
+    return { start: Math.round(Math.max(0, start) * 10) / 10, seconds: length };
+}
+
+// Validates a POST /clips body: { timestamp (M:SS or seconds, original clock), seconds?, format? }.
+export function parseMomentClipInput(raw: any, videoDuration: number): { clip: MomentClipRequest } | { error: string } {
+    const timestamp = raw?.timestamp;
+    const center = typeof timestamp === 'number'
+        ? timestamp
+        : (typeof timestamp === 'string' && /^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(timestamp.trim()) ? timeToSeconds(timestamp.trim()) : NaN);
+    if (!Number.isFinite(center) || center < 0) return { error: 'timestamp must be M:SS or a number of seconds' };
+    if (videoDuration > 0 && center > videoDuration) {
+        return { error: `timestamp ${secondsToTime(center)} is past the end of the ${secondsToTime(videoDuration)} recording` };
+    }
+
+    const seconds = raw?.seconds === undefined ? DEFAULT_MOMENT_CLIP_SECONDS : Number(raw.seconds);
+    if (!Number.isFinite(seconds) || seconds < MIN_MOMENT_CLIP_SECONDS || seconds > MAX_MOMENT_CLIP_SECONDS) {
+        return { error: `seconds must be between ${MIN_MOMENT_CLIP_SECONDS} and ${MAX_MOMENT_CLIP_SECONDS}` };
+    }
+
+    const format = raw?.format === undefined ? 'gif' : raw.format;
+    if (!(MOMENT_CLIP_FORMATS as readonly string[]).includes(format)) {
+        return { error: `format must be one of ${MOMENT_CLIP_FORMATS.join(', ')}` };
+    }
+
+    return { clip: { ...planMomentWindow(center, seconds, videoDuration), format } };
+}
+
+// Cache key and file stem: identical requests for a session share one render.
+export function buildMomentClipKey(clip: MomentClipRequest): string {
+    return `moment-${clip.start.toFixed(1).replace('.', '_')}s-${clip.seconds}s.${clip.format}`;
+}
+
+export function momentClipArgs(clip: MomentClipRequest): string {
+    const width = CLIP_WIDTH[clip.format];
+    const fps = CLIP_FPS[clip.format];
+    const scale = `fps=${fps},scale=${width}:-2:flags=lanczos`;
+    switch (clip.format) {
+        case 'gif':
+            // Per-clip palette; diff stats favour the moving subject over a static background.
+            return `-vf "${scale},split[a][b];[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=bayer:bayer_scale=4" -loop 0`;
+        case 'webp':
+            return `-vf "${scale}" -c:v libwebp -lossless 0 -q:v 70 -compression_level 4 -loop 0 -an`;
+        case 'mp4':
+            // Muted so players allow autoplay; the page loops it.
+            return `-vf "${scale}" -c:v libx264 -preset veryfast -crf 24 -pix_fmt yuv420p -an -movflags +faststart`;
+    }
+}
+
+export async function renderMomentClip(videoPath: string, outputPath: string, clip: MomentClipRequest) {
+    await execMedia(`${FFMPEG_CMD} -y -ss ${clip.start} -t ${clip.seconds} -i "${videoPath}" ${momentClipArgs(clip)} "${outputPath}"`);
+}
@@ -0,0 +1,218 @@
+import { localClock } from '../persona/routineMiner.ts';
+import {
+    getSourcePriority,
+    inferVideoDurationFromAnalysis,
+    secondsToTime,
+    timeToSeconds,
+    type HighlightSegment
+} from './highlightPlanner.ts';
+import type { AnalysisResult } from './videoAnalyzer.ts';
+
+// Pet Days: one pet's ready sessions recorded on the same local date, merged onto a
+// single day clock. The server builds the day record and its reel from these helpers.
+
+function normalizeName(value: string | null | undefined) {
+    return String(value || '').trim().toLowerCase();
+}
+
+export type DayClip = {
+    session: any;
+    offset: number;    // seconds from the start of the day clock
+    duration: number;
+};
+
+// When the clip was filmed (see processVideo), falling back to when it was uploaded.
+export function getSessionRecordingTime(session: any): number {
+    return Number.isFinite(session?.recordedAt) ? session.recordedAt : new Date(session?.createdAt || 0).getTime();
+}
+
+// The owner's calendar date of the recording: in the requesting browser's zone, else the
+// zone sent with the upload, else UTC.
+export function getSessionDayKey(session: any, timeZone?: string): string {
+    const recordedAt = getSessionRecordingTime(session);
+    if (!Number.isFinite(recordedAt) || recordedAt <= 0) return '';
+    return localClock(recordedAt, timeZone || session?.timeZone).day;
+}
+
+export function byRecordingTime(a: any, b: any) {
+    return getSessionRecordingTime(a) - getSessionRecordingTime(b);
+}
+
+export function isDayCandidateSession(session: any, visitorId?: string) {
+    return Boolean(session)
+        && session.kind !== 'day'
+        && !session.isSample
+        && session.status === 'ready'
+        && Boolean(session.analysis)
+        && Boolean(normalizeName(session.petName))
+        && (!visitorId || !session.visitorId || session.visitorId === visitorId);
+}
+
+export function listDaySourceSessions(sessions: any[], visitorId: string | undefined, petName: string, date: string, timeZone?: string) {
+    return sessions
+        .filter((s: any) => isDayCandidateSession(s, visitorId)
+            && normalizeName(s.petName) === normalizeName(petName)
+            && getSessionDayKey(s, timeZone) === date)
+        .sort(byRecordingTime);
+}
+
+function shiftTime(time: string | null | undefined, offset: number): string | null {
+    if (!time) return null;
+    return secondsToTime(timeToSeconds(time) + offset);
+}
+
+// One pet's day candidates grouped by local date, each group in recording order.
+export function groupDaySessions(sessions: any[], visitorId: string | undefined, timeZone?: string): Map<string, any[]> {
+    const groups = new Map<string, any[]>();
+    for (const session of sessions) {
+        if (!isDayCandidateSession(session, visitorId)) continue;
+        const date = getSessionDayKey(session, timeZone);
+        if (!date) continue;
+        const key = `${normalizeName(session.petName)}|${date}`;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(session);
+    }
+    for (const group of groups.values()) group.sort(byRecordingTime);
+    return groups;
+}
+
+// Clips sit on the day clock where they were filmed, measured from the first one.
+// Clock skew can make recordings overlap; a clip then starts where the previous ended.
+export function layoutDayClips(sources: any[]): { clips: DayClip[]; dayDuration: number } {
+    const clips: DayClip[] = [];
+    const dayStartedAt = getSessionRecordingTime(sources[0]);
+    let dayDuration = 0;
+    for (const session of sources) {
+        const duration = session.originalDuration || inferVideoDurationFromAnalysis(session.analysis);
+        const offset = Math.max(dayDuration, Math.round((getSessionRecordingTime(session) - dayStartedAt) / 1000));
+        clips.push({ session, offset, duration });
+        dayDuration = offset + duration;
+    }
+    return { clips, dayDuration };
+}
+
+// Offsets every clip's original-clock arrays onto the day clock and merges them.
+// `analysisOf` returns a clip's analysis as the session response shows it, so frame URLs
+// stay resolvable.
+export function mergeDayAnalyses(clips: DayClip[], petName: string, analysisOf: (session: any) => any): AnalysisResult {
+    const merged: AnalysisResult = {
+        title: `${petName}'s Day: ${clips.length} Adventures`,
+        aiNote: '',
+        narrativeSegments: [],
+        moodData: [],
+        scenery: [],
+        friends: [],
+        timeline: [],
+        highlightTimestamps: [],
+        safetyAlerts: [],
+        dietaryHabits: [],
+        audioEvents: [],
+        activityData: [],
+        activitySegments: []
+    };
+    const notes: string[] = [];
+    const friendsByKey = new Map<string, any>();
+
+    for (const { session, offset } of clips) {
+        const analysis = analysisOf(session) || {};
+        if (analysis.aiNote) notes.push(analysis.aiNote);
+
+        for (const seg of analysis.narrativeSegments || []) {
+            const timestamp = shiftTime(seg.originalTime || seg.timestamp, offset);
+            if (timestamp) merged.narrativeSegments.push({ text: seg.text, timestamp });
+        }
+        for (const point of analysis.moodData || []) {
+            const name = shiftTime(point.originalTime || point.name, offset);
+            if (name) merged.moodData.push({ name, value: point.value });
+        }
+        for (const item of analysis.timeline || []) {
+            const time = shiftTime(item.originalTime || item.time, offset);
+            if (time) merged.timeline.push({ time, label: item.label, icon: item.icon });
+        }
+        for (const scene of analysis.scenery || []) {
+            const timestamp = shiftTime(scene.originalTime || scene.timestamp, offset);
+            if (!timestamp) continue;
+            const { imageObjectPath, originalTime, isMapped, ...rest } = scene;
+            merged.scenery.push({ ...rest, timestamp });
+        }
+        for (const habit of analysis.dietaryHabits || []) {
+            const timestamp = shiftTime(habit.originalTime || habit.timestamp, offset);
+            if (!timestamp) continue;
+            const { imageObjectPath, originalTime, isMapped, ...rest } = habit;
+            merged.dietaryHabits!.push({ ...rest, timestamp });
+        }
+        for (const alert of analysis.safetyAlerts || []) {
+            const timestamp = shiftTime(alert.timestamp, offset);
+            if (timestamp) merged.safetyAlerts!.push({ ...alert, timestamp });
+        }
+        for (const event of analysis.audioEvents || []) {
+            const timestamp = shiftTime(event.timestamp, offset);
+            if (timestamp) merged.audioEvents!.push({ ...event, timestamp });
+        }
+        for (const point of analysis.activityData || []) {
+            const name = shiftTime(point.name, offset);
+            if (name) merged.activityData!.push({ name, value: point.value });
+        }
+        for (const segment of analysis.activitySegments || []) {
+            const start = shiftTime(segment.start, offset);
+            const end = shiftTime(segment.end, offset);
+            if (start && end) merged.activitySegments!.push({ ...segment, start, end });
+        }
+        for (const clip of analysis.highlightTimestamps || []) {
+            merged.highlightTimestamps.push({
+                ...clip,
+                start: shiftTime(clip.start, offset)!,
+                end: shiftTime(clip.end, offset)!,
+                sourceSessionId: session.id
+            });
+        }
+
+        // The same friend seen in several clips becomes one entry with all encounters.
+        for (const friend of analysis.friends || []) {
+            const timestamp = shiftTime(friend.originalTimestamp || friend.timestamp, offset);
+            if (!timestamp) continue;
+            const timestamps = (friend.timestamps || [])
+                .map((t: any) => ({ time: shiftTime(t.originalTime || t.time, offset), duration: t.duration }))
+                .filter((t: any) => t.time);
+            const key = `${normalizeName(friend.type)}:${normalizeName(friend.name)}`;
+            const existing = friendsByKey.get(key);
+            if (!existing) {
+                const { imageObjectPath, originalTimestamp, isMapped, avatarMeta, mosaicSighting, ...rest } = friend;
+                const entry = { ...rest, timestamp, timestamps: timestamps.length > 0 ? timestamps : [{ time: timestamp }] };
+                friendsByKey.set(key, entry);
+                merged.friends.push(entry);
+                continue;
+            }
+            existing.timestamps.push(...(timestamps.length > 0 ? timestamps : [{ time: timestamp }]));
+            existing.duration = (existing.duration || 0) + (friend.duration || 0);
+            existing.frequency = (existing.frequency || 1) + (friend.frequency || 1);
+            if (!existing.url && friend.url) existing.url = friend.url;
+        }
+    }
+
+    merged.aiNote = notes.join('\n\n');
+    return merged;
+}
+
+// Keeps the combined reel watchable: at least the best segment of every clip, then fill by priority.
+export function selectDayHighlights(segments: HighlightSegment[], maxSeconds: number): HighlightSegment[] {
+    const lengthOf = (seg: HighlightSegment) => timeToSeconds(seg.end) - timeToSeconds(seg.start);
+    const rank = (a: HighlightSegment, b: HighlightSegment) =>
+        (getSourcePriority(b.source) - getSourcePriority(a.source)) || ((b.score || 0) - (a.score || 0));
+
+    const kept = new Set<HighlightSegment>();
+    let total = 0;
+    const bestPerClip = new Map<string, HighlightSegment>();
+    for (const seg of [...segments].sort(rank)) {
+        const key = seg.sourceSessionId || '';
+        if (!bestPerClip.has(key)) bestPerClip.set(key, seg);
+    }
+    for (const seg of [...bestPerClip.values(), ...[...segments].sort(rank)]) {
+        if (kept.has(seg)) continue;
+        const length = lengthOf(seg);
+        if (length <= 0 || total + length > maxSeconds) continue;
+        kept.add(seg);
+        total += length;
+    }
+    return [...kept].sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
+}
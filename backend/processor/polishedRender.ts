@@ -0,0 +1,187 @@
+import fs from "fs";
+import { config } from "../config.ts";
+import { FFMPEG_CMD, escapeFilterPath, execMedia, parseDurationFromMediaInfo, readMediaInfo } from "./mediaTools.ts";
+
+// "Polished" highlight render: crossfades, a title card, an end card and a ducked music bed.
+//
+// The highlight clock must stay exact, because timelineHighlight, moodDataHighlight,
+// captions and the clip editor all map onto it. So:
+//   - each segment is cut POLISHED_CROSSFADE_SECONDS past its planned end, and the
+//     crossfade eats that tail, which means clip k still starts at sum(planned lengths < k);
+//   - the title card is overlaid on the opening clip instead of being prepended;
+//   - the end card is appended after the last clip, past the end of the highlight clock.
+
+export const POLISHED_CROSSFADE_SECONDS = 0.5;
+// Shortest crossfade ffmpeg accepts reliably; used when a clip sits at the very end of its source.
+const MIN_CROSSFADE_SECONDS = 0.04;
+const TITLE_CARD_SECONDS = 3;
+const END_CARD_SECONDS = 3;
+const FRAME_WIDTH = 1280;
+const FRAME_HEIGHT = 720;
+const FRAME_RATE = 30;
+const FONT = 'DejaVu Sans';
+
+// Soft A-major pad with a slow swell, for deployments that do not ship a music file.
+const SYNTH_PAD_EXPR = [
+    '0.05*sin(2*PI*220*t)',
+    '0.04*sin(2*PI*277.18*t)',
+    '0.035*sin(2*PI*329.63*t)',
+    '0.03*sin(2*PI*440*t)'
+].map(term => `${term}*(0.7+0.3*sin(2*PI*0.1*t))`).join('+');
+
+export interface PolishedClip {
+    // Segment cut with up to POLISHED_CROSSFADE_SECONDS of tail past its planned end.
+    path: string;
+    // Planned clip length on the highlight clock, without the tail.
+    plannedSeconds: number;
+}
+
+export interface PolishedReelOptions {
+    clips: PolishedClip[];
+    outputPath: string;
+    // Prefix for temporary files (text files, filter script).
+    workBase: string;
+    title: string;
+    petName?: string;
+    endCardStillPath?: string | null;
+}
+
+// Normalizes a segment so every xfade input shares size, rate, timebase and audio layout.
+// Sources without an audio stream get a silent track, since acrossfade needs one per input.
+export function polishedSegmentArgs(sourceHasAudio: boolean, segmentSeconds: number): { inputArgs: string; outputArgs: string } {
+    const video = `scale=${FRAME_WIDTH}:${FRAME_HEIGHT}:force_original_aspect_ratio=decrease,pad=${FRAME_WIDTH}:${FRAME_HEIGHT}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${FRAME_RATE},format=yuv420p`;
+    if (sourceHasAudio) {
+        return { inputArgs: '', outputArgs: ` -vf "${video}" -ar 48000 -ac 2` };
+    }
+    return {
+        inputArgs: ` -f lavfi -t ${segmentSeconds.toFixed(3)} -i anullsrc=channel_layout=stereo:sample_rate=48000`,
+        outputArgs: ` -map 0:v:0 -map 1:a:0 -vf "${video}" -shortest`
+    };
+}
+
+// Crossfade length out of each clip (bounded by the tail actually cut) and the reel time at
+// which each following input starts: clip k at sum(planned lengths < k), the end card last.
+export function planCrossfades(plannedSeconds: number[], actualSeconds: number[]): { fades: number[]; offsets: number[] } {
+    const fades = plannedSeconds.map((planned, i) =>
+        Math.max(MIN_CROSSFADE_SECONDS, Math.min(POLISHED_CROSSFADE_SECONDS, (actualSeconds[i] || planned) - planned))
+    );
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const planned of plannedSeconds) {
+        offset += planned;
+        offsets.push(offset);
+    }
+    return { fades, offsets };
+}
+
+function writeTextFile(filePath: string, text: string): string {
+    fs.writeFileSync(filePath, text);
+    return filePath;
+}
+
+function drawText(textFile: string, fontSize: number, y: string, alpha: string) {
+    return `drawtext=font='${FONT}':textfile='${escapeFilterPath(textFile)}':fontsize=${fontSize}:fontcolor=white:`
+        + `shadowcolor=black@0.6:shadowx=2:shadowy=2:x=(w-text_w)/2:y=${y}:alpha='${alpha}'`;
+}
+
+// Title card overlaid on the opening clip's first TITLE_CARD_SECONDS: a dimmed band with
+// the title and subtitle fading in and out. Appended to that clip's video chain.
+export function titleCardFilter(titleFile: string, subtitleFile: string): string {
+    const alpha = `if(lt(t,0.4),t/0.4,if(lt(t,${TITLE_CARD_SECONDS - 0.5}),1,max(0,(${TITLE_CARD_SECONDS}-t)/0.5)))`;
+    return `drawbox=y=ih*0.3:w=iw:h=ih*0.4:color=black@0.35:t=fill:enable='lt(t,${TITLE_CARD_SECONDS})'`
+        + `,${drawText(titleFile, 64, 'h*0.38', alpha)}`
+        + `,${drawText(subtitleFile, 32, 'h*0.52', alpha)}`;
+}
+
+// End card from input `endIndex` (a still or a plain colour) with its silent track at
+// endIndex + 1, labelled [vend] and [aend].
+export function endCardFilters(endIndex: number, endFile: string): string[] {
+    return [
+        `[${endIndex}:v]scale=${FRAME_WIDTH}:${FRAME_HEIGHT}:force_original_aspect_ratio=decrease,pad=${FRAME_WIDTH}:${FRAME_HEIGHT}:(ow-iw)/2:(oh-ih)/2,`
+        + `setsar=1,fps=${FRAME_RATE},format=yuv420p,eq=brightness=-0.12,${drawText(endFile, 56, 'h*0.44', 'min(1,t/0.6)')},`
+        + `fade=t=out:st=${END_CARD_SECONDS - 0.6}:d=0.6,settb=AVTB[vend]`,
+        `[${endIndex + 1}:a]aformat=sample_rates=48000:channel_layouts=stereo[aend]`
+    ];
+}
+
+// Music bed under the camera audio: wind rumble is cut, the bed ducks whenever the
+// camera audio is loud, and the mix is normalized to streaming loudness. Output: [aout].
+export function musicBedFilters(cameraAudio: string, musicIndex: number, totalSeconds: number, hasMusicFile: boolean): string[] {
+    return [
+        `[${cameraAudio}]highpass=f=100,asplit=2[cam][sidechain]`,
+        `[${musicIndex}:a]atrim=0:${totalSeconds.toFixed(3)},asetpts=PTS-STARTPTS,aformat=sample_rates=48000:channel_layouts=stereo,`
+        + `volume=${hasMusicFile ? 0.35 : 0.6},afade=t=in:d=1,afade=t=out:st=${Math.max(0, totalSeconds - 2).toFixed(3)}:d=2[bed]`,
+        `[bed][sidechain]sidechaincompress=threshold=0.03:ratio=8:attack=20:release=400[ducked]`,
+        `[cam][ducked]amix=inputs=2:duration=first:normalize=0,loudnorm=I=-16:TP=-1.5:LRA=11[aout]`
+    ];
+}
+
+export async function renderPolishedReel(options: PolishedReelOptions): Promise<void> {
+    const { clips, outputPath, workBase, title, petName, endCardStillPath } = options;
+    if (clips.length === 0) throw new Error("Polished render needs at least one clip");
+
+    const tempFiles: string[] = [];
+    try {
+        // Actual segment lengths decide how much tail each crossfade can borrow.
+        const actualSeconds = await Promise.all(clips.map(async clip => parseDurationFromMediaInfo(await readMediaInfo(clip.path))));
+        const { fades, offsets } = planCrossfades(clips.map(clip => clip.plannedSeconds), actualSeconds);
+
+        const titleFile = writeTextFile(`${workBase}-title.txt`, title || 'A day out');
+        const subtitleFile = writeTextFile(`${workBase}-subtitle.txt`, petName ? `A day with ${petName}` : 'Pet POV highlights');
+        const endFile = writeTextFile(`${workBase}-end.txt`, petName ? `${petName}'s day` : 'Until next time');
+        tempFiles.push(titleFile, subtitleFile, endFile);
+
+        const inputs: string[] = clips.map(clip => `-i "${clip.path}"`);
+        const endIndex = clips.length;
+        inputs.push(endCardStillPath && fs.existsSync(endCardStillPath)
+            ? `-loop 1 -framerate ${FRAME_RATE} -t ${END_CARD_SECONDS} -i "${endCardStillPath}"`
+            : `-f lavfi -t ${END_CARD_SECONDS} -i color=c=0x16181d:s=${FRAME_WIDTH}x${FRAME_HEIGHT}:r=${FRAME_RATE}`);
+        inputs.push(`-f lavfi -t ${END_CARD_SECONDS} -i anullsrc=channel_layout=stereo:sample_rate=48000`);
+        const musicIndex = endIndex + 2;
+        const hasMusicFile = Boolean(config.musicBedPath && fs.existsSync(config.musicBedPath));
+        inputs.push(hasMusicFile
+            ? `-stream_loop -1 -i "${config.musicBedPath}"`
+            : `-f lavfi -i "aevalsrc=${SYNTH_PAD_EXPR}:sample_rate=48000:channel_layout=stereo"`);
+
+        const filters: string[] = [];
+
+        // Per-clip trims: planned length + the fade into whatever follows.
+        clips.forEach((clip, i) => {
+            const length = (clip.plannedSeconds + fades[i]).toFixed(3);
+            let video = `[${i}:v]trim=0:${length},setpts=PTS-STARTPTS,settb=AVTB`;
+            if (i === 0) video += `,${titleCardFilter(titleFile, subtitleFile)}`;
+            filters.push(`${video}[v${i}]`);
+            filters.push(`[${i}:a]apad,atrim=0:${length},asetpts=PTS-STARTPTS,aformat=sample_rates=48000:channel_layouts=stereo[a${i}]`);
+        });
+
+        filters.push(...endCardFilters(endIndex, endFile));
+
+        // Chain crossfades; offsets follow the planned lengths so the highlight clock is preserved.
+        const videoLabels = [...clips.map((_, i) => `v${i}`), 'vend'];
+        const audioLabels = [...clips.map((_, i) => `a${i}`), 'aend'];
+        let videoOut = videoLabels[0];
+        let audioOut = audioLabels[0];
+        for (let k = 1; k < videoLabels.length; k++) {
+            const fade = fades[k - 1].toFixed(3);
+            filters.push(`[${videoOut}][${videoLabels[k]}]xfade=transition=fade:duration=${fade}:offset=${offsets[k - 1].toFixed(3)}[vx${k}]`);
+            filters.push(`[${audioOut}][${audioLabels[k]}]acrossfade=d=${fade}[ax${k}]`);
+            videoOut = `vx${k}`;
+            audioOut = `ax${k}`;
+        }
+        const totalSeconds = offsets[offsets.length - 1] + END_CARD_SECONDS;
+
+        filters.push(...musicBedFilters(audioOut, musicIndex, totalSeconds, hasMusicFile));
+
+        const scriptPath = `${workBase}-polish-filter.txt`;
+        tempFiles.push(scriptPath);
+        fs.writeFileSync(scriptPath, filters.join(';\n'));
+
+        await execMedia(
+            `${FFMPEG_CMD} -y ${inputs.join(' ')} -filter_complex_script "${scriptPath}" -map "[${videoOut}]" -map "[aout]" `
+            + `-c:v libx264 -preset veryfast -crf 21 -pix_fmt yuv420p -c:a aac -b:a 160k -ar 48000 -movflags +faststart "${outputPath}"`
+        );
+        console.log(`[Polished Render] ${clips.length} clips, ${totalSeconds.toFixed(1)}s with end card, music: ${hasMusicFile ? 'bundled bed' : 'synth pad'}`);
+    } finally {
+        for (const f of tempFiles) { if (fs.existsSync(f)) fs.unlinkSync(f); }
+    }
+}
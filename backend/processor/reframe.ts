@@ -0,0 +1,123 @@
+import type { AnalysisResult } from "./videoAnalyzer.ts";
+import { timeToSeconds } from "./highlightPlanner.ts";
+import { FFMPEG_CMD, execMedia } from "./mediaTools.ts";
+
+// Vertical (9:16) and square (1:1) renditions of a finished highlight reel for sharing to
+// portrait feeds. Each clip is cropped around the friend on screen: the box detectInMosaic
+// returned for its avatar cell, then the box Gemini reported with the friend; clips with
+// neither get a centred crop. Crops are cut from the reel itself, so every rendition keeps
+// the highlight clock (captions, timeline and mood sync line up with all of them).
+
+export const REFRAME_VARIANTS = ['vertical', 'square'] as const;
+export type ReframeVariant = typeof REFRAME_VARIANTS[number];
+
+const VARIANT_FRAMES: Record<ReframeVariant, { aspect: number; width: number; height: number }> = {
+    vertical: { aspect: 9 / 16, width: 720, height: 1280 },
+    square: { aspect: 1, width: 720, height: 720 }
+};
+
+// A box observed up to this far outside a clip still steers it: the mosaic samples ±1.5s
+// around a friend's moment, and clips are cut around the same moments.
+const SIGHTING_TOLERANCE_SECONDS = 2;
+
+// [ymin, xmin, ymax, xmax], 0-1000, as Gemini and detectInMosaic report them.
+export type SubjectBox = [number, number, number, number];
+
+export interface SubjectSighting {
+    // Original-video clock.
+    seconds: number;
+    box: SubjectBox;
+}
+
+export interface ReframeWindow {
+    // Highlight-reel clock.
+    start: number;
+    end: number;
+    // Crop centre as a fraction of the frame.
+    centerX: number;
+    centerY: number;
+}
+
+function toSubjectBox(raw: any): SubjectBox | null {
+    if (!Array.isArray(raw) || raw.length !== 4) return null;
+    const [ymin, xmin, ymax, xmax] = raw.map(value => Math.min(1000, Math.max(0, Number(value))));
+    if (![ymin, xmin, ymax, xmax].every(Number.isFinite) || ymax <= ymin || xmax <= xmin) return null;
+    return [ymin, xmin, ymax, xmax];
+}
+
+function toSeconds(time: unknown): number {
+    return typeof time === 'string' && time.trim() ? timeToSeconds(time) : NaN;
+}
+
+// Friend boxes with the original-clock moment they were seen at. Works before and after
+// applyHighlightMapping (mapped friends keep their original time in originalTimestamp).
+export function collectSubjectSightings(analysis: AnalysisResult): SubjectSighting[] {
+    const sightings: SubjectSighting[] = [];
+    for (const friend of (analysis.friends || []) as any[]) {
+        const mosaicBox = toSubjectBox(friend.mosaicSighting?.box);
+        const mosaicSeconds = Number(friend.mosaicSighting?.seconds);
+        if (mosaicBox && Number.isFinite(mosaicSeconds)) {
+            sightings.push({ seconds: mosaicSeconds, box: mosaicBox });
+        }
+        // Gemini's box belongs to the frame the avatar search starts from.
+        const box = toSubjectBox(friend.box);
+        const seconds = toSeconds(friend.best_photo_timestamp || friend.originalTimestamp || friend.timestamp);
+        if (box && Number.isFinite(seconds)) sightings.push({ seconds, box });
+    }
+    return sightings;
+}
+
+// One crop window per highlight clip, laid end to end on the reel clock. When several
+// friends are in a clip the largest box wins: it is the one closest to the camera.
+export function planReframeWindows(analysis: AnalysisResult): ReframeWindow[] {
+    const sightings = collectSubjectSightings(analysis);
+    const windows: ReframeWindow[] = [];
+    let cursor = 0;
+    for (const clip of analysis.highlightTimestamps || []) {
+        const start = timeToSeconds(clip.start);
+        const end = timeToSeconds(clip.end);
+        const length = end - start;
+        if (!(length > 0)) continue;
+
+        let best: SubjectBox | null = null;
+        let bestArea = 0;
+        for (const sighting of sightings) {
+            if (sighting.seconds < start - SIGHTING_TOLERANCE_SECONDS || sighting.seconds > end + SIGHTING_TOLERANCE_SECONDS) continue;
+            const [ymin, xmin, ymax, xmax] = sighting.box;
+            const area = (ymax - ymin) * (xmax - xmin);
+            if (area > bestArea) {
+                best = sighting.box;
+                bestArea = area;
+            }
+        }
+        windows.push({
+            start: cursor,
+            end: cursor + length,
+            centerX: best ? (best[1] + best[3]) / 2000 : 0.5,
+            centerY: best ? (best[0] + best[2]) / 2000 : 0.5
+        });
+        cursor += length;
+    }
+    return windows;
+}
+
+// crop + scale filter for one rendition. The crop size is fixed; its offset is a per-frame
+// step function of t that holds each clip's centre and falls back to the middle of the
+// frame after the last clip (the polished end card).
+export function buildReframeFilter(windows: ReframeWindow[], variant: ReframeVariant): string {
+    const { aspect, width, height } = VARIANT_FRAMES[variant];
+    const offset = (axis: 'x' | 'y') => {
+        const [inSize, outSize] = axis === 'x' ? ['iw', 'ow'] : ['ih', 'oh'];
+        return windows.reduceRight((rest, window) => {
+            const center = axis === 'x' ? window.centerX : window.centerY;
+            return `if(lt(t,${window.end.toFixed(3)}),clip(${center.toFixed(3)}*${inSize}-${outSize}/2,0,${inSize}-${outSize}),${rest})`;
+        }, `(${inSize}-${outSize})/2`);
+    };
+    return `crop=w='trunc(min(iw,ih*${aspect})/2)*2':h='trunc(min(ih,iw/${aspect})/2)*2':x='${offset('x')}':y='${offset('y')}',`
+        + `scale=${width}:${height},setsar=1`;
+}
+
+export async function renderReframedReel(reelPath: string, outputPath: string, windows: ReframeWindow[], variant: ReframeVariant) {
+    const filter = buildReframeFilter(windows, variant);
+    await execMedia(`${FFMPEG_CMD} -y -i "${reelPath}" -vf "${filter}" -c:v libx264 -preset veryfast -crf 23 -pix_fmt yuv420p -c:a copy -movflags +faststart "${outputPath}"`);
+}
@@ -0,0 +1,114 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config.ts";
+import { FFMPEG_CMD, FFPROBE_CMD, execMedia } from "./mediaTools.ts";
+
+// Segment cutting for highlight reels.
+//
+// Every reel gets its own scratch directory, so concurrent sessions (or a regeneration
+// racing a repair) never share segment or concat-list files. ffmpeg cuts run through a
+// process-wide slot pool sized by config.segmentConcurrency instead of one child per clip.
+//
+// When every clip start lies within SNAP_TOLERANCE_SECONDS of a keyframe, the reel is
+// stream-copied: each clip starts on its keyframe and keeps its planned length, so the
+// highlight clock is unchanged and the content moves by at most the tolerance. Mixing
+// copied and re-encoded segments would hand the concat demuxer mismatched streams, so a
+// single clip that cannot snap sends the whole reel down the re-encode path.
+
+export const SNAP_TOLERANCE_SECONDS = 0.25;
+
+export interface SegmentCut {
+    // Source clock, seconds.
+    start: number;
+    seconds: number;
+}
+
+export interface SegmentPlan {
+    mode: 'copy' | 'encode';
+    cuts: SegmentCut[];
+}
+
+let activeSegmentJobs = 0;
+const waitingSegmentJobs: Array<() => void> = [];
+
+// Runs fn once a segment slot is free. A finishing job hands its slot straight to the
+// next waiter, so the active count never exceeds the cap.
+export async function withSegmentSlot<T>(fn: () => Promise<T>): Promise<T> {
+    if (activeSegmentJobs < config.segmentConcurrency) {
+        activeSegmentJobs++;
+    } else {
+        await new Promise<void>(resolve => waitingSegmentJobs.push(resolve));
+    }
+    try {
+        return await fn();
+    } finally {
+        const next = waitingSegmentJobs.shift();
+        if (next) next();
+        else activeSegmentJobs--;
+    }
+}
+
+export function createSegmentWorkDir(outputDir: string, stem: string): string {
+    return fs.mkdtempSync(path.join(outputDir, `${stem}-segments-`));
+}
+
+export function removeSegmentWorkDir(workDir: string) {
+    try {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    } catch (error) {
+        console.warn(`[Segments] Failed to remove ${workDir}:`, error);
+    }
+}
+
+// ffprobe `packet=pts_time,flags` CSV → sorted keyframe times.
+export function parseKeyframeTimes(csv: string): number[] {
+    const times: number[] = [];
+    for (const line of csv.split('\n')) {
+        const [time, flags] = line.trim().split(',');
+        if (!flags?.includes('K')) continue;
+        const seconds = Number(time);
+        if (Number.isFinite(seconds)) times.push(seconds);
+    }
+    return times.sort((a, b) => a - b);
+}
+
+// Reads packet flags only (no decoding), so this stays cheap even for long recordings.
+// Returns [] when the probe fails, which simply forces the re-encode path.
+export async function probeKeyframes(videoPath: string): Promise<number[]> {
+    try {
+        const { stdout } = await execMedia(
+            `${FFPROBE_CMD} -v error -select_streams v:0 -show_entries packet=pts_time,flags -of csv=p=0 "${videoPath}"`,
+            { maxBuffer: 64 * 1024 * 1024 }
+        );
+        return parseKeyframeTimes(stdout);
+    } catch (error) {
+        console.warn("[Segments] Keyframe probe failed; re-encoding segments:", error);
+        return [];
+    }
+}
+
+// Nearest keyframe to `start` within the tolerance, or null.
+export function snapToKeyframe(start: number, keyframes: number[], tolerance = SNAP_TOLERANCE_SECONDS): number | null {
+    let best: number | null = null;
+    for (const keyframe of keyframes) {
+        if (keyframe > start + tolerance) break;
+        if (Math.abs(keyframe - start) <= tolerance && (best === null || Math.abs(keyframe - start) < Math.abs(best - start))) {
+            best = keyframe;
+        }
+    }
+    return best;
+}
+
+export function planSegmentCuts(clips: SegmentCut[], keyframes: number[], tolerance = SNAP_TOLERANCE_SECONDS): SegmentPlan {
+    const snapped = clips.map(clip => snapToKeyframe(clip.start, keyframes, tolerance));
+    if (clips.length > 0 && snapped.every(start => start !== null)) {
+        return { mode: 'copy', cuts: clips.map((clip, i) => ({ start: snapped[i]!, seconds: clip.seconds })) };
+    }
+    return { mode: 'encode', cuts: clips.map(clip => ({ ...clip })) };
+}
+
+// Stream-copy cut. Only the first video and audio streams are kept: camera data tracks
+// (GoPro telemetry and the like) do not survive the concat.
+export function streamCopyCommand(inputPath: string, cut: SegmentCut, outputPath: string): string {
+    return `${FFMPEG_CMD} -y -ss ${cut.start.toFixed(3)} -i "${inputPath}" -t ${cut.seconds.toFixed(3)} -map 0:v:0 -map 0:a:0? -c copy -avoid_negative_ts make_zero "${outputPath}"`;
+}
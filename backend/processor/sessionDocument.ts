@@ -0,0 +1,46 @@
+// Firestore caps a document at 1 MiB. The per-second activity curve and the intermediate
+// results kept for resuming and re-planning grow with the recording, so they are written
+// to a `sidecars` subcollection of the session, one document each, and the session
+// document only lists their names. Everything else stays in the session document.
+
+export const SESSION_SIDECAR_COLLECTION = 'sidecars';
+
+export type SessionSidecars = Record<string, unknown>;
+
+const CHECKPOINT_PREFIX = 'checkpoints.';
+const ACTIVITY_DATA = 'analysis.activityData';
+const RAW_ANALYSIS = 'rawAnalysis';
+
+export function splitSessionDocument(session: any): { doc: any; sidecars: SessionSidecars } {
+    const { checkpoints, rawAnalysis, sidecars: _names, ...doc } = session;
+    const sidecars: SessionSidecars = {};
+    for (const [stage, value] of Object.entries(checkpoints || {})) {
+        if (value) sidecars[`${CHECKPOINT_PREFIX}${stage}`] = value;
+    }
+    if (rawAnalysis) sidecars[RAW_ANALYSIS] = rawAnalysis;
+    if (doc.analysis?.activityData) {
+        sidecars[ACTIVITY_DATA] = doc.analysis.activityData;
+        const { activityData: _activityData, ...analysis } = doc.analysis;
+        doc.analysis = analysis;
+    }
+    doc.sidecars = Object.keys(sidecars).sort();
+    return { doc, sidecars };
+}
+
+// Inverse of splitSessionDocument. Sidecars listed on the document but missing (a write
+// that never landed) are left out rather than failing the whole session.
+export function joinSessionDocument(doc: any, sidecars: SessionSidecars): any {
+    const { sidecars: _names, ...session } = doc;
+    let checkpoints: Record<string, unknown> | null = null;
+    for (const [name, value] of Object.entries(sidecars)) {
+        if (name.startsWith(CHECKPOINT_PREFIX)) {
+            checkpoints = { ...(checkpoints || {}), [name.slice(CHECKPOINT_PREFIX.length)]: value };
+        } else if (name === RAW_ANALYSIS) {
+            session.rawAnalysis = value;
+        } else if (name === ACTIVITY_DATA && session.analysis) {
+            session.analysis = { ...session.analysis, activityData: value };
+        }
+    }
+    if (checkpoints) session.checkpoints = checkpoints;
+    return session;
+}
@@ -0,0 +1,86 @@
+import { EventEmitter } from 'events';
+import type express from 'express';
+import { setSseHeaders, sseEvent } from '../persona/chatService.ts';
+
+// Session progress events. processVideo and the day builder publish progress/stage/status
+// here; GET /api/session/:id/events relays them to the browser over SSE instead of clients
+// polling GET /api/session/:id.
+//
+// Cloud Run is deployed with --concurrency 1, so an open stream holds a whole instance.
+// Streams end after `maxMs` with an `expired` event and the client opens a new one. Every
+// stream starts with a snapshot of the session, so nothing in between is lost.
+
+export type SessionStreamEvent = {
+    event: 'progress' | 'stage' | 'status';
+    data: Record<string, any>;
+};
+
+export interface SessionStreamOptions {
+    maxMs: number;
+    pingMs?: number;
+    // Jobs running on another instance never emit here; `check` reads the shared store
+    // every `intervalMs` and returns what to relay, if anything.
+    remote?: { intervalMs: number; check: () => Promise<SessionStreamEvent | null> };
+}
+
+const sessionEvents = new EventEmitter();
+sessionEvents.setMaxListeners(0);
+
+export function emitSessionEvent(sessionId: string, event: SessionStreamEvent['event'], data: Record<string, any>) {
+    sessionEvents.emit(sessionId, { event, data } as SessionStreamEvent);
+}
+
+export function countSessionListeners(sessionId: string): number {
+    return sessionEvents.listenerCount(sessionId);
+}
+
+// Writes the snapshot, then relays the session's events until it leaves 'processing',
+// the client goes away or the stream expires.
+export function streamSessionEvents(
+    res: express.Response,
+    sessionId: string,
+    snapshot: { status: string } & Record<string, any>,
+    options: SessionStreamOptions
+): void {
+    setSseHeaders(res);
+    res.flushHeaders();
+    sseEvent(res, 'snapshot', snapshot);
+    if (snapshot.status !== 'processing') {
+        res.end();
+        return;
+    }
+
+    let closed = false;
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        sessionEvents.off(sessionId, relay);
+        clearInterval(ping);
+        clearTimeout(expiry);
+        if (remoteSync) clearInterval(remoteSync);
+        res.end();
+    };
+    const relay = ({ event, data }: SessionStreamEvent) => {
+        if (closed) return;
+        sseEvent(res, event, data);
+        if (event === 'status' && data.status !== 'processing') close();
+    };
+
+    const ping: NodeJS.Timeout = setInterval(() => {
+        try { res.write(`: ping\n\n`); } catch { /* socket dead */ }
+    }, options.pingMs ?? 15000);
+    const expiry: NodeJS.Timeout = setTimeout(() => {
+        sseEvent(res, 'expired', {});
+        close();
+    }, options.maxMs);
+    const remote = options.remote;
+    const remoteSync: NodeJS.Timeout | null = remote
+        ? setInterval(async () => {
+            const update = await remote.check();
+            if (update) relay(update);
+        }, remote.intervalMs)
+        : null;
+
+    sessionEvents.on(sessionId, relay);
+    res.on('close', close);
+}
@@ -3,6 +3,9 @@ import { GoogleAIFileManager } from "@google/generative-ai/server";
 import { config } from "../config.ts";
 import fs from "fs";
 import path from "path";
+import { formatAnalysisIssues, settleRepairedAnalysis, validateAnalysisResult, type AnalysisValidation } from "./analysisSchema.ts";
+import { DEFAULT_HIGHLIGHT_SPEC, buildHighlightPromptGuidance, type HighlightSpec } from "./highlightSpec.ts";
+import { AUDIO_EVENT_TYPES, SNIPPET_SECONDS, describeAudioSnippetsForPrompt, parseAudioSnippetLabels, type AudioEventType, type AudioSnippet, type AudioSnippetLabel } from "./audioEvents.ts";
 
 const genAI = new GoogleGenerativeAI(config.geminiApiKey);
 const fileManager = new GoogleAIFileManager(config.geminiApiKey);
@@ -22,6 +25,8 @@ const GEMINI_GENERATE_TIMEOUT_MS = readPositiveIntEnv('GEMINI_GENERATE_TIMEOUT_M
 const GEMINI_GENERATE_ATTEMPTS = readPositiveIntEnv('GEMINI_GENERATE_ATTEMPTS', 2);
 const GEMINI_IMAGE_TIMEOUT_MS = readPositiveIntEnv('GEMINI_IMAGE_TIMEOUT_MS', 45 * 1000);
 const GEMINI_IMAGE_ATTEMPTS = readPositiveIntEnv('GEMINI_IMAGE_ATTEMPTS', 2);
+const GEMINI_AUDIO_TIMEOUT_MS = readPositiveIntEnv('GEMINI_AUDIO_TIMEOUT_MS', 90 * 1000);
+const GEMINI_AUDIO_ATTEMPTS = readPositiveIntEnv('GEMINI_AUDIO_ATTEMPTS', 2);
 const GEMINI_ANALYSIS_MODEL = process.env.GEMINI_ANALYSIS_MODEL || 'gemini-3.1-pro-preview';
 const GEMINI_IMAGE_MODEL = process.env.GEMINI_IMAGE_MODEL || GEMINI_ANALYSIS_MODEL;
 
@@ -29,8 +34,9 @@ export interface AnalysisResult {
     title: string;
     aiNote: string;
     narrativeSegments: { text: string; timestamp: string }[];
-    moodData: { name: string; value: number; originalTime?: string }[];
-    moodDataHighlight?: { name: string; value: number; originalTime?: string }[];
+    // activityConflict: the measured motion around this point contradicts the mood value.
+    moodData: { name: string; value: number; originalTime?: string; activityConflict?: 'low-activity' | 'high-activity' }[];
+    moodDataHighlight?: { name: string; value: number; originalTime?: string; activityConflict?: 'low-activity' | 'high-activity' }[];
     scenery: { description: string; timestamp: string; url?: string; sceneryLabel?: string; stayDuration?: number }[];
     friends: {
         name: string;
@@ -57,10 +63,24 @@ export interface AnalysisResult {
         friendName?: string;
         isHighQuality?: boolean;
         isNearFriend?: boolean;
+        sourceSessionId?: string;  // Day digests: clip the segment belongs to
+        sourcePath?: string;       // Day digests: file to cut from (start/end are clip-local)
     }[];
-    safetyAlerts?: { type: 'warning' | 'danger'; message: string; timestamp: string }[];
+    safetyAlerts?: { type: 'warning' | 'danger'; message: string; timestamp: string; source?: 'audio' }[];
     dietaryHabits?: { item: string; action: 'eating' | 'drinking'; timestamp: string; url?: string }[];
     coverTimestamp?: string;
+    // Labelled sounds on the original clock (see audioEvents.ts); absent until the audio stage ran.
+    audioEvents?: {
+        type: AudioEventType;
+        category: 'vocalization' | 'environment' | 'hazard';
+        timestamp: string;
+        confidence: number;  // 0-1
+        loudnessDb: number;
+        description?: string;
+    }[];
+    // Measured motion, one 0-100 point per second of the original clock (see activityAnalysis.ts).
+    activityData?: { name: string; value: number }[];
+    activitySegments?: { start: string; end: string; level: 'rest' | 'active'; meanActivity: number }[];
 }
 
 // Helper to format duration for timing logs
@@ -133,7 +153,71 @@ async function withRetry<T>(
     throw lastError;
 }
 
-export async function analyzeVideo(videoPath: string): Promise<AnalysisResult> {
+export interface AnalysisWindow {
+    index: number;
+    total: number;
+    start: number;  // seconds into the full recording
+    end: number;
+}
+
+export interface AnalyzeVideoOptions {
+    // Aborting stops polling/generation and deletes the File API upload.
+    signal?: AbortSignal;
+    // Set when videoPath is one window of a longer recording (see chunkedAnalysis.ts).
+    window?: AnalysisWindow;
+    // Length/style the session's reel is planned for; shapes the highlight candidates requested.
+    highlightSpec?: HighlightSpec;
+}
+
+function formatClock(totalSeconds: number): string {
+    const seconds = Math.max(0, Math.round(totalSeconds));
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+function buildWindowNote(window: AnalysisWindow): string {
+    return `
+This video is window ${window.index + 1} of ${window.total} cut from one longer recording (it covers ${formatClock(window.start)}-${formatClock(window.end)} of the full recording).
+All timestamps MUST be relative to the start of THIS video (the first frame is 00:00). Neighbouring windows overlap by a few seconds, so report everything you see, even near the edges.
+`;
+}
+
+function parseAndValidate(responseText: string): AnalysisValidation {
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    let parsed: unknown = null;
+    let parseError = "no JSON object in response";
+    if (jsonMatch) {
+        try {
+            parsed = JSON.parse(jsonMatch[0]);
+        } catch (error) {
+            parseError = `invalid JSON: ${(error as Error).message}`;
+        }
+    }
+    const validation = validateAnalysisResult(parsed);
+    if (parsed === null) validation.issues[0] = { path: "$", problem: parseError, fatal: true };
+    return validation;
+}
+
+function buildRepairPrompt(previousResponse: string, validation: AnalysisValidation): string {
+    return `
+Your previous analysis of this video could not be used. These fields failed validation:
+${formatAnalysisIssues(validation.issues)}
+
+Previous response:
+${previousResponse.slice(0, 20000)}
+
+Return the COMPLETE corrected JSON object (same structure as before) and nothing else:
+- Keep every field that was valid; only fix or fill in the fields listed above.
+- All timestamps are "MM:SS" strings relative to the start of this video.
+- moodData, timeline and highlightTimestamps must be non-empty arrays; highlight "end" must be after "start".
+- Numbers (value, score, duration, frequency, stayDuration) are JSON numbers, not strings; box values are 0-1000.
+`;
+}
+
+export async function analyzeVideo(videoPath: string, options: AnalyzeVideoOptions = {}): Promise<AnalysisResult> {
+    const { signal, window, highlightSpec = DEFAULT_HIGHLIGHT_SPEC } = options;
     const model = genAI.getGenerativeModel({ model: GEMINI_ANALYSIS_MODEL });
     const analyzeStart = Date.now();
 
@@ -158,6 +242,13 @@ export async function analyzeVideo(videoPath: string): Promise<AnalysisResult> {
 
     console.log(`File uploaded. waiting for processing... URI: ${fileUri}`);
 
+    const throwIfAborted = async () => {
+        if (!signal?.aborted) return;
+        await fileManager.deleteFile(fileName).catch(error => console.warn("Failed to delete remote file:", error));
+        throw new Error("Video analysis cancelled");
+    };
+    await throwIfAborted();
+
     // Stage B: Wait for Gemini file processing
     stageStart = Date.now();
     let file = await withRetry(
@@ -175,6 +266,7 @@ export async function analyzeVideo(videoPath: string): Promise<AnalysisResult> {
         }
         process.stdout.write(".");
         await new Promise((resolve) => setTimeout(resolve, 5000));
+        await throwIfAborted();
         file = await withRetry(
             "Gemini getFile",
             () => withTimeout("Gemini getFile", () => fileManager.getFile(fileName), GEMINI_GETFILE_TIMEOUT_MS),
@@ -190,7 +282,7 @@ export async function analyzeVideo(videoPath: string): Promise<AnalysisResult> {
 
     console.log("Video ready for analysis.");
 
-    const prompt = `
+    const prompt = `${window ? buildWindowNote(window) : ''}
 Analyze this pet POV video and provide a detailed report (English only). Include:
 
 1. Title: A catchy title for the highlight reel.
@@ -228,7 +320,7 @@ Analyze this pet POV video and provide a detailed report (English only). Include
    - Convert each into a catchy 2-4 word "Movie Chapter Title" with warm, humorous tone.
    - Icon MUST be one of: visibility, pets, directions_walk, directions_run, favorite, explore, speed, park, home, restaurant, bolt, terrain, forest, brush, groups, stairs, waves, search, wb_sunny, nightlight_round, sports_score, trending_up, trending_down, straighten, room, auto_fix_high, grass, meeting_room, roofing, south, error, timeline.
 8. Highlight Timestamps: Create a highlight reel as highlightTimestamps: [{start, end, reason, score}].
-   Duration: Target ~60s, never exceed 120s total.
+${buildHighlightPromptGuidance(highlightSpec)}
    Guidelines:
    - Include at least 1 clip overlapping each friend timestamp (can be short).
    - Include at least 1 clip for scenery moments with stayDuration ≥ 3s (the pet's contemplative gaze is a key personality moment).
@@ -321,28 +413,54 @@ Analyze this pet POV video and provide a detailed report (English only). Include
                     },
                 },
                 prompt,
-            ]), GEMINI_GENERATE_TIMEOUT_MS),
+            ], { signal }), GEMINI_GENERATE_TIMEOUT_MS),
             GEMINI_GENERATE_ATTEMPTS,
             5000
         );
         console.log(`[Timing] Gemini generateContent: ${formatDuration((Date.now() - stageStart) / 1000)}`);
 
         const responseText = result.response.text();
-        const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) throw new Error("Failed to parse JSON from Gemini response");
+        let validation = parseAndValidate(responseText);
+        if (validation.issues.length > 0) {
+            console.warn(`[Schema] Gemini analysis had ${validation.issues.length} problem(s):\n${formatAnalysisIssues(validation.issues)}`);
+        }
 
-        const analysis = JSON.parse(jsonMatch[0]);
+        // One targeted repair round: send the validation errors back instead of failing the session.
+        if (validation.fatal) {
+            stageStart = Date.now();
+            const repairPrompt = buildRepairPrompt(responseText, validation);
+            const repaired = await withRetry(
+                "Gemini repair",
+                () => withTimeout("Gemini repair", () => model.generateContent([
+                    {
+                        fileData: {
+                            mimeType: file.mimeType,
+                            fileUri: file.uri,
+                        },
+                    },
+                    repairPrompt,
+                ], { signal }), GEMINI_GENERATE_TIMEOUT_MS),
+                GEMINI_GENERATE_ATTEMPTS,
+                5000
+            );
+            const repairedValidation = parseAndValidate(repaired.response.text());
+            console.log(`[Timing] Gemini repair: ${formatDuration((Date.now() - stageStart) / 1000)} (${repairedValidation.issues.length} problem(s) left)`);
+            validation = repairedValidation;
+        }
 
-        // Clean up the file from the API after analysis
-        await fileManager.deleteFile(fileName).catch(error => console.warn("Failed to delete remote file:", error));
+        const analysis = validation.fatal ? settleRepairedAnalysis(validation) : validation.result;
 
         const totalAnalyzeTime = (Date.now() - analyzeStart) / 1000;
         console.log(`[Timing] analyzeVideo total: ${formatDuration(totalAnalyzeTime)}`);
 
         return analysis;
     } catch (error) {
+        if (signal?.aborted) throw new Error("Video analysis cancelled");
         console.error("Error analyzing video with Gemini:", error);
         throw error;
+    } finally {
+        // Clean up the file from the API whether the analysis succeeded, failed or was cancelled
+        await fileManager.deleteFile(fileName).catch(error => console.warn("Failed to delete remote file:", error));
     }
 }
 
@@ -543,6 +661,54 @@ If the animal is not clearly visible in ANY cell, return:
     }
 }
 
+// Visual re-identification: are two avatar crops, from different sessions, the same
+// individual animal? Breed alone is not enough; markings, collar and build decide.
+export async function compareAnimalCrops(
+    imageA: Buffer,
+    imageB: Buffer,
+    animalType: string
+): Promise<{ sameAnimal: boolean; confidence: number } | null> {
+    const model = genAI.getGenerativeModel({ model: GEMINI_IMAGE_MODEL });
+
+    const prompt = `
+        These two photos were cropped from pet POV videos recorded on different days.
+        Each shows one animal, described as: ${animalType || 'an animal'}.
+        Are they the SAME individual animal?
+
+        Compare individual markings, coat pattern and color, collar or harness, ear shape,
+        face and build. Two animals of the same breed are NOT the same individual unless
+        these details agree. If a photo is too unclear to tell, answer false.
+
+        Respond in JSON format:
+        {
+            "sameAnimal": true/false,
+            "confidence": 0-100,
+            "reason": "brief explanation"
+        }
+    `;
+
+    try {
+        const toPart = (image: Buffer) => ({ inlineData: { data: image.toString("base64"), mimeType: "image/jpeg" } });
+        const result = await withRetry(
+            "Gemini compareAnimalCrops",
+            () => withTimeout("Gemini compareAnimalCrops", () => model.generateContent([prompt, toPart(imageA), toPart(imageB)]), GEMINI_IMAGE_TIMEOUT_MS),
+            GEMINI_IMAGE_ATTEMPTS,
+            1500
+        );
+        const jsonMatch = result.response.text().match(/\{[\s\S]*\}/);
+        if (!jsonMatch) return null;
+        const parsed = JSON.parse(jsonMatch[0]);
+        console.log(`[Re-identification] ${animalType}: ${parsed.sameAnimal ? 'SAME' : 'DIFFERENT'} (${parsed.confidence}%) - ${parsed.reason}`);
+        return {
+            sameAnimal: parsed.sameAnimal === true,
+            confidence: Math.max(0, Math.min(100, Number(parsed.confidence) || 0)),
+        };
+    } catch (error) {
+        console.error("Error comparing animal crops:", error);
+        return null;
+    }
+}
+
 export async function validateAnimalInFrame(
     imagePath: string,
     animalType: string,
@@ -641,3 +807,39 @@ export async function validateAnimalInFrame(
         return { isPresent: false, confidence: 0 };
     }
 }
+
+// Labels the stitched snippet clip built by audioEvents.ts. The clip is small (a few
+// seconds per candidate), so it goes inline rather than through the File API.
+export async function classifyAudioSnippets(audioPath: string, snippets: AudioSnippet[]): Promise<AudioSnippetLabel[]> {
+    if (snippets.length === 0) return [];
+    const model = genAI.getGenerativeModel({ model: GEMINI_ANALYSIS_MODEL });
+    const prompt = `
+        This audio clip comes from a camera worn by a pet. It is ${snippets.length} back-to-back snippets of ${SNIPPET_SECONDS} seconds, each starting just before a sudden sound:
+${describeAudioSnippetsForPrompt(snippets)}
+
+        For every snippet whose dominant sound is one of: ${AUDIO_EVENT_TYPES.join(', ')}, return one entry.
+        Skip snippets that are speech, footsteps, wind, handling noise, music or anything else.
+        "traffic" means passing or idling vehicles; use "car_horn" only for a horn.
+        Return ONLY a JSON array: [{"index": 0, "type": "bark", "confidence": 0.9, "description": "two sharp barks"}]
+        confidence is 0-1. Return [] when nothing matches.
+    `;
+
+    try {
+        const audioData = {
+            inlineData: {
+                data: fs.readFileSync(audioPath).toString("base64"),
+                mimeType: "audio/ogg",
+            },
+        };
+        const result = await withRetry(
+            "Gemini classifyAudioSnippets",
+            () => withTimeout("Gemini classifyAudioSnippets", () => model.generateContent([prompt, audioData]), GEMINI_AUDIO_TIMEOUT_MS),
+            GEMINI_AUDIO_ATTEMPTS,
+            1500
+        );
+        return parseAudioSnippetLabels(result.response.text(), snippets.length);
+    } catch (error) {
+        console.error("Error classifying audio snippets:", error);
+        throw error;
+    }
+}
@@ -1,18 +1,15 @@
-import { exec } from "child_process";
 import path from "path";
 import fs from "fs";
-import { promisify } from "util";
 import {
     FFMPEG_CMD,
     FFPROBE_CMD,
     parseDimensionsFromMediaInfo,
+    parseCreationTimeFromMediaInfo,
     parseDurationFromMediaInfo,
+    execMedia,
     readMediaInfo,
 } from "./mediaTools.ts";
 
-const execPromise = promisify(exec);
-const EXEC_OPTIONS = { maxBuffer: 10 * 1024 * 1024 };
-
 function deriveMediaStem(inputPath: string, fallback = 'video'): string {
     if (!inputPath) return fallback;
     let sourcePath = inputPath;
@@ -52,7 +49,7 @@ async function getFileSize(filePath: string): Promise<number> {
     // For remote URLs, use ffprobe to get file size
     try {
         const cmd = `${FFPROBE_CMD} -v error -show_entries format=size -of default=noprint_wrappers=1:nokey=1 "${filePath}"`;
-        const { stdout } = await execPromise(cmd, EXEC_OPTIONS);
+        const { stdout } = await execMedia(cmd);
         return parseInt(stdout.trim()) || 0;
     } catch {
         return 0;
@@ -92,7 +89,7 @@ export async function createProxyVideo(originalPath: string, outputDir: string):
                 // Remote URL: download to local without re-encoding (stream copy)
                 console.log(`[Proxy] ≤500MB remote file — downloading without re-encode`);
                 const command = `${FFMPEG_CMD} -i "${originalPath}" -c copy "${proxyPath}"`;
-                await execPromise(command, { ...EXEC_OPTIONS, timeout: 300000 });
+                await execMedia(command, { timeout: 300000 });
                 console.log(`[Timing] createProxyVideo completed: ${formatDuration((Date.now() - proxyStart) / 1000)} (download only)`);
                 return proxyPath;
             }
@@ -104,7 +101,7 @@ export async function createProxyVideo(originalPath: string, outputDir: string):
             let originalBitrate = 2500000;
             try {
                 const probeCmd = `${FFPROBE_CMD} -v error -show_entries format=bit_rate -of default=noprint_wrappers=1:nokey=1 "${originalPath}"`;
-                const { stdout } = await execPromise(probeCmd, EXEC_OPTIONS);
+                const { stdout } = await execMedia(probeCmd);
                 const parsed = parseInt(stdout.trim());
                 if (parsed > 0) originalBitrate = parsed;
             } catch { /* use default */ }
@@ -114,7 +111,7 @@ export async function createProxyVideo(originalPath: string, outputDir: string):
             console.log(`[Proxy] Original bitrate: ${(originalBitrate / 1000).toFixed(0)}kbps, target: ${(targetBitrate / 1000).toFixed(0)}kbps`);
 
             const command = `${FFMPEG_CMD} -i "${originalPath}" -vf "scale=-2:720" -c:v libx264 -b:v ${targetBitrate} -maxrate ${targetBitrate} -bufsize ${targetBitrate * 2} -preset fast -c:a aac -b:a 128k "${proxyPath}"`;
-            await execPromise(command, { ...EXEC_OPTIONS, timeout: 600000 });
+            await execMedia(command, { timeout: 600000 });
             console.log(`[Timing] createProxyVideo completed: ${formatDuration((Date.now() - proxyStart) / 1000)} (re-encoded)`);
             console.log("Compressed proxy video generated successfully.");
             return proxyPath;
@@ -137,7 +134,7 @@ export async function extractFrame(videoPath: string, timestamp: string, outputD
     const command = `${FFMPEG_CMD} -y -ss ${timestamp} -i "${videoPath}" -vframes 1 -q:v 2 "${outputPath}"`;
 
     try {
-        await execPromise(command, EXEC_OPTIONS);
+        await execMedia(command);
         return outputPath;
     } catch (error) {
         console.error(`Error extracting frame for ${label}:`, error);
@@ -145,6 +142,63 @@ export async function extractFrame(videoPath: string, timestamp: string, outputD
     }
 }
 
+// Nine frame times for a friend mosaic, in cell order. Exported so callers can tell which
+// moment of the source the cell picked by detectInMosaic shows.
+export function planMosaicFrameTimestamps(
+    centerTimestamp: string,
+    alternativeTimestamps?: { time: string; duration?: number }[]
+): number[] {
+    if (!alternativeTimestamps || alternativeTimestamps.length <= 1) {
+        // Original behavior: 9 frames from T±2s window
+        const baseSec = timeToSeconds(centerTimestamp);
+        const offsets = [-2.0, -1.5, -1.0, -0.5, 0, 0.5, 1.0, 1.5, 2.0];
+        return offsets.map(offset => Math.max(0, baseSec + offset));
+    }
+
+    // Multi-timestamp strategy: use best_photo_timestamp (centerTimestamp) as primary
+    // Sort all timestamps by duration (descending) for secondary selection
+    const allTimestamps = alternativeTimestamps.map(t => ({
+        time: t.time,
+        seconds: timeToSeconds(t.time),
+        duration: t.duration || 0
+    })).sort((a, b) => b.duration - a.duration);
+
+    const frameTimestamps: number[] = [];
+
+    // If centerTimestamp (best_photo_timestamp) differs from duration-primary by >1s,
+    // use centerTimestamp as the real primary (it points to the best face moment)
+    const centerSec = timeToSeconds(centerTimestamp);
+    const durationPrimary = allTimestamps[0];
+    const useBestPhoto = Math.abs(centerSec - durationPrimary.seconds) > 1.0;
+    const primarySec = useBestPhoto ? centerSec : durationPrimary.seconds;
+
+    // Primary: 5 frames covering ±1.5s (wider window to capture face in POV video)
+    frameTimestamps.push(
+        Math.max(0, primarySec - 1.5),
+        Math.max(0, primarySec - 0.5),
+        primarySec,
+        Math.max(0, primarySec + 0.5),
+        Math.max(0, primarySec + 1.5)
+    );
+
+    // Secondary: remaining timestamps each get 1 frame (total still 9)
+    for (let i = 0; i < allTimestamps.length && frameTimestamps.length < 9; i++) {
+        const ts = allTimestamps[i];
+        // Skip timestamps too close to primary (already covered)
+        if (Math.abs(ts.seconds - primarySec) < 2.0) continue;
+        frameTimestamps.push(ts.seconds);
+    }
+
+    // Padding if still under 9 frames
+    const paddingOffsets = [-2.5, 2.5, -3.5, 3.5];
+    let paddingIdx = 0;
+    while (frameTimestamps.length < 9 && paddingIdx < paddingOffsets.length) {
+        frameTimestamps.push(Math.max(0, primarySec + paddingOffsets[paddingIdx]));
+        paddingIdx++;
+    }
+    return frameTimestamps;
+}
+
 export async function extractMosaicFrames(
     videoPath: string,
     centerTimestamp: string,
@@ -155,61 +209,14 @@ export async function extractMosaicFrames(
     const framePaths: string[] = [];
 
     // Determine frame extraction strategy based on alternative timestamps
-    let frameTimestamps: number[];
-
+    const frameTimestamps = planMosaicFrameTimestamps(centerTimestamp, alternativeTimestamps);
     if (!alternativeTimestamps || alternativeTimestamps.length <= 1) {
-        // Original behavior: 9 frames from T±2s window
-        const baseSec = timeToSeconds(centerTimestamp);
-        const offsets = [-2.0, -1.5, -1.0, -0.5, 0, 0.5, 1.0, 1.5, 2.0];
-        frameTimestamps = offsets.map(offset => Math.max(0, baseSec + offset));
-        console.log(`[Mosaic] Extracting ${offsets.length} frames around ${centerTimestamp} for ${label}...`);
+        console.log(`[Mosaic] Extracting ${frameTimestamps.length} frames around ${centerTimestamp} for ${label}...`);
     } else {
-        // Multi-timestamp strategy: use best_photo_timestamp (centerTimestamp) as primary
-        // Sort all timestamps by duration (descending) for secondary selection
-        const allTimestamps = alternativeTimestamps.map(t => ({
-            time: t.time,
-            seconds: timeToSeconds(t.time),
-            duration: t.duration || 0
-        })).sort((a, b) => b.duration - a.duration);
-
-        frameTimestamps = [];
-
-        // If centerTimestamp (best_photo_timestamp) differs from duration-primary by >1s,
-        // use centerTimestamp as the real primary (it points to the best face moment)
-        const centerSec = timeToSeconds(centerTimestamp);
-        const durationPrimary = allTimestamps[0];
-        const useBestPhoto = Math.abs(centerSec - durationPrimary.seconds) > 1.0;
-        const primarySec = useBestPhoto ? centerSec : durationPrimary.seconds;
-
-        // Primary: 5 frames covering ±1.5s (wider window to capture face in POV video)
-        frameTimestamps.push(
-            Math.max(0, primarySec - 1.5),
-            Math.max(0, primarySec - 0.5),
-            primarySec,
-            Math.max(0, primarySec + 0.5),
-            Math.max(0, primarySec + 1.5)
-        );
-
-        // Secondary: remaining timestamps each get 1 frame (total still 9)
-        for (let i = 0; i < allTimestamps.length && frameTimestamps.length < 9; i++) {
-            const ts = allTimestamps[i];
-            // Skip timestamps too close to primary (already covered)
-            if (Math.abs(ts.seconds - primarySec) < 2.0) continue;
-            frameTimestamps.push(ts.seconds);
-        }
-
-        // Padding if still under 9 frames
-        const paddingOffsets = [-2.5, 2.5, -3.5, 3.5];
-        let paddingIdx = 0;
-        while (frameTimestamps.length < 9 && paddingIdx < paddingOffsets.length) {
-            frameTimestamps.push(Math.max(0, primarySec + paddingOffsets[paddingIdx]));
-            paddingIdx++;
-        }
-
-        // Log the multi-timestamp extraction plan
-        const timestampSources = allTimestamps.map(t => `${t.time}(${t.duration}s)`).join(', ');
+        // Log the multi-timestamp extraction plan (cell 3 is the primary moment)
+        const timestampSources = alternativeTimestamps.map(t => `${t.time}(${t.duration || 0}s)`).join(', ');
         console.log(`[Mosaic] Multi-timestamp extraction for ${label}: sources=[${timestampSources}]`);
-        console.log(`[Mosaic] Primary: ${useBestPhoto ? 'best_photo' : 'duration'}=${primarySec.toFixed(1)}s (center=${centerTimestamp}, durationPrimary=${durationPrimary.time})`);
+        console.log(`[Mosaic] Primary: ${frameTimestamps[2].toFixed(1)}s (center=${centerTimestamp})`);
         console.log(`[Mosaic] Frame timestamps: ${frameTimestamps.map(t => t.toFixed(1)).join(', ')}`);
     }
 
@@ -219,7 +226,7 @@ export async function extractMosaicFrames(
         const framePath = path.join(outputDir, `${label}-mosaic-${i}-${uniqueId}.jpg`);
 
         try {
-            await execPromise(`${FFMPEG_CMD} -y -ss ${adjustedSec} -i "${videoPath}" -vframes 1 -q:v 2 "${framePath}"`, EXEC_OPTIONS);
+            await execMedia(`${FFMPEG_CMD} -y -ss ${adjustedSec} -i "${videoPath}" -vframes 1 -q:v 2 "${framePath}"`);
             return framePath;
         } catch (error) {
             console.error(`[Mosaic] Failed to extract frame ${i} at ${adjustedSec}s:`, error);
@@ -260,7 +267,7 @@ export async function createMosaic(
     console.log(`[Mosaic] Creating 3x3 grid: ${path.basename(outputPath)}`);
 
     try {
-        await execPromise(command, EXEC_OPTIONS);
+        await execMedia(command);
         return outputPath;
     } catch (error) {
         console.error(`[Mosaic] Failed to create mosaic:`, error);
@@ -317,7 +324,7 @@ export async function cropImageWithBox(
     const cropCommand = `${FFMPEG_CMD} -y -i "${imagePath}" -vf "crop=${cropW}:${cropH}:${cropX}:${cropY}" -q:v 2 "${croppedPath}"`;
 
     try {
-        await execPromise(cropCommand, EXEC_OPTIONS);
+        await execMedia(cropCommand);
         // Cleanup the uncropped source frame
         try { fs.unlinkSync(imagePath); } catch (e) { }
         return croppedPath;
@@ -374,7 +381,7 @@ export async function extractAndCropFrame(
         const command = `${FFMPEG_CMD} -y -ss ${currentSS} -i "${videoPath}" -vframes 1 -q:v 2 "${burstPath}"`;
 
         try {
-            await execPromise(command, EXEC_OPTIONS);
+            await execMedia(command);
 
             if (validator) {
                 const validation = await validator(burstPath, fallbackBox || undefined);
@@ -459,7 +466,7 @@ export async function extractAndCropFrame(
     const cropCommand = `${FFMPEG_CMD} -y -i "${bestFrame.path}" -vf "crop=${cropW}:${cropH}:${cropX}:${cropY}" -q:v 2 "${croppedPath}"`;
 
     try {
-        await execPromise(cropCommand, EXEC_OPTIONS);
+        await execMedia(cropCommand);
         // Cleanup uncropped frame
         try { fs.unlinkSync(bestFrame.path); } catch (e) { }
         console.log(`[Timing] extractAndCropFrame: ${formatDuration((Date.now() - extractStart) / 1000)} (cropped)`);
@@ -477,6 +484,15 @@ function timeToSeconds(timeStr: string): number {
     return parts[0] || 0;
 }
 
+export async function getVideoCreationTime(videoPath: string): Promise<number | null> {
+    try {
+        return parseCreationTimeFromMediaInfo(await readMediaInfo(videoPath));
+    } catch (error) {
+        console.error(`Error reading video creation time:`, error);
+        return null;
+    }
+}
+
 export async function getVideoDuration(videoPath: string): Promise<number> {
     try {
         return parseDurationFromMediaInfo(await readMediaInfo(videoPath));
@@ -80,6 +80,10 @@ echo "[6/8] Building backend image with Cloud Build..."
 "${GCLOUD_BIN}" builds submit backend --tag "gcr.io/${PROJECT_ID}/${SERVICE_NAME}"
 
 echo "[7/8] Deploying Cloud Run service..."
+# --concurrency 1 gives each processing job a whole instance, but it also means every open
+# request holds one: a progress stream (/api/session/:id/events) blocks an instance for as
+# long as it stays open. SESSION_EVENTS_MAX_SECONDS caps streams, after which clients poll.
+# Keep it short, or serve the stream from a separate service with higher concurrency.
 "${GCLOUD_BIN}" run deploy "${SERVICE_NAME}" \
   --image "gcr.io/${PROJECT_ID}/${SERVICE_NAME}" \
   --region "${REGION}" \
@@ -92,7 +96,7 @@ echo "[7/8] Deploying Cloud Run service..."
   --max-instances "${MAX_INSTANCES}" \
   --min-instances "${MIN_INSTANCES}" \
   --allow-unauthenticated \
-  --set-env-vars "STORAGE_BUCKET=${BUCKET_NAME},UPLOAD_OBJECT_PREFIX=uploads/original,GENERATED_OBJECT_PREFIX=uploads/generated,MAX_UPLOAD_BYTES=21474836480,RESUMABLE_CHUNK_BYTES=8388608,FRIEND_PROCESSING_CONCURRENCY=3,GEMINI_UPLOAD_TIMEOUT_MS=240000,GEMINI_UPLOAD_ATTEMPTS=2,GEMINI_GETFILE_TIMEOUT_MS=20000,GEMINI_GETFILE_ATTEMPTS=2,GEMINI_GETFILE_POLL_MAX_RETRIES=60,GEMINI_GENERATE_TIMEOUT_MS=360000,GEMINI_GENERATE_ATTEMPTS=2,GEMINI_IMAGE_TIMEOUT_MS=45000,GEMINI_IMAGE_ATTEMPTS=2" \
+  --set-env-vars "STORAGE_BUCKET=${BUCKET_NAME},UPLOAD_OBJECT_PREFIX=uploads/original,GENERATED_OBJECT_PREFIX=uploads/generated,MAX_UPLOAD_BYTES=21474836480,RESUMABLE_CHUNK_BYTES=8388608,FRIEND_PROCESSING_CONCURRENCY=3,PROCESSING_CONCURRENCY=1,PROCESSING_MAX_ATTEMPTS=2,ANALYSIS_WINDOW_CONCURRENCY=2,SEGMENT_CONCURRENCY=2,GEMINI_UPLOAD_TIMEOUT_MS=240000,GEMINI_UPLOAD_ATTEMPTS=2,GEMINI_GETFILE_TIMEOUT_MS=20000,GEMINI_GETFILE_ATTEMPTS=2,GEMINI_GETFILE_POLL_MAX_RETRIES=60,GEMINI_GENERATE_TIMEOUT_MS=360000,GEMINI_GENERATE_ATTEMPTS=2,GEMINI_IMAGE_TIMEOUT_MS=45000,GEMINI_IMAGE_ATTEMPTS=2,GEMINI_AUDIO_TIMEOUT_MS=90000,GEMINI_AUDIO_ATTEMPTS=2,PERSONA_CONSOLIDATION_INTERVAL_HOURS=24,SESSION_EVENTS_MAX_SECONDS=30" \
   --set-secrets "GEMINI_API_KEY=GEMINI_API_KEY:latest"
 
 SERVICE_URL="$("${GCLOUD_BIN}" run services describe "${SERVICE_NAME}" --region "${REGION}" --format='value(status.url)')"
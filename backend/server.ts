@@ -3,15 +3,58 @@ import multer from 'multer';
 import cors from 'cors';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
+import crypto from 'crypto';
 import { Storage } from '@google-cloud/storage';
-import { Firestore } from '@google-cloud/firestore';
-import { analyzeVideo, detectInMosaic } from './processor/videoAnalyzer.ts';
-import { generateHighlights } from './processor/highlightGenerator.ts';
-import { createProxyVideo, extractFrame, extractAndCropFrame, extractMosaicFrames, createMosaic, cropImageWithBox, getVideoDuration } from './processor/videoPreprocessor.ts';
+import { FieldValue, Firestore } from '@google-cloud/firestore';
+import { getAnalysisProvider } from './processor/analysisProvider.ts';
+import { analyzeRecording } from './processor/chunkedAnalysis.ts';
+import type { AnalysisResult } from './processor/videoAnalyzer.ts';
+import { generateHighlights, getReframedVariantPath } from './processor/highlightGenerator.ts';
+import {
+    applyHighlightMapping,
+    inferVideoDurationFromAnalysis,
+    mapAndFilterForHighlight,
+    mapToHighlightTime,
+    normalizeMoodData,
+    normalizeTimeline,
+    parseEditedHighlightsInput,
+    planHighlights,
+    sanitizeHighlightTimestamps,
+    secondsToTime,
+    timeToSeconds,
+    type HighlightSegment
+} from './processor/highlightPlanner.ts';
+import { normalizeHighlightSpec, parseHighlightSpecInput, type HighlightSpec } from './processor/highlightSpec.ts';
+import { buildHighlightCaptionCues, formatSrt, formatWebVtt, type CaptionFormat } from './processor/captions.ts';
+import { REFRAME_VARIANTS, type ReframeVariant } from './processor/reframe.ts';
+import { HLS_MASTER_PLAYLIST, generateHlsLadder, listHlsFiles } from './processor/hlsLadder.ts';
+import { detectAudioEvents, type AudioEvent } from './processor/audioEvents.ts';
+import { measureActivity, planActivitySegments, type ActivityPoint } from './processor/activityAnalysis.ts';
+import { buildMomentClipKey, parseMomentClipInput, renderMomentClip, type MomentClipFormat, type MomentClipRequest } from './processor/momentClip.ts';
+import { withMediaAbortSignal } from './processor/mediaTools.ts';
+import { isOwnedElsewhere, isRecoverableJob, isRecoverableLadder, leaseFor, planCancel, type JobLease } from './processor/jobLease.ts';
+import { findCheckpointSources, findContentSources, findFinishedTwin, getStoredProxyPath, getStoredRawAnalysis } from './processor/contentCache.ts';
+import {
+    byRecordingTime,
+    getSessionDayKey,
+    getSessionRecordingTime,
+    groupDaySessions,
+    isDayCandidateSession,
+    layoutDayClips,
+    listDaySourceSessions,
+    mergeDayAnalyses,
+    selectDayHighlights
+} from './processor/petDay.ts';
+import { emitSessionEvent, streamSessionEvents } from './processor/sessionEvents.ts';
+import { SESSION_SIDECAR_COLLECTION, joinSessionDocument, splitSessionDocument, type SessionSidecars } from './processor/sessionDocument.ts';
+import { createProxyVideo, extractFrame, extractAndCropFrame, extractMosaicFrames, planMosaicFrameTimestamps, createMosaic, cropImageWithBox, getVideoCreationTime, getVideoDuration } from './processor/videoPreprocessor.ts';
 import { config } from './config.ts';
 import { setFirestoreClient as setPersonaFirestore } from './persona/memoryStore.ts';
+import { setFriendImageLoader } from './persona/friendGallery.ts';
 import { queuePersonaJob } from './persona/personaBuilder.ts';
 import { buildPersonaRouter } from './persona/router.ts';
+import { startMemoryConsolidationSchedule } from './persona/memoryConsolidation.ts';
 
 // Performance timing utilities
 interface StageTime {
@@ -49,6 +92,18 @@ const generatedObjectPrefix = process.env.GENERATED_OBJECT_PREFIX || 'uploads/ge
 const maxUploadBytes = Number(process.env.MAX_UPLOAD_BYTES || `${20 * 1024 * 1024 * 1024}`); // 20GB default
 const resumableChunkBytes = Number(process.env.RESUMABLE_CHUNK_BYTES || `${8 * 1024 * 1024}`); // 8MB default
 const friendProcessingConcurrency = readPositiveIntEnv('FRIEND_PROCESSING_CONCURRENCY', 3);
+const processingConcurrency = readPositiveIntEnv('PROCESSING_CONCURRENCY', 1);
+const processingMaxAttempts = readPositiveIntEnv('PROCESSING_MAX_ATTEMPTS', 2);
+const processingRecoveryMode = process.env.PROCESSING_RECOVERY === 'fail' ? 'fail' : 'requeue';
+// Owner id for job leases; unique per process so a restarted instance never mistakes
+// its predecessor's jobs for its own.
+const instanceId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+const processingLeaseMs = readPositiveIntEnv('PROCESSING_LEASE_SECONDS', 90) * 1000;
+const processingHeartbeatMs = Math.max(5000, Math.floor(processingLeaseMs / 3));
+const dayHighlightMaxSeconds = readPositiveIntEnv('DAY_HIGHLIGHT_MAX_SECONDS', 180);
+// Cloud Run is deployed with --concurrency 1, so an open progress stream holds a whole
+// instance. Streams end after this long and clients reconnect for a fresh snapshot.
+const sessionEventsMaxMs = readPositiveIntEnv('SESSION_EVENTS_MAX_SECONDS', 30) * 1000;
 const useSessionFirestore = process.env.SESSION_USE_FIRESTORE === 'true';
 const usePersonaFirestore = process.env.PERSONA_USE_FIRESTORE === 'true';
 
@@ -160,6 +215,7 @@ if (useSessionFirestore || usePersonaFirestore) {
 } else {
     setPersonaFirestore(null);
 }
+startMemoryConsolidationSchedule();
 
 if (fs.existsSync(sessionsPath)) {
     try {
@@ -184,9 +240,19 @@ ensureDirExists(config.outputDir);
 ensureDirExists(config.uploadDir);
 if (useSessionFirestore) {
     setTimeout(() => {
-        void loadSessionsFromFirestore();
+        void loadSessionsFromFirestore().then(() => {
+            recoverInterruptedBackgroundJobs();
+            void recoverInterruptedHlsLadders();
+            return recoverInterruptedProcessingJobs();
+        });
         void getAllSampleSessions();
     }, 200);
+} else {
+    setTimeout(() => {
+        recoverInterruptedBackgroundJobs();
+        void recoverInterruptedHlsLadders();
+        void recoverInterruptedProcessingJobs();
+    }, 200);
 }
 
 function saveSessions() {
@@ -213,9 +279,19 @@ async function upsertSessionToFirestore(sessionId: string) {
     if (!useSessionFirestore || !firestoreClient) return;
     const session = sessions[sessionId];
     if (!session) return;
+    // Another instance took the job over; this copy is stale and must not overwrite it.
+    if (relinquishedProcessingJobs.has(sessionId)) return;
     try {
-        const sanitized = sanitizeForFirestore(session);
-        await firestoreClient.collection(sessionCollectionName).doc(sessionId).set(sanitized, { merge: true });
+        const { doc, sidecars } = splitSessionDocument(sanitizeForFirestore(session));
+        const ref = firestoreClient.collection(sessionCollectionName).doc(sessionId);
+        // Sidecars first, so a reader never finds a name whose document is missing.
+        await writeSessionSidecars(ref, sidecars);
+        await ref.set({
+            ...doc,
+            // Merge writes keep fields they don't mention; drop copies older versions kept inline.
+            checkpoints: FieldValue.delete(),
+            ...(doc.analysis ? { analysis: { ...doc.analysis, activityData: FieldValue.delete() } } : {})
+        }, { merge: true });
     } catch (error) {
         console.error(`Failed to sync session ${sessionId} to Firestore:`, error);
         // If a ready session failed to persist, write error status so frontend doesn't spin forever
@@ -233,6 +309,61 @@ async function upsertSessionToFirestore(sessionId: string) {
     }
 }
 
+// Content hash of each sidecar last written (or read) per session, so unchanged ones are
+// not rewritten on every progress update and dropped ones can be deleted.
+const sessionSidecarHashes = new Map<string, Map<string, string>>();
+
+function hashSidecar(value: unknown) {
+    return crypto.createHash('sha1').update(JSON.stringify(value)).digest('hex');
+}
+
+async function writeSessionSidecars(ref: FirebaseFirestore.DocumentReference, sidecars: SessionSidecars) {
+    const written = sessionSidecarHashes.get(ref.id) || new Map<string, string>();
+    const batch = firestoreClient!.batch();
+    let changes = 0;
+    for (const [name, value] of Object.entries(sidecars)) {
+        const hash = hashSidecar(value);
+        if (written.get(name) === hash) continue;
+        batch.set(ref.collection(SESSION_SIDECAR_COLLECTION).doc(name), { value });
+        written.set(name, hash);
+        changes++;
+    }
+    for (const name of [...written.keys()]) {
+        if (name in sidecars) continue;
+        batch.delete(ref.collection(SESSION_SIDECAR_COLLECTION).doc(name));
+        written.delete(name);
+        changes++;
+    }
+    sessionSidecarHashes.set(ref.id, written);
+    if (changes > 0) await batch.commit();
+}
+
+async function loadSessionSidecars(doc: any) {
+    if (!firestoreClient || !Array.isArray(doc?.sidecars) || doc.sidecars.length === 0) {
+        return joinSessionDocument(doc, {});
+    }
+    const snap = await firestoreClient.collection(sessionCollectionName).doc(doc.id)
+        .collection(SESSION_SIDECAR_COLLECTION).get();
+    const sidecars: SessionSidecars = {};
+    const written = new Map<string, string>();
+    for (const sidecar of snap.docs) {
+        sidecars[sidecar.id] = sidecar.data().value;
+        written.set(sidecar.id, hashSidecar(sidecar.data().value));
+    }
+    sessionSidecarHashes.set(doc.id, written);
+    return joinSessionDocument(doc, sidecars);
+}
+
+async function deleteSessionSidecars(sessionId: string) {
+    if (!firestoreClient) return;
+    const snap = await firestoreClient.collection(sessionCollectionName).doc(sessionId)
+        .collection(SESSION_SIDECAR_COLLECTION).get();
+    const batch = firestoreClient.batch();
+    snap.docs.forEach((sidecar) => batch.delete(sidecar.ref));
+    if (snap.size > 0) await batch.commit();
+    sessionSidecarHashes.delete(sessionId);
+}
+
 function persistSession(sessionId: string): Promise<void> {
     saveSessions();
     return upsertSessionToFirestore(sessionId);
@@ -243,7 +374,7 @@ async function getSessionFromFirestore(sessionId: string) {
     try {
         const doc = await firestoreClient.collection(sessionCollectionName).doc(sessionId).get();
         if (!doc.exists) return null;
-        return doc.data();
+        return await loadSessionSidecars(doc.data());
     } catch (error) {
         console.error(`Failed to read session ${sessionId} from Firestore:`, error);
         return null;
@@ -254,7 +385,9 @@ async function loadSessionsFromFirestore() {
     if (!useSessionFirestore || !firestoreClient) return;
     try {
         const snap = await firestoreClient.collection(sessionCollectionName).get();
-        const remoteEntries = snap.docs.map((doc) => doc.data()).filter((item) => item?.id);
+        const remoteEntries = await Promise.all(
+            snap.docs.map((doc) => doc.data()).filter((item) => item?.id).map(loadSessionSidecars)
+        );
         if (remoteEntries.length === 0) return;
 
         const merged: Record<string, any> = { ...sessions };
@@ -292,6 +425,32 @@ function normalizeName(value: string | null | undefined) {
     return String(value || '').trim().toLowerCase();
 }
 
+// Client hints for when the clip was filmed: the file's last-modified time (phones
+// finalize the file when recording stops) and the device's IANA time zone. The
+// container's own creation_time wins over these when processVideo finds one.
+function parseRecordingHints(body: any): { fileModifiedAt?: number; timeZone?: string } {
+    const hints: { fileModifiedAt?: number; timeZone?: string } = {};
+    const modifiedAt = Number(body?.fileModifiedAt);
+    if (Number.isFinite(modifiedAt) && modifiedAt > Date.UTC(2000, 0, 1) && modifiedAt <= Date.now() + 86_400_000) {
+        hints.fileModifiedAt = modifiedAt;
+    }
+    const timeZone = parseTimeZone(body?.timeZone);
+    if (timeZone) hints.timeZone = timeZone;
+    return hints;
+}
+
+// An IANA zone the runtime knows, or undefined; callers fall back to UTC.
+function parseTimeZone(value: any): string | undefined {
+    const timeZone = String(value || '').trim();
+    if (!timeZone) return undefined;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return timeZone;
+    } catch {
+        return undefined;
+    }
+}
+
 function sanitizeFileStem(value: string, fallback = 'video') {
     const stem = path.basename(value || '', path.extname(value || ''))
         .replace(/[^a-zA-Z0-9_-]+/g, '-')
@@ -320,8 +479,25 @@ function getSessionOriginalAssetUrl(sessionId: string) {
     return `${publicBaseUrl}/api/session-asset/${encodeURIComponent(sessionId)}/original`;
 }
 
-function getSessionHighlightAssetUrl(sessionId: string) {
-    return `${publicBaseUrl}/api/session-asset/${encodeURIComponent(sessionId)}/highlight`;
+// Regenerated reels overwrite the same object, which is served as immutable; the version
+// query gives each regeneration a fresh URL.
+function getSessionHighlightAssetUrl(sessionId: string, version?: number | null) {
+    const url = `${publicBaseUrl}/api/session-asset/${encodeURIComponent(sessionId)}/highlight`;
+    return version ? `${url}?v=${version}` : url;
+}
+
+function getSessionHighlightVariantAssetUrl(sessionId: string, variant: ReframeVariant, version?: number | null) {
+    const url = `${publicBaseUrl}/api/session-asset/${encodeURIComponent(sessionId)}/highlight/${variant}`;
+    return version ? `${url}?v=${version}` : url;
+}
+
+function getSessionHlsAssetUrl(sessionId: string, ladderId: string) {
+    return `${publicBaseUrl}/api/session-asset/${encodeURIComponent(sessionId)}/hls/${encodeURIComponent(ladderId)}/${HLS_MASTER_PLAYLIST}`;
+}
+
+function getSessionCaptionsAssetUrl(sessionId: string, format: CaptionFormat, version?: number | null) {
+    const url = `${publicBaseUrl}/api/session-asset/${encodeURIComponent(sessionId)}/captions.${format}`;
+    return version ? `${url}?v=${version}` : url;
 }
 
 function getSessionCoverAssetUrl(sessionId: string) {
@@ -345,19 +521,30 @@ function getMimeTypeForPath(filePath: string) {
             return 'image/png';
         case '.webp':
             return 'image/webp';
+        case '.gif':
+            return 'image/gif';
+        case '.m3u8':
+            return 'application/vnd.apple.mpegurl';
+        case '.ts':
+            return 'video/mp2t';
         default:
             return 'application/octet-stream';
     }
 }
 
-function buildGeneratedObjectPath(sessionId: string, kind: 'highlight' | 'cover', sourcePath: string) {
+type GeneratedAssetKind = 'highlight' | `highlight-${ReframeVariant}` | 'cover';
+
+// Reframed renditions of the reel, keyed by variant; only renditions that rendered are present.
+type HighlightVariantAssets = Partial<Record<ReframeVariant, { path: string | null; objectPath: string | null }>>;
+
+function buildGeneratedObjectPath(sessionId: string, kind: GeneratedAssetKind, sourcePath: string) {
     const safeSession = sanitizeObjectPathPart(sessionId, 'session');
     const ext = getSafeExtension(path.basename(sourcePath || 'asset.mp4'));
     const safeName = sanitizeObjectPathPart(`${kind}${ext}`, `${kind}.mp4`);
     return `${generatedObjectPrefix}/${safeSession}/${safeName}`;
 }
 
-async function uploadGeneratedAsset(sessionId: string, kind: 'highlight' | 'cover', sourcePath: string) {
+async function uploadGeneratedAsset(sessionId: string, kind: GeneratedAssetKind, sourcePath: string) {
     if (!storageClient || !storageBucketName) return null;
     if (!sourcePath || !fs.existsSync(sourcePath)) return null;
 
@@ -372,6 +559,30 @@ async function uploadGeneratedAsset(sessionId: string, kind: 'highlight' | 'cove
     return objectPath;
 }
 
+// Picks up the vertical/square renditions generateHighlights left next to the reel and
+// publishes each as its own generated asset. An upload failure drops only that rendition.
+async function publishHighlightVariants(sessionId: string, highlightPath: string): Promise<HighlightVariantAssets | null> {
+    const variants: HighlightVariantAssets = {};
+    for (const variant of REFRAME_VARIANTS) {
+        const variantPath = getReframedVariantPath(highlightPath, variant);
+        if (!fs.existsSync(variantPath)) continue;
+        let objectPath: string | null = null;
+        try {
+            objectPath = await uploadGeneratedAsset(sessionId, `highlight-${variant}`, variantPath);
+        } catch (error) {
+            console.error(`[Storage] Failed to upload ${variant} highlight for ${sessionId}:`, error);
+        }
+        variants[variant] = { path: variantPath, objectPath };
+    }
+    return Object.keys(variants).length > 0 ? variants : null;
+}
+
+function getHighlightVariantPaths(session: any): string[] {
+    return Object.values((session?.highlightVariants || {}) as HighlightVariantAssets)
+        .map(asset => asset?.path)
+        .filter((p): p is string => typeof p === 'string');
+}
+
 async function uploadFrameAsset(
     sessionId: string,
     category: string,
@@ -510,6 +721,9 @@ function rewriteSessionForSample(session: any, sampleId: string) {
     cloned.sampleKey = sampleId;
     cloned.sourceSessionId = session.id;
     cloned.updatedAt = new Date().toISOString();
+    delete cloned.checkpoints;
+    delete cloned.rawAnalysis;
+    delete cloned.job;
     return cloned;
 }
 
@@ -675,6 +889,10 @@ app.post('/api/uploads/resumable', async (req, res) => {
             error: `File too large. Max upload size is ${Math.floor(maxUploadBytes / (1024 * 1024 * 1024))}GB.`
         });
     }
+    const parsedSpec = parseHighlightSpecInput(req.body?.highlightSpec);
+    if ('error' in parsedSpec) {
+        return res.status(400).json({ error: parsedSpec.error });
+    }
 
     const now = Date.now();
     const sessionStem = sanitizeFileStem(originalName);
@@ -693,6 +911,8 @@ app.post('/api/uploads/resumable', async (req, res) => {
         storageBucket: storageBucketName,
         mimeType,
         fileSize,
+        highlightSpec: parsedSpec.spec,
+        ...parseRecordingHints(req.body),
         createdAt: new Date().toISOString()
     };
     persistSession(sessionId);
@@ -768,11 +988,15 @@ app.post('/api/uploads/complete', async (req, res) => {
         const [metadata] = await file.getMetadata();
         session.fileSize = Number(metadata.size || session.fileSize || 0);
         session.mimeType = metadata.contentType || session.mimeType || 'application/octet-stream';
+        session.contentHash = getObjectContentHash(metadata);
         session.status = 'processing';
         session.startedAt = Date.now();
         persistSession(sessionId);
 
-        processVideo(sessionId).catch(console.error);
+        if (await cloneSessionFromContentCache(sessionId)) {
+            return res.json({ sessionId, status: 'ready', deduplicated: true });
+        }
+        enqueueProcessingJob(sessionId);
         res.json({ sessionId, status: 'processing' });
     } catch (error) {
         session.status = 'error';
@@ -798,6 +1022,10 @@ app.post('/api/uploads/from-example', async (req, res) => {
     if (!example) {
         return res.status(400).json({ error: 'Invalid exampleId' });
     }
+    const parsedSpec = parseHighlightSpecInput(req.body?.highlightSpec);
+    if ('error' in parsedSpec) {
+        return res.status(400).json({ error: parsedSpec.error });
+    }
 
     const now = Date.now();
     const sessionStem = sanitizeFileStem(example.fileName);
@@ -827,11 +1055,15 @@ app.post('/api/uploads/from-example', async (req, res) => {
             path: localPath,
             mimeType: 'video/mp4',
             fileSize: fs.statSync(localPath).size,
+            highlightSpec: parsedSpec.spec,
             createdAt: new Date().toISOString(),
             startedAt: now,
         };
-        persistSession(sessionId);
-        processVideo(sessionId, localPath).catch(console.error);
+        await fingerprintSession(sessionId, () => computeFileContentHash(localPath));
+        if (await cloneSessionFromContentCache(sessionId)) {
+            return res.json({ sessionId, status: 'ready', deduplicated: true });
+        }
+        enqueueProcessingJob(sessionId, localPath);
         return res.json({ sessionId, status: 'processing' });
     }
 
@@ -848,6 +1080,7 @@ app.post('/api/uploads/from-example', async (req, res) => {
         storageBucket: storageBucketName,
         mimeType: 'video/mp4',
         fileSize: example.fileSizeMB * 1024 * 1024,
+        highlightSpec: parsedSpec.spec,
         createdAt: new Date().toISOString(),
         startedAt: now,
     };
@@ -858,6 +1091,10 @@ app.post('/api/uploads/from-example', async (req, res) => {
     try {
         const bucket = storageClient.bucket(storageBucketName);
         await bucket.file(srcPath).copy(bucket.file(objectPath));
+        await fingerprintSession(sessionId, async () => {
+            const [metadata] = await bucket.file(objectPath).getMetadata();
+            return getObjectContentHash(metadata);
+        });
     } catch (error) {
         sessions[sessionId].status = 'error';
         sessions[sessionId].error = `Failed to copy example video: ${(error as Error).message}`;
@@ -866,8 +1103,11 @@ app.post('/api/uploads/from-example', async (req, res) => {
         return res.status(500).json({ error: 'Failed to prepare example video.' });
     }
 
+    if (await cloneSessionFromContentCache(sessionId)) {
+        return res.json({ sessionId, status: 'ready', deduplicated: true });
+    }
     res.json({ sessionId, status: 'processing' });
-    processVideo(sessionId).catch(console.error);
+    enqueueProcessingJob(sessionId);
 });
 
 app.post('/api/upload', upload.single('video'), async (req, res) => {
@@ -875,6 +1115,12 @@ app.post('/api/upload', upload.single('video'), async (req, res) => {
         return res.status(400).json({ error: 'No video uploaded' });
     }
 
+    const parsedSpec = parseHighlightSpecInput(req.body?.highlightSpec);
+    if ('error' in parsedSpec) {
+        fs.unlink(req.file.path, () => {});
+        return res.status(400).json({ error: parsedSpec.error });
+    }
+
     const sessionId = path.basename(req.file.path, path.extname(req.file.path));
     const petName = req.body?.petName || '';
     const visitorId = String(req.body?.visitorId || '').trim();
@@ -885,13 +1131,19 @@ app.post('/api/upload', upload.single('video'), async (req, res) => {
         path: req.file.path,
         petName: petName,
         visitorId: visitorId || undefined,
+        highlightSpec: parsedSpec.spec,
+        ...parseRecordingHints(req.body),
         createdAt: new Date().toISOString(),
         startedAt: Date.now()
     };
-    persistSession(sessionId);
+
+    await fingerprintSession(sessionId, () => computeFileContentHash(req.file!.path));
+    if (await cloneSessionFromContentCache(sessionId)) {
+        return res.json({ sessionId, status: 'ready', deduplicated: true });
+    }
 
     // Start processing asynchronously
-    processVideo(sessionId, req.file.path).catch(console.error);
+    enqueueProcessingJob(sessionId, req.file.path);
 
     res.json({ sessionId });
 });
@@ -917,11 +1169,21 @@ function buildSessionResponse(session: any) {
         ? getSessionOriginalAssetUrl(session.id)
         : getPublicUrl(session.videoUrl) || getFileUrl(session.path);
     const highlightUrl = !isSample && session.highlightObjectPath
-        ? getSessionHighlightAssetUrl(session.id)
+        ? getSessionHighlightAssetUrl(session.id, session.highlightVersion)
         : (isCloudSession ? null : (getPublicUrl(session.highlightUrl) || getFileUrl(session.highlightPath)));
     const coverUrl = !isSample && session.coverObjectPath
         ? getSessionCoverAssetUrl(session.id)
         : (isCloudSession ? null : getPublicUrl(session.coverUrl));
+    // Same rules as highlightUrl: cloud sessions only link renditions that reached storage.
+    const highlightVariantUrls: Partial<Record<ReframeVariant, string>> = {};
+    if (highlightUrl && !isSample) {
+        for (const [variant, asset] of Object.entries((session.highlightVariants || {}) as HighlightVariantAssets)) {
+            const url = asset?.objectPath
+                ? getSessionHighlightVariantAssetUrl(session.id, variant as ReframeVariant, session.highlightVersion)
+                : (isCloudSession ? null : getFileUrl(asset?.path));
+            if (url) highlightVariantUrls[variant as ReframeVariant] = url;
+        }
+    }
 
     // Normalize analysis frame URLs for cloud sessions:
     // - imageObjectPath present → use GCS-backed API endpoint
@@ -949,12 +1211,29 @@ function buildSessionResponse(session: any) {
         }
     }
 
+    // Checkpoints hold full intermediate AnalysisResults; only expose where a retry would resume.
+    const { checkpoints, rawAnalysis, ...publicSession } = session;
     return {
-        ...session,
+        ...publicSession,
         analysis,
         videoUrl,
         highlightUrl,
-        coverUrl
+        highlightVariantUrls,
+        hlsUrls: !isSample && session.kind !== 'day'
+            ? {
+                original: getReadyHlsLadder(session, 'original') ? getSessionHlsAssetUrl(session.id, session.hls.original.id) : null,
+                highlight: highlightUrl && getReadyHlsLadder(session, 'highlight') ? getSessionHlsAssetUrl(session.id, session.hls.highlight.id) : null
+            }
+            : null,
+        // Sidecars are rendered from the stored analysis, so they exist whenever a reel does.
+        captionUrls: highlightUrl && !isSample && session.kind !== 'day'
+            ? {
+                vtt: getSessionCaptionsAssetUrl(session.id, 'vtt', session.highlightVersion),
+                srt: getSessionCaptionsAssetUrl(session.id, 'srt', session.highlightVersion)
+            }
+            : null,
+        coverUrl,
+        resumeStage: session.status === 'error' && checkpoints ? getResumeStage(checkpoints) : undefined
     };
 }
 
@@ -983,10 +1262,11 @@ async function repairSessionAssets(sessionId: string): Promise<any> {
     let changed = false;
 
     if (!session.highlightPath && !session.highlightUrl && Array.isArray(session.analysis.highlightTimestamps)) {
-        const repairedHighlight = await generateHighlights(videoPath, session.analysis, config.uploadDir, `${sessionId}-repair`);
+        const repairedHighlight = await generateHighlights(videoPath, session.analysis, config.uploadDir, `${sessionId}-repair`, normalizeHighlightSpec(session.highlightSpec), { petName: session.petName });
         if (repairedHighlight && repairedHighlight !== videoPath && fs.existsSync(repairedHighlight)) {
             session.highlightPath = repairedHighlight;
             session.highlightUrl = getFileUrl(repairedHighlight);
+            session.highlightVariants = await publishHighlightVariants(sessionId, repairedHighlight);
             session.highlightError = null;
             changed = true;
         }
@@ -1054,9 +1334,123 @@ async function repairSessionAssets(sessionId: string): Promise<any> {
     }
 
     if (changed) await persistSession(sessionId);
+    // Failed or never-packaged ladders are retried; ready ones are left alone.
+    queueSessionHls(sessionId, ['original', 'highlight']);
     return session;
 }
 
+// Frame-bearing entries keep their original-clock time next to the highlight-clock one
+// (see processVideo Task B); re-derive the highlight clock for a new plan.
+function remapFrameTimestamps(analysis: AnalysisResult, highlights: HighlightSegment[]) {
+    for (const friend of analysis.friends || []) {
+        const originalTimestamp = (friend as any).originalTimestamp;
+        if (originalTimestamp) friend.timestamp = mapToHighlightTime(originalTimestamp, highlights);
+        if (Array.isArray(friend.timestamps)) {
+            friend.timestamps = friend.timestamps.map((ts: any) => ts.originalTime
+                ? { ...ts, time: mapToHighlightTime(ts.originalTime, highlights) }
+                : ts);
+        }
+    }
+    for (const item of [...(analysis.scenery || []), ...(analysis.dietaryHabits || [])] as any[]) {
+        if (item.originalTime) item.timestamp = mapToHighlightTime(item.originalTime, highlights);
+    }
+}
+
+// Re-cuts the reel without model calls; extracted frames and persona output are kept.
+// Without editedClips the reel is re-planned from the stored raw Gemini result under
+// `spec`; with them (already validated, original clock) the user's list is used as-is.
+async function regenerateSessionHighlights(sessionId: string, spec: HighlightSpec, editedClips?: HighlightSegment[]) {
+    const regenerateStart = Date.now();
+    const cleanupPaths: string[] = [];
+    try {
+        const session = sessions[sessionId];
+        const analysis: AnalysisResult = cloneJson(session.analysis);
+        let highlights: HighlightSegment[];
+        if (editedClips) {
+            highlights = editedClips;
+            // moodData/timeline are still on the original clock; narrative timestamps were mapped.
+            analysis.narrativeSegments = (analysis.narrativeSegments || []).map((seg: any) => ({
+                ...seg,
+                timestamp: seg.originalTime || seg.timestamp
+            }));
+        } else {
+            const rawAnalysis: AnalysisResult = cloneJson(getStoredRawAnalysis(session));
+            const videoDuration = session.originalDuration || inferVideoDurationFromAnalysis(rawAnalysis);
+            highlights = planHighlights(rawAnalysis, videoDuration, spec);
+            analysis.moodData = rawAnalysis.moodData;
+            analysis.timeline = rawAnalysis.timeline;
+            analysis.narrativeSegments = rawAnalysis.narrativeSegments;
+        }
+        analysis.highlightTimestamps = highlights;
+        remapFrameTimestamps(analysis, highlights);
+        applyHighlightMapping(analysis, highlights);
+
+        let videoPath = [session.proxyPath, session.path]
+            .find((p: any) => typeof p === 'string' && fs.existsSync(p));
+        if (!videoPath) {
+            const resolved = await resolveProcessingVideoInput(sessionId);
+            cleanupPaths.push(...resolved.cleanupPaths);
+            videoPath = resolved.inputPath;
+        }
+
+        const version = Date.now();
+        const highlightPath = await generateHighlights(videoPath, analysis, config.uploadDir, `${sessionId}-v${version}`, spec, { petName: session.petName });
+        if (!highlightPath || highlightPath === videoPath || !fs.existsSync(highlightPath)) {
+            throw new Error('Highlight generation failed');
+        }
+        const highlightObjectPath = await uploadGeneratedAsset(sessionId, 'highlight', highlightPath);
+        if (session.objectPath && !highlightObjectPath) {
+            throw new Error('Highlight was generated but could not be published');
+        }
+
+        const highlightVariants = await publishHighlightVariants(sessionId, highlightPath);
+
+        const previousPaths = [sessions[sessionId].highlightPath, ...getHighlightVariantPaths(sessions[sessionId])];
+        sessions[sessionId] = {
+            ...sessions[sessionId],
+            analysis,
+            highlightSpec: spec,
+            highlightEdited: Boolean(editedClips),
+            highlightPath,
+            highlightObjectPath: highlightObjectPath || null,
+            highlightUrl: highlightObjectPath ? getSessionHighlightAssetUrl(sessionId, version) : getFileUrl(highlightPath),
+            highlightVariants,
+            highlightVersion: version,
+            highlightError: null,
+            highlightJob: null
+        };
+        await persistSession(sessionId);
+        queueSessionHls(sessionId, ['highlight']);
+        const currentPaths = [highlightPath, ...getHighlightVariantPaths(sessions[sessionId])];
+        for (const previousPath of previousPaths) {
+            if (previousPath && !currentPaths.includes(previousPath) && fs.existsSync(previousPath)) {
+                fs.unlinkSync(previousPath);
+            }
+        }
+        const description = editedClips ? `an edited ${editedClips.length}-clip` : `a ${spec.targetSeconds}s ${spec.style}`;
+        console.log(`[Highlight] Regenerated ${sessionId} as ${description} reel in ${formatDuration((Date.now() - regenerateStart) / 1000)}`);
+    } catch (error) {
+        console.error(`[Highlight] Failed to regenerate ${sessionId}:`, error);
+        if (sessions[sessionId]) {
+            sessions[sessionId].highlightJob = {
+                ...sessions[sessionId].highlightJob,
+                status: 'failed',
+                error: (error as Error).message,
+                completedAt: Date.now()
+            };
+            persistSession(sessionId);
+        }
+    } finally {
+        for (const filePath of cleanupPaths) {
+            try {
+                if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+            } catch (cleanupError) {
+                console.warn(`[Cleanup] Failed to remove temporary regenerate input: ${filePath}`, cleanupError);
+            }
+        }
+    }
+}
+
 async function redirectToSignedUrl(
     objectPath: string,
     res: express.Response,
@@ -1230,6 +1624,71 @@ app.get('/api/session-asset/:id/highlight', async (req, res) => {
     return res.status(404).json({ error: 'Highlight asset not found' });
 });
 
+app.get('/api/session-asset/:id/highlight/:variant', async (req, res) => {
+    const variant = req.params.variant as ReframeVariant;
+    if (!REFRAME_VARIANTS.includes(variant)) {
+        return res.status(404).json({ error: 'Unknown highlight variant' });
+    }
+    let session = sessions[req.params.id];
+    if (!session) {
+        session = await getSessionFromFirestore(req.params.id);
+        if (session) {
+            sessions[req.params.id] = session;
+            saveSessions();
+        }
+    }
+    if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const asset = (session.highlightVariants as HighlightVariantAssets | undefined)?.[variant];
+    if (asset?.objectPath) {
+        return redirectToSignedUrl(
+            asset.objectPath,
+            res,
+            'Highlight variant not found',
+            'Failed to read highlight variant'
+        );
+    }
+    if (asset?.path && fs.existsSync(asset.path)) {
+        return res.sendFile(path.resolve(asset.path));
+    }
+
+    return res.status(404).json({ error: 'Highlight variant not found' });
+});
+
+const CAPTION_CONTENT_TYPES: Record<CaptionFormat, string> = {
+    vtt: 'text/vtt; charset=utf-8',
+    srt: 'application/x-subrip; charset=utf-8'
+};
+
+async function sendSessionCaptions(sessionId: string, res: express.Response, format: CaptionFormat) {
+    let session = sessions[sessionId];
+    if (!session) {
+        session = await getSessionFromFirestore(sessionId);
+        if (session) {
+            sessions[sessionId] = session;
+            saveSessions();
+        }
+    }
+    if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+    }
+    if (!session.analysis?.highlightTimestamps?.length) {
+        return res.status(404).json({ error: 'Captions not found' });
+    }
+
+    const cues = buildHighlightCaptionCues(session.analysis);
+    const body = format === 'vtt' ? formatWebVtt(cues) : formatSrt(cues);
+    const filename = `${sanitizeObjectPathPart(session.petName || 'pet', 'pet')}-highlight.${format}`;
+    res.setHeader('Content-Type', CAPTION_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+    res.send(body);
+}
+
+app.get('/api/session-asset/:id/captions.vtt', (req, res) => sendSessionCaptions(req.params.id, res, 'vtt'));
+app.get('/api/session-asset/:id/captions.srt', (req, res) => sendSessionCaptions(req.params.id, res, 'srt'));
+
 app.get('/api/session-asset/:id/cover', async (req, res) => {
     let session = sessions[req.params.id];
     if (!session) {
@@ -1339,6 +1798,36 @@ app.get('/api/session/:id', async (req, res) => {
     res.json(buildSessionResponse(session));
 });
 
+app.get('/api/session/:id/events', async (req, res) => {
+    const sessionId = req.params.id;
+    let session = sessions[sessionId];
+    if (!session) {
+        session = await getSessionFromFirestore(sessionId);
+        if (session) sessions[sessionId] = session;
+    }
+    if (!session) return res.status(404).json({ error: 'Session not found' });
+
+    // Jobs running on another instance never emit here; watch the shared store for the outcome.
+    const isLocalJob = processingQueue.includes(sessionId) || runningProcessingJobs.has(sessionId);
+    streamSessionEvents(res, sessionId, buildSessionStatusPayload(session), {
+        maxMs: sessionEventsMaxMs,
+        remote: useSessionFirestore && !isLocalJob
+            ? {
+                intervalMs: 5000,
+                check: async () => {
+                    const remote = await getSessionFromFirestore(sessionId);
+                    if (!remote) return null;
+                    if (remote.status !== 'processing') {
+                        sessions[sessionId] = remote;
+                        return { event: 'status', data: buildSessionStatusPayload(remote) };
+                    }
+                    return remote.progress ? { event: 'progress', data: remote.progress } : null;
+                }
+            }
+            : undefined
+    });
+});
+
 app.post('/api/session/:id/repair-assets', async (req, res) => {
     const sessionId = req.params.id;
     let session = sessions[sessionId];
@@ -1356,100 +1845,576 @@ app.post('/api/session/:id/repair-assets', async (req, res) => {
     }
 });
 
-app.delete('/api/session/:id', async (req, res) => {
-    const sessionId = req.params.id;
-    let session = sessions[sessionId];
+// ---------- HLS playback ladders ----------
+// Originals and reels are packaged into HLS ladders in the background once a session is
+// ready, one job at a time (each is a full multi-rendition encode). Until a ladder is
+// ready the player keeps using the progressive MP4. Ladders live under
+// generated/<session>/hls/<ladderId>/; the highlight ladder id carries highlightVersion,
+// so a regenerated reel never shares (immutable-cached) segment URLs with the old one.
 
-    if (!session) {
-        session = await getSessionFromFirestore(sessionId);
-        if (session) {
-            sessions[sessionId] = session;
-        }
-    }
+type HlsKind = 'original' | 'highlight';
 
-    if (!session) {
-        return res.status(404).json({ error: 'Session not found' });
-    }
+// Pending and running ladders carry a lease like processing jobs (see processor/jobLease.ts),
+// so only one instance packages them and recovery leaves live ones alone.
+type HlsLadder = {
+    id: string;
+    status: 'pending' | 'running' | 'ready' | 'failed';
+    dir: string | null;
+    objectPrefix: string | null;
+    renditions: string[];
+    error?: string;
+    completedAt?: number;
+} & Partial<JobLease>;
+
+const hlsQueue: { sessionId: string; kind: HlsKind }[] = [];
+let hlsWorkerRunning = false;
+let activeHlsJob: { sessionId: string; kind: HlsKind; ladderId: string } | null = null;
+
+function getHlsLadderId(session: any, kind: HlsKind) {
+    return kind === 'original' ? 'original' : `highlight-${session.highlightVersion || 0}`;
+}
 
-    if (session.isSample) {
-        return res.status(403).json({ error: 'Cannot delete sample sessions' });
+// A ladder only counts once it is ready and still matches the session's current reel.
+function getReadyHlsLadder(session: any, kind: HlsKind): HlsLadder | null {
+    const ladder: HlsLadder | undefined = session?.hls?.[kind];
+    return ladder?.status === 'ready' && ladder.id === getHlsLadderId(session, kind) ? ladder : null;
+}
+
+function getHlsLadderDirs(session: any): string[] {
+    return Object.values((session?.hls || {}) as Record<string, HlsLadder>)
+        .map(ladder => ladder?.dir)
+        .filter((dir): dir is string => typeof dir === 'string');
+}
+
+function queueSessionHls(sessionId: string, kinds: HlsKind[]) {
+    const session = sessions[sessionId];
+    if (!session || session.isSample || session.kind === 'day') return;
+    for (const kind of kinds) {
+        // Reels are packaged from the local render; a reel that only exists in the bucket waits for a regenerate.
+        if (kind === 'highlight' && !(typeof session.highlightPath === 'string' && fs.existsSync(session.highlightPath))) continue;
+        if (getReadyHlsLadder(session, kind)) continue;
+        if (hlsQueue.some(job => job.sessionId === sessionId && job.kind === kind)) continue;
+        const ladderId = getHlsLadderId(session, kind);
+        if (activeHlsJob?.sessionId === sessionId && activeHlsJob.kind === kind && activeHlsJob.ladderId === ladderId) continue;
+        session.hls = {
+            ...session.hls,
+            [kind]: { id: ladderId, status: 'pending', dir: null, objectPrefix: null, renditions: [], ...leaseFor(instanceId, Date.now(), processingLeaseMs) }
+        };
+        hlsQueue.push({ sessionId, kind });
     }
+    persistSession(sessionId);
+    void pumpHlsQueue();
+}
 
+// Ladders take one of the processing job slots, one ladder at a time. Processing jobs
+// go first: each finished ladder hands the slot back to the processing queue.
+async function pumpHlsQueue() {
+    if (hlsWorkerRunning || hlsQueue.length === 0 || runningProcessingJobs.size >= processingConcurrency) return;
+    hlsWorkerRunning = true;
     try {
-        // GCS cleanup
-        if (storageClient && storageBucketName) {
-            const bucket = storageClient.bucket(storageBucketName);
+        const { sessionId, kind } = hlsQueue.shift()!;
+        await packageSessionHls(sessionId, kind);
+    } finally {
+        hlsWorkerRunning = false;
+        pumpProcessingQueue();
+        void pumpHlsQueue();
+    }
+}
 
-            // Delete original video object
-            if (session.objectPath) {
-                try {
-                    await bucket.file(session.objectPath).delete({ ignoreNotFound: true });
-                } catch (e) {
-                    console.warn(`Failed to delete original object ${session.objectPath}:`, e);
-                }
-            }
+// Renews the lease of every ladder queued or packaging here.
+function heartbeatHlsLadders() {
+    const now = Date.now();
+    for (const { sessionId, kind } of [...hlsQueue, ...(activeHlsJob ? [activeHlsJob] : [])]) {
+        const ladder: HlsLadder | undefined = sessions[sessionId]?.hls?.[kind];
+        if (ladder?.status !== 'pending' && ladder?.status !== 'running') continue;
+        Object.assign(ladder, leaseFor(instanceId, now, processingLeaseMs));
+        persistSession(sessionId);
+    }
+}
 
-            // Delete all generated files (highlight, cover, frames) under the session prefix
-            try {
-                await bucket.deleteFiles({ prefix: `${generatedObjectPrefix}/${sessionId}/`, force: true });
-            } catch (e) {
-                console.warn(`Failed to delete generated files for session ${sessionId}:`, e);
+async function uploadHlsLadder(sessionId: string, ladderId: string, dir: string): Promise<string | null> {
+    if (!storageClient || !storageBucketName) return null;
+    const objectPrefix = `${generatedObjectPrefix}/${sanitizeObjectPathPart(sessionId, 'session')}/hls/${sanitizeObjectPathPart(ladderId, 'ladder')}`;
+    const bucket = storageClient.bucket(storageBucketName);
+    await runWithConcurrencyLimit(listHlsFiles(dir), 8, async (relativePath) => {
+        await bucket.upload(path.join(dir, relativePath), {
+            destination: `${objectPrefix}/${relativePath}`,
+            metadata: {
+                contentType: getMimeTypeForPath(relativePath),
+                cacheControl: 'public,max-age=31536000,immutable'
             }
-        }
+        });
+    });
+    return objectPrefix;
+}
 
-        // Local file cleanup
-        const safeDelete = (filePath: string | undefined | null) => {
-            if (!filePath || typeof filePath !== 'string') return;
-            if (!path.isAbsolute(filePath)) return;
-            const resolved = path.resolve(filePath);
-            if (!resolved.startsWith(path.resolve(config.uploadDir))) return;
-            try {
-                if (fs.existsSync(resolved)) fs.unlinkSync(resolved);
-            } catch (e) {
-                console.warn(`Failed to delete local file ${resolved}:`, e);
+async function packageSessionHls(sessionId: string, kind: HlsKind) {
+    const session = sessions[sessionId];
+    if (!session || session.status !== 'ready') return;
+    const ladderId = getHlsLadderId(session, kind);
+    if (session.hls?.[kind]?.id !== ladderId) return;  // superseded by a newer reel
+    activeHlsJob = { sessionId, kind, ladderId };
+
+    const cleanupPaths: string[] = [];
+    const dir = path.join(config.uploadDir, `${sessionId}-hls-${ladderId}`);
+    const setLadder = (ladder: HlsLadder) => {
+        sessions[sessionId].hls = { ...sessions[sessionId].hls, [kind]: ladder };
+        persistSession(sessionId);
+    };
+    setLadder({ id: ladderId, status: 'running', dir: null, objectPrefix: null, renditions: [], ...leaseFor(instanceId, Date.now(), processingLeaseMs) });
+    try {
+        let inputPath: string | undefined;
+        if (kind === 'original') {
+            // Package from the full-quality upload when it is still on disk, not the proxy.
+            inputPath = [session.path, session.proxyPath].find((p: any) => typeof p === 'string' && fs.existsSync(p));
+            if (!inputPath) {
+                const resolved = await resolveProcessingVideoInput(sessionId);
+                cleanupPaths.push(...resolved.cleanupPaths);
+                inputPath = resolved.inputPath;
             }
-        };
-        safeDelete(session.path);
-        safeDelete(session.highlightPath);
-        safeDelete(session.coverPath);
-        safeDelete(session.proxyPath);
-
-        // Remove discovery post for this session
-        const postIdx = discoveryPosts.findIndex((p: any) => p.sessionId === sessionId);
-        if (postIdx !== -1) {
-            discoveryPosts.splice(postIdx, 1);
-            saveDiscoveryPosts();
+        } else {
+            inputPath = typeof session.highlightPath === 'string' && fs.existsSync(session.highlightPath) ? session.highlightPath : undefined;
+            if (!inputPath) throw new Error('The highlight file is no longer on this server');
         }
 
-        // Remove comments for this session
-        if (allComments[sessionId]) {
-            delete allComments[sessionId];
-            saveComments();
+        const renditions = await generateHlsLadder(inputPath, dir);
+        const objectPrefix = await uploadHlsLadder(sessionId, ladderId, dir);
+        if (session.objectPath && !objectPrefix) {
+            throw new Error('HLS ladder was packaged but could not be published');
         }
 
-        // Firestore cleanup
-        if (useSessionFirestore && firestoreClient) {
-            try {
-                await firestoreClient.collection(sessionCollectionName).doc(sessionId).delete();
-            } catch (e) {
-                console.warn(`Failed to delete Firestore document for session ${sessionId}:`, e);
+        if (!sessions[sessionId] || getHlsLadderId(sessions[sessionId], kind) !== ladderId) {
+            fs.rmSync(dir, { recursive: true, force: true });
+            return;
+        }
+        const previousDirs = getHlsLadderDirs(sessions[sessionId]).filter(previous => previous !== dir);
+        setLadder({ id: ladderId, status: 'ready', dir, objectPrefix, renditions, completedAt: Date.now() });
+        if (kind === 'highlight') {
+            // Older reel ladders are unreachable once the id moves on.
+            for (const previous of previousDirs) {
+                if (previous.includes('-hls-highlight-')) fs.rmSync(previous, { recursive: true, force: true });
             }
         }
-
-        // Remove from in-memory sessions and persist
-        delete sessions[sessionId];
-        saveSessions();
-
-        console.log(`Session ${sessionId} deleted successfully`);
-        res.json({ success: true });
-    } catch (error: any) {
-        console.error(`Failed to delete session ${sessionId}:`, error);
-        res.status(500).json({ error: 'Failed to delete session' });
+        emitSessionStatus(sessionId);
+    } catch (error) {
+        console.error(`[HLS] Failed to package ${kind} for ${sessionId}:`, error);
+        fs.rmSync(dir, { recursive: true, force: true });
+        if (sessions[sessionId]?.hls?.[kind]?.id === ladderId) {
+            setLadder({ id: ladderId, status: 'failed', dir: null, objectPrefix: null, renditions: [], error: (error as Error).message, completedAt: Date.now() });
+        }
+    } finally {
+        activeHlsJob = null;
+        for (const filePath of cleanupPaths) {
+            if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+        }
     }
-});
+}
 
-app.get('/api/pet-names', (req, res) => {
-    const names = [...new Set(
+// Serves playlists and segments. Playlists reference their children by relative URI, so
+// everything is streamed through this route rather than redirected to signed URLs.
+app.get('/api/session-asset/:id/hls/:ladderId/*file', async (req, res) => {
+    let session = sessions[req.params.id];
+    if (!session) {
+        session = await getSessionFromFirestore(req.params.id);
+        if (session) {
+            sessions[req.params.id] = session;
+            saveSessions();
+        }
+    }
+    if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const ladder = (Object.values(session.hls || {}) as HlsLadder[])
+        .find(candidate => candidate?.id === req.params.ladderId && candidate.status === 'ready');
+    const file = req.params.file;
+    const relativePath = Array.isArray(file) ? file.join('/') : String(file || '');
+    if (!ladder || !/^[A-Za-z0-9_-]+(\.[A-Za-z0-9]+)?(\/[A-Za-z0-9_-]+\.(m3u8|ts))?$/.test(relativePath)) {
+        return res.status(404).json({ error: 'HLS asset not found' });
+    }
+
+    if (ladder.objectPrefix) {
+        return streamSessionStorageObject(
+            req, `${ladder.objectPrefix}/${relativePath}`, res,
+            'HLS asset not found',
+            'Failed to read HLS asset'
+        );
+    }
+    const localPath = ladder.dir ? path.join(ladder.dir, relativePath) : null;
+    if (localPath && fs.existsSync(localPath)) {
+        res.setHeader('Content-Type', getMimeTypeForPath(localPath));
+        return res.sendFile(path.resolve(localPath));
+    }
+    return res.status(404).json({ error: 'HLS asset not found' });
+});
+
+// Shared guard for the reel re-cut routes; sends the error response and returns null
+// when the session cannot be re-cut right now.
+async function loadRecuttableSession(sessionId: string, res: express.Response) {
+    let session = sessions[sessionId];
+    if (!session) {
+        session = await getSessionFromFirestore(sessionId);
+        if (session) sessions[sessionId] = session;
+    }
+    if (!session) {
+        res.status(404).json({ error: 'Session not found' });
+        return null;
+    }
+    if (session.isSample) {
+        res.status(403).json({ error: 'Cannot regenerate sample sessions' });
+        return null;
+    }
+    if (session.kind === 'day') {
+        res.status(409).json({ error: 'Day digests are rebuilt from their clips' });
+        return null;
+    }
+    if (session.status !== 'ready') {
+        res.status(409).json({ error: `Cannot regenerate a session with status '${session.status}'` });
+        return null;
+    }
+    if (session.highlightJob?.status === 'running') {
+        res.status(409).json({ error: 'The highlight reel is already being regenerated' });
+        return null;
+    }
+    return session;
+}
+
+// Body: { highlightSpec }. Responds 202 immediately; poll the session until
+// highlightJob clears (success) or reports status 'failed'.
+app.post('/api/session/:id/highlights/regenerate', async (req, res) => {
+    const sessionId = req.params.id;
+    const session = await loadRecuttableSession(sessionId, res);
+    if (!session) return;
+    if (!getStoredRawAnalysis(session)) {
+        return res.status(409).json({ error: 'This session has no stored analysis to re-plan. Upload the video again to change its reel.' });
+    }
+
+    const parsedSpec = parseHighlightSpecInput(req.body?.highlightSpec);
+    if ('error' in parsedSpec) {
+        return res.status(400).json({ error: parsedSpec.error });
+    }
+
+    session.highlightJob = { status: 'running', spec: parsedSpec.spec, startedAt: Date.now() };
+    persistSession(sessionId);
+    void regenerateSessionHighlights(sessionId, parsedSpec.spec);
+    res.status(202).json(buildSessionResponse(session));
+});
+
+// Body: { clips: [{ start, end }] } on the original clock (M:SS strings or seconds).
+// Same 202 + highlightJob contract as /highlights/regenerate; the session's spec is kept.
+app.put('/api/session/:id/highlights', async (req, res) => {
+    const sessionId = req.params.id;
+    const session = await loadRecuttableSession(sessionId, res);
+    if (!session) return;
+
+    const videoDuration = session.originalDuration
+        || inferVideoDurationFromAnalysis(getStoredRawAnalysis(session) || session.analysis);
+    const parsedClips = parseEditedHighlightsInput(req.body?.clips, videoDuration);
+    if ('error' in parsedClips) {
+        return res.status(400).json({ error: parsedClips.error });
+    }
+
+    const spec = normalizeHighlightSpec(session.highlightSpec);
+    session.highlightJob = { status: 'running', spec, clips: parsedClips.clips, startedAt: Date.now() };
+    persistSession(sessionId);
+    void regenerateSessionHighlights(sessionId, spec, parsedClips.clips);
+    res.status(202).json(buildSessionResponse(session));
+});
+
+interface StoredMomentClip {
+    key: string;
+    format: MomentClipFormat;
+    start: number;
+    seconds: number;
+    path: string | null;
+    objectPath: string | null;
+    createdAt: number;
+}
+
+// Concurrent requests for the same moment share one render.
+const momentClipRenders = new Map<string, Promise<StoredMomentClip>>();
+
+function toMomentClipResponse(sessionId: string, clip: StoredMomentClip) {
+    return {
+        key: clip.key,
+        format: clip.format,
+        start: clip.start,
+        seconds: clip.seconds,
+        url: clip.objectPath ? getSessionFrameAssetUrl(sessionId, clip.objectPath) : getFileUrl(clip.path)
+    };
+}
+
+async function renderSessionMomentClip(sessionId: string, request: MomentClipRequest, key: string): Promise<StoredMomentClip> {
+    const session = sessions[sessionId];
+    const cleanupPaths: string[] = [];
+    try {
+        let videoPath = [session.proxyPath, session.path]
+            .find((p: any) => typeof p === 'string' && fs.existsSync(p));
+        if (!videoPath) {
+            const resolved = await resolveProcessingVideoInput(sessionId);
+            cleanupPaths.push(...resolved.cleanupPaths);
+            videoPath = resolved.inputPath;
+        }
+
+        const renderStart = Date.now();
+        const outputPath = path.join(config.uploadDir, `${sessionId}-${key}`);
+        await renderMomentClip(videoPath, outputPath, request);
+        if (!fs.existsSync(outputPath) || fs.statSync(outputPath).size === 0) {
+            throw new Error('Clip render produced no output');
+        }
+        const objectPath = await uploadFrameAsset(sessionId, 'clip', outputPath);
+        if (session.objectPath && !objectPath) {
+            throw new Error('Clip was rendered but could not be published');
+        }
+
+        const clip: StoredMomentClip = { key, ...request, path: outputPath, objectPath, createdAt: Date.now() };
+        sessions[sessionId].momentClips = { ...sessions[sessionId].momentClips, [key]: clip };
+        await persistSession(sessionId);
+        console.log(`[Clips] Rendered ${key} for ${sessionId} in ${formatDuration((Date.now() - renderStart) / 1000)}`);
+        return clip;
+    } finally {
+        for (const filePath of cleanupPaths) {
+            if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+        }
+    }
+}
+
+// Body: { timestamp (original clock), seconds? (2-6, default 4), format? ('gif' | 'mp4' | 'webp') }.
+// Renders synchronously; a repeat request for the same window and format returns the cached asset.
+app.post('/api/session/:id/clips', async (req, res) => {
+    const sessionId = req.params.id;
+    let session = sessions[sessionId];
+    if (!session) {
+        session = await getSessionFromFirestore(sessionId);
+        if (session) sessions[sessionId] = session;
+    }
+    if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+    }
+    if (session.isSample) {
+        return res.status(403).json({ error: 'Cannot render clips from sample sessions' });
+    }
+    if (session.kind === 'day') {
+        return res.status(409).json({ error: 'Make clips from the sessions in this day' });
+    }
+    if (session.status !== 'ready') {
+        return res.status(409).json({ error: `Cannot render clips for a session with status '${session.status}'` });
+    }
+
+    const parsed = parseMomentClipInput(req.body, session.originalDuration || 0);
+    if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+    }
+
+    const key = buildMomentClipKey(parsed.clip);
+    const cached: StoredMomentClip | undefined = session.momentClips?.[key];
+    if (cached && (cached.objectPath || (cached.path && fs.existsSync(cached.path)))) {
+        return res.json({ clip: toMomentClipResponse(sessionId, cached) });
+    }
+
+    const renderKey = `${sessionId}/${key}`;
+    let render = momentClipRenders.get(renderKey);
+    if (!render) {
+        render = renderSessionMomentClip(sessionId, parsed.clip, key)
+            .finally(() => momentClipRenders.delete(renderKey));
+        momentClipRenders.set(renderKey, render);
+    }
+    try {
+        const clip = await render;
+        res.status(201).json({ clip: toMomentClipResponse(sessionId, clip) });
+    } catch (error) {
+        console.error(`[Clips] Failed to render ${key} for ${sessionId}:`, error);
+        res.status(500).json({ error: 'Failed to render clip' });
+    }
+});
+
+app.post('/api/session/:id/retry', async (req, res) => {
+    const sessionId = req.params.id;
+    let session = sessions[sessionId];
+    if (!session) {
+        session = await getSessionFromFirestore(sessionId);
+        if (session) sessions[sessionId] = session;
+    }
+    if (!session) return res.status(404).json({ error: 'Session not found' });
+    if (session.isSample) {
+        return res.status(403).json({ error: 'Cannot retry sample sessions' });
+    }
+    if (session.status === 'processing') {
+        return res.status(409).json({ error: 'Session is already processing' });
+    }
+    if (session.status !== 'error') {
+        return res.status(409).json({ error: `Cannot retry a session with status '${session.status}'` });
+    }
+
+    if (session.kind === 'day') {
+        session.status = 'processing';
+        session.error = null;
+        session.job = null;
+        enqueueProcessingJob(sessionId);
+        return res.json({ sessionId, status: 'processing' });
+    }
+
+    const resumeStage = getResumeStage(session.checkpoints);
+    session.status = 'processing';
+    session.error = null;
+    session.completedAt = null;
+    session.startedAt = Date.now();
+    session.job = null;  // manual retries get a fresh attempt budget
+    console.log(`[Retry] Session ${sessionId} re-enqueued, resuming from "${resumeStage}"`);
+    enqueueProcessingJob(sessionId);
+    res.json({ sessionId, status: 'processing', resumeStage });
+});
+
+app.post('/api/session/:id/cancel', async (req, res) => {
+    const sessionId = req.params.id;
+    let session = sessions[sessionId];
+    if (!session) {
+        session = await getSessionFromFirestore(sessionId);
+        if (session) sessions[sessionId] = session;
+    }
+    if (!session) return res.status(404).json({ error: 'Session not found' });
+
+    const local = { queued: processingQueue.includes(sessionId), running: processingAbortControllers.has(sessionId) };
+    if (session.status === 'processing' && !local.queued && !local.running) {
+        // Not running here. The cached copy may be stale, so decide on the stored lease.
+        const stored = await getSessionFromFirestore(sessionId);
+        if (stored) {
+            sessions[sessionId] = stored;
+            session = stored;
+        }
+    }
+    const step = planCancel(session, local, useSessionFirestore, instanceId, Date.now());
+    if (step === 'reject') {
+        return res.status(409).json({ error: `Cannot cancel a session with status '${session.status}'` });
+    }
+    session.cancelRequestedAt = Date.now();
+
+    if (step === 'dequeue') {
+        processingQueue.splice(processingQueue.indexOf(sessionId), 1);
+        markSessionCancelled(sessionId);
+        return res.json({ sessionId, status: 'cancelled' });
+    }
+    if (step === 'abort') {
+        // processVideo unwinds at the next stage boundary and marks the session cancelled.
+        processingAbortControllers.get(sessionId)!.abort();
+        persistSession(sessionId);
+        console.log(`[Cancel] Cancellation requested for ${sessionId}`);
+        return res.status(202).json({ sessionId, status: 'cancelling' });
+    }
+    if (step === 'flag') {
+        // Only flag the request: a full write of this copy would clobber the owner's progress.
+        try {
+            await firestoreClient!.collection(sessionCollectionName).doc(sessionId)
+                .set({ cancelRequestedAt: session.cancelRequestedAt }, { merge: true });
+        } catch (error) {
+            console.error(`[Cancel] Failed to flag ${sessionId} for cancellation:`, error);
+            return res.status(503).json({ error: 'Could not reach the session store, try again' });
+        }
+        console.log(`[Cancel] Cancellation requested for ${sessionId}, owned by ${session.job.owner}`);
+        return res.status(202).json({ sessionId, status: 'cancelling' });
+    }
+    markSessionCancelled(sessionId);
+    res.json({ sessionId, status: 'cancelled' });
+});
+
+app.delete('/api/session/:id', async (req, res) => {
+    const sessionId = req.params.id;
+    let session = sessions[sessionId];
+
+    if (!session) {
+        session = await getSessionFromFirestore(sessionId);
+        if (session) {
+            sessions[sessionId] = session;
+        }
+    }
+
+    if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+    }
+
+    if (session.isSample) {
+        return res.status(403).json({ error: 'Cannot delete sample sessions' });
+    }
+
+    try {
+        // GCS cleanup
+        if (storageClient && storageBucketName) {
+            const bucket = storageClient.bucket(storageBucketName);
+
+            // Delete original video object
+            if (session.objectPath) {
+                try {
+                    await bucket.file(session.objectPath).delete({ ignoreNotFound: true });
+                } catch (e) {
+                    console.warn(`Failed to delete original object ${session.objectPath}:`, e);
+                }
+            }
+
+            // Delete all generated files (highlight, cover, frames) under the session prefix
+            try {
+                await bucket.deleteFiles({ prefix: `${generatedObjectPrefix}/${sessionId}/`, force: true });
+            } catch (e) {
+                console.warn(`Failed to delete generated files for session ${sessionId}:`, e);
+            }
+        }
+
+        // Local file cleanup
+        const safeDelete = (filePath: string | undefined | null) => {
+            if (!filePath || typeof filePath !== 'string') return;
+            if (!path.isAbsolute(filePath)) return;
+            const resolved = path.resolve(filePath);
+            if (!resolved.startsWith(path.resolve(config.uploadDir))) return;
+            try {
+                if (fs.existsSync(resolved)) fs.unlinkSync(resolved);
+            } catch (e) {
+                console.warn(`Failed to delete local file ${resolved}:`, e);
+            }
+        };
+        safeDelete(session.path);
+        safeDelete(session.highlightPath);
+        getHighlightVariantPaths(session).forEach(safeDelete);
+        safeDelete(session.coverPath);
+        safeDelete(session.proxyPath);
+        Object.values((session.momentClips || {}) as Record<string, StoredMomentClip>).forEach(clip => safeDelete(clip?.path));
+        getHlsLadderDirs(session).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+
+        // Remove discovery post for this session
+        const postIdx = discoveryPosts.findIndex((p: any) => p.sessionId === sessionId);
+        if (postIdx !== -1) {
+            discoveryPosts.splice(postIdx, 1);
+            saveDiscoveryPosts();
+        }
+
+        // Remove comments for this session
+        if (allComments[sessionId]) {
+            delete allComments[sessionId];
+            saveComments();
+        }
+
+        // Firestore cleanup
+        if (useSessionFirestore && firestoreClient) {
+            try {
+                await deleteSessionSidecars(sessionId);
+                await firestoreClient.collection(sessionCollectionName).doc(sessionId).delete();
+            } catch (e) {
+                console.warn(`Failed to delete Firestore document for session ${sessionId}:`, e);
+            }
+        }
+
+        // Remove from in-memory sessions and persist
+        delete sessions[sessionId];
+        saveSessions();
+
+        console.log(`Session ${sessionId} deleted successfully`);
+        res.json({ success: true });
+    } catch (error: any) {
+        console.error(`Failed to delete session ${sessionId}:`, error);
+        res.status(500).json({ error: 'Failed to delete session' });
+    }
+});
+
+app.get('/api/pet-names', (req, res) => {
+    const names = [...new Set(
         Object.values(sessions)
             .map((s: any) => s.petName)
             .filter((n: any) => n && typeof n === 'string' && n.trim() !== '')
@@ -1631,750 +2596,767 @@ app.post('/api/comments/:sessionId', (req, res) => {
     res.json({ success: true, comment: newComment });
 });
 
-function timeToSeconds(timeStr: string): number {
-    if (!timeStr) return 0;
-    const parts = timeStr.split(':').map(Number);
-    if (parts.length === 2) return parts[0] * 60 + parts[1];
-    return parts[0]; // Just seconds
-}
-
-function secondsToTime(totalSeconds: number): string {
-    const m = Math.floor(totalSeconds / 60);
-    const s = Math.floor(totalSeconds % 60);
-    return `${m}:${s.toString().padStart(2, '0')}`;
-}
-
-function inferVideoDurationFromAnalysis(analysis: any): number {
-    const values: number[] = [];
-    const add = (value: any) => {
-        if (typeof value !== 'string' || !value.trim()) return;
-        const sec = timeToSeconds(value);
-        if (Number.isFinite(sec) && sec > 0) values.push(sec);
-    };
+// Session Migration: Map timestamps for any existing ready sessions that haven't been mapped yet
+async function migrateSessions() {
+    let migratedCount = 0;
+    for (const id in sessions) {
+        const session = sessions[id];
+        if (session.status === 'ready' && session.analysis) {
+            // Retroactive originalDuration
+            if (!session.originalDuration && session.path && fs.existsSync(session.path)) {
+                session.originalDuration = await getVideoDuration(session.path);
+                migratedCount++;
+            }
 
-    for (const item of analysis?.narrativeSegments || []) add(item?.timestamp);
-    for (const item of analysis?.moodData || []) add(item?.name);
-    for (const item of analysis?.scenery || []) add(item?.timestamp);
-    for (const item of analysis?.friends || []) {
-        add(item?.timestamp);
-        add(item?.best_photo_timestamp);
-        for (const ts of item?.timestamps || []) add(ts?.time);
-    }
-    for (const item of analysis?.timeline || []) add(item?.time);
-    for (const item of analysis?.highlightTimestamps || []) {
-        add(item?.start);
-        add(item?.end);
-    }
-    for (const item of analysis?.safetyAlerts || []) add(item?.timestamp);
-    for (const item of analysis?.dietaryHabits || []) add(item?.timestamp);
-    add(analysis?.coverTimestamp);
-
-    const max = Math.max(0, ...values);
-    return max > 1 ? Math.ceil(max + 5) : 0;
-}
-
-function sanitizeHighlightTimestamps<T extends Record<string, any>>(highlights: T[] | undefined, videoDuration: number): T[] {
-    if (!Array.isArray(highlights)) return [];
-    const hasDuration = Number.isFinite(videoDuration) && videoDuration > 1;
-    const cleaned: T[] = [];
-
-    for (const clip of highlights) {
-        const rawStart = timeToSeconds(String(clip?.start || ''));
-        const rawEnd = timeToSeconds(String(clip?.end || ''));
-        if (!Number.isFinite(rawStart) || !Number.isFinite(rawEnd)) continue;
-        if (rawStart < 0 || rawEnd <= rawStart) continue;
-
-        const start = hasDuration ? clamp(rawStart, 0, videoDuration) : rawStart;
-        const end = hasDuration ? clamp(rawEnd, 0, videoDuration) : rawEnd;
-        if (end - start < 1) continue;
-
-        cleaned.push({
-            ...clip,
-            start: secondsToTime(start),
-            end: secondsToTime(end),
-        });
-    }
+            const highlights = session.analysis.highlightTimestamps || [];
+            if (highlights.length === 0) continue;
 
-    return cleaned.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
-}
+            // For friends/scenery, don't filter - they should remain in analysis data
+            // Just map those that can be mapped
+            const mapArrayNoFilter = (arr: any[], timeField: string) => {
+                arr?.forEach(item => {
+                    if (item && typeof item === 'object' && item[timeField] && !item.isMapped) {
+                        const mappedTime = mapToHighlightTime(item[timeField], highlights);
+                        if (mappedTime !== null) {
+                            item[timeField] = mappedTime;
+                            item.isMapped = true;
+                            migratedCount++;
+                        }
+                    }
+                });
+            };
 
-const ALLOWED_TIMELINE_ICONS = new Set([
-    'visibility', 'pets', 'directions_walk', 'directions_run', 'favorite', 'explore', 'speed',
-    'park', 'home', 'restaurant', 'bolt', 'terrain', 'forest', 'brush', 'groups', 'stairs',
-    'waves', 'search', 'wb_sunny', 'nightlight_round', 'sports_score', 'trending_up',
-    'trending_down', 'straighten', 'room', 'auto_fix_high', 'grass', 'meeting_room', 'roofing',
-    'south', 'error', 'timeline'
-]);
+            mapArrayNoFilter(session.analysis.friends, 'timestamp');
+            mapArrayNoFilter(session.analysis.scenery, 'timestamp');
 
-function clamp(value: number, min: number, max: number): number {
-    return Math.min(max, Math.max(min, value));
-}
+            // Keep original timeline/moodData intact; store highlight-only mapped copies.
+            if (!session.analysis.timelineHighlight) {
+                session.analysis.timelineHighlight = mapAndFilterForHighlight(
+                    session.analysis.timeline,
+                    'time',
+                    'originalTime',
+                    highlights
+                );
+                migratedCount += session.analysis.timelineHighlight.length;
+            }
+            if (!session.analysis.moodDataHighlight) {
+                session.analysis.moodDataHighlight = mapAndFilterForHighlight(
+                    session.analysis.moodData,
+                    'name',
+                    'originalTime',
+                    highlights
+                );
+                migratedCount += session.analysis.moodDataHighlight.length;
+            }
 
-function pickEvenIndices(length: number, target: number): number[] {
-    if (target <= 0 || length <= 0) return [];
-    if (target >= length) return Array.from({ length }, (_, i) => i);
+            // For narrativeSegments - keep ALL but mark with inHighlight flag
+            // This allows original video to show all subtitles, highlight video to show only matching ones
+            if (session.analysis.narrativeSegments) {
+                session.analysis.narrativeSegments = session.analysis.narrativeSegments.map((seg: any) => {
+                    if (seg.isMapped) return seg;  // Already migrated
 
-    const indices = new Set<number>([0, length - 1]);
-    for (let i = 1; i < target - 1; i++) {
-        const idx = Math.round((i * (length - 1)) / (target - 1));
-        indices.add(idx);
-    }
+                    const mappedTime = mapToHighlightTime(seg.timestamp, highlights);
+                    const inHighlight = mappedTime !== null;
+                    migratedCount++;
 
-    let result = Array.from(indices).sort((a, b) => a - b);
-    let cursor = 0;
-    while (result.length < target) {
-        if (!indices.has(cursor)) {
-            indices.add(cursor);
-            result.push(cursor);
+                    return {
+                        ...seg,
+                        originalTime: seg.timestamp,
+                        timestamp: mappedTime || seg.timestamp,
+                        inHighlight: inHighlight,
+                        isMapped: true
+                    };
+                });
+            }
         }
-        cursor++;
     }
-
-    result.sort((a, b) => a - b);
-    return result.slice(0, target);
-}
-
-function interpolateMoodValue(points: { sec: number; value: number }[], targetSec: number): number {
-    if (points.length === 0) return 50;
-    if (points.length === 1) return points[0].value;
-    if (targetSec <= points[0].sec) return points[0].value;
-
-    for (let i = 1; i < points.length; i++) {
-        const right = points[i];
-        const left = points[i - 1];
-        if (targetSec <= right.sec) {
-            const span = right.sec - left.sec;
-            if (span <= 0) return right.value;
-            const ratio = (targetSec - left.sec) / span;
-            return left.value + (right.value - left.value) * ratio;
-        }
+    if (migratedCount > 0) {
+        console.log(`Migrated ${migratedCount} sessions/timestamps in existing sessions.`);
+        saveSessions();
     }
-    return points[points.length - 1].value;
 }
 
-function normalizeMoodData(
-    moodData: { name: string; value: number }[] | undefined,
-    videoDuration: number
-): { name: string; value: number }[] {
-    const safeDuration = Math.max(1, Math.round(videoDuration));
-    const cleaned = (moodData || [])
-        .map(item => {
-            const sec = clamp(Math.round(timeToSeconds(item?.name || '0:00')), 0, safeDuration);
-            const value = clamp(Math.round(Number(item?.value ?? 50)), 0, 100);
-            return { sec, value };
-        })
-        .filter(item => Number.isFinite(item.sec) && Number.isFinite(item.value))
-        .sort((a, b) => a.sec - b.sec);
-
-    // Deduplicate same-second points (keep the latest value to avoid flat duplicates)
-    const deduped = new Map<number, number>();
-    for (const point of cleaned) deduped.set(point.sec, point.value);
-    let points = Array.from(deduped.entries())
-        .map(([sec, value]) => ({ sec, value }))
-        .sort((a, b) => a.sec - b.sec);
-
-    if (points.length === 0) {
-        points = [{ sec: 0, value: 50 }, { sec: safeDuration, value: 50 }];
-    } else {
-        if (points[0].sec > 0) {
-            points.unshift({ sec: 0, value: points[0].value });
-        } else {
-            points[0].sec = 0;
-        }
-        if (points[points.length - 1].sec < safeDuration) {
-            points.push({ sec: safeDuration, value: points[points.length - 1].value });
-        } else {
-            points[points.length - 1].sec = safeDuration;
-        }
-    }
+// ---------- Session Progress Events ----------
+// Published with emitSessionEvent and relayed by GET /api/session/:id/events
+// (see processor/sessionEvents.ts).
 
-    const targetCount = clamp(Math.round(safeDuration / 12), 20, 30);
-    const result: { name: string; value: number }[] = [];
-    for (let i = 0; i < targetCount; i++) {
-        const sec = i === targetCount - 1 ? safeDuration : Math.round((i * safeDuration) / (targetCount - 1));
-        const value = clamp(Math.round(interpolateMoodValue(points, sec)), 0, 100);
-        result.push({ name: secondsToTime(sec), value });
-    }
-
-    return result;
+function buildSessionStatusPayload(session: any) {
+    return {
+        sessionId: session.id,
+        status: session.status,
+        progress: session.progress || null,
+        stageTimes: session.stageTimes || [],
+        error: session.error || null,
+        processingTime: session.processingTime ?? null
+    };
 }
 
-function timelineLabelFromMood(value: number): { label: string; icon: string } {
-    if (value >= 85) return { label: 'Zoomies Peak', icon: 'speed' };
-    if (value >= 70) return { label: 'Play Burst', icon: 'directions_run' };
-    if (value >= 55) return { label: 'Curious Patrol', icon: 'explore' };
-    if (value >= 40) return { label: 'Steady Cruise', icon: 'directions_walk' };
-    return { label: 'Quiet Reset', icon: 'home' };
+function emitSessionStatus(sessionId: string) {
+    const session = sessions[sessionId];
+    if (session) emitSessionEvent(sessionId, 'status', buildSessionStatusPayload(session));
 }
 
-function normalizeTimeline(
-    timeline: { time: string; label: string; icon: string }[] | undefined,
-    moodData: { name: string; value: number }[],
-    videoDuration: number
-): { time: string; label: string; icon: string }[] {
-    const safeDuration = Math.max(1, Math.round(videoDuration));
-    const targetCount = clamp(Math.round(safeDuration / 24), 15, 20);
+// ---------- Content Cache (upload fingerprint dedupe) ----------
+// Sessions are fingerprinted by content (md5 + size, which GCS also reports for uploaded
+// objects). A new session whose content already reached 'ready' is cloned instead of
+// reprocessed; one whose content only has a raw Gemini result reuses it as a checkpoint.
+// Only the same owner's ready sessions are cloned (see processor/contentCache.ts).
+// Ownership, pet name and the uploaded original always stay with the new session.
 
-    const normalized = (timeline || [])
-        .map(item => {
-            const sec = clamp(Math.round(timeToSeconds(item?.time || '0:00')), 0, safeDuration);
-            const label = (item?.label || '').trim() || 'Story Beat';
-            const icon = ALLOWED_TIMELINE_ICONS.has(item?.icon) ? item.icon : 'timeline';
-            return { sec, label, icon };
-        })
-        .filter(item => Number.isFinite(item.sec))
-        .sort((a, b) => a.sec - b.sec);
-
-    const dedupedMap = new Map<number, { sec: number; label: string; icon: string }>();
-    for (const entry of normalized) dedupedMap.set(entry.sec, entry);
-    let entries = Array.from(dedupedMap.values()).sort((a, b) => a.sec - b.sec);
-
-    if (entries.length > 20) {
-        entries = pickEvenIndices(entries.length, 20).map(i => entries[i]);
-    }
+function buildContentHash(md5Hex: string, size: number) {
+    return `${md5Hex}-${size}`;
+}
 
-    const secExistsNearby = (sec: number, threshold: number = 12) =>
-        entries.some(e => Math.abs(e.sec - sec) <= threshold);
+async function computeFileContentHash(filePath: string): Promise<string> {
+    const md5Hex = await new Promise<string>((resolve, reject) => {
+        const digest = crypto.createHash('md5');
+        fs.createReadStream(filePath)
+            .on('data', (chunk) => digest.update(chunk))
+            .on('end', () => resolve(digest.digest('hex')))
+            .on('error', reject);
+    });
+    return buildContentHash(md5Hex, fs.statSync(filePath).size);
+}
 
-    // Backfill from mood signal if AI timeline is too sparse.
-    if (entries.length < 15) {
-        const moodCandidates = moodData
-            .map(point => ({ sec: timeToSeconds(point.name), value: point.value }))
-            .sort((a, b) => {
-                const interestA = Math.abs(a.value - 50);
-                const interestB = Math.abs(b.value - 50);
-                return interestB - interestA;
-            });
+function getObjectContentHash(metadata: any): string | null {
+    // Composite objects (parallel chunk uploads) have no md5Hash; processVideo fingerprints
+    // their downloaded copy instead, so they only match once a job has started.
+    if (!metadata?.md5Hash) return null;
+    return buildContentHash(Buffer.from(metadata.md5Hash, 'base64').toString('hex'), Number(metadata.size || 0));
+}
 
-        for (const candidate of moodCandidates) {
-            if (entries.length >= targetCount) break;
-            if (!Number.isFinite(candidate.sec) || candidate.sec < 0 || candidate.sec > safeDuration) continue;
-            if (secExistsNearby(candidate.sec)) continue;
-            const moodTag = timelineLabelFromMood(candidate.value);
-            entries.push({
-                sec: candidate.sec,
-                label: moodTag.label,
-                icon: moodTag.icon
-            });
-        }
+async function fingerprintSession(sessionId: string, compute: () => Promise<string | null>) {
+    try {
+        const contentHash = await compute();
+        if (contentHash && sessions[sessionId]) sessions[sessionId].contentHash = contentHash;
+    } catch (error) {
+        console.warn(`[Content Cache] Failed to fingerprint ${sessionId}:`, (error as Error).message);
     }
+}
 
-    // Final filler to satisfy strict 15-20 requirement.
-    let fillerIndex = 1;
-    let fillerAttempts = 0;
-    while (entries.length < 15 && fillerAttempts < 300) {
-        fillerAttempts++;
-        const sec = Math.round((fillerIndex * safeDuration) / 15);
-        fillerIndex++;
-        if (secExistsNearby(sec, 8)) continue;
-        entries.push({
-            sec,
-            label: `Story Beat ${entries.length + 1}`,
-            icon: 'timeline'
-        });
-    }
+// Friend, scenery and dietary crops kept on local disk are referenced only by their
+// /uploads URL (GCS-backed ones carry imageObjectPath instead).
+function getLocalFrameItems(analysis: any): any[] {
+    return [...(analysis?.friends || []), ...(analysis?.scenery || []), ...(analysis?.dietaryHabits || [])]
+        .filter((item: any) => item && !item.imageObjectPath && typeof item.url === 'string');
+}
 
-    // Ultra-short/edge-case fallback: allow dense placeholders if needed.
-    while (entries.length < 15) {
-        const sec = clamp(entries.length - 1, 0, safeDuration);
-        entries.push({
-            sec,
-            label: `Story Beat ${entries.length + 1}`,
-            icon: 'timeline'
-        });
-    }
+function getLocalFramePath(url: string | null | undefined): string | null {
+    const prefix = `${publicBaseUrl}/uploads/`;
+    if (!url || !url.startsWith(prefix)) return null;
+    return path.join(config.uploadDir, path.basename(url.slice(prefix.length)));
+}
 
-    entries.sort((a, b) => a.sec - b.sec);
-    if (entries.length > 20) {
-        entries = pickEvenIndices(entries.length, 20).map(i => entries[i]);
-    }
-
-    return entries.map(item => ({
-        time: secondsToTime(item.sec),
-        label: item.label,
-        icon: item.icon
-    }));
-}
-
-function mapAndFilterForHighlight<T extends Record<string, any>>(
-    arr: T[] | undefined,
-    timeField: keyof T & string,
-    originalField: string,
-    highlights: { start: string; end: string }[]
-): T[] {
-    if (!arr || !Array.isArray(arr) || highlights.length === 0) return [];
-    const mapped: T[] = [];
-    for (const item of arr) {
-        if (!item || typeof item !== 'object' || !item[timeField]) continue;
-        const sourceTime = item[originalField] || item[timeField];
-        const mappedTime = mapToHighlightTime(sourceTime, highlights);
-        if (mappedTime === null) continue;
-        mapped.push({
-            ...item,
-            [originalField]: sourceTime,
-            [timeField]: mappedTime,
-            isMapped: true
-        });
-    }
-    return mapped;
+// Reads a friend avatar crop back by the URL stored on the analysis: a file in the
+// upload dir, or a frame asset in Cloud Storage. Used for visual re-identification.
+async function readFrameAssetImage(url: string): Promise<Buffer | null> {
+    const localPath = getLocalFramePath(url);
+    if (localPath) return fs.existsSync(localPath) ? fs.promises.readFile(localPath) : null;
+    const match = url.startsWith(`${publicBaseUrl}/api/session-asset/`)
+        ? url.slice(publicBaseUrl.length).match(/^\/api\/session-asset\/([^/]+)\/frame\/([^/?#]+)/)
+        : null;
+    if (!match || !storageClient || !storageBucketName) return null;
+    const safeSession = sanitizeObjectPathPart(decodeURIComponent(match[1]), 'session');
+    const safeFilename = sanitizeObjectPathPart(decodeURIComponent(match[2]), 'frame.jpg');
+    const file = storageClient.bucket(storageBucketName).file(`${generatedObjectPrefix}/${safeSession}/frames/${safeFilename}`);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+    const [contents] = await file.download();
+    return contents;
 }
+setFriendImageLoader(readFrameAssetImage);
 
-// Helper function to get source priority for merging decisions
-function getSourcePriority(source?: string): number {
-    switch (source) {
-        case 'safety': return 100;
-        case 'friend+scenery': return 95;  // Combo: friend + scenery
-        case 'friend': return 80;
-        case 'food': return 60;
-        case 'scenery': return 40;
-        default: return 10;  // AI generated
+// Hard link where possible so deleting either session leaves the other's file intact.
+function linkOrCopyFile(sourcePath: string, targetPath: string) {
+    if (fs.existsSync(targetPath)) fs.unlinkSync(targetPath);
+    try {
+        fs.linkSync(sourcePath, targetPath);
+    } catch {
+        fs.copyFileSync(sourcePath, targetPath);
     }
 }
 
-function mergeOverlappingSegments(segments: any[]): any[] {
-    if (segments.length <= 1) return segments;
-
-    const merged: any[] = [];
-    let current = { ...segments[0] };  // Preserve all fields
+async function cloneSessionFromContentCache(sessionId: string): Promise<boolean> {
+    const session = sessions[sessionId];
+    const source = findFinishedTwin(findContentSources(Object.values(sessions), session), session);
+    if (!session || !source) return false;
 
-    for (let i = 1; i < segments.length; i++) {
-        const next = segments[i];
-        const currentEnd = timeToSeconds(current.end);
-        const nextStart = timeToSeconds(next.start);
+    const cloneStart = Date.now();
+    try {
+        let analysis = cloneJson(source.analysis);
+        let highlightObjectPath: string | null = null;
+        let coverObjectPath: string | null = null;
+        let highlightPath: string | null = null;
+        let coverPath: string | null = null;
+        let highlightVariants: HighlightVariantAssets | null = null;
+        let hls: Partial<Record<HlsKind, HlsLadder>> | null = null;
 
-        // If segments overlap or are adjacent (within 2 seconds), merge them
-        if (nextStart <= currentEnd + 2) {
-            const nextEnd = timeToSeconds(next.end);
-            if (nextEnd > currentEnd) {
-                current.end = next.end;
+        if (storageClient && storageBucketName && (source.highlightObjectPath || source.coverObjectPath)) {
+            // Generated assets live under a per-session prefix, so copy them and rewrite the paths.
+            const bucket = storageClient.bucket(storageBucketName);
+            const sourcePrefix = `${generatedObjectPrefix}/${sanitizeObjectPathPart(source.id, 'session')}/`;
+            const targetPrefix = `${generatedObjectPrefix}/${sanitizeObjectPathPart(sessionId, 'session')}/`;
+            const [files] = await bucket.getFiles({ prefix: sourcePrefix });
+            await runWithConcurrencyLimit(files, 8, async (file) => {
+                await file.copy(bucket.file(`${targetPrefix}${file.name.slice(sourcePrefix.length)}`));
+            });
+            const retarget = (objectPath: string | null | undefined) =>
+                objectPath ? objectPath.replace(sourcePrefix, targetPrefix) : null;
+            highlightObjectPath = retarget(source.highlightObjectPath);
+            coverObjectPath = retarget(source.coverObjectPath);
+            if (source.highlightVariants) {
+                highlightVariants = Object.fromEntries(Object.entries(source.highlightVariants as HighlightVariantAssets)
+                    .map(([variant, asset]) => [variant, { path: null, objectPath: retarget(asset?.objectPath) }]));
             }
-
-            // Detect friend + scenery combination (highest value content)
-            const sources = [current.source, next.source].filter(Boolean);
-            const hasFriend = sources.includes('friend') || sources.includes('friend+scenery');
-            const hasScenery = sources.includes('scenery') || sources.includes('friend+scenery');
-
-            if (hasFriend && hasScenery) {
-                // This is a friend + scenery combo - mark it as highest priority
-                current.source = 'friend+scenery';
-                current.friendName = current.friendName || next.friendName;
-                current.isHighQuality = current.isHighQuality || next.isHighQuality;
-                console.log(`[Merge] Detected friend+scenery combo: ${current.start}-${current.end}`);
-            } else if (getSourcePriority(next.source) > getSourcePriority(current.source)) {
-                // When merging, keep the higher priority source
-                current.source = next.source;
-                current.friendName = next.friendName || current.friendName;
+            // Published ladders were copied with the rest of the prefix; they are re-keyed to
+            // this session's ladder ids but keep serving from the copied objects.
+            for (const kind of ['original', 'highlight'] as HlsKind[]) {
+                const ladder = getReadyHlsLadder(source, kind);
+                if (!ladder?.objectPrefix) continue;
+                hls = { ...hls, [kind]: { ...ladder, id: getHlsLadderId(session, kind), dir: null, objectPrefix: retarget(ladder.objectPrefix) } };
             }
-
-            // Preserve high quality flag and keep the higher score
-            current.isHighQuality = current.isHighQuality || next.isHighQuality;
-            current.score = Math.max(current.score || 0, next.score || 0);
+            analysis = JSON.parse(JSON.stringify(analysis).split(sourcePrefix).join(targetPrefix));
         } else {
-            merged.push(current);
-            current = { ...next };  // Preserve all fields
-        }
-    }
-    merged.push(current);
-
-    return merged;
-}
-
-function ensureFriendsInHighlights(
-    friends: any[],
-    highlightTimestamps: any[],
-    videoDuration: number,
-    bufferSeconds: number = 3
-): any[] {
-    if (!friends || friends.length === 0) return highlightTimestamps;
-
-    let segments = highlightTimestamps.map(s => ({ ...s }));  // Preserve all fields
-
-    for (const friend of friends) {
-        // Get all timestamps for this friend (from timestamps array or fallback to single timestamp)
-        const allTimestamps: { time: string; duration?: number }[] = friend.timestamps?.length > 0
-            ? friend.timestamps
-            : friend.timestamp ? [{ time: friend.timestamp, duration: friend.duration }] : [];
-
-        for (const ts of allTimestamps) {
-            const friendTime = timeToSeconds(ts.time);
-            const friendDuration = ts.duration || friend.duration || 5;
-
-            // Check if this timestamp is within any existing segment
-            const isIncluded = segments.some(seg => {
-                const segStart = timeToSeconds(seg.start);
-                const segEnd = timeToSeconds(seg.end);
-                return friendTime >= segStart && friendTime <= segEnd;
-            });
-
-            if (!isIncluded) {
-                // Create a new segment for this friend encounter
-                const newSegStart = Math.max(0, friendTime - bufferSeconds);
-                const newSegEnd = Math.min(videoDuration, friendTime + Math.max(friendDuration, bufferSeconds));
-
-                segments.push({
-                    start: secondsToTime(newSegStart),
-                    end: secondsToTime(newSegEnd),
-                    source: 'friend',
-                    friendName: friend.name,
-                    isHighQuality: false
-                });
-
-                console.log(`[Friend Inclusion] Added segment ${secondsToTime(newSegStart)}-${secondsToTime(newSegEnd)} for friend "${friend.name}" at ${ts.time}`);
+            ensureDirExists(config.uploadDir);
+            if (source.highlightPath && fs.existsSync(source.highlightPath)) {
+                highlightPath = path.join(config.uploadDir, `${sessionId}-highlights${path.extname(source.highlightPath)}`);
+                linkOrCopyFile(source.highlightPath, highlightPath);
+                for (const [variant, asset] of Object.entries((source.highlightVariants || {}) as HighlightVariantAssets)) {
+                    if (!asset?.path || !fs.existsSync(asset.path)) continue;
+                    const variantPath = getReframedVariantPath(highlightPath, variant as ReframeVariant);
+                    linkOrCopyFile(asset.path, variantPath);
+                    highlightVariants = { ...highlightVariants, [variant]: { path: variantPath, objectPath: null } };
+                }
             }
-        }
-    }
-
-    // Sort by start time
-    segments.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
-
-    // Merge overlapping segments
-    return mergeOverlappingSegments(segments);
-}
-
-function ensureSceneryInHighlights(
-    scenery: any[],
-    highlightTimestamps: any[],
-    videoDuration: number,
-    bufferSeconds: number = 2
-): any[] {
-    if (!scenery || scenery.length === 0) return highlightTimestamps;
-
-    let segments = highlightTimestamps.map(s => ({ ...s }));  // Preserve all fields
-
-    // Only ensure coverage for scenery with stayDuration >= 3s
-    const significantScenery = scenery.filter(s => s.stayDuration >= 3 && s.timestamp);
-
-    // Identify high-quality scenery (stayDuration >= 5s)
-    const highQualitySceneryTimes = scenery
-        .filter(s => s.stayDuration >= 5 && s.timestamp)
-        .map(s => timeToSeconds(s.timestamp));
-
-    for (const scene of significantScenery) {
-        const sceneTime = timeToSeconds(scene.timestamp);
-        const sceneDuration = scene.stayDuration || 5;
-        const isHighQuality = sceneDuration >= 5;
-
-        // Check if this timestamp is within any existing segment
-        const existingSegmentIndex = segments.findIndex(seg => {
-            const segStart = timeToSeconds(seg.start);
-            const segEnd = timeToSeconds(seg.end);
-            return sceneTime >= segStart && sceneTime <= segEnd;
-        });
-
-        if (existingSegmentIndex >= 0) {
-            // Mark existing segment as covering scenery (for friend+scenery detection)
-            const existingSeg = segments[existingSegmentIndex];
-            if (existingSeg.source === 'friend') {
-                // Friend segment contains scenery → upgrade to friend+scenery combo (priority 95)
-                existingSeg.source = 'friend+scenery';
-                console.log(`[Scenery] Upgraded segment ${existingSeg.start}-${existingSeg.end} to friend+scenery combo`);
-            } else if (!existingSeg.source || existingSeg.source === 'ai') {
-                existingSeg.source = 'scenery';
+            if (source.coverPath && fs.existsSync(source.coverPath)) {
+                coverPath = path.join(config.uploadDir, `${sessionId}-cover${path.extname(source.coverPath)}`);
+                linkOrCopyFile(source.coverPath, coverPath);
             }
-            // Mark as high quality if this is a high-quality scenery moment
-            if (isHighQuality) {
-                existingSeg.isHighQuality = true;
-                console.log(`[Scenery] Marked existing segment ${existingSeg.start}-${existingSeg.end} as high-quality scenery`);
+            for (const item of getLocalFrameItems(analysis)) {
+                const framePath = getLocalFramePath(item.url);
+                if (!framePath || !fs.existsSync(framePath)) continue;
+                const clonedFramePath = path.join(config.uploadDir, `${sessionId}-${path.basename(framePath)}`);
+                linkOrCopyFile(framePath, clonedFramePath);
+                item.url = getFileUrl(clonedFramePath);
             }
-        } else {
-            // Create a new segment for this scenery
-            const clipDuration = Math.min(sceneDuration, 5);
-            const newSegStart = Math.max(0, sceneTime - bufferSeconds);
-            const newSegEnd = Math.min(videoDuration, sceneTime + clipDuration);
-
-            // Detect nearby friend segments (gap <= 10s)
-            // Threshold note: current case has 7s gap, 10s provides margin.
-            // False-boost risk is low: only affects stayDuration>=3 scenery, each clip is 3-5s budget.
-            const hasNearbyFriend = segments.some(seg => {
-                if (seg.source !== 'friend' && seg.source !== 'friend+scenery') return false;
-                const segStart = timeToSeconds(seg.start);
-                const segEnd = timeToSeconds(seg.end);
-                const gapAfter = segStart - newSegEnd;
-                const gapBefore = newSegStart - segEnd;
-                return (gapAfter >= 0 && gapAfter <= 10) || (gapBefore >= 0 && gapBefore <= 10);
-            });
+        }
 
-            segments.push({
-                start: secondsToTime(newSegStart),
-                end: secondsToTime(newSegEnd),
-                source: 'scenery',
-                isHighQuality: isHighQuality,
-                isNearFriend: hasNearbyFriend
-            });
+        const completedAt = Date.now();
+        const stageTimes: StageTime[] = [{
+            stage: 'Content Cache Clone',
+            duration: (completedAt - cloneStart) / 1000,
+            startedAt: cloneStart,
+            completedAt
+        }];
+        delete session.progress;
+        sessions[sessionId] = {
+            ...session,
+            status: 'ready',
+            error: null,
+            job: null,
+            analysis,
+            highlightSpec: normalizeHighlightSpec(source.highlightSpec),
+            originalDuration: source.originalDuration,
+            highlightPath,
+            highlightObjectPath,
+            highlightUrl: highlightObjectPath ? getSessionHighlightAssetUrl(sessionId) : (highlightPath ? getFileUrl(highlightPath) : null),
+            highlightVariants,
+            highlightError: source.highlightError || null,
+            hls,
+            coverPath,
+            coverObjectPath,
+            coverUrl: coverObjectPath ? getSessionCoverAssetUrl(sessionId) : (coverPath ? getFileUrl(coverPath) : null),
+            videoUrl: session.objectPath ? getSessionOriginalAssetUrl(sessionId) : getFileUrl(session.path),
+            clonedFromSessionId: source.id,
+            completedAt,
+            processingTime: Math.round((completedAt - (session.startedAt || cloneStart)) / 1000),
+            stageTimes,
+            rawAnalysis: getStoredRawAnalysis(source) ? cloneJson(getStoredRawAnalysis(source)) : null,
+            checkpoints: null
+        };
+        await persistSession(sessionId);
+        emitSessionStatus(sessionId);
+        console.log(`[Content Cache] Session ${sessionId} cloned from ${source.id} in ${formatDuration((completedAt - cloneStart) / 1000)}`);
 
-            if (hasNearbyFriend) {
-                console.log(`[Scenery] Near-friend scenery: "${scene.sceneryLabel || scene.description}" at ${secondsToTime(newSegStart)}-${secondsToTime(newSegEnd)} (priority boosted to 85)`);
-            }
-            console.log(`[Scenery Inclusion] Added ${isHighQuality ? 'HIGH-QUALITY ' : ''}segment ${secondsToTime(newSegStart)}-${secondsToTime(newSegEnd)} for "${scene.sceneryLabel || scene.description}" (stayDuration: ${sceneDuration}s)`);
-        }
+        queueSessionPersonaJob(sessionId, analysis, source.originalDuration || inferVideoDurationFromAnalysis(analysis));
+        queueSessionHls(sessionId, ['original', 'highlight']);
+        return true;
+    } catch (error) {
+        console.warn(`[Content Cache] Clone of ${source.id} into ${sessionId} failed, processing normally:`, (error as Error).message);
+        return false;
     }
-
-    segments.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
-    return mergeOverlappingSegments(segments);
 }
 
-function ensureFoodInHighlights(
-    dietaryHabits: any[],
-    highlightTimestamps: any[],
-    videoDuration: number,
-    bufferSeconds: number = 1
-): any[] {
-    if (!dietaryHabits || dietaryHabits.length === 0) return highlightTimestamps;
-
-    let segments = highlightTimestamps.map(s => ({ ...s }));  // Preserve all fields
-
-    for (const habit of dietaryHabits) {
-        if (!habit.timestamp) continue;
-
-        const foodTime = timeToSeconds(habit.timestamp);
-
-        // Check if already covered by existing highlights
-        const isIncluded = segments.some(seg => {
-            const segStart = timeToSeconds(seg.start);
-            const segEnd = timeToSeconds(seg.end);
-            return foodTime >= segStart && foodTime <= segEnd;
-        });
-
-        if (!isIncluded) {
-            // Create a short clip (3-4s) around the food timestamp
-            // Food clips should be brief - just enough to show the eating/drinking
-            const clipDuration = 3;
-            const newSegStart = Math.max(0, foodTime - bufferSeconds);
-            const newSegEnd = Math.min(videoDuration, foodTime + clipDuration);
-
-            segments.push({
-                start: secondsToTime(newSegStart),
-                end: secondsToTime(newSegEnd),
-                source: 'food'
-            });
+// No finished twin, but an earlier attempt may have paid for the Gemini analysis (or the proxy).
+function seedCheckpointsFromContentCache(sessionId: string) {
+    const session = sessions[sessionId];
+    if (!session || session.checkpoints?.analysis) return;
+    const { analysisSource, proxySource } = findCheckpointSources(findContentSources(Object.values(sessions), session));
+    if (!analysisSource && !proxySource) return;
 
-            console.log(`[Food Inclusion] Added segment ${secondsToTime(newSegStart)}-${secondsToTime(newSegEnd)} for "${habit.item}" (${habit.action}) at ${habit.timestamp}`);
+    const checkpoints: ProcessingCheckpoints = { ...(session.checkpoints || {}) };
+    if (analysisSource) {
+        checkpoints.analysis = { result: cloneJson(getStoredRawAnalysis(analysisSource)!), completedAt: Date.now() };
+    }
+    if (proxySource && !checkpoints.proxy) {
+        const sourceProxy = getStoredProxyPath(proxySource)!;
+        const proxyPath = path.join(path.dirname(sourceProxy), `${sessionId}-proxy${path.extname(sourceProxy)}`);
+        try {
+            linkOrCopyFile(sourceProxy, proxyPath);
+            checkpoints.proxy = { path: proxyPath, completedAt: Date.now() };
+        } catch (error) {
+            console.warn(`[Content Cache] Failed to reuse proxy from ${proxySource.id}:`, (error as Error).message);
         }
     }
-
-    segments.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
-    return mergeOverlappingSegments(segments);
+    session.checkpoints = checkpoints;
+    persistSession(sessionId);
+    console.log(`[Content Cache] Session ${sessionId} reusing ${[analysisSource && 'analysis', checkpoints.proxy && 'proxy'].filter(Boolean).join(' + ')} from earlier sessions`);
 }
 
-function ensureSafetyAlertsInHighlights(
-    safetyAlerts: any[],
-    highlightTimestamps: any[],
-    videoDuration: number,
-    bufferSeconds: number = 1
-): any[] {
-    if (!safetyAlerts || safetyAlerts.length === 0) return highlightTimestamps;
-
-    let segments = highlightTimestamps.map(s => ({ ...s }));  // Preserve all fields
-
-    for (const alert of safetyAlerts) {
-        if (!alert.timestamp) continue;
-
-        const alertTime = timeToSeconds(alert.timestamp);
-
-        // Check if already covered by existing highlights
-        const isIncluded = segments.some(seg => {
-            const segStart = timeToSeconds(seg.start);
-            const segEnd = timeToSeconds(seg.end);
-            return alertTime >= segStart && alertTime <= segEnd;
-        });
+// ---------- Processing Job Queue ----------
+// Jobs are tracked on the session record (`session.job`) so they are persisted
+// with the session to sessions.json / Firestore. The in-memory queue only holds
+// ordering. Each job carries a lease (see processor/jobLease.ts) that its instance
+// renews while the job is queued or running; on boot and on a periodic sweep,
+// 'processing' sessions whose lease lapsed are re-enqueued or failed.
+
+type ProcessingJob = Partial<JobLease> & {
+    state: 'queued' | 'running';
+    attempts: number;
+    enqueuedAt: number;
+    startedAt?: number;
+    localPath?: string;
+};
 
-        if (!isIncluded) {
-            // Create a clip around the safety alert timestamp
-            // Danger alerts get longer clips (4-5s) to show context, warnings get shorter (3-4s)
-            const clipDuration = alert.type === 'danger' ? 4 : 3;
-            const newSegStart = Math.max(0, alertTime - bufferSeconds);
-            const newSegEnd = Math.min(videoDuration, alertTime + clipDuration);
-
-            segments.push({
-                start: secondsToTime(newSegStart),
-                end: secondsToTime(newSegEnd),
-                source: 'safety'
-            });
+// Per-stage outputs persisted on `session.checkpoints` so a retried or recovered
+// job resumes from the first incomplete stage instead of re-running Gemini.
+type ProcessingCheckpoints = {
+    proxy?: { path: string; completedAt: number };
+    analysis?: { result: AnalysisResult; completedAt: number };
+    // Per-window results of a chunked analysis, so a retry only re-runs the windows that failed.
+    analysisWindows?: { results: Record<string, AnalysisResult>; completedAt: number };
+    // Detected alongside the video analysis and folded into it once both are done.
+    audio?: { events: AudioEvent[]; completedAt: number };
+    activity?: { activityData: ActivityPoint[]; completedAt: number };
+    highlights?: { analysis: AnalysisResult; completedAt: number };
+    highlightVideo?: {
+        highlightPath: string | null;
+        highlightObjectPath: string | null;
+        highlightUrl: string | null;
+        highlightVariants?: HighlightVariantAssets | null;
+        completedAt: number;
+    };
+    frames?: {
+        friends: AnalysisResult['friends'];
+        scenery: AnalysisResult['scenery'];
+        dietaryHabits: AnalysisResult['dietaryHabits'];
+        coverPath: string | null;
+        coverUrl: string | null;
+        coverObjectPath: string | null;
+        completedAt: number;
+    };
+};
 
-            console.log(`[Safety Inclusion] Added segment ${secondsToTime(newSegStart)}-${secondsToTime(newSegEnd)} for "${alert.type}" alert: "${alert.message}" at ${alert.timestamp}`);
-        }
-    }
+const CHECKPOINT_STAGES: (keyof ProcessingCheckpoints)[] = ['proxy', 'analysis', 'highlights', 'highlightVideo', 'frames'];
 
-    segments.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
-    return mergeOverlappingSegments(segments);
+function getResumeStage(checkpoints: ProcessingCheckpoints | null | undefined): string {
+    return CHECKPOINT_STAGES.find((stage) => !checkpoints?.[stage]) || 'finalize';
 }
 
-function validateFriendCoverage(
-    friends: any[],
-    highlightTimestamps: { start: string; end: string }[]
-): { start: string; end: string }[] {
-    if (!friends || friends.length === 0) return highlightTimestamps;
-
-    let segments = [...highlightTimestamps];
-
-    for (const friend of friends) {
-        // Get all timestamps for this friend (from timestamps array or fallback to single timestamp)
-        const allTimestamps: { time: string; duration?: number }[] = friend.timestamps?.length > 0
-            ? friend.timestamps
-            : friend.timestamp ? [{ time: friend.timestamp, duration: friend.duration }] : [];
+function cloneJson<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
 
-        for (const ts of allTimestamps) {
-            const friendStart = timeToSeconds(ts.time);
-            const friendDuration = ts.duration || 5;
-            const friendEnd = friendStart + friendDuration;
+// The raw Gemini result a finished session keeps for re-plans and content reuse. Sessions
+// finished before it moved off the checkpoints still carry it there.
+const processingQueue: string[] = [];
+const runningProcessingJobs = new Set<string>();
+const processingAbortControllers = new Map<string, AbortController>();
+// Jobs whose lease another instance took over while they were still running here.
+const relinquishedProcessingJobs = new Set<string>();
+const LEASE_LOST = 'lease-lost';
 
-            // Check if friend's full interaction time [friendStart, friendEnd] is covered
-            let covered = false;
-            for (const seg of segments) {
-                const segStart = timeToSeconds(seg.start);
-                const segEnd = timeToSeconds(seg.end);
+function markSessionCancelled(sessionId: string) {
+    const session = sessions[sessionId];
+    if (!session) return;
+    const completedAt = Date.now();
+    session.status = 'cancelled';
+    session.error = null;
+    session.completedAt = completedAt;
+    session.processingTime = session.startedAt ? Math.round((completedAt - session.startedAt) / 1000) : null;
+    session.job = null;
+    session.checkpoints = null;
+    delete session.progress;
+    persistSession(sessionId);
+    emitSessionStatus(sessionId);
+}
 
-                // Check if at least 3 seconds (or full duration if shorter) of the interaction is covered
-                const overlapStart = Math.max(friendStart, segStart);
-                const overlapEnd = Math.min(friendEnd, segEnd);
-                const overlapDuration = overlapEnd - overlapStart;
+function enqueueProcessingJob(sessionId: string, localPath?: string) {
+    const session = sessions[sessionId];
+    if (!session) return;
+    if (processingQueue.includes(sessionId) || runningProcessingJobs.has(sessionId)) return;
+
+    const previous: ProcessingJob | null = session.job || null;
+    relinquishedProcessingJobs.delete(sessionId);
+    session.job = {
+        state: 'queued',
+        attempts: previous?.attempts || 0,
+        enqueuedAt: Date.now(),
+        localPath: localPath || previous?.localPath,
+        ...leaseFor(instanceId, Date.now(), processingLeaseMs),
+    } as ProcessingJob;
+    session.progress = { stage: 'Queued', percent: 0, stageIndex: 0, totalStages: 5 };
+    emitSessionEvent(sessionId, 'progress', session.progress);
+    processingQueue.push(sessionId);
+    persistSession(sessionId);
+    console.log(`[Queue] Enqueued ${sessionId} (pending: ${processingQueue.length}, running: ${runningProcessingJobs.size}/${processingConcurrency})`);
+    pumpProcessingQueue();
+}
 
-                if (overlapDuration >= Math.min(3, friendDuration)) {
-                    covered = true;
-                    break;
+function pumpProcessingQueue() {
+    // A ladder being packaged holds one of the slots (see pumpHlsQueue).
+    while (runningProcessingJobs.size + (hlsWorkerRunning ? 1 : 0) < processingConcurrency && processingQueue.length > 0) {
+        const sessionId = processingQueue.shift()!;
+        const session = sessions[sessionId];
+        if (!session || session.status !== 'processing') continue;
+
+        const job: ProcessingJob = {
+            ...(session.job || { enqueuedAt: Date.now() }),
+            state: 'running',
+            attempts: (session.job?.attempts || 0) + 1,
+            startedAt: Date.now(),
+            ...leaseFor(instanceId, Date.now(), processingLeaseMs),
+        };
+        session.job = job;
+        runningProcessingJobs.add(sessionId);
+        persistSession(sessionId);
+        console.log(`[Queue] Starting ${sessionId} (attempt ${job.attempts}/${processingMaxAttempts})`);
+
+        const controller = new AbortController();
+        processingAbortControllers.set(sessionId, controller);
+        const run = session.kind === 'day'
+            ? () => buildPetDay(sessionId, controller.signal)
+            : () => processVideo(sessionId, job.localPath, controller.signal);
+        withMediaAbortSignal(controller.signal, run)
+            .catch(console.error)
+            .finally(() => {
+                runningProcessingJobs.delete(sessionId);
+                processingAbortControllers.delete(sessionId);
+                if (sessions[sessionId] && !relinquishedProcessingJobs.has(sessionId)) {
+                    // null (not delete) so the Firestore merge clears the field too
+                    sessions[sessionId].job = null;
+                    persistSession(sessionId);
                 }
-            }
-
-            if (!covered) {
-                // Friend's interaction time is not sufficiently covered, create new segment
-                // Take the middle 3-5 seconds of the interaction or full interaction (whichever is shorter)
-                const clipDuration = Math.min(friendDuration, 5);
-                const clipStart = friendStart + (friendDuration - clipDuration) / 2;
-                const clipEnd = clipStart + clipDuration;
+                pumpProcessingQueue();
+                void pumpHlsQueue();
+            });
+    }
+}
 
-                segments.push({
-                    start: secondsToTime(Math.max(0, clipStart - 1)),
-                    end: secondsToTime(clipEnd + 1)
+// Renews the lease of every job queued or running here. With a shared store it also
+// checks that the job is still ours: if another instance took it over (this one
+// stalled past its lease), the local run is aborted and its writes are dropped. A cancel
+// another instance received is picked up here too.
+async function heartbeatProcessingJobs() {
+    const owned = [...runningProcessingJobs, ...processingQueue];
+    for (const sessionId of owned) {
+        const session = sessions[sessionId];
+        if (!session?.job) continue;
+        const now = Date.now();
+        const lease = leaseFor(instanceId, now, processingLeaseMs);
+        if (useSessionFirestore && firestoreClient) {
+            try {
+                const ref = firestoreClient.collection(sessionCollectionName).doc(sessionId);
+                const remote = await firestoreClient.runTransaction(async (tx) => {
+                    const data = (await tx.get(ref)).data();
+                    if (data && isOwnedElsewhere(data.job, instanceId, now)) return null;
+                    tx.set(ref, { job: lease }, { merge: true });
+                    return data || {};
                 });
-
-                console.log(`[Friend Coverage] Added segment ${secondsToTime(clipStart)}-${secondsToTime(clipEnd)} for "${friend.name}" at ${ts.time} (duration: ${friendDuration}s)`);
+                if (!remote) {
+                    relinquishProcessingJob(sessionId);
+                    continue;
+                }
+                if (remote.cancelRequestedAt && !session.cancelRequestedAt) {
+                    cancelProcessingJob(sessionId, remote.cancelRequestedAt);
+                    continue;
+                }
+            } catch (error) {
+                console.warn(`[Queue] Lease heartbeat failed for ${sessionId}:`, (error as Error).message);
+                continue;
             }
         }
+        Object.assign(session.job, lease);
     }
-
-    // Sort and merge overlapping segments
-    segments.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
-    return mergeOverlappingSegments(segments);
+    if (owned.length > 0) saveSessions();
 }
 
-function mapToHighlightTime(originalTimeStr: string, highlightTimestamps: { start: string, end: string }[]): string | null {
-    if (!highlightTimestamps || highlightTimestamps.length === 0) return null;
-    const t = timeToSeconds(originalTimeStr);
-    let highlightOffset = 0;
-
-    for (const seg of highlightTimestamps) {
-        const segStart = timeToSeconds(seg.start);
-        const segEnd = timeToSeconds(seg.end);
-
-        // Only return valid time if within a highlight segment
-        if (t >= segStart && t <= segEnd) {
-            return secondsToTime(highlightOffset + (t - segStart));
-        }
-
-        highlightOffset += (segEnd - segStart);
+// Cancels a job queued or running here on behalf of a request another instance received.
+function cancelProcessingJob(sessionId: string, requestedAt: number) {
+    sessions[sessionId].cancelRequestedAt = requestedAt;
+    const queuedIndex = processingQueue.indexOf(sessionId);
+    if (queuedIndex >= 0) {
+        processingQueue.splice(queuedIndex, 1);
+        markSessionCancelled(sessionId);
+    } else {
+        // processVideo unwinds at the next stage boundary and marks the session cancelled.
+        processingAbortControllers.get(sessionId)?.abort();
     }
+    console.log(`[Cancel] Picked up remote cancellation for ${sessionId}`);
+}
 
-    // Not within any highlight segment - return null to indicate unmappable
-    return null;
+function relinquishProcessingJob(sessionId: string) {
+    relinquishedProcessingJobs.add(sessionId);
+    const queuedIndex = processingQueue.indexOf(sessionId);
+    if (queuedIndex >= 0) processingQueue.splice(queuedIndex, 1);
+    processingAbortControllers.get(sessionId)?.abort(LEASE_LOST);
+    console.warn(`[Queue] Lost the lease on ${sessionId} to another instance; abandoning the local run`);
 }
 
-// Session Migration: Map timestamps for any existing ready sessions that haven't been mapped yet
-async function migrateSessions() {
-    let migratedCount = 0;
-    for (const id in sessions) {
-        const session = sessions[id];
-        if (session.status === 'ready' && session.analysis) {
-            // Retroactive originalDuration
-            if (!session.originalDuration && session.path && fs.existsSync(session.path)) {
-                session.originalDuration = await getVideoDuration(session.path);
-                migratedCount++;
-            }
+// Takes over the lease of a job whose owner stopped renewing it. The transaction makes
+// sure only one of several recovering instances wins.
+async function claimProcessingJob(sessionId: string): Promise<boolean> {
+    if (!useSessionFirestore || !firestoreClient) return true;
+    const ref = firestoreClient.collection(sessionCollectionName).doc(sessionId);
+    try {
+        const claimed = await firestoreClient.runTransaction(async (tx) => {
+            const remote = (await tx.get(ref)).data();
+            const now = Date.now();
+            if (!remote || !isRecoverableJob(remote, instanceId, now)) return null;
+            const lease = leaseFor(instanceId, now, processingLeaseMs);
+            tx.set(ref, { job: lease }, { merge: true });
+            return { ...remote, job: { ...(remote.job || {}), ...lease } };
+        });
+        if (!claimed) return false;
+        sessions[sessionId] = await loadSessionSidecars(claimed);
+        return true;
+    } catch (error) {
+        console.warn(`[Queue] Failed to claim ${sessionId}:`, (error as Error).message);
+        return false;
+    }
+}
 
-            const highlights = session.analysis.highlightTimestamps || [];
-            if (highlights.length === 0) continue;
+// Sessions left 'processing' by an instance that died after this one booted.
+async function sweepExpiredProcessingJobs() {
+    if (!useSessionFirestore || !firestoreClient) return;
+    try {
+        const snap = await firestoreClient.collection(sessionCollectionName).where('status', '==', 'processing').get();
+        for (const doc of snap.docs) {
+            const remote = doc.data();
+            if (!remote?.id || processingQueue.includes(remote.id) || runningProcessingJobs.has(remote.id)) continue;
+            sessions[remote.id] = await loadSessionSidecars(remote);
+        }
+        await recoverInterruptedProcessingJobs();
+        await recoverInterruptedHlsLadders();
+    } catch (error) {
+        console.warn('[Queue] Lease sweep failed:', (error as Error).message);
+    }
+}
 
-            // For friends/scenery, don't filter - they should remain in analysis data
-            // Just map those that can be mapped
-            const mapArrayNoFilter = (arr: any[], timeField: string) => {
-                arr?.forEach(item => {
-                    if (item && typeof item === 'object' && item[timeField] && !item.isMapped) {
-                        const mappedTime = mapToHighlightTime(item[timeField], highlights);
-                        if (mappedTime !== null) {
-                            item[timeField] = mappedTime;
-                            item.isMapped = true;
-                            migratedCount++;
-                        }
-                    }
-                });
-            };
+setInterval(() => {
+    void heartbeatProcessingJobs();
+    heartbeatHlsLadders();
+}, processingHeartbeatMs).unref();
+if (useSessionFirestore) setInterval(() => void sweepExpiredProcessingJobs(), processingLeaseMs).unref();
 
-            mapArrayNoFilter(session.analysis.friends, 'timestamp');
-            mapArrayNoFilter(session.analysis.scenery, 'timestamp');
+// Recovery: anything still 'processing' whose lease lapsed was interrupted by a restart
+// or a dead instance. Jobs another live instance holds are left to it.
+async function recoverInterruptedProcessingJobs() {
+    const now = Date.now();
+    const interrupted = Object.values(sessions)
+        .filter((s: any) => s?.id && isRecoverableJob(s, instanceId, now))
+        .filter((s: any) => !processingQueue.includes(s.id) && !runningProcessingJobs.has(s.id))
+        .sort((a: any, b: any) => (a.job?.enqueuedAt || a.startedAt || 0) - (b.job?.enqueuedAt || b.startedAt || 0));
+
+    let requeued = 0;
+    let failed = 0;
+    for (const candidate of interrupted) {
+        if (!(await claimProcessingJob(candidate.id))) continue;
+        const session = sessions[candidate.id];
+        if (session.cancelRequestedAt) {
+            markSessionCancelled(session.id);
+            continue;
+        }
+        // A day being rebuilt still carries its previous build's analysis.
+        if (session.kind !== 'day' && session.analysis && session.completedAt) {
+            session.status = 'ready';
+            session.job = null;
+            persistSession(session.id);
+            continue;
+        }
 
-            // Keep original timeline/moodData intact; store highlight-only mapped copies.
-            if (!session.analysis.timelineHighlight) {
-                session.analysis.timelineHighlight = mapAndFilterForHighlight(
-                    session.analysis.timeline,
-                    'time',
-                    'originalTime',
-                    highlights
-                );
-                migratedCount += session.analysis.timelineHighlight.length;
-            }
-            if (!session.analysis.moodDataHighlight) {
-                session.analysis.moodDataHighlight = mapAndFilterForHighlight(
-                    session.analysis.moodData,
-                    'name',
-                    'originalTime',
-                    highlights
-                );
-                migratedCount += session.analysis.moodDataHighlight.length;
-            }
+        const attempts = session.job?.attempts || 0;
+        if (processingRecoveryMode === 'fail' || attempts >= processingMaxAttempts) {
+            session.status = 'error';
+            session.error = attempts >= processingMaxAttempts
+                ? `Processing was interrupted ${attempts} time(s) and will not be retried automatically.`
+                : 'Processing was interrupted by a server restart. Please upload the video again.';
+            session.completedAt = Date.now();
+            session.job = null;
+            delete session.progress;
+            persistSession(session.id);
+            failed++;
+            continue;
+        }
 
-            // For narrativeSegments - keep ALL but mark with inHighlight flag
-            // This allows original video to show all subtitles, highlight video to show only matching ones
-            if (session.analysis.narrativeSegments) {
-                session.analysis.narrativeSegments = session.analysis.narrativeSegments.map((seg: any) => {
-                    if (seg.isMapped) return seg;  // Already migrated
+        enqueueProcessingJob(session.id);
+        requeued++;
+    }
 
-                    const mappedTime = mapToHighlightTime(seg.timestamp, highlights);
-                    const inHighlight = mappedTime !== null;
-                    migratedCount++;
+    if (requeued > 0 || failed > 0) {
+        console.log(`[Queue] Recovered interrupted sessions: ${requeued} re-enqueued, ${failed} marked as error.`);
+    }
+}
 
-                    return {
-                        ...seg,
-                        originalTime: seg.timestamp,
-                        timestamp: mappedTime || seg.timestamp,
-                        inHighlight: inHighlight,
-                        isMapped: true
-                    };
-                });
-            }
+// Boot only: reel regenerations are not leased, so any this instance's predecessor left
+// running are failed here.
+function recoverInterruptedBackgroundJobs() {
+    for (const session of Object.values(sessions) as any[]) {
+        if (session?.highlightJob?.status !== 'running') continue;
+        session.highlightJob = {
+            ...session.highlightJob,
+            status: 'failed',
+            error: 'Regeneration was interrupted by a server restart. Please try again.',
+            completedAt: Date.now()
+        };
+        persistSession(session.id);
+    }
+}
+
+// Takes over a pending or running ladder whose lease lapsed. Like claimProcessingJob, the
+// transaction lets only one of several recovering instances win.
+async function claimHlsLadder(sessionId: string, kind: HlsKind): Promise<boolean> {
+    if (!useSessionFirestore || !firestoreClient) return true;
+    const ref = firestoreClient.collection(sessionCollectionName).doc(sessionId);
+    try {
+        return await firestoreClient.runTransaction(async (tx) => {
+            const remote = (await tx.get(ref)).data();
+            const now = Date.now();
+            if (remote?.status !== 'ready' || !isRecoverableLadder(remote.hls?.[kind], instanceId, now)) return false;
+            tx.set(ref, { hls: { [kind]: leaseFor(instanceId, now, processingLeaseMs) } }, { merge: true });
+            return true;
+        });
+    } catch (error) {
+        console.warn(`[HLS] Failed to claim the ${kind} ladder of ${sessionId}:`, (error as Error).message);
+        return false;
+    }
+}
+
+// Ladders left pending or running by an instance that stopped renewing their lease. On
+// boot and on the lease sweep.
+async function recoverInterruptedHlsLadders() {
+    // Without a shared store this is the only instance, so leases left by its predecessor are void.
+    const now = useSessionFirestore ? Date.now() : Infinity;
+    for (const session of Object.values(sessions) as any[]) {
+        if (session?.status !== 'ready') continue;
+        const interruptedLadders: HlsKind[] = [];
+        for (const kind of ['original', 'highlight'] as HlsKind[]) {
+            if (hlsQueue.some(job => job.sessionId === session.id && job.kind === kind)) continue;
+            if (activeHlsJob?.sessionId === session.id && activeHlsJob.kind === kind) continue;
+            if (!isRecoverableLadder(session.hls?.[kind], instanceId, now)) continue;
+            if (await claimHlsLadder(session.id, kind)) interruptedLadders.push(kind);
         }
+        if (interruptedLadders.length > 0) queueSessionHls(session.id, interruptedLadders);
     }
-    if (migratedCount > 0) {
-        console.log(`Migrated ${migratedCount} sessions/timestamps in existing sessions.`);
-        saveSessions();
+}
+
+// ---- Pet AI Persona — async post-processing (non-blocking) ----
+// Failure here writes personaError on the session but never undoes
+// the analysis result. Queue runs in-process with isolated try/catch.
+function queueSessionPersonaJob(sessionId: string, analysisData: AnalysisResult, videoDuration: number) {
+    try {
+        const sessionForPersona = sessions[sessionId];
+        const visitorIdForPersona: string | undefined = sessionForPersona?.visitorId;
+        const petNameForPersona: string | undefined = sessionForPersona?.petName;
+        if (visitorIdForPersona && petNameForPersona && analysisData) {
+            sessions[sessionId].personaProcessed = false;
+            queuePersonaJob(
+                {
+                    sessionId,
+                    visitorId: visitorIdForPersona,
+                    petName: petNameForPersona,
+                    analysis: analysisData,
+                    durationSeconds: videoDuration,
+                    videoUrl: sessions[sessionId].videoUrl,
+                    coverUrl: sessions[sessionId].coverUrl,
+                    recordedAt: sessions[sessionId].recordedAt ?? undefined,
+                    uploadedAt: new Date(sessions[sessionId].createdAt || 0).getTime() || undefined,
+                    timeZone: sessions[sessionId].timeZone,
+                },
+                (result) => {
+                    sessions[sessionId].petId = result.petId;
+                    sessions[sessionId].personaProcessed = true;
+                    sessions[sessionId].personaProcessedAt = Date.now();
+                    sessions[sessionId].memoriesCreated = result.memoriesCreated;
+                    sessions[sessionId].personaUpdateCard = result.updateCard;
+                    persistSession(sessionId).catch(() => undefined);
+                    console.log(`[Persona] session ${sessionId} → pet ${result.petId} (+${result.memoriesCreated} memories)`);
+                },
+                (err) => {
+                    sessions[sessionId].personaProcessed = false;
+                    sessions[sessionId].personaError = err.message;
+                    persistSession(sessionId).catch(() => undefined);
+                }
+            );
+        } else if (analysisData && !visitorIdForPersona) {
+            console.log(`[Persona] session ${sessionId} skipped — no visitorId on session`);
+        } else if (analysisData && !petNameForPersona) {
+            console.log(`[Persona] session ${sessionId} skipped — no petName on session`);
+        }
+    } catch (personaQueueError) {
+        console.error('[Persona] failed to queue persona job:', personaQueueError);
     }
 }
 
-async function processVideo(sessionId: string, localPathFromUpload?: string) {
+async function processVideo(sessionId: string, localPathFromUpload?: string, signal?: AbortSignal) {
     const stageTimes: StageTime[] = [];
     const totalStart = Date.now();
     let cleanupPaths: string[] = [];
+    let cancelCleanupPaths: string[] = [];
+    // Audio and activity measuring run beside the analysis with their own abort scope, so
+    // a failed attempt can stop their ffmpeg children before it returns.
+    const localSignals = new AbortController();
+    signal?.addEventListener('abort', () => localSignals.abort(), { once: true });
+    const localSignalTasks: Promise<unknown>[] = [];
+
+    // Cooperative cancellation: checked between stages (ffmpeg children are killed via the media abort scope).
+    const throwIfCancelled = () => {
+        if (signal?.aborted) throw new Error('Processing cancelled');
+    };
 
     const logStage = (stage: string, startTime: number) => {
         const duration = (Date.now() - startTime) / 1000;
-        stageTimes.push({ stage, duration, startedAt: startTime, completedAt: Date.now() });
+        const timing: StageTime = { stage, duration, startedAt: startTime, completedAt: Date.now() };
+        stageTimes.push(timing);
+        if (sessions[sessionId]) sessions[sessionId].stageTimes = [...stageTimes];
+        emitSessionEvent(sessionId, 'stage', timing);
         console.log(`[Timing] ${stage}: ${formatDuration(duration)}`);
     };
 
     const updateProgress = (stage: string, percent: number, stageIndex: number, totalStages = 5) => {
         if (sessions[sessionId]) {
             sessions[sessionId].progress = { stage, percent, stageIndex, totalStages };
+            emitSessionEvent(sessionId, 'progress', sessions[sessionId].progress);
         }
     };
 
+    // Identical content may have finished while this job was queued.
+    if (await cloneSessionFromContentCache(sessionId)) return;
+    seedCheckpointsFromContentCache(sessionId);
+
+    const checkpoints: ProcessingCheckpoints = sessions[sessionId]?.checkpoints || {};
+    const highlightSpec = normalizeHighlightSpec(sessions[sessionId]?.highlightSpec);
+    const saveCheckpoint = <K extends keyof ProcessingCheckpoints>(stage: K, data: Omit<NonNullable<ProcessingCheckpoints[K]>, 'completedAt'>) => {
+        checkpoints[stage] = { ...data, completedAt: Date.now() } as ProcessingCheckpoints[K];
+        if (sessions[sessionId]) {
+            sessions[sessionId].checkpoints = checkpoints;
+            persistSession(sessionId);
+        }
+    };
+    if (Object.keys(checkpoints).length > 0) {
+        console.log(`[Resume] Session ${sessionId} resuming from stage "${getResumeStage(checkpoints)}"`);
+    }
+
     try {
         updateProgress('Preparing Video', 0, 0);
 
@@ -2382,277 +3364,141 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
         const resolvedInput = await resolveProcessingVideoInput(sessionId, localPathFromUpload);
         cleanupPaths = resolvedInput.cleanupPaths || [];
         logStage('Resolve Processing Input', stageStart);
+        throwIfCancelled();
 
         const videoPath = resolvedInput.inputPath;
 
+        // Composite uploads reached the queue without a fingerprint; the downloaded copy
+        // can still match the content cache.
+        if (!sessions[sessionId]?.contentHash && !/^https?:\/\//i.test(videoPath) && fs.existsSync(videoPath)) {
+            await fingerprintSession(sessionId, () => computeFileContentHash(videoPath));
+            if (await cloneSessionFromContentCache(sessionId)) return;
+            seedCheckpointsFromContentCache(sessionId);
+            Object.assign(checkpoints, sessions[sessionId]?.checkpoints || {});
+        }
+
         // Stage 1: Proxy Video Creation
         stageStart = Date.now();
-        const proxyPath = await createProxyVideo(videoPath, config.uploadDir);
-        if (/^https?:\/\//i.test(proxyPath)) {
-            throw new Error('Failed to create local proxy video from source file.');
+        let proxyPath: string;
+        if (checkpoints.proxy?.path && fs.existsSync(checkpoints.proxy.path)) {
+            proxyPath = checkpoints.proxy.path;
+        } else {
+            proxyPath = await createProxyVideo(videoPath, config.uploadDir);
+            if (/^https?:\/\//i.test(proxyPath)) {
+                throw new Error('Failed to create local proxy video from source file.');
+            }
+            saveCheckpoint('proxy', { path: proxyPath });
         }
+        if (proxyPath !== videoPath) cancelCleanupPaths.push(proxyPath);
         logStage('Proxy Video Creation', stageStart);
+        throwIfCancelled();
         updateProgress('Gemini 3 Thinking...', 10, 1);
 
         // Stage 2: Get Video Duration
         stageStart = Date.now();
         const probedVideoDuration = await getVideoDuration(videoPath);
-        logStage('Get Video Duration', stageStart);
-
-        // Stage 3: Gemini AI Analysis (includes upload, processing wait, and generation)
-        stageStart = Date.now();
-        const analysisData = await analyzeVideo(proxyPath);
-        logStage('Gemini AI Analysis (total)', stageStart);
-
-        const inferredVideoDuration = inferVideoDurationFromAnalysis(analysisData);
-        const videoDuration = probedVideoDuration > 1 ? probedVideoDuration : inferredVideoDuration;
-        if (probedVideoDuration <= 1 && videoDuration > 1) {
-            console.warn(`[Duration] ffprobe returned ${probedVideoDuration}; using inferred duration ${videoDuration}s from Gemini timestamps.`);
+        const recordingSession = sessions[sessionId];
+        if (recordingSession && recordingSession.recordedAt === undefined) {
+            // The file is finalized when recording stops, so its modified time marks the end.
+            const fileRecordedAt = recordingSession.fileModifiedAt ? recordingSession.fileModifiedAt - probedVideoDuration * 1000 : null;
+            recordingSession.recordedAt = (await getVideoCreationTime(videoPath)) ?? fileRecordedAt;
         }
+        logStage('Get Video Duration', stageStart);
 
-        // Normalize generated signals before any highlight-based mapping.
-        analysisData.moodData = normalizeMoodData(analysisData.moodData, videoDuration);
-        analysisData.timeline = normalizeTimeline(analysisData.timeline, analysisData.moodData, videoDuration);
-
-        // === Highlight duration check and fallback ===
-        let highlights = sanitizeHighlightTimestamps(analysisData.highlightTimestamps || [], videoDuration);
-
-        // Calculate total duration
-        const calculateDuration = (segs: typeof highlights) =>
-            segs.reduce((sum, seg) => sum + (timeToSeconds(seg.end) - timeToSeconds(seg.start)), 0);
-
-        const totalDuration = calculateDuration(highlights);
-        console.log(`[Highlight] AI returned ${highlights.length} clips, total duration: ${totalDuration}s`);
-
-        // Log scores and reasons for debugging
-        highlights.forEach((clip, i) => {
-            if (clip.reason || clip.score) {
-                console.log(`  [Clip ${i + 1}] ${clip.start}-${clip.end} | Score: ${clip.score || 'N/A'} | ${clip.reason || ''}`);
-            }
-        });
-
-        // Fallback: if duration exceeds 120s, trim by score (with protection for important content)
-        if (totalDuration > 120) {
-            console.log(`[Highlight] Duration ${totalDuration}s exceeds 120s, trimming...`);
-
-            // Collect important timestamps from friends and high-quality scenery
-            const friendTimes = (analysisData.friends || []).flatMap(f =>
-                f.timestamps?.map((t: any) => timeToSeconds(t.time)) || [timeToSeconds(f.timestamp)]
-            ).filter(Boolean);
-
-            const highQualitySceneryTimes = (analysisData.scenery || [])
-                .filter(s => s.stayDuration >= 5 && s.timestamp)
-                .map(s => timeToSeconds(s.timestamp));
-
-            // Check if a clip covers any important timestamp
-            const coversImportantContent = (clip: any): boolean => {
-                const clipStart = timeToSeconds(clip.start);
-                const clipEnd = timeToSeconds(clip.end);
-
-                const coversFriend = friendTimes.some(t => t >= clipStart && t <= clipEnd);
-                const coversScenery = highQualitySceneryTimes.some(t => t >= clipStart && t <= clipEnd);
-
-                return coversFriend || coversScenery;
-            };
-
-            // Enhanced sorting: score + importance bonus
-            const getEnhancedScore = (clip: any): number => {
-                let score = clip.score || 0;
-                if (coversImportantContent(clip)) {
-                    score += 50;  // Bonus for covering important content
-                    console.log(`  [Protection] Clip ${clip.start}-${clip.end} covers important content, score boosted`);
-                }
-                return score;
-            };
+        // Stage 3b: Audio Event Detection, in parallel with Stage 3. Best effort: a failure
+        // leaves the analysis without audioEvents and the next attempt retries it.
+        const knownAudioEvents = checkpoints.analysis?.result?.audioEvents ?? checkpoints.audio?.events;
+        const audioStart = Date.now();
+        const audioTask: Promise<AudioEvent[] | undefined> = knownAudioEvents
+            ? Promise.resolve(knownAudioEvents)
+            : withMediaAbortSignal(localSignals.signal, () => detectAudioEvents(proxyPath, path.join(config.uploadDir, `${sessionId}-audio-${totalStart}`), probedVideoDuration, getAnalysisProvider()))
+                .then((events) => {
+                    saveCheckpoint('audio', { events });
+                    return events;
+                })
+                .catch((error) => {
+                    console.warn(`[Audio] Event detection failed for ${sessionId}:`, (error as Error).message);
+                    return undefined;
+                });
 
-            const sorted = [...highlights].sort((a, b) => getEnhancedScore(b) - getEnhancedScore(a));
-            const kept: typeof highlights = [];
-            let currentDuration = 0;
+        // Stage 3c: Activity Analysis (frame differencing on the proxy), also alongside Stage 3.
+        const knownActivityData = checkpoints.analysis?.result?.activityData ?? checkpoints.activity?.activityData;
+        const activityStart = Date.now();
+        const activityTask: Promise<ActivityPoint[] | undefined> = knownActivityData
+            ? Promise.resolve(knownActivityData)
+            : withMediaAbortSignal(localSignals.signal, () => measureActivity(proxyPath, path.join(config.uploadDir, `${sessionId}-activity-${totalStart}`), probedVideoDuration))
+                .then((activityData) => {
+                    saveCheckpoint('activity', { activityData });
+                    return activityData;
+                })
+                .catch((error) => {
+                    console.warn(`[Activity] Motion analysis failed for ${sessionId}:`, (error as Error).message);
+                    return undefined;
+                });
+        localSignalTasks.push(audioTask, activityTask);
 
-            for (const clip of sorted) {
-                const clipDuration = timeToSeconds(clip.end) - timeToSeconds(clip.start);
-                if (currentDuration + clipDuration <= 120) {
-                    kept.push(clip);
-                    currentDuration += clipDuration;
+        // Stage 3: Gemini AI Analysis (includes upload, processing wait, and generation)
+        stageStart = Date.now();
+        let rawAnalysis: AnalysisResult;
+        if (checkpoints.analysis?.result) {
+            rawAnalysis = cloneJson(checkpoints.analysis.result);
+        } else {
+            const completedWindows = { ...(checkpoints.analysisWindows?.results || {}) };
+            rawAnalysis = await analyzeRecording(proxyPath, probedVideoDuration, {
+                signal,
+                highlightSpec,
+                completedWindows,
+                onWindowComplete: (window, result) => {
+                    completedWindows[String(window.index)] = cloneJson(result);
+                    saveCheckpoint('analysisWindows', { results: completedWindows });
+                    const done = Object.keys(completedWindows).length;
+                    updateProgress(`Gemini 3 Thinking... (${done}/${window.total} windows)`, 10 + Math.round((done / window.total) * 40), 1);
                 }
-            }
-
-            // Sort back to chronological order
-            kept.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
-            highlights = kept;
-
-            console.log(`[Highlight] Trimmed to ${kept.length} clips, duration: ${calculateDuration(kept)}s`);
+            });
+            throwIfCancelled();
+            saveCheckpoint('analysis', { result: cloneJson(rawAnalysis) });
         }
+        logStage('Gemini AI Analysis (total)', stageStart);
 
-        // Cap unrealistic stayDuration values
-        if (analysisData.scenery) {
-            for (const scene of analysisData.scenery) {
-                if (typeof scene.stayDuration === 'number' && scene.stayDuration > 15) {
-                    console.log(`[Scenery Cap] "${scene.sceneryLabel || scene.description}" stayDuration ${scene.stayDuration}s → capped to 15s`);
-                    scene.stayDuration = 15;
-                }
+        // Local signals are folded into the raw analysis, so re-plans (regenerate, day
+        // digests) see them without re-measuring.
+        let localSignalsAdded = false;
+        if (rawAnalysis.audioEvents === undefined) {
+            const audioEvents = await audioTask;
+            logStage('Audio Event Detection', audioStart);
+            if (audioEvents) {
+                rawAnalysis.audioEvents = audioEvents;
+                localSignalsAdded = true;
             }
         }
-
-        // Ensure all friend timestamps are included in highlights
-        highlights = ensureFriendsInHighlights(
-            analysisData.friends,
-            highlights,
-            videoDuration,
-            3  // 3 second buffer
-        );
-
-        // Ensure significant scenery moments are included in highlights
-        highlights = ensureSceneryInHighlights(
-            analysisData.scenery,
-            highlights,
-            videoDuration,
-            2
-        );
-
-        // Ensure dietary habits (food/drink) moments are included in highlights
-        highlights = ensureFoodInHighlights(
-            analysisData.dietaryHabits,
-            highlights,
-            videoDuration,
-            1  // 1 second buffer before food moment
-        );
-
-        // Ensure safety alerts (danger/warning) are included in highlights
-        highlights = ensureSafetyAlertsInHighlights(
-            analysisData.safetyAlerts,
-            highlights,
-            videoDuration,
-            1  // 1 second buffer before alert moment
-        );
-        highlights = sanitizeHighlightTimestamps(highlights, videoDuration);
-
-        // ========== Final duration check and smart layered trimming ==========
-        const finalDuration = calculateDuration(highlights);
-        const MAX_HIGHLIGHT_DURATION = 120;
-
-        if (finalDuration > MAX_HIGHLIGHT_DURATION) {
-            console.log(`[Highlight] Final duration ${finalDuration.toFixed(1)}s exceeds ${MAX_HIGHLIGHT_DURATION}s, smart trimming...`);
-
-            // Assign priority to clips (higher = more important, kept longer)
-            const getPriority = (clip: any): number => {
-                if (clip.source === 'safety') return 100;
-                if (clip.source === 'friend+scenery') return 95;  // Friend + Scenery combo: highest value content
-                if (clip.source === 'scenery' && clip.isNearFriend) return 85;  // Near-friend scenery: context preservation
-                if (clip.source === 'friend') return 80;
-                if (clip.source === 'scenery' && clip.isHighQuality) return 75;  // High-quality scenery (stayDuration >= 5s)
-                if (clip.source === 'food') return 60;
-                if (clip.source === 'scenery') return 50;  // Regular scenery (raised from 40)
-                const score = clip.score || 0;
-                if (score >= 15) return 30;
-                if (score >= 10) return 20;
-                return 10;
-            };
-
-            // Sort by priority (high priority first, will be kept)
-            const sorted = [...highlights].sort((a, b) => getPriority(b) - getPriority(a));
-
-            const kept: typeof highlights = [];
-            let currentDuration = 0;
-            const friendsIncluded = new Set<string>();
-
-            for (const clip of sorted) {
-                let clipDuration = timeToSeconds(clip.end) - timeToSeconds(clip.start);
-
-                // Check if this is the only clip for a friend
-                const isOnlyFriendClip = clip.source === 'friend' &&
-                    clip.friendName &&
-                    !friendsIncluded.has(clip.friendName);
-
-                // Compression strategy: if not enough space but clip is important, try to shorten
-                if (currentDuration + clipDuration > MAX_HIGHLIGHT_DURATION) {
-                    const remaining = MAX_HIGHLIGHT_DURATION - currentDuration;
-
-                    // Safety: never delete, but can shorten to 3s minimum
-                    if (clip.source === 'safety' && remaining >= 3) {
-                        clip.end = secondsToTime(timeToSeconds(clip.start) + Math.max(3, remaining));
-                        clipDuration = remaining;
-                        console.log(`[Highlight] Compressed safety clip to ${remaining.toFixed(1)}s`);
-                    }
-                    // Friend's only clip: allow slight overage or shorten
-                    else if (isOnlyFriendClip) {
-                        if (remaining >= 3) {
-                            clip.end = secondsToTime(timeToSeconds(clip.start) + Math.max(3, remaining));
-                            clipDuration = remaining;
-                            console.log(`[Highlight] Compressed friend "${clip.friendName}" clip to ${remaining.toFixed(1)}s`);
-                        } else if (currentDuration + clipDuration <= MAX_HIGHLIGHT_DURATION + 5) {
-                            // Allow up to 5s overage to keep friend's only clip
-                            console.log(`[Highlight] Kept only clip for friend "${clip.friendName}" (allowing slight overage)`);
-                        }
-                    }
-                }
-
-                if (currentDuration + clipDuration <= MAX_HIGHLIGHT_DURATION ||
-                    (isOnlyFriendClip && currentDuration + clipDuration <= MAX_HIGHLIGHT_DURATION + 5)) {
-                    kept.push(clip);
-                    currentDuration += clipDuration;
-                    if (clip.friendName) friendsIncluded.add(clip.friendName);
-                } else {
-                    console.log(`[Highlight] Trimmed: ${clip.start}-${clip.end} (priority: ${getPriority(clip)}, source: ${clip.source || 'ai'})`);
-                }
+        if (rawAnalysis.activityData === undefined) {
+            const activityData = await activityTask;
+            logStage('Activity Analysis', activityStart);
+            if (activityData) {
+                rawAnalysis.activityData = activityData;
+                rawAnalysis.activitySegments = planActivitySegments(activityData);
+                localSignalsAdded = true;
             }
-
-            // Re-sort by time to maintain narrative coherence
-            kept.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
-            highlights = kept;
-
-            console.log(`[Highlight] Final: ${kept.length} clips, duration: ${calculateDuration(kept).toFixed(1)}s`);
         }
-        // ========== End: Final duration check ==========
+        throwIfCancelled();
+        if (localSignalsAdded) saveCheckpoint('analysis', { result: cloneJson(rawAnalysis) });
 
-        // ========== Scenery zero-coverage fallback ==========
-        // Fix 1+2 should protect key scenery in the main trimming flow.
-        // This fallback only handles extreme edge cases where all scenery was still trimmed.
-        if (analysisData.scenery && analysisData.scenery.length > 0) {
-            const significantScenery = analysisData.scenery.filter(
-                (s: any) => s.stayDuration >= 3 && s.timestamp
-            );
-
-            if (significantScenery.length > 0) {
-                const hasSceneryCoverage = significantScenery.some((scene: any) => {
-                    const t = timeToSeconds(scene.timestamp);
-                    return highlights.some(seg =>
-                        t >= timeToSeconds(seg.start) && t <= timeToSeconds(seg.end)
-                    );
-                });
-
-                if (!hasSceneryCoverage) {
-                    // Pick best scenery: prefer near-friend (narrative value), then longest stayDuration
-                    const bestScene = [...significantScenery].sort((a: any, b: any) => {
-                        const aFriend = a.isNearFriend ? 1 : 0;
-                        const bFriend = b.isNearFriend ? 1 : 0;
-                        if (bFriend !== aFriend) return bFriend - aFriend;
-                        return (b.stayDuration || 0) - (a.stayDuration || 0);
-                    })[0];
-                    const t = timeToSeconds(bestScene.timestamp);
-                    const clipLen = Math.min(bestScene.stayDuration || 3, 5);
-                    const start = Math.max(0, t - 2);
-                    const end = Math.min(videoDuration, t + clipLen);
-
-                    if (calculateDuration(highlights) + (end - start) <= MAX_HIGHLIGHT_DURATION + 5) {
-                        highlights.push({
-                            start: secondsToTime(start),
-                            end: secondsToTime(end),
-                            source: 'scenery',
-                            isHighQuality: true
-                        });
-                        highlights.sort((a, b) => timeToSeconds(a.start) - timeToSeconds(b.start));
-                        console.log(`[Scenery Fallback] Added ${secondsToTime(start)}-${secondsToTime(end)} (no scenery survived trimming)`);
-                    } else {
-                        console.log(`[Scenery Fallback] Skipped: adding scenery would exceed ${MAX_HIGHLIGHT_DURATION + 5}s`);
-                    }
-                }
-            }
+        const inferredVideoDuration = inferVideoDurationFromAnalysis(rawAnalysis);
+        const videoDuration = probedVideoDuration > 1 ? probedVideoDuration : inferredVideoDuration;
+        if (probedVideoDuration <= 1 && videoDuration > 1) {
+            console.warn(`[Duration] ffprobe returned ${probedVideoDuration}; using inferred duration ${videoDuration}s from Gemini timestamps.`);
         }
-        // ========== End: Scenery zero-coverage fallback ==========
 
-        analysisData.highlightTimestamps = highlights;
-        // === End of highlight processing ===
+        let analysisData: AnalysisResult;
+        let highlights: HighlightSegment[];
+        if (checkpoints.highlights?.analysis) {
+            analysisData = cloneJson(checkpoints.highlights.analysis);
+            highlights = analysisData.highlightTimestamps || [];
+        } else {
+            analysisData = rawAnalysis;
+            highlights = planHighlights(analysisData, videoDuration, highlightSpec);
+            saveCheckpoint('highlights', { analysis: cloneJson(analysisData) });
+        }
 
         // Stage 4+5: Highlight Video Generation AND Frame Extraction (parallel)
         // These two tasks have no dependency — frame extraction uses proxyPath + highlight timestamps
@@ -2668,8 +3514,19 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
         const [highlightResult] = await Promise.all([
             // Task A: Generate highlight video + upload to GCS
             (async () => {
+                const resumedVideo = checkpoints.highlightVideo;
+                if (resumedVideo && (resumedVideo.highlightObjectPath || (resumedVideo.highlightPath && fs.existsSync(resumedVideo.highlightPath)))) {
+                    return {
+                        highlightPath: resumedVideo.highlightPath,
+                        highlightError: null as string | null,
+                        highlightObjectPath: resumedVideo.highlightObjectPath,
+                        highlightUrl: resumedVideo.highlightUrl,
+                        highlightVariants: resumedVideo.highlightVariants || null
+                    };
+                }
+
                 const taskAStart = Date.now();
-                const generatedHighlightPath = await generateHighlights(proxyPath, analysisData, config.uploadDir, `${sessionId}`);
+                const generatedHighlightPath = await generateHighlights(proxyPath, analysisData, config.uploadDir, `${sessionId}`, highlightSpec, { petName: sessions[sessionId]?.petName });
                 logStage('Highlight Video Generation', taskAStart);
 
                 // A failed highlight generation may return the original input path/URL.
@@ -2685,6 +3542,7 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
                     : 'Highlight video is unavailable for this session. Please use the original video.';
                 let highlightObjectPath: string | null = null;
                 let highlightUrl: string | null = highlightPath ? getFileUrl(highlightPath) : null;
+                let highlightVariants: HighlightVariantAssets | null = null;
 
                 if (highlightPath) {
                     try {
@@ -2695,6 +3553,7 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
                     } catch (error) {
                         console.error(`[Storage] Failed to upload highlight asset for ${sessionId}:`, error);
                     }
+                    highlightVariants = await publishHighlightVariants(sessionId, highlightPath);
                 }
 
                 // On Cloud Storage sessions, local highlight files are ephemeral.
@@ -2706,12 +3565,27 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
                     }
                 }
 
-                return { highlightPath, highlightError, highlightObjectPath, highlightUrl };
+                if (highlightUrl) {
+                    saveCheckpoint('highlightVideo', { highlightPath, highlightObjectPath, highlightUrl, highlightVariants });
+                }
+
+                return { highlightPath, highlightError, highlightObjectPath, highlightUrl, highlightVariants };
             })(),
 
             // Task B: Friend / Scene / Dietary / Cover frame extraction (sequential within, parallel with Task A)
             (async () => {
                 updateProgress('Extracting Frames', 60, 3);
+                if (checkpoints.frames) {
+                    const resumedFrames = cloneJson(checkpoints.frames);
+                    analysisData.friends = resumedFrames.friends;
+                    analysisData.scenery = resumedFrames.scenery;
+                    analysisData.dietaryHabits = resumedFrames.dietaryHabits;
+                    coverPath = resumedFrames.coverPath || undefined;
+                    coverUrl = resumedFrames.coverUrl || undefined;
+                    coverObjectPath = resumedFrames.coverObjectPath;
+                    return;
+                }
+
                 // Stage 5: Friend Frame Extraction (Proxy Mosaic Search)
                 const friendStart = Date.now();
                 console.log("Starting Mosaic Search Friend Extraction...");
@@ -2755,7 +3629,7 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
                         const mosaicPath = path.join(config.uploadDir, `friend-${friend.name.replace(/\s+/g, '_')}-mosaic-${mosaicUniqueId}.jpg`);
                         await createMosaic(framePaths, mosaicPath);
 
-                        const result = await detectInMosaic(
+                        const result = await getAnalysisProvider().detectInMosaic(
                             mosaicPath,
                             friend.type,
                             friend.visual_traits || friend.name
@@ -2787,6 +3661,9 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
                                     : (getFileUrl(croppedPath) || undefined);
                                 avatarMeta.mode = 'mosaic_selected';
                                 avatarMeta.usedBox = 'result_box';
+                                // Original-clock moment of the chosen cell; steers the reframed reels.
+                                const frameTimes = planMosaicFrameTimestamps(timestamp, friend.timestamps);
+                                (friend as any).mosaicSighting = { seconds: frameTimes[selectedIdx], box: result!.box };
                                 console.log(`[Friend] "${friend.name}" → cell ${result!.cellIndex}, confidence ${result!.confidence}%`);
                             } else {
                                 console.warn(`[Friend] Selected frame missing for "${friend.name}", using primary fallback`);
@@ -2945,65 +3822,35 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
                     console.warn(`[Cover] Failed to extract cover frame:`, e);
                 }
                 logStage('Cover Frame Extraction', coverStart);
+
+                saveCheckpoint('frames', {
+                    friends: cloneJson(analysisData.friends),
+                    scenery: cloneJson(analysisData.scenery),
+                    dietaryHabits: cloneJson(analysisData.dietaryHabits || []),
+                    coverPath: coverPath || null,
+                    coverUrl: coverUrl || null,
+                    coverObjectPath
+                });
             })()
         ]);
 
         // Destructure highlight results from Task A
-        const { highlightPath, highlightUrl: _highlightUrl, highlightError: _highlightError, highlightObjectPath } = highlightResult;
+        const { highlightPath, highlightUrl: _highlightUrl, highlightError: _highlightError, highlightObjectPath, highlightVariants } = highlightResult;
         let highlightError = _highlightError;
         let highlightUrl = _highlightUrl;
 
+        if (highlightPath) cancelCleanupPaths.push(highlightPath);
+        cancelCleanupPaths.push(...getHighlightVariantPaths({ highlightVariants }));
+        if (coverPath) cancelCleanupPaths.push(coverPath);
+        throwIfCancelled();
+
         logStage('Parallel Stages (Highlight Gen + Frame Extraction)', parallelStart);
         updateProgress('Finalizing', 90, 4);
 
         // Stage 9: Timestamp Mapping (preserve originals + derive highlight-only arrays)
         stageStart = Date.now();
 
-        // Timeline: keep full original timeline for Original mode
-        // and derive highlight-mapped timeline for Highlight mode.
-        if (analysisData.timeline) {
-            const originalCount = analysisData.timeline.length;
-            analysisData.timelineHighlight = mapAndFilterForHighlight(
-                analysisData.timeline,
-                'time',
-                'originalTime',
-                highlights
-            );
-            console.log(`[Timeline] Highlight-mapped: ${originalCount} → ${analysisData.timelineHighlight.length} entries`);
-        }
-
-        // MoodData: keep full curve for Original mode
-        // and derive highlight-mapped mood points for Highlight mode.
-        if (analysisData.moodData) {
-            const originalCount = analysisData.moodData.length;
-            analysisData.moodDataHighlight = mapAndFilterForHighlight(
-                analysisData.moodData,
-                'name',
-                'originalTime',
-                highlights
-            );
-            console.log(`[MoodData] Highlight-mapped: ${originalCount} → ${analysisData.moodDataHighlight.length} entries`);
-        }
-
-        // NarrativeSegments: keep ALL segments but mark which ones are in highlight
-        // This allows original video to show all subtitles, highlight video to show only matching ones
-        if (analysisData.narrativeSegments) {
-            let inHighlightCount = 0;
-            analysisData.narrativeSegments = analysisData.narrativeSegments.map(seg => {
-                const mappedTime = mapToHighlightTime(seg.timestamp, highlights);
-                const inHighlight = mappedTime !== null;
-                if (inHighlight) inHighlightCount++;
-
-                return {
-                    ...seg,
-                    originalTime: seg.timestamp,  // Always keep original time for original video playback
-                    timestamp: mappedTime || seg.timestamp,  // Use mapped time if available, else keep original
-                    inHighlight: inHighlight,  // Flag to indicate if this segment is in highlight video
-                    isMapped: true
-                };
-            });
-            console.log(`[Narrative] Total: ${analysisData.narrativeSegments.length}, In highlight: ${inHighlightCount}`);
-        }
+        applyHighlightMapping(analysisData, highlights);
 
         logStage('Timestamp Mapping', stageStart);
 
@@ -3025,8 +3872,10 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
             ...sessions[sessionId],
             status: 'ready',
             analysis: analysisData,
+            highlightSpec,
             highlightPath: highlightPath,
             highlightObjectPath: highlightObjectPath || null,
+            highlightVariants: highlightVariants || null,
             proxyPath: proxyPath,
             originalDuration: videoDuration,
             coverPath: coverPath || null,
@@ -3037,52 +3886,16 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
             videoUrl: resolvedInput.publicVideoUrl || getFileUrl(videoPath),
             completedAt: completedAt,
             processingTime: processingTime,
-            stageTimes: stageTimes  // Save stage timing data
+            stageTimes: stageTimes,  // Save stage timing data
+            // Resume state is done with; keep only the raw Gemini result, which re-plans start from.
+            rawAnalysis: checkpoints.analysis?.result || null,
+            checkpoints: null
         };
         await persistSession(sessionId);
+        emitSessionStatus(sessionId);
 
-        // ---- Pet AI Persona — async post-processing (non-blocking) ----
-        // Failure here writes personaError on the session but never undoes
-        // the analysis result. Queue runs in-process with isolated try/catch.
-        try {
-            const sessionForPersona = sessions[sessionId];
-            const visitorIdForPersona: string | undefined = sessionForPersona?.visitorId;
-            const petNameForPersona: string | undefined = sessionForPersona?.petName;
-            if (visitorIdForPersona && petNameForPersona && analysisData) {
-                sessions[sessionId].personaProcessed = false;
-                queuePersonaJob(
-                    {
-                        sessionId,
-                        visitorId: visitorIdForPersona,
-                        petName: petNameForPersona,
-                        analysis: analysisData,
-                        durationSeconds: videoDuration,
-                        videoUrl: sessions[sessionId].videoUrl,
-                        coverUrl: sessions[sessionId].coverUrl,
-                    },
-                    (result) => {
-                        sessions[sessionId].petId = result.petId;
-                        sessions[sessionId].personaProcessed = true;
-                        sessions[sessionId].personaProcessedAt = Date.now();
-                        sessions[sessionId].memoriesCreated = result.memoriesCreated;
-                        sessions[sessionId].personaUpdateCard = result.updateCard;
-                        persistSession(sessionId).catch(() => undefined);
-                        console.log(`[Persona] session ${sessionId} → pet ${result.petId} (+${result.memoriesCreated} memories)`);
-                    },
-                    (err) => {
-                        sessions[sessionId].personaProcessed = false;
-                        sessions[sessionId].personaError = err.message;
-                        persistSession(sessionId).catch(() => undefined);
-                    }
-                );
-            } else if (analysisData && !visitorIdForPersona) {
-                console.log(`[Persona] session ${sessionId} skipped — no visitorId on session`);
-            } else if (analysisData && !petNameForPersona) {
-                console.log(`[Persona] session ${sessionId} skipped — no petName on session`);
-            }
-        } catch (personaQueueError) {
-            console.error('[Persona] failed to queue persona job:', personaQueueError);
-        }
+        queueSessionPersonaJob(sessionId, analysisData, videoDuration);
+        queueSessionHls(sessionId, ['original', 'highlight']);
 
         // Auto-promote to sample ONLY in local dev (no STORAGE_BUCKET = local).
         // On Cloud Run, promotion would overwrite Firestore sample data with
@@ -3101,6 +3914,22 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
 
         console.log(`Session ${sessionId} ready with mapped timestamps. Processing time: ${processingTime}s`);
     } catch (error) {
+        if (signal?.aborted && signal.reason === LEASE_LOST) {
+            // The instance that took the job over owns the session and its files now.
+            console.log(`[Queue] Abandoned ${sessionId} after losing its lease`);
+            return;
+        }
+        if (signal?.aborted && sessions[sessionId]) {
+            cleanupPaths.push(...cancelCleanupPaths);
+            if (storageClient && storageBucketName) {
+                await storageClient.bucket(storageBucketName)
+                    .deleteFiles({ prefix: `${generatedObjectPrefix}/${sessionId}/`, force: true })
+                    .catch((e) => console.warn(`[Cancel] Failed to delete generated files for ${sessionId}:`, e));
+            }
+            markSessionCancelled(sessionId);
+            console.log(`[Cancel] Session ${sessionId} cancelled`);
+            return;
+        }
         const completedAt = Date.now();
         const processingTime = Math.round((completedAt - sessions[sessionId].startedAt) / 1000);
         sessions[sessionId].status = 'error';
@@ -3108,8 +3937,12 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
         sessions[sessionId].completedAt = completedAt;
         sessions[sessionId].processingTime = processingTime;
         persistSession(sessionId);
+        emitSessionStatus(sessionId);
         console.error(`Error processing session ${sessionId}:`, error);
     } finally {
+        // Both tasks catch their own errors; once they settle their work dirs are gone.
+        localSignals.abort();
+        await Promise.all(localSignalTasks);
         for (const filePath of cleanupPaths) {
             try {
                 if (filePath && fs.existsSync(filePath)) {
@@ -3122,6 +3955,239 @@ async function processVideo(sessionId: string, localPathFromUpload?: string) {
     }
 }
 
+// ---------- Pet Days (multi-clip daily digest) ----------
+// Pet cameras record in chunks, so one day arrives as several sessions. A day groups one
+// pet's ready sessions recorded on the same local date into a session-shaped record
+// (kind: 'day') whose analysis sits on a single day clock, so Gallery/Analysis open it
+// like a clip. Builds run on the processing queue like any other job.
+
+function buildDayId(visitorId: string | undefined, petName: string, date: string) {
+    const owner = crypto.createHash('sha1').update(visitorId || 'anonymous').digest('hex').slice(0, 8);
+    return `day-${sanitizeObjectPathPart(normalizeName(petName), 'pet')}-${date}-${owner}`;
+}
+
+async function buildPetDay(dayId: string, signal?: AbortSignal) {
+    const day = sessions[dayId];
+    if (!day) return;
+    const buildStart = Date.now();
+    const cleanupPaths: string[] = [];
+    const throwIfCancelled = () => {
+        if (signal?.aborted) throw new Error('Day build cancelled');
+    };
+
+    day.status = 'processing';
+    day.error = null;
+    day.startedAt = buildStart;
+    day.progress = { stage: 'Merging Clips', percent: 10, stageIndex: 0, totalStages: 2 };
+    persistSession(dayId);
+    emitSessionEvent(dayId, 'progress', day.progress);
+
+    try {
+        const sources = (day.sourceSessionIds || [])
+            .map((id: string) => sessions[id])
+            .filter((s: any) => isDayCandidateSession(s))
+            .sort(byRecordingTime);
+        if (sources.length < 2) {
+            throw new Error('A day digest needs at least two ready clips.');
+        }
+
+        const { clips, dayDuration } = layoutDayClips(sources);
+        const analysisData = mergeDayAnalyses(clips, day.petName, (session) => buildSessionResponse(session).analysis);
+        analysisData.moodData = normalizeMoodData(analysisData.moodData, dayDuration);
+        analysisData.timeline = normalizeTimeline(analysisData.timeline, analysisData.moodData, dayDuration);
+        const highlights = selectDayHighlights(
+            sanitizeHighlightTimestamps(analysisData.highlightTimestamps, dayDuration),
+            dayHighlightMaxSeconds
+        );
+        analysisData.highlightTimestamps = highlights;
+        applyHighlightMapping(analysisData, highlights);
+
+        for (const friend of analysisData.friends) {
+            (friend as any).originalTimestamp = friend.timestamp;
+            friend.timestamp = mapToHighlightTime(friend.timestamp, highlights);
+            (friend as any).isMapped = true;
+            friend.timestamps = (friend.timestamps || []).map((ts: any) => ({
+                ...ts,
+                originalTime: ts.time,
+                time: mapToHighlightTime(ts.time, highlights)
+            }));
+        }
+        for (const item of [...analysisData.scenery, ...(analysisData.dietaryHabits || [])] as any[]) {
+            item.originalTime = item.timestamp;
+            item.timestamp = mapToHighlightTime(item.timestamp, highlights);
+            item.isMapped = true;
+        }
+
+        // Combined reel: cut each segment from its own clip using clip-local times.
+        throwIfCancelled();
+        day.progress = { stage: 'Creating Day Reel', percent: 40, stageIndex: 1, totalStages: 2 };
+        emitSessionEvent(dayId, 'progress', day.progress);
+        const sourcePaths = new Map<string, string>();
+        for (const { session } of clips) {
+            if (!highlights.some((seg) => seg.sourceSessionId === session.id)) continue;
+            if (session.proxyPath && fs.existsSync(session.proxyPath)) {
+                sourcePaths.set(session.id, session.proxyPath);
+                continue;
+            }
+            const resolved = await resolveProcessingVideoInput(session.id);
+            cleanupPaths.push(...resolved.cleanupPaths);
+            sourcePaths.set(session.id, resolved.inputPath);
+        }
+        const offsets = new Map(clips.map((clip) => [clip.session.id, clip.offset]));
+        const reelSegments = highlights.map((seg) => {
+            const clipOffset = offsets.get(seg.sourceSessionId!) || 0;
+            return {
+                start: secondsToTime(timeToSeconds(seg.start) - clipOffset),
+                end: secondsToTime(timeToSeconds(seg.end) - clipOffset),
+                sourcePath: sourcePaths.get(seg.sourceSessionId!)
+            };
+        });
+        const firstSource = reelSegments[0]?.sourcePath || '';
+        // Friend boxes are on per-session clocks here, so the day reel stays landscape-only.
+        const reelPath = reelSegments.length > 0
+            ? await generateHighlights(firstSource, { ...analysisData, highlightTimestamps: reelSegments }, config.uploadDir, dayId, normalizeHighlightSpec({ targetSeconds: 180 }), { reframe: false })
+            : null;
+        throwIfCancelled();
+
+        let highlightObjectPath: string | null = null;
+        let highlightUrl: string | null = reelPath ? getFileUrl(reelPath) : null;
+        if (reelPath) {
+            try {
+                highlightObjectPath = await uploadGeneratedAsset(dayId, 'highlight', reelPath);
+                if (highlightObjectPath) highlightUrl = getSessionHighlightAssetUrl(dayId);
+            } catch (error) {
+                console.error(`[Day] Failed to upload day reel for ${dayId}:`, error);
+                if (storageBucketName) highlightUrl = null;
+            }
+        }
+
+        const completedAt = Date.now();
+        const firstResponse = buildSessionResponse(sources[0]);
+        delete day.progress;
+        sessions[dayId] = {
+            ...day,
+            status: 'ready',
+            analysis: analysisData,
+            originalDuration: dayDuration,
+            highlightPath: reelPath,
+            highlightObjectPath,
+            highlightUrl,
+            highlightError: highlightUrl ? null : 'The combined day reel could not be generated.',
+            coverUrl: firstResponse.coverUrl || null,
+            dayClips: clips.map(({ session, offset: clipOffset, duration }) => ({
+                sessionId: session.id,
+                originalName: session.originalName,
+                offset: clipOffset,
+                duration
+            })),
+            completedAt,
+            processingTime: Math.round((completedAt - buildStart) / 1000)
+        };
+        await persistSession(dayId);
+        emitSessionStatus(dayId);
+        console.log(`[Day] ${dayId} ready: ${clips.length} clips, ${highlights.length} reel segments`);
+    } catch (error) {
+        if (signal?.aborted && signal.reason === LEASE_LOST) {
+            console.log(`[Queue] Abandoned ${dayId} after losing its lease`);
+            return;
+        }
+        if (signal?.aborted && sessions[dayId]) {
+            markSessionCancelled(dayId);
+            console.log(`[Cancel] Day ${dayId} cancelled`);
+            return;
+        }
+        const session = sessions[dayId];
+        if (session) {
+            session.status = 'error';
+            session.error = (error as Error).message;
+            session.completedAt = Date.now();
+            delete session.progress;
+            persistSession(dayId);
+            emitSessionStatus(dayId);
+        }
+        console.error(`[Day] Failed to build ${dayId}:`, error);
+    } finally {
+        for (const filePath of cleanupPaths) {
+            try {
+                if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+            } catch (cleanupError) {
+                console.warn(`[Cleanup] Failed to remove temporary day input: ${filePath}`, cleanupError);
+            }
+        }
+    }
+}
+
+// Days that can be built: two or more ready clips of one pet on one date.
+// Query: visitorId, tz (the browser's IANA zone, which decides where days start).
+app.get('/api/days', (req, res) => {
+    const visitorId = String(req.query.visitorId || '').trim() || undefined;
+    const timeZone = parseTimeZone(req.query.tz);
+    const groups = groupDaySessions(Object.values(sessions), visitorId, timeZone);
+    const days = [...groups.values()]
+        .filter((group) => group.length >= 2)
+        .map((group) => {
+            const first = group[0];
+            const date = getSessionDayKey(first, timeZone);
+            const dayId = buildDayId(visitorId, first.petName, date);
+            const existing = sessions[dayId];
+            return {
+                dayId,
+                petName: first.petName,
+                date,
+                sessionIds: group.map((s) => s.id),
+                clipCount: group.length,
+                status: existing?.status || 'available',
+                builtClipCount: existing?.sourceSessionIds?.length || 0
+            };
+        })
+        .sort((a, b) => b.date.localeCompare(a.date));
+    res.json(days);
+});
+
+app.post('/api/days', async (req, res) => {
+    const visitorId = String(req.body?.visitorId || '').trim() || undefined;
+    const petName = String(req.body?.petName || '').trim();
+    const date = String(req.body?.date || '').trim();
+    const timeZone = parseTimeZone(req.body?.timeZone);
+    if (!petName || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ error: 'petName and date (YYYY-MM-DD) are required' });
+    }
+
+    const sources = listDaySourceSessions(Object.values(sessions), visitorId, petName, date, timeZone);
+    const requestedIds: string[] | null = Array.isArray(req.body?.sessionIds) ? req.body.sessionIds.map(String) : null;
+    const sourceSessionIds = requestedIds
+        ? requestedIds.filter((id) => sources.some((s: any) => s.id === id))
+        : sources.map((s: any) => s.id);
+    if (sourceSessionIds.length < 2) {
+        return res.status(400).json({ error: 'A day digest needs at least two ready clips of the same pet on that date' });
+    }
+
+    const dayId = buildDayId(visitorId, petName, date);
+    if (sessions[dayId]?.status === 'processing') {
+        return res.status(409).json({ error: 'This day is already being built', dayId });
+    }
+
+    sessions[dayId] = {
+        ...(sessions[dayId] || {}),
+        id: dayId,
+        kind: 'day',
+        status: 'processing',
+        originalName: `${petName} · ${date}`,
+        petName,
+        visitorId,
+        date,
+        timeZone,
+        sourceSessionIds,
+        error: null,
+        job: null,
+        cancelRequestedAt: null,
+        // The day starts with its earliest clip; midnight UTC can fall on the previous local day.
+        createdAt: new Date(getSessionRecordingTime(sources.find((s: any) => sourceSessionIds.includes(s.id)))).toISOString()
+    };
+    enqueueProcessingJob(dayId);
+    res.json({ dayId, sessionId: dayId, status: 'processing' });
+});
+
 app.listen(port, () => {
     console.log(`Backend server running at ${publicBaseUrl}`);
 });
@@ -0,0 +1,95 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    buildActivityCurve,
+    flagMoodActivityConflicts,
+    parseMotionMetadata,
+    planActivitySegments,
+    restFraction,
+} from '../processor/activityAnalysis.ts';
+import { secondsToTime } from '../processor/highlightPlanner.ts';
+
+const curve = (values: number[]) => values.map((value, second) => ({ name: secondsToTime(second), value }));
+
+describe('parseMotionMetadata', () => {
+    test('pairs each frame time with its YAVG', () => {
+        const text = [
+            'frame:0    pts:0       pts_time:0',
+            'lavfi.signalstats.YAVG=0.000',
+            'frame:1    pts:256     pts_time:0.25',
+            'lavfi.signalstats.YAVG=12.5',
+            'frame:2    pts:512     pts_time:0.5',
+            'lavfi.signalstats.YMIN=0',
+        ].join('\n');
+        assert.deepEqual(parseMotionMetadata(text), [
+            { seconds: 0, difference: 0 },
+            { seconds: 0.25, difference: 12.5 },
+        ]);
+    });
+});
+
+describe('buildActivityCurve', () => {
+    test('averages samples per second and scales to 0-100', () => {
+        const samples = [
+            { seconds: 0, difference: 6 }, { seconds: 0.5, difference: 18 },
+            { seconds: 1.25, difference: 48 },
+        ];
+        assert.deepEqual(buildActivityCurve(samples, 2), [
+            { name: '0:00', value: 50 },
+            { name: '0:01', value: 100 },
+        ]);
+    });
+
+    test('seconds without samples carry the previous value', () => {
+        const samples = [{ seconds: 0, difference: 12 }, { seconds: 2.5, difference: 0 }];
+        assert.deepEqual(buildActivityCurve(samples, 3).map(p => p.value), [50, 50, 0]);
+        assert.deepEqual(buildActivityCurve([], 10), []);
+    });
+});
+
+describe('planActivitySegments', () => {
+    test('finds sustained rest and activity, ignoring short blips', () => {
+        const values = [...new Array(10).fill(0), ...new Array(10).fill(80), 30, 30, 30];
+        assert.deepEqual(planActivitySegments(curve(values)).map(({ start, end, level }) => ({ start, end, level })), [
+            { start: '0:00', end: '0:08', level: 'rest' },
+            { start: '0:10', end: '0:21', level: 'active' },
+        ]);
+    });
+
+    test('a short burst is not a segment', () => {
+        assert.deepEqual(planActivitySegments(curve([0, 0, 90, 90, 0, 0])), []);
+        assert.deepEqual(planActivitySegments(undefined), []);
+    });
+});
+
+describe('flagMoodActivityConflicts', () => {
+    const activity = curve([...new Array(20).fill(2), ...new Array(20).fill(90)]);
+
+    test('flags intense moods while still and flat moods while running', () => {
+        const mood = [{ name: '0:05', value: 90 }, { name: '0:30', value: 10 }, { name: '0:32', value: 60 }];
+        assert.deepEqual(flagMoodActivityConflicts(mood, activity), [
+            { name: '0:05', value: 90, activityConflict: 'low-activity' },
+            { name: '0:30', value: 10, activityConflict: 'high-activity' },
+            { name: '0:32', value: 60 },
+        ]);
+    });
+
+    test('clears stale flags when re-run', () => {
+        const mood = [{ name: '0:30', value: 80, activityConflict: 'low-activity' }];
+        assert.deepEqual(flagMoodActivityConflicts(mood, activity), [{ name: '0:30', value: 80 }]);
+        assert.deepEqual(flagMoodActivityConflicts(mood, undefined), mood);
+    });
+});
+
+describe('restFraction', () => {
+    test('measures the share of a clip spent in rest', () => {
+        const segments = [
+            { start: '0:10', end: '0:20', level: 'rest' as const, meanActivity: 3 },
+            { start: '0:20', end: '0:40', level: 'active' as const, meanActivity: 70 },
+        ];
+        assert.equal(restFraction(segments, 10, 20), 1);
+        assert.equal(restFraction(segments, 15, 25), 0.5);
+        assert.equal(restFraction(segments, 25, 35), 0);
+        assert.equal(restFraction(undefined, 0, 10), 0);
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeTimestamp, settleRepairedAnalysis, validateAnalysisResult } from '../processor/analysisSchema.ts';
+
+const usable = {
+    title: 'Park Day',
+    aiNote: 'Good dog.',
+    narrativeSegments: [{ text: 'Off we go', timestamp: '0:05' }],
+    moodData: [{ name: '0:00', value: 50 }],
+    scenery: [],
+    friends: [],
+    timeline: [{ time: '0:10', label: 'Walkies', icon: 'pets' }],
+    highlightTimestamps: [{ start: '0:05', end: '0:15', score: 8 }],
+};
+
+describe('normalizeTimestamp', () => {
+    test('accepts seconds and clock strings, with minutes past 59', () => {
+        assert.equal(normalizeTimestamp(75), '1:15');
+        assert.equal(normalizeTimestamp(' 42 '), '0:42');
+        assert.equal(normalizeTimestamp('1:05'), '1:05');
+        assert.equal(normalizeTimestamp('01:02:03'), '62:03');
+        assert.equal(normalizeTimestamp('0:09.6'), '0:10');
+    });
+
+    test('rejects anything that is not a time', () => {
+        for (const value of ['', 'soon', '-0:05', '1:2:3:4', null, undefined, -3, NaN, { time: '0:05' }]) {
+            assert.equal(normalizeTimestamp(value), null, JSON.stringify(value));
+        }
+    });
+});
+
+describe('validateAnalysisResult', () => {
+    test('coerces numbers, timestamps, boxes and statuses', () => {
+        const { result, issues, fatal } = validateAnalysisResult({
+            ...usable,
+            moodData: [{ name: 30, value: '140' }],
+            friends: [{
+                name: 'Biscuit',
+                type: 'Corgi',
+                timestamp: '00:01:10',
+                box: ['-5', 100, 1200, 600],
+                timestamps: [{ time: '1:10', duration: '4' }, { time: 'later' }],
+                relationshipStatus: 'Frenemy',
+            }],
+            highlightTimestamps: [{ start: 5, end: '0:15', score: '7.5' }],
+        });
+        assert.equal(fatal, false);
+        assert.deepEqual(result.moodData, [{ name: '0:30', value: 100 }]);
+        assert.deepEqual(result.friends[0], {
+            name: 'Biscuit',
+            type: 'Corgi',
+            timestamp: '1:10',
+            timestamps: [{ time: '1:10', duration: 4 }],
+            box: [0, 100, 1000, 600],
+            relationshipStatus: 'Acquaintance',
+        });
+        assert.deepEqual(result.highlightTimestamps, [{ start: '0:05', end: '0:15', score: 7.5 }]);
+        assert.deepEqual(issues.map((issue) => issue.path), [
+            'moodData[0].value',
+            'friends[0].timestamps',
+            'friends[0].relationshipStatus',
+        ]);
+    });
+
+    test('drops unusable entries and reports them without failing', () => {
+        const { result, issues, fatal } = validateAnalysisResult({
+            ...usable,
+            narrativeSegments: [{ text: 'ok', timestamp: '0:01' }, { text: 'no time' }, 'not an object'],
+            safetyAlerts: 'none',
+        });
+        assert.equal(fatal, false);
+        assert.equal(result.narrativeSegments.length, 1);
+        assert.deepEqual(result.safetyAlerts, []);
+        assert.deepEqual(issues.map((issue) => issue.path), ['safetyAlerts', 'narrativeSegments[1]', 'narrativeSegments[2]']);
+    });
+
+    test('missing or empty core arrays and unusable highlight ranges are fatal', () => {
+        const missing = validateAnalysisResult({ ...usable, timeline: undefined });
+        assert.equal(missing.fatal, true);
+        assert.deepEqual(missing.issues, [{ path: 'timeline', problem: 'missing array', fatal: true }]);
+
+        const badRanges = validateAnalysisResult({ ...usable, highlightTimestamps: [{ start: 'soon', end: 'later' }] });
+        assert.equal(badRanges.fatal, true);
+        assert.deepEqual(badRanges.issues.at(-1), { path: 'highlightTimestamps', problem: 'no usable entries', fatal: true });
+
+        const empty = validateAnalysisResult({ ...usable, moodData: [] });
+        assert.deepEqual(empty.issues, [{ path: 'moodData', problem: 'empty array', fatal: true }]);
+
+        const inverted = validateAnalysisResult({
+            ...usable,
+            highlightTimestamps: [{ start: '0:15', end: '0:05' }, { start: '0:20', end: '0:20' }],
+        });
+        assert.equal(inverted.fatal, true);
+        assert.deepEqual(inverted.issues.map((issue) => issue.problem), [
+            'end 0:05 is not after start 0:15; dropped',
+            'end 0:20 is not after start 0:20; dropped',
+            'no usable entries',
+        ]);
+        // One inverted range among good ones is dropped, not fatal.
+        const mixed = validateAnalysisResult({ ...usable, highlightTimestamps: [...usable.highlightTimestamps, { start: '0:30', end: '0:25' }] });
+        assert.equal(mixed.fatal, false);
+        assert.equal(mixed.result.highlightTimestamps.length, usable.highlightTimestamps.length);
+        assert.equal(validateAnalysisResult('not json').fatal, true);
+        // Optional arrays and a missing title are not.
+        assert.equal(validateAnalysisResult({ ...usable, title: '', scenery: [] }).fatal, false);
+    });
+});
+
+describe('settleRepairedAnalysis', () => {
+    test('uses a usable repair and fails on one that is still fatal', () => {
+        assert.equal(settleRepairedAnalysis(validateAnalysisResult(usable)).title, 'Park Day');
+        assert.throws(
+            () => settleRepairedAnalysis(validateAnalysisResult({ ...usable, moodData: null })),
+            /still unusable after a repair attempt:\n- moodData: expected an array, got object \(FATAL\)/
+        );
+    });
+});
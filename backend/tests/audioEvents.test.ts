@@ -0,0 +1,154 @@
+import { before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    SNIPPET_SECONDS,
+    applyAudioEventsToMood,
+    buildSnippetClipCommand,
+    frameLoudnessDb,
+    labelsToAudioEvents,
+    mergeAudioSafetyAlerts,
+    parseAudioSnippetLabels,
+    pickAudioCandidates,
+    planAudioSnippets,
+    type AudioEvent,
+} from '../processor/audioEvents.ts';
+import { planHighlights } from '../processor/highlightPlanner.ts';
+import { DEFAULT_HIGHLIGHT_SPEC } from '../processor/highlightSpec.ts';
+
+before(() => {
+    mock.method(console, 'log', () => {});
+});
+
+const event = (type: AudioEvent['type'], timestamp: string, confidence = 0.9): AudioEvent => ({
+    type,
+    category: type === 'bark' ? 'vocalization' : 'hazard',
+    timestamp,
+    confidence,
+    loudnessDb: -20,
+});
+
+describe('frameLoudnessDb', () => {
+    test('full-scale, quiet and silent frames', () => {
+        const samples = new Int16Array([32767, -32767, 328, -328, 0, 0, 1]);
+        const [loud, quiet, silent] = frameLoudnessDb(samples, 2);
+        assert.ok(Math.abs(loud) < 0.01);
+        assert.ok(Math.abs(quiet + 40) < 0.1);
+        assert.equal(silent, -90);
+        assert.equal(frameLoudnessDb(samples, 2).length, 3);
+    });
+});
+
+describe('pickAudioCandidates', () => {
+    // 60s of -50 dB background at 0.1s frames with bursts at 12.0s and 40.5s.
+    const loudness = Array.from({ length: 600 }, (_, i) => (i === 120 || i === 405 ? -15 : -50));
+
+    test('finds sudden loud sounds above the noise floor', () => {
+        assert.deepEqual(pickAudioCandidates(loudness).map(c => c.seconds), [12, 40.5]);
+    });
+
+    test('keeps the strongest onsets under the count limit', () => {
+        const quieter = loudness.map((v, i) => (i === 405 ? -30 : v));
+        assert.deepEqual(pickAudioCandidates(quieter, 0.1, 1).map(c => c.seconds), [12]);
+    });
+
+    test('ignores steady sound and silence', () => {
+        assert.deepEqual(pickAudioCandidates(new Array(600).fill(-20)), []);
+        assert.deepEqual(pickAudioCandidates([]), []);
+    });
+});
+
+describe('planAudioSnippets / buildSnippetClipCommand', () => {
+    const candidates = [{ seconds: 0.5, loudnessDb: -12, onsetDb: 20 }, { seconds: 59.5, loudnessDb: -18, onsetDb: 15 }];
+
+    test('starts just before each sound and stays inside the recording', () => {
+        assert.deepEqual(planAudioSnippets(candidates, 60).map(({ start, seconds }) => ({ start, seconds })), [
+            { start: 0, seconds: 3 },
+            { start: 58.5, seconds: 1.5 },
+        ]);
+    });
+
+    test('pads every snippet to the fixed slot so indices map to clip time', () => {
+        const command = buildSnippetClipCommand('in.mp4', planAudioSnippets(candidates, 60), 'out.ogg');
+        assert.equal(command.match(new RegExp(`apad=whole_dur=${SNIPPET_SECONDS}`, 'g'))?.length, 2);
+        assert.match(command, /\[s0\]\[s1\]concat=n=2:v=0:a=1\[clip\]/);
+    });
+});
+
+describe('parseAudioSnippetLabels', () => {
+    test('keeps known types, normalizes spelling and percent confidences', () => {
+        const reply = 'Here you go: [{"index": 1, "type": "Car Horn", "confidence": 85}, {"index": 0, "type": "bark", "confidence": 0.7, "description": "two barks"}]';
+        assert.deepEqual(parseAudioSnippetLabels(reply, 2), [
+            { index: 0, type: 'bark', confidence: 0.7, description: 'two barks' },
+            { index: 1, type: 'car_horn', confidence: 0.85 },
+        ]);
+    });
+
+    test('drops unknown types, bad indices, weak labels and duplicates', () => {
+        const reply = JSON.stringify({ events: [
+            { index: 0, type: 'speech', confidence: 0.9 },
+            { index: 5, type: 'bark', confidence: 0.9 },
+            { index: 1, type: 'meow', confidence: 0.2 },
+            { index: 2, type: 'bark', confidence: 0.5 },
+            { index: 2, type: 'growl', confidence: 0.8 },
+        ] });
+        assert.deepEqual(parseAudioSnippetLabels(reply, 3), [{ index: 2, type: 'growl', confidence: 0.8 }]);
+    });
+
+    test('returns nothing for non-JSON replies', () => {
+        assert.deepEqual(parseAudioSnippetLabels('No salient sounds.', 3), []);
+    });
+});
+
+describe('labelsToAudioEvents', () => {
+    test('places events at the detected sound, not the snippet start', () => {
+        const snippets = planAudioSnippets([{ seconds: 65.4, loudnessDb: -14, onsetDb: 18 }], 120);
+        assert.deepEqual(labelsToAudioEvents(snippets, [{ index: 0, type: 'thunder', confidence: 0.77 }]), [
+            { type: 'thunder', category: 'hazard', timestamp: '1:05', confidence: 0.77, loudnessDb: -14 },
+        ]);
+    });
+});
+
+describe('applyAudioEventsToMood', () => {
+    const mood = [{ name: '0:00', value: 40 }, { name: '0:12', value: 40 }, { name: '0:24', value: 90 }];
+
+    test('raises the nearest point to the event floor, once', () => {
+        const raised = applyAudioEventsToMood(mood, [event('bark', '0:11'), event('thunder', '0:23')]);
+        assert.deepEqual(raised.map(p => p.value), [40, 70, 90]);
+        assert.deepEqual(applyAudioEventsToMood(raised, [event('bark', '0:11')]), raised);
+    });
+
+    test('ignores low-confidence events', () => {
+        assert.deepEqual(applyAudioEventsToMood(mood, [event('bark', '0:11', 0.45)]), mood);
+    });
+});
+
+describe('mergeAudioSafetyAlerts', () => {
+    test('adds hazards the video pass missed and skips ones it already flagged', () => {
+        const alerts = mergeAudioSafetyAlerts(
+            [{ type: 'danger', message: 'Car very close', timestamp: '0:31' }],
+            [event('car_horn', '0:30'), event('thunder', '1:10'), event('bark', '0:05')]
+        );
+        assert.deepEqual(alerts, [
+            { type: 'danger', message: 'Car very close', timestamp: '0:31' },
+            { type: 'warning', message: 'Thunder heard: storms can frighten pets', timestamp: '1:10', source: 'audio' },
+        ]);
+    });
+});
+
+describe('planHighlights with audio events', () => {
+    test('a clip around a labelled sound survives length trimming', () => {
+        const clips = Array.from({ length: 8 }, (_, i) => ({
+            start: `0:${String(i * 10).padStart(2, '0')}`,
+            end: `0:${String(i * 10 + 6).padStart(2, '0')}`,
+            score: 20 - i,
+        }));
+        const analysis: any = {
+            moodData: [], timeline: [], friends: [], scenery: [], narrativeSegments: [],
+            highlightTimestamps: clips,
+            audioEvents: [event('bark', '1:12')],
+        };
+        const spec = { ...DEFAULT_HIGHLIGHT_SPEC, targetSeconds: 15 as const };
+        const kept = planHighlights(analysis, 90, spec);
+        assert.ok(kept.some(clip => clip.start === '1:10'));
+    });
+});
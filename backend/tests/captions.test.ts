@@ -0,0 +1,84 @@
+import { before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildHighlightCaptionCues, formatSrt, formatWebVtt } from '../processor/captions.ts';
+import { applyHighlightMapping } from '../processor/highlightPlanner.ts';
+
+before(() => {
+    mock.method(console, 'log', () => {});
+});
+
+const HIGHLIGHTS = [{ start: '0:10', end: '0:20' }, { start: '1:00', end: '1:05' }];
+
+function analysisWith(narrativeSegments: any[]): any {
+    return { highlightTimestamps: HIGHLIGHTS, narrativeSegments };
+}
+
+describe('buildHighlightCaptionCues', () => {
+    test('keeps in-highlight segments on the reel clock and holds each until the next', () => {
+        const cues = buildHighlightCaptionCues(analysisWith([
+            { text: 'Before the reel', timestamp: '0:05' },
+            { text: 'A squirrel!', timestamp: '0:11' },
+            { text: 'Gone again', timestamp: '0:14' },
+            { text: 'Home   stretch', timestamp: '1:02' },
+        ]));
+        assert.deepEqual(cues, [
+            { start: 1, end: 4, text: 'A squirrel!' },
+            { start: 4, end: 10, text: 'Gone again' },
+            { start: 12, end: 15, text: 'Home stretch' },
+        ]);
+    });
+
+    test('gives the same cues before and after applyHighlightMapping', () => {
+        const analysis = analysisWith([{ text: 'A squirrel!', timestamp: '0:11' }, { text: 'Home', timestamp: '1:02' }]);
+        const before = buildHighlightCaptionCues(analysis);
+        applyHighlightMapping(analysis, HIGHLIGHTS);
+        assert.deepEqual(buildHighlightCaptionCues(analysis), before);
+    });
+
+    test('drops blank text and cues shorter than a second', () => {
+        const cues = buildHighlightCaptionCues(analysisWith([
+            { text: '   ', timestamp: '0:12' },
+            { text: 'Last gasp', timestamp: '1:05' },
+        ]));
+        assert.deepEqual(cues, []);
+    });
+});
+
+describe('caption formats', () => {
+    const cues = [
+        { start: 1, end: 4.5, text: 'Treats <now> & later' },
+        { start: 3725, end: 3727, text: 'a --> b' },
+    ];
+
+    test('WebVTT uses dotted milliseconds and escapes markup', () => {
+        assert.equal(formatWebVtt(cues), [
+            'WEBVTT',
+            '',
+            '1',
+            '00:00:01.000 --> 00:00:04.500',
+            'Treats &lt;now&gt; &amp; later',
+            '',
+            '2',
+            '01:02:05.000 --> 01:02:07.000',
+            'a --&gt; b',
+            '',
+        ].join('\n'));
+    });
+
+    test('SRT uses comma milliseconds and defuses timing arrows', () => {
+        assert.equal(formatSrt(cues), [
+            '1',
+            '00:00:01,000 --> 00:00:04,500',
+            'Treats <now> & later',
+            '',
+            '2',
+            '01:02:05,000 --> 01:02:07,000',
+            'a -> b',
+            '',
+        ].join('\n'));
+    });
+
+    test('an empty cue list is still a valid WebVTT file', () => {
+        assert.equal(formatWebVtt([]), 'WEBVTT\n\n');
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { planAnalysisWindows, stitchAnalysisResults } from '../processor/chunkedAnalysis.ts';
+import type { AnalysisResult } from '../processor/videoAnalyzer.ts';
+
+const result = (extra: Partial<AnalysisResult>): AnalysisResult => ({
+    title: '',
+    aiNote: '',
+    narrativeSegments: [],
+    moodData: [],
+    scenery: [],
+    friends: [],
+    timeline: [],
+    highlightTimestamps: [],
+    ...extra,
+});
+const friend = (name: string, type: string, time: string, duration: number, visual_traits: string) =>
+    ({ name, type, timestamp: time, timestamps: [{ time, duration }], duration, visual_traits });
+
+describe('planAnalysisWindows', () => {
+    test('overlaps consecutive windows and ends on the recording', () => {
+        assert.deepEqual(planAnalysisWindows(3000, 1200, 60).map((w) => [w.index, w.total, w.start, w.end]), [
+            [0, 3, 0, 1200],
+            [1, 3, 1140, 2340],
+            [2, 3, 2280, 3000],
+        ]);
+    });
+
+    test('folds a short tail into the last window', () => {
+        assert.deepEqual(planAnalysisWindows(2500, 1200, 60).map((w) => [w.start, w.end]), [[0, 1200], [1140, 2500]]);
+    });
+
+    test('caps the overlap at a quarter window', () => {
+        assert.deepEqual(planAnalysisWindows(100, 40, 60).map((w) => [w.start, w.end]), [[0, 40], [30, 70], [60, 100]]);
+    });
+});
+
+describe('stitchAnalysisResults', () => {
+    const [first, second] = planAnalysisWindows(2500, 1200, 60);
+
+    test('keeps each moment inside an overlap from the window owning it (split at the midpoint)', () => {
+        const stitched = stitchAnalysisResults([
+            { window: second, result: result({
+                timeline: [{ time: '0:20', label: 'Late copy', icon: 'pets' }, { time: '0:50', label: 'Zoomies', icon: 'speed' }],
+            }) },
+            { window: first, result: result({
+                timeline: [{ time: '19:20', label: 'Sniffing', icon: 'search' }, { time: '19:50', label: 'Early copy', icon: 'speed' }],
+            }) },
+        ], 2500);
+        // The midpoint of 1140-1200 is 1170 (19:30).
+        assert.deepEqual(stitched.timeline.map((item) => [item.time, item.label]), [['19:20', 'Sniffing'], ['19:50', 'Zoomies']]);
+    });
+
+    test('merges a friend seen by both windows, even under another name', () => {
+        const traits = 'golden coat, red collar, fluffy tail';
+        const stitched = stitchAnalysisResults([
+            { window: first, result: result({ friends: [friend('Biscuit', 'Golden Retriever', '19:25', 5, traits)] }) },
+            { window: second, result: result({ friends: [friend('Goldie', 'Golden Retriever', '0:45', 8, traits)] }) },
+        ], 2500);
+        assert.equal(stitched.friends.length, 1);
+        assert.equal(stitched.friends[0].name, 'Biscuit');
+        assert.deepEqual(stitched.friends[0].timestamps, [{ time: '19:25', duration: 5 }, { time: '19:45', duration: 8 }]);
+        assert.equal(stitched.friends[0].timestamp, '19:45');
+        assert.equal(stitched.friends[0].frequency, 2);
+        assert.equal(stitched.friends[0].duration, 13);
+    });
+
+    test('keeps look-alikes apart unless name and traits agree', () => {
+        const stitched = stitchAnalysisResults([
+            { window: first, result: result({ friends: [
+                friend('Biscuit', 'Golden Retriever', '2:00', 5, 'golden coat, red collar, fluffy tail'),
+                friend('Luna', 'Tabby Cat', '3:00', 5, 'grey stripes, green eyes'),
+                friend('Pepper', 'Corgi', '4:00', 5, ''),
+            ] }) },
+            { window: second, result: result({ friends: [
+                // Half the trait tokens shared and another name: a different dog.
+                friend('Max', 'Golden Retriever', '5:00', 5, 'golden coat, blue collar, short tail'),
+                // Same name, nothing in common.
+                friend('Luna', 'Tabby Cat', '6:00', 5, 'orange coat, white paws'),
+                // Same name, other breed.
+                friend('Pepper', 'Beagle', '7:00', 5, ''),
+                // Same name and breed, no traits to compare.
+                friend('Pepper', 'Corgi', '8:00', 5, ''),
+            ] }) },
+        ], 2500);
+        assert.deepEqual(stitched.friends.map((f) => [f.name, f.type, f.frequency || 1]), [
+            ['Biscuit', 'Golden Retriever', 1],
+            ['Luna', 'Tabby Cat', 1],
+            ['Pepper', 'Corgi', 2],
+            ['Max', 'Golden Retriever', 1],
+            ['Luna', 'Tabby Cat', 1],
+            ['Pepper', 'Beagle', 1],
+        ]);
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findCheckpointSources, findContentSources, findFinishedTwin } from '../processor/contentCache.ts';
+
+const HASH = 'abc123-1000';
+const raw = { title: 'Park Day', friends: [{ name: 'Coco', type: 'Golden Retriever', timestamp: '0:05' }] };
+
+// Alice's session finished and was edited; Bob uploads the same file for another pet.
+const alice = {
+    id: 'alice-1',
+    visitorId: 'alice',
+    petName: 'Rex',
+    contentHash: HASH,
+    status: 'ready',
+    analysis: { title: "Rex's renamed reel" },
+    rawAnalysis: raw,
+    proxyPath: '/uploads/alice-1-proxy.mp4',
+    completedAt: 2000,
+};
+const bob = { id: 'bob-1', visitorId: 'bob', petName: 'Milo', contentHash: HASH, status: 'processing' };
+
+describe('content cache', () => {
+    test('another owner reuses the raw analysis and the proxy, but not the finished session', () => {
+        const sources = findContentSources([alice, bob], bob);
+        assert.deepEqual(sources.map((s) => s.id), ['alice-1']);
+        assert.equal(findFinishedTwin(sources, bob), null);
+
+        const { analysisSource, proxySource } = findCheckpointSources(sources, (p) => p === alice.proxyPath);
+        assert.equal(analysisSource, alice);
+        assert.equal(proxySource, alice);
+    });
+
+    test('the same owner gets the finished session, if it was planned for the same spec', () => {
+        const again = { id: 'alice-2', visitorId: 'alice', petName: 'Rex', contentHash: HASH, status: 'processing' };
+        const sources = findContentSources([alice, bob, again], again);
+        assert.equal(findFinishedTwin(sources, again), alice);
+        assert.equal(findFinishedTwin(sources, { ...again, highlightSpec: { targetSeconds: 180 } }), null);
+    });
+
+    test('samples, day digests, other content and missing proxies are skipped', () => {
+        const sessions = [
+            { ...alice, id: 'sample', isSample: true, completedAt: 3000 },
+            { ...alice, id: 'day', kind: 'day', completedAt: 3000 },
+            { ...alice, id: 'other', contentHash: 'def456-1000', completedAt: 3000 },
+            { ...alice, id: 'older', completedAt: 1000 },
+            alice,
+            bob,
+        ];
+        const sources = findContentSources(sessions, bob);
+        assert.deepEqual(sources.map((s) => s.id), ['alice-1', 'older']);
+        assert.equal(findCheckpointSources(sources, () => false).proxySource, null);
+        assert.deepEqual(findContentSources(sessions, { ...bob, contentHash: undefined }), []);
+    });
+});
@@ -0,0 +1,97 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Pet } from '../persona/personaTypes.ts';
+
+// The fixture directory is read when the provider module loads, so the environment is
+// set before anything imports it.
+const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'petday-fixtures-'));
+process.env.ANALYSIS_PROVIDER = 'fixture';
+process.env.ANALYSIS_FIXTURE_DIR = fixtureDir;
+const { getAnalysisProvider, setAnalysisProvider } = await import('../processor/analysisProvider.ts');
+const { buildInnatePriorsPrompt } = await import('../persona/personaPrompts.ts');
+const { generateInnatePriors } = await import('../persona/petIdentity.ts');
+
+const sha256 = (value: string | Buffer) => crypto.createHash('sha256').update(value).digest('hex');
+const writeFixture = (relativePath: string, content: unknown) => {
+    const filePath = path.join(fixtureDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+};
+
+const analysis = (title: string) => ({
+    title,
+    aiNote: 'Sniffed everything.',
+    narrativeSegments: [{ text: 'Off we go', timestamp: 5 }],
+    moodData: [{ name: '0:00', value: '60' }],
+    scenery: [],
+    friends: [],
+    timeline: [{ time: '0:10', label: 'Walkies', icon: 'pets' }],
+    highlightTimestamps: [{ start: '0:05', end: '0:15', score: 8 }],
+});
+const pet = { id: 'pet-1', name: 'Rex', species: 'dog', breed: 'Corgi', voicePersona: 'playful' } as unknown as Pet;
+
+let videoPath = '';
+
+before(() => {
+    videoPath = path.join(fixtureDir, 'walk.mp4');
+    fs.writeFileSync(videoPath, 'not really a video');
+    writeFixture('analysis/default.json', analysis('Any Day'));
+    writeFixture(`analysis/${sha256('not really a video')}.json`, analysis('Park Day'));
+    setAnalysisProvider(null);
+});
+
+after(() => {
+    setAnalysisProvider(null);
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+});
+
+describe('fixture provider', () => {
+    test('ANALYSIS_PROVIDER=fixture replays the analysis recorded for the video, through the schema', async () => {
+        const provider = getAnalysisProvider();
+        assert.equal(provider.name, 'fixture');
+
+        const result = await provider.analyzeVideo(videoPath);
+        assert.equal(result.title, 'Park Day');
+        assert.deepEqual(result.moodData, [{ name: '0:00', value: 60 }]);
+        assert.deepEqual(result.narrativeSegments, [{ text: 'Off we go', timestamp: '0:05' }]);
+
+        const otherPath = path.join(fixtureDir, 'other.mp4');
+        fs.writeFileSync(otherPath, 'another recording');
+        assert.equal((await provider.analyzeVideo(otherPath)).title, 'Any Day');
+    });
+
+    test('innate priors come from the recorded reply, and from the templates without one', async () => {
+        const prompt = buildInnatePriorsPrompt({ name: 'Rex', species: 'dog', breed: 'Corgi', lifeStage: undefined });
+        writeFixture(`text/${sha256(`\u0000${prompt}`)}.txt`, JSON.stringify({
+            speciesPriors: ['Every walk is a parade and I lead it.'],
+            breedPriors: ['Short legs, big opinions about the mailman.'],
+            lifeStagePriors: [],
+        }));
+        const recorded = await generateInnatePriors(pet);
+        assert.equal(recorded.source, 'llm');
+        assert.deepEqual(recorded.speciesPriors, ['Every walk is a parade and I lead it.']);
+        assert.deepEqual(recorded.breedPriors, ['Short legs, big opinions about the mailman.']);
+
+        // Unrecorded prompts reply "{}", which fails validation.
+        const unrecorded = await generateInnatePriors({ ...pet, name: 'Milo' });
+        assert.equal(unrecorded.source, 'template');
+    });
+
+    test('chat replies and embeddings are deterministic offline', async () => {
+        const provider = getAnalysisProvider();
+        const chunks: string[] = [];
+        for await (const chunk of provider.streamText('How was the park?', { systemInstruction: 'You are Rex.' })) chunks.push(chunk);
+        assert.deepEqual(chunks, ['*sniffs the air* Mmm, that sounds like a good day to me.']);
+
+        writeFixture(`text/${sha256('You are Rex.\u0000How was the park?')}.txt`, 'Squirrels. So many squirrels.');
+        chunks.length = 0;
+        for await (const chunk of provider.streamText('How was the park?', { systemInstruction: 'You are Rex.' })) chunks.push(chunk);
+        assert.deepEqual(chunks, ['Squirrels. So many squirrels.']);
+
+        assert.deepEqual(await provider.embedText('ball park', 'any'), await provider.embedText('park ball', 'any'));
+    });
+});
@@ -0,0 +1,155 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setAnalysisProvider, type AnalysisProvider } from '../processor/analysisProvider.ts';
+import {
+    addSighting,
+    compareTraits,
+    matchSessionFriends,
+    setFriendImageLoader,
+    withoutEmbeddings,
+} from '../persona/friendGallery.ts';
+import { mergeEdges, splitMergedEdge } from '../persona/relationEdits.ts';
+import type { FriendSighting, PetRelationEdge } from '../persona/personaTypes.ts';
+
+const sighting = (sessionId: string, visualTraits: string, seenAt = 1000, imageUrl?: string): FriendSighting =>
+    ({ sessionId, visualTraits, seenAt, imageUrl });
+const edge = (otherKey: string, gallery: FriendSighting[], overrides: Partial<PetRelationEdge> = {}): PetRelationEdge => ({
+    otherKey,
+    displayName: otherKey.split('|')[0],
+    type: 'friend_pet',
+    status: 'Acquaintance',
+    bondScore: 30,
+    lastInteractionAt: 1000,
+    encounterCount: 2,
+    totalInteractionSeconds: 40,
+    lastSeenAt: 1000,
+    firstSeenAt: 1000,
+    notableMemoryIds: [],
+    gallery,
+    ...overrides,
+});
+const friend = (name: string, type: string, visual_traits: string, url?: string) => ({ name, type, visual_traits, url });
+
+const COCO = 'golden coat, red collar, fluffy tail, brown eyes';
+
+// Crops are named after the animal in them; the fake model calls two crops the same
+// individual when they show the same animal.
+const crops: Record<string, string> = {
+    'coco-1.jpg': 'coco',
+    'coco-2.jpg': 'coco',
+    'sunny-1.jpg': 'sunny',
+};
+function useCrops(available = true) {
+    const compared: string[][] = [];
+    setFriendImageLoader(async (url) => (crops[url] ? Buffer.from(crops[url]) : null));
+    setAnalysisProvider({
+        name: 'test',
+        isTextAvailable: () => available,
+        async compareAnimalCrops(a: Buffer, b: Buffer) {
+            compared.push([a.toString(), b.toString()]);
+            return { sameAnimal: a.equals(b), confidence: a.equals(b) ? 90 : 85 };
+        },
+    } as unknown as AnalysisProvider);
+    return compared;
+}
+
+afterEach(() => {
+    setFriendImageLoader(null);
+    setAnalysisProvider(null);
+});
+
+describe('compareTraits', () => {
+    test('scores shared trait words, or embeddings when both sides have one', () => {
+        const lexical = compareTraits(sighting('s1', COCO), sighting('s2', 'golden coat, red collar, fluffy tail, eyes'));
+        assert.deepEqual([lexical.score, lexical.shortlist, lexical.propose], [0.875, true, true]);
+        assert.equal(compareTraits(sighting('s1', COCO), sighting('s2', 'black coat, blue harness')).shortlist, false);
+        // Without traits on one side, only the crops can tell.
+        assert.deepEqual(compareTraits(sighting('s1', COCO), sighting('s2', '')), { score: 0, shortlist: true, propose: false });
+
+        const embedded = compareTraits({ ...sighting('s1', 'x'), embedding: [1, 0] }, { ...sighting('s2', 'y'), embedding: [0.9, 0.1] });
+        assert.ok(embedded.score > 0.99);
+        assert.equal(embedded.propose, true);
+    });
+});
+
+describe('addSighting', () => {
+    test('keeps the newest six, one per session', () => {
+        let gallery: FriendSighting[] = [];
+        for (let i = 0; i < 8; i++) gallery = addSighting(gallery, sighting(`s${i}`, COCO, i));
+        gallery = addSighting(gallery, sighting('s7', 'updated', 9));
+        assert.deepEqual(gallery.map((s) => s.sessionId), ['s7', 's6', 's5', 's4', 's3', 's2']);
+        assert.equal(gallery[0].visualTraits, 'updated');
+    });
+});
+
+describe('matchSessionFriends', () => {
+    test('proposes a friend whose crop shows the same animal, never one that merely looks alike', async () => {
+        const compared = useCrops();
+        const coco = edge('coco|golden retriever', [sighting('s1', COCO, 1000, 'coco-1.jpg')]);
+        const matches = await matchSessionFriends([coco], [
+            // Same traits, another dog.
+            friend('Sunny', 'Golden Retriever', COCO, 'sunny-1.jpg'),
+        ], 's2', 2000);
+        assert.equal(matches.proposals.size, 0);
+        assert.deepEqual(compared, [['sunny', 'coco']]);
+
+        const renamed = await matchSessionFriends([coco], [friend('Buddy', 'Labrador', 'golden coat, collar, long tail', 'coco-2.jpg')], 's3', 3000);
+        const proposal = renamed.proposals.get('buddy|labrador');
+        assert.deepEqual(proposal && [proposal.otherKey, proposal.score, proposal.method], ['coco|golden retriever', 0.9, 'image']);
+        assert.equal(renamed.sightings.get('buddy|labrador')?.imageUrl, 'coco-2.jpg');
+        // Nothing is applied without the owner: the known edge gains no alias.
+        assert.equal(coco.aliases, undefined);
+    });
+
+    test('falls back to close traits, marked as such, when the crops cannot be compared', async () => {
+        useCrops(false);
+        const coco = edge('coco|golden retriever', [sighting('s1', COCO, 1000, 'coco-1.jpg')]);
+        const matches = await matchSessionFriends([coco], [
+            friend('Buddy', 'Labrador', COCO, 'coco-2.jpg'),
+            friend('Rex', 'Husky', 'blue eyes, black and white coat'),
+        ], 's2', 2000);
+        assert.deepEqual([...matches.proposals.entries()].map(([key, p]) => [key, p.otherKey, p.method]), [
+            ['buddy|labrador', 'coco|golden retriever', 'traits'],
+        ]);
+    });
+
+    test('leaves known keys alone, and skips friends already seen in the same session', async () => {
+        useCrops();
+        const coco = edge('coco|golden retriever', [sighting('s1', COCO, 1000, 'coco-1.jpg')]);
+        const known = await matchSessionFriends([coco], [
+            friend('Coco', 'Golden Retriever', COCO, 'coco-2.jpg'),
+            friend('Buddy', 'Labrador', COCO, 'coco-2.jpg'),
+        ], 's2', 2000);
+        assert.equal(known.proposals.size, 0);
+
+        const sameSession = await matchSessionFriends([coco], [friend('Buddy', 'Labrador', COCO, 'coco-2.jpg')], 's1', 2000);
+        assert.equal(sameSession.proposals.size, 0);
+    });
+});
+
+describe('galleries through owner edits', () => {
+    test('a merge pools sightings and settles the proposal; undoing it takes them back', () => {
+        const target = edge('coco|dog', [sighting('s1', COCO, 1000)]);
+        const source = edge('buddy|dog', [sighting('s2', COCO, 2000)], {
+            proposedMatch: { otherKey: 'coco|dog', score: 0.9, method: 'image', proposedAt: 2000 },
+        });
+        const merged = mergeEdges(target, source, []);
+        assert.deepEqual(merged.gallery?.map((s) => s.sessionId), ['s2', 's1']);
+        assert.equal(merged.proposedMatch, undefined);
+
+        const undone = splitMergedEdge(merged, 'buddy|dog');
+        assert.ok(undone);
+        assert.deepEqual(undone.remaining.gallery?.map((s) => s.sessionId), ['s1']);
+        assert.equal(undone.restored.proposedMatch, undefined);
+        assert.deepEqual(undone.restored.gallery?.map((s) => s.sessionId), ['s2']);
+    });
+
+    test('responses leave embeddings out, merged edges included', () => {
+        const withVector = { ...sighting('s1', COCO), embedding: [0.1, 0.2] };
+        const merged = mergeEdges(edge('coco|dog', [withVector]), edge('buddy|dog', [{ ...withVector, sessionId: 's2' }]), []);
+        const view = withoutEmbeddings(merged);
+        assert.ok(view.gallery?.every((s) => !('embedding' in s)));
+        assert.ok(view.mergedFrom?.[0].edge.gallery?.every((s) => !('embedding' in s)));
+        assert.ok(merged.gallery?.every((s) => s.embedding));
+    });
+});
@@ -0,0 +1,412 @@
+import { before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    ensureFriendsInHighlights,
+    ensureSceneryInHighlights,
+    mapAndFilterForHighlight,
+    mapToHighlightTime,
+    mergeOverlappingSegments,
+    normalizeMoodData,
+    normalizeTimeline,
+    parseEditedHighlightsInput,
+    sanitizeHighlightTimestamps,
+    secondsToTime,
+    timeToSeconds
+} from '../processor/highlightPlanner.ts';
+
+// Edge recordings every normalizer must handle: empty probe, a short clip and a long walk.
+const EDGE_DURATIONS = [
+    { label: '0s', duration: 0 },
+    { label: 'sub-minute', duration: 45 },
+    { label: '2h', duration: 7200 },
+];
+
+before(() => {
+    mock.method(console, 'log', () => {});
+});
+
+describe('timeToSeconds / secondsToTime', () => {
+    const cases: Array<[string, number]> = [
+        ['', 0],
+        ['0:00', 0],
+        ['42', 42],
+        ['0:45', 45],
+        ['1:05', 65],
+        ['59:59', 3599],
+        ['120:00', 7200],
+        ['1:00:00', 3600],
+        ['2:00:00', 7200],
+    ];
+    for (const [input, expected] of cases) {
+        test(`"${input}" -> ${expected}s`, () => {
+            assert.equal(timeToSeconds(input), expected);
+        });
+    }
+
+    const formatCases: Array<[number, string]> = [
+        [0, '0:00'],
+        [9.9, '0:09'],
+        [45, '0:45'],
+        [65, '1:05'],
+        [7200, '120:00'],
+    ];
+    for (const [input, expected] of formatCases) {
+        test(`${input}s -> "${expected}"`, () => {
+            assert.equal(secondsToTime(input), expected);
+        });
+    }
+});
+
+describe('sanitizeHighlightTimestamps', () => {
+    const cases = [
+        {
+            name: 'drops inverted, empty and sub-second clips',
+            duration: 45,
+            input: [
+                { start: '0:10', end: '0:05' },
+                { start: '0:20', end: '0:20' },
+                { start: '', end: '' },
+                { start: '0:01', end: '0:03' },
+            ],
+            expected: [{ start: '0:01', end: '0:03' }],
+        },
+        {
+            name: 'clamps clips to the video duration',
+            duration: 45,
+            input: [{ start: '0:40', end: '1:30' }],
+            expected: [{ start: '0:40', end: '0:45' }],
+        },
+        {
+            name: 'drops clips that start past the end',
+            duration: 45,
+            input: [{ start: '1:00', end: '1:10' }],
+            expected: [],
+        },
+        {
+            name: 'leaves clips unclamped when duration is unknown',
+            duration: 0,
+            input: [{ start: '5:00', end: '5:10' }],
+            expected: [{ start: '5:00', end: '5:10' }],
+        },
+        {
+            name: 'sorts chronologically and keeps extra fields on a 2h recording',
+            duration: 7200,
+            input: [
+                { start: '110:00', end: '110:08', score: 9 },
+                { start: '1:00:00', end: '1:00:06', source: 'friend' },
+            ],
+            expected: [
+                { start: '60:00', end: '60:06', source: 'friend' },
+                { start: '110:00', end: '110:08', score: 9 },
+            ],
+        },
+    ];
+    for (const c of cases) {
+        test(c.name, () => {
+            assert.deepEqual(sanitizeHighlightTimestamps(c.input as any[], c.duration), c.expected);
+        });
+    }
+
+    test('returns an empty list for missing input', () => {
+        assert.deepEqual(sanitizeHighlightTimestamps(undefined, 45), []);
+    });
+});
+
+describe('mergeOverlappingSegments', () => {
+    const cases = [
+        {
+            name: 'keeps separated segments apart',
+            input: [{ start: '0:00', end: '0:05' }, { start: '0:10', end: '0:15' }],
+            expected: [{ start: '0:00', end: '0:05' }, { start: '0:10', end: '0:15' }],
+        },
+        {
+            name: 'merges segments within the 2 second gap',
+            input: [{ start: '0:00', end: '0:05', score: 4 }, { start: '0:07', end: '0:12', score: 9 }],
+            expected: [{ start: '0:00', end: '0:12', score: 9, isHighQuality: undefined }],
+        },
+        {
+            name: 'keeps the later end when a segment is nested',
+            input: [{ start: '0:00', end: '0:20' }, { start: '0:05', end: '0:10' }],
+            expected: [{ start: '0:00', end: '0:20', score: 0, isHighQuality: undefined }],
+        },
+        {
+            name: 'upgrades friend + scenery overlaps to the combo source',
+            input: [
+                { start: '0:00', end: '0:06', source: 'friend', friendName: 'Mochi' },
+                { start: '0:04', end: '0:09', source: 'scenery', isHighQuality: true },
+            ],
+            expected: [{
+                start: '0:00', end: '0:09', source: 'friend+scenery', friendName: 'Mochi', isHighQuality: true, score: 0,
+            }],
+        },
+        {
+            name: 'keeps the higher priority source',
+            input: [
+                { start: '0:00', end: '0:06', source: 'food' },
+                { start: '0:05', end: '0:09', source: 'safety' },
+            ],
+            expected: [{ start: '0:00', end: '0:09', source: 'safety', friendName: undefined, isHighQuality: undefined, score: 0 }],
+        },
+    ];
+    for (const c of cases) {
+        test(c.name, () => {
+            assert.deepEqual(mergeOverlappingSegments(c.input), c.expected);
+        });
+    }
+});
+
+describe('ensureFriendsInHighlights', () => {
+    test('returns highlights untouched when there are no friends', () => {
+        const highlights = [{ start: '0:00', end: '0:05' }];
+        assert.equal(ensureFriendsInHighlights([], highlights, 45), highlights);
+    });
+
+    test('adds a buffered segment for an uncovered friend', () => {
+        const result = ensureFriendsInHighlights(
+            [{ name: 'Mochi', timestamp: '0:20', duration: 4 }],
+            [{ start: '0:00', end: '0:05' }],
+            45
+        );
+        assert.deepEqual(result, [
+            { start: '0:00', end: '0:05' },
+            { start: '0:17', end: '0:24', source: 'friend', friendName: 'Mochi', isHighQuality: false },
+        ]);
+    });
+
+    test('skips friends already inside a highlight', () => {
+        const result = ensureFriendsInHighlights(
+            [{ name: 'Mochi', timestamp: '0:03' }],
+            [{ start: '0:00', end: '0:05' }],
+            45
+        );
+        assert.deepEqual(result, [{ start: '0:00', end: '0:05' }]);
+    });
+
+    for (const { label, duration } of EDGE_DURATIONS) {
+        test(`keeps friend segments inside a ${label} recording`, () => {
+            const lastSecond = Math.max(0, duration - 1);
+            const result = ensureFriendsInHighlights(
+                [{ name: 'Biscuit', timestamps: [{ time: '0:00' }, { time: secondsToTime(lastSecond) }] }],
+                [],
+                duration
+            );
+            assert.ok(result.length >= 1);
+            for (const seg of result) {
+                assert.ok(timeToSeconds(seg.start) >= 0);
+                assert.ok(timeToSeconds(seg.end) <= Math.max(duration, 0));
+            }
+        });
+    }
+});
+
+describe('ensureSceneryInHighlights', () => {
+    test('ignores scenery shorter than 3 seconds', () => {
+        const result = ensureSceneryInHighlights(
+            [{ timestamp: '0:30', stayDuration: 2 }],
+            [],
+            45
+        );
+        assert.deepEqual(result, []);
+    });
+
+    test('adds high-quality scenery and flags proximity to a friend', () => {
+        const result = ensureSceneryInHighlights(
+            [{ timestamp: '0:30', stayDuration: 8, sceneryLabel: 'Pond' }],
+            [{ start: '0:20', end: '0:24', source: 'friend', friendName: 'Mochi' }],
+            45
+        );
+        assert.deepEqual(result, [
+            { start: '0:20', end: '0:24', source: 'friend', friendName: 'Mochi' },
+            { start: '0:28', end: '0:35', source: 'scenery', isHighQuality: true, isNearFriend: true },
+        ]);
+    });
+
+    test('upgrades a covering friend segment to friend+scenery', () => {
+        const result = ensureSceneryInHighlights(
+            [{ timestamp: '0:22', stayDuration: 6 }],
+            [{ start: '0:20', end: '0:24', source: 'friend', friendName: 'Mochi' }],
+            45
+        );
+        assert.deepEqual(result, [
+            { start: '0:20', end: '0:24', source: 'friend+scenery', friendName: 'Mochi', isHighQuality: true },
+        ]);
+    });
+
+    test('clips new scenery segments at the end of the video', () => {
+        const result = ensureSceneryInHighlights(
+            [{ timestamp: '119:58', stayDuration: 10 }],
+            [],
+            7200
+        );
+        assert.deepEqual(result, [
+            { start: '119:56', end: '120:00', source: 'scenery', isHighQuality: true, isNearFriend: false },
+        ]);
+    });
+});
+
+describe('normalizeMoodData', () => {
+    for (const { label, duration } of EDGE_DURATIONS) {
+        test(`resamples a ${label} recording to 20-30 points spanning the video`, () => {
+            const mood = normalizeMoodData(
+                [{ name: '0:05', value: 140 }, { name: '0:05', value: 80 }, { name: '999:00', value: -5 }],
+                duration
+            );
+            const safeDuration = Math.max(1, Math.round(duration));
+            assert.ok(mood.length >= 20 && mood.length <= 30, `got ${mood.length} points`);
+            assert.equal(mood[0].name, '0:00');
+            assert.equal(timeToSeconds(mood[mood.length - 1].name), safeDuration);
+            for (let i = 1; i < mood.length; i++) {
+                assert.ok(timeToSeconds(mood[i].name) >= timeToSeconds(mood[i - 1].name));
+            }
+            for (const point of mood) assert.ok(point.value >= 0 && point.value <= 100);
+        });
+    }
+
+    test('fills a flat 50 curve when no mood data is present', () => {
+        const mood = normalizeMoodData(undefined, 45);
+        assert.equal(mood.length, 20);
+        assert.ok(mood.every(point => point.value === 50));
+    });
+
+    test('interpolates between samples', () => {
+        const mood = normalizeMoodData([{ name: '0:00', value: 0 }, { name: '4:00', value: 100 }], 240);
+        assert.equal(mood.length, 20);
+        assert.equal(mood[0].value, 0);
+        assert.equal(mood[mood.length - 1].value, 100);
+        for (const point of mood) {
+            const expected = (timeToSeconds(point.name) / 240) * 100;
+            assert.ok(Math.abs(point.value - expected) <= 1, `${point.name} -> ${point.value}`);
+        }
+    });
+});
+
+describe('normalizeTimeline', () => {
+    for (const { label, duration } of EDGE_DURATIONS) {
+        test(`produces 15-20 ordered beats inside a ${label} recording`, () => {
+            const mood = normalizeMoodData([{ name: '0:10', value: 90 }, { name: '0:30', value: 20 }], duration);
+            const timeline = normalizeTimeline(
+                [
+                    { time: '0:02', label: ' Sniff ', icon: 'search' },
+                    { time: '0:02', label: 'Duplicate second', icon: 'pets' },
+                    { time: '0:20', label: '', icon: 'not_an_icon' },
+                ],
+                mood,
+                duration
+            );
+            const safeDuration = Math.max(1, Math.round(duration));
+            assert.ok(timeline.length >= 15 && timeline.length <= 20, `got ${timeline.length} beats`);
+            for (let i = 0; i < timeline.length; i++) {
+                const sec = timeToSeconds(timeline[i].time);
+                assert.ok(sec >= 0 && sec <= safeDuration, `${timeline[i].time} outside 0-${safeDuration}s`);
+                if (i > 0) assert.ok(sec >= timeToSeconds(timeline[i - 1].time));
+                assert.ok(timeline[i].label.length > 0);
+            }
+        });
+    }
+
+    test('keeps at most 20 beats from a dense AI timeline', () => {
+        const dense = Array.from({ length: 60 }, (_, i) => ({ time: secondsToTime(i * 10), label: `Beat ${i}`, icon: 'pets' }));
+        const timeline = normalizeTimeline(dense, normalizeMoodData([], 600), 600);
+        assert.equal(timeline.length, 20);
+        assert.equal(timeline[0].label, 'Beat 0');
+        assert.equal(timeline[timeline.length - 1].label, 'Beat 59');
+    });
+
+    test('trims labels and replaces unknown icons', () => {
+        const timeline = normalizeTimeline(
+            [{ time: '0:02', label: ' Sniff ', icon: 'not_an_icon' }],
+            normalizeMoodData([], 300),
+            300
+        );
+        assert.deepEqual(timeline[0], { time: '0:02', label: 'Sniff', icon: 'timeline' });
+    });
+});
+
+describe('mapToHighlightTime', () => {
+    const highlights = [
+        { start: '0:10', end: '0:20' },
+        { start: '1:00', end: '1:30' },
+        { start: '110:00', end: '110:15' },
+    ];
+    const cases: Array<[string, string | null]> = [
+        ['0:05', null],
+        ['0:10', '0:00'],
+        ['0:15', '0:05'],
+        ['0:20', '0:10'],
+        ['0:30', null],
+        ['1:00', '0:10'],
+        ['1:29', '0:39'],
+        ['110:05', '0:45'],
+        ['1:50:15', '0:55'],
+        ['119:00', null],
+    ];
+    for (const [input, expected] of cases) {
+        test(`${input} -> ${expected ?? 'unmapped'}`, () => {
+            assert.equal(mapToHighlightTime(input, highlights), expected);
+        });
+    }
+
+    test('returns null without highlights', () => {
+        assert.equal(mapToHighlightTime('0:10', []), null);
+    });
+});
+
+describe('mapAndFilterForHighlight', () => {
+    const highlights = [{ start: '0:10', end: '0:20' }, { start: '0:40', end: '0:45' }];
+
+    test('maps covered entries and drops the rest', () => {
+        const timeline = [
+            { time: '0:05', label: 'Before' },
+            { time: '0:12', label: 'Inside' },
+            { time: '0:42', label: 'Second clip' },
+        ];
+        assert.deepEqual(mapAndFilterForHighlight(timeline, 'time', 'originalTime', highlights), [
+            { time: '0:02', label: 'Inside', originalTime: '0:12', isMapped: true },
+            { time: '0:12', label: 'Second clip', originalTime: '0:42', isMapped: true },
+        ]);
+    });
+
+    test('maps from the original time so re-mapping is idempotent', () => {
+        const once = mapAndFilterForHighlight([{ name: '0:15', value: 70 }], 'name', 'originalTime', highlights);
+        const twice = mapAndFilterForHighlight(once, 'name', 'originalTime', highlights);
+        assert.deepEqual(twice, once);
+        assert.equal(twice[0].name, '0:05');
+    });
+
+    test('skips malformed entries and empty highlight lists', () => {
+        assert.deepEqual(mapAndFilterForHighlight([null as any, { label: 'no time' } as any], 'time', 'originalTime', highlights), []);
+        assert.deepEqual(mapAndFilterForHighlight([{ time: '0:12' }], 'time', 'originalTime', []), []);
+        assert.deepEqual(mapAndFilterForHighlight(undefined, 'time', 'originalTime', highlights), []);
+    });
+});
+
+describe('parseEditedHighlightsInput', () => {
+    test('accepts seconds or M:SS, sorts, merges overlaps and tags user clips', () => {
+        const result = parseEditedHighlightsInput([
+            { start: '1:00', end: '1:10' },
+            { start: 5, end: 12 },
+            { start: '0:10', end: '0:20', source: 'friend', friendName: 'Mochi' },
+        ], 600);
+        assert.ok('clips' in result);
+        assert.deepEqual(result.clips.map(({ start, end, source, friendName }) => ({ start, end, source, friendName })), [
+            { start: '0:05', end: '0:20', source: 'friend', friendName: 'Mochi' },
+            { start: '1:00', end: '1:10', source: 'user', friendName: undefined },
+        ]);
+    });
+
+    const rejected = [
+        { name: 'non-arrays', input: { start: '0:01', end: '0:05' }, error: /non-empty array/ },
+        { name: 'empty lists', input: [], error: /non-empty array/ },
+        { name: 'inverted clips, naming them', input: [{ start: '0:05', end: '0:01' }], error: /0:05-0:01/ },
+        { name: 'clips past the end of the recording', input: [{ start: '11:00', end: '11:05' }], error: /10:00 recording/ },
+        { name: 'reels longer than the edit budget', input: [{ start: '0:00', end: '5:00' }], error: /300s/ },
+        { name: 'too many clips', input: Array.from({ length: 41 }, (_, i) => ({ start: i * 2, end: i * 2 + 1 })), error: /at most 40/ },
+    ];
+    for (const c of rejected) {
+        test(`rejects ${c.name}`, () => {
+            const result = parseEditedHighlightsInput(c.input, 600);
+            assert.ok('error' in result);
+            assert.match(result.error, c.error);
+        });
+    }
+});
@@ -0,0 +1,79 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    DEFAULT_HIGHLIGHT_SPEC,
+    buildHighlightPromptGuidance,
+    getHighlightLimits,
+    isSameHighlightSpec,
+    normalizeHighlightSpec,
+    parseHighlightSpecInput
+} from '../processor/highlightSpec.ts';
+
+describe('parseHighlightSpecInput', () => {
+    const accepted = [
+        { name: 'missing spec takes the default', input: undefined, expected: DEFAULT_HIGHLIGHT_SPEC },
+        { name: 'empty multipart field takes the default', input: '', expected: DEFAULT_HIGHLIGHT_SPEC },
+        {
+            name: 'JSON string from a multipart form',
+            input: '{"targetSeconds":15,"style":"social"}',
+            expected: { ...DEFAULT_HIGHLIGHT_SPEC, targetSeconds: 15, style: 'social' },
+        },
+        {
+            name: 'partial mandatory overrides keep the other defaults',
+            input: { targetSeconds: '180', mandatory: { food: false } },
+            expected: { ...DEFAULT_HIGHLIGHT_SPEC, targetSeconds: 180, mandatory: { ...DEFAULT_HIGHLIGHT_SPEC.mandatory, food: false } },
+        },
+    ];
+    for (const c of accepted) {
+        test(c.name, () => {
+            assert.deepEqual(parseHighlightSpecInput(c.input), { spec: c.expected });
+        });
+    }
+
+    const rejected = [
+        { name: 'broken JSON', input: '{targetSeconds:', error: /valid JSON/ },
+        { name: 'arrays', input: [60], error: /must be an object/ },
+        { name: 'unsupported lengths', input: { targetSeconds: 45 }, error: /15, 30, 60, 180/ },
+        { name: 'unknown styles', input: { style: 'dramatic' }, error: /balanced, action, scenic, social/ },
+        { name: 'unknown mandatory keys', input: { mandatory: { naps: true } }, error: /naps/ },
+        { name: 'non-boolean mandatory flags', input: { mandatory: { friends: 'yes' } }, error: /mandatory\.friends/ },
+        { name: 'non-boolean caption flags', input: { burnCaptions: 'on' }, error: /burnCaptions/ },
+        { name: 'unknown render modes', input: { renderMode: 'cinematic' }, error: /standard, polished/ },
+    ];
+    for (const c of rejected) {
+        test(`rejects ${c.name}`, () => {
+            const result = parseHighlightSpecInput(c.input);
+            assert.ok('error' in result);
+            assert.match(result.error, c.error);
+        });
+    }
+});
+
+describe('normalizeHighlightSpec', () => {
+    test('stored garbage falls back to the default', () => {
+        assert.deepEqual(normalizeHighlightSpec({ targetSeconds: 999, style: 42, mandatory: { scenery: 'no' } }), DEFAULT_HIGHLIGHT_SPEC);
+    });
+
+    test('sessions without a spec match an explicit default', () => {
+        assert.equal(isSameHighlightSpec(undefined, { targetSeconds: 60, style: 'balanced' }), true);
+        assert.equal(isSameHighlightSpec(undefined, { targetSeconds: 30 }), false);
+    });
+});
+
+describe('getHighlightLimits / buildHighlightPromptGuidance', () => {
+    test('the default spec keeps the 120s ceiling and the original prompt line', () => {
+        assert.deepEqual(getHighlightLimits(DEFAULT_HIGHLIGHT_SPEC), { maxSeconds: 120, overageSeconds: 5 });
+        assert.equal(buildHighlightPromptGuidance(DEFAULT_HIGHLIGHT_SPEC), '   Duration: Target ~60s, never exceed 120s total.');
+    });
+
+    test('presets add style and optional-coverage lines', () => {
+        const guidance = buildHighlightPromptGuidance(normalizeHighlightSpec({
+            targetSeconds: 15,
+            style: 'action',
+            mandatory: { scenery: false, food: false },
+        }));
+        assert.match(guidance, /Target ~15s, never exceed 15s total/);
+        assert.match(guidance, /ACTION-HEAVY/);
+        assert.match(guidance, /Coverage of scenery, food moments is optional/);
+    });
+});
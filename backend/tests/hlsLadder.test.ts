@@ -0,0 +1,65 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildHlsCommand, listHlsFiles, planHlsRenditions } from '../processor/hlsLadder.ts';
+
+const sizes = (source: { width: number; height: number }) =>
+    planHlsRenditions(source).map(r => `${r.name} ${r.width}x${r.height}`);
+
+describe('planHlsRenditions', () => {
+    test('a 1080p source gets the full ladder', () => {
+        assert.deepEqual(sizes({ width: 1920, height: 1080 }), ['360p 640x360', '720p 1280x720', '1080p 1920x1080']);
+    });
+
+    test('never upscales past the source', () => {
+        assert.deepEqual(sizes({ width: 1280, height: 720 }), ['360p 640x360', '720p 1280x720']);
+    });
+
+    test('portrait recordings are sized on the short side', () => {
+        assert.deepEqual(sizes({ width: 1080, height: 1920 }), ['360p 360x640', '720p 720x1280', '1080p 1080x1920']);
+    });
+
+    test('tiny sources keep a single rung at their own size', () => {
+        assert.deepEqual(sizes({ width: 426, height: 240 }), ['360p 426x240']);
+    });
+
+    test('odd scaled sizes are rounded to even dimensions', () => {
+        for (const r of planHlsRenditions({ width: 1440, height: 1080 })) {
+            assert.equal(r.width % 2, 0);
+            assert.equal(r.height % 2, 0);
+        }
+    });
+});
+
+describe('buildHlsCommand', () => {
+    const renditions = planHlsRenditions({ width: 1280, height: 720 });
+
+    test('maps audio into every variant when the source has it', () => {
+        const command = buildHlsCommand('in.mp4', '/tmp/out', renditions, true);
+        assert.match(command, /-var_stream_map "v:0,a:0,name:360p v:1,a:1,name:720p"/);
+        assert.match(command, /split=2\[v0\]\[v1\]/);
+    });
+
+    test('video-only sources map no audio', () => {
+        const command = buildHlsCommand('in.mp4', '/tmp/out', renditions, false);
+        assert.match(command, /-var_stream_map "v:0,name:360p v:1,name:720p"/);
+        assert.doesNotMatch(command, /0:a:0/);
+    });
+});
+
+describe('listHlsFiles', () => {
+    test('lists playlists and segments relative to the ladder directory', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hls-test-'));
+        try {
+            fs.mkdirSync(path.join(dir, '360p'));
+            fs.writeFileSync(path.join(dir, 'master.m3u8'), '#EXTM3U');
+            fs.writeFileSync(path.join(dir, '360p', 'index.m3u8'), '#EXTM3U');
+            fs.writeFileSync(path.join(dir, '360p', 'seg_0000.ts'), '');
+            assert.deepEqual(listHlsFiles(dir), ['360p/index.m3u8', '360p/seg_0000.ts', 'master.m3u8']);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cancelHandledBy, isLeaseExpired, isOwnedElsewhere, isRecoverableJob, isRecoverableLadder, leaseFor, planCancel } from '../processor/jobLease.ts';
+
+const NOW = 1_000_000;
+
+describe('job leases', () => {
+    test('a lease lives until its expiry', () => {
+        const lease = leaseFor('a', NOW, 90_000);
+        assert.deepEqual(lease, { owner: 'a', heartbeatAt: NOW, leaseExpiresAt: NOW + 90_000 });
+        assert.equal(isLeaseExpired(lease, NOW + 89_999), false);
+        assert.equal(isLeaseExpired(lease, NOW + 90_000), true);
+    });
+
+    test('jobs from before leases existed count as lapsed', () => {
+        assert.equal(isLeaseExpired({ state: 'running' } as any, NOW), true);
+        assert.equal(isLeaseExpired(null, NOW), true);
+    });
+
+    test('another instance keeps its live job; its own and lapsed jobs are recoverable', () => {
+        const session = { status: 'processing', job: { state: 'running', ...leaseFor('a', NOW, 90_000) } };
+        assert.equal(isOwnedElsewhere(session.job, 'b', NOW), true);
+        assert.equal(isRecoverableJob(session, 'b', NOW), false);
+        assert.equal(isRecoverableJob(session, 'a', NOW), true);
+        assert.equal(isRecoverableJob(session, 'b', NOW + 90_000), true);
+        assert.equal(isRecoverableJob({ ...session, status: 'ready' }, 'b', NOW + 90_000), false);
+    });
+
+    test('a cancel for a job another instance is running is left to that owner', () => {
+        const job = { state: 'running', ...leaseFor('a', NOW, 90_000) };
+        assert.equal(cancelHandledBy(job, 'b', NOW), 'owner');
+        assert.equal(cancelHandledBy(job, 'a', NOW), 'here');
+        // The owner died: nobody will pick the request up, so cancel straight away.
+        assert.equal(cancelHandledBy(job, 'b', NOW + 90_000), 'here');
+        assert.equal(cancelHandledBy(null, 'b', NOW), 'here');
+    });
+
+    test('an HLS ladder is left to the instance packaging it until its lease lapses', () => {
+        const ladder = { status: 'running', ...leaseFor('a', NOW, 90_000) };
+        assert.equal(isRecoverableLadder(ladder, 'b', NOW), false);
+        assert.equal(isRecoverableLadder(ladder, 'a', NOW), true);
+        assert.equal(isRecoverableLadder(ladder, 'b', NOW + 90_000), true);
+        // Ladders from before leases, and finished ones.
+        assert.equal(isRecoverableLadder({ status: 'pending' }, 'b', NOW), true);
+        assert.equal(isRecoverableLadder({ ...ladder, status: 'ready' }, 'b', NOW + 90_000), false);
+    });
+
+    test('the cancel route dequeues, aborts, flags the owner or cancels on the spot', () => {
+        const idle = { queued: false, running: false };
+        const processing = { status: 'processing', job: { state: 'running', ...leaseFor('a', NOW, 90_000) } };
+        assert.equal(planCancel({ ...processing, status: 'ready' }, idle, true, 'b', NOW), 'reject');
+        assert.equal(planCancel(processing, { queued: true, running: false }, true, 'a', NOW), 'dequeue');
+        assert.equal(planCancel(processing, { queued: false, running: true }, true, 'a', NOW), 'abort');
+        assert.equal(planCancel(processing, idle, true, 'b', NOW), 'flag');
+        // Without a shared store nobody else could be running it; a lapsed owner is gone.
+        assert.equal(planCancel(processing, idle, false, 'b', NOW), 'mark');
+        assert.equal(planCancel(processing, idle, true, 'b', NOW + 90_000), 'mark');
+    });
+});
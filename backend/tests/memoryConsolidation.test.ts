@@ -0,0 +1,105 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    buildSemanticMemory,
+    clusterEpisodicMemories,
+    decayedImportance,
+    planConsolidation,
+} from '../persona/memoryConsolidation.ts';
+import type { Pet, PetMemory } from '../persona/personaTypes.ts';
+
+const DAY = 86_400_000;
+const NOW = Date.UTC(2026, 9, 1);
+
+const memory = (id: string, overrides: Partial<PetMemory> = {}): PetMemory => ({
+    id,
+    petId: 'pet-1',
+    ownerKey: 'owner',
+    type: 'episodic',
+    text: `memory ${id}`,
+    importance: 6,
+    importanceCurrent: 6,
+    decayBaseline: 6,
+    confidence: 70,
+    strength: 1,
+    source: {},
+    lastAccessedAt: NOW - 30 * DAY,
+    accessCount: 0,
+    createdAt: NOW - 30 * DAY,
+    ...overrides,
+});
+
+describe('decayedImportance', () => {
+    test('halves over the half-life of idle time', () => {
+        assert.equal(decayedImportance(memory('a', { createdAt: NOW - 45 * DAY, lastAccessedAt: 0 }), NOW), 3);
+    });
+
+    test('access and repeated observation slow the decay', () => {
+        const idle = { createdAt: NOW - 45 * DAY, lastAccessedAt: 0 };
+        const cited = decayedImportance(memory('a', { ...idle, accessCount: 3 }), NOW);
+        const reobserved = decayedImportance(memory('b', { ...idle, strength: 4 }), NOW);
+        assert.ok(cited > 4 && cited < 6);
+        assert.ok(reobserved > 4 && reobserved < 6);
+    });
+
+    test('never raises a memory above its current importance', () => {
+        assert.equal(decayedImportance(memory('a', { importanceCurrent: 2, lastAccessedAt: NOW }), NOW), 2);
+    });
+});
+
+describe('clusterEpisodicMemories', () => {
+    test('groups three or more near-identical old episodic memories', () => {
+        const walk = [1, 0, 0];
+        const nap = [0, 1, 0];
+        const memories = [
+            memory('w1', { embedding: walk }),
+            memory('w2', { embedding: [0.98, 0.05, 0] }),
+            memory('w3', { embedding: [0.97, 0, 0.05] }),
+            memory('n1', { embedding: nap }),
+            memory('n2', { embedding: nap }),
+            memory('w4', { embedding: walk, createdAt: NOW - 2 * DAY }),
+            memory('w5', { embedding: walk, userVerdict: 'confirmed' }),
+            memory('w6', { embedding: walk, type: 'social' }),
+        ];
+        assert.deepEqual(clusterEpisodicMemories(memories, NOW).map(c => c.map(m => m.id)), [['w1', 'w2', 'w3']]);
+    });
+});
+
+describe('planConsolidation', () => {
+    test('archives faded memories but never protected ones', () => {
+        const faded = { importanceCurrent: 0.8, decayBaseline: 1, importance: 1 };
+        const plan = planConsolidation([
+            memory('keep'),
+            memory('fade', faded),
+            memory('fact', { ...faded, type: 'user_fact' }),
+            memory('gone', { archived: true }),
+        ], NOW);
+        assert.deepEqual(plan.archived.map(m => m.id), ['fade']);
+        assert.equal(plan.liveBefore, 3);
+        assert.equal(plan.liveAfter, 2);
+    });
+
+    test('reports decay without touching the memories', () => {
+        const m = memory('a', { createdAt: NOW - 90 * DAY, lastAccessedAt: 0 });
+        const plan = planConsolidation([m], NOW);
+        assert.deepEqual(plan.decayed, [{ id: 'a', from: 6, to: 1.5 }]);
+        assert.equal(m.importanceCurrent, 6);
+    });
+});
+
+describe('buildSemanticMemory', () => {
+    test('keeps the strongest evidence and links back to its members', () => {
+        const members = [
+            memory('a', { importance: 4, relatedPetIds: ['rex'], strength: 2, embedding: [1, 0] }),
+            memory('b', { importance: 7, importanceCurrent: 5, relatedPetIds: ['rex', 'milo'], embedding: [0, 1], createdAt: NOW - DAY }),
+        ];
+        const semantic = buildSemanticMemory({ id: 'pet-1', ownerKey: 'owner' } as Pet, members, { text: 'I always greet Rex.' });
+        assert.equal(semantic.type, 'semantic');
+        assert.equal(semantic.importance, 7);
+        assert.equal(semantic.strength, 3);
+        assert.equal(semantic.createdAt, NOW - DAY);
+        assert.deepEqual(semantic.relatedPetIds, ['rex', 'milo']);
+        assert.deepEqual(semantic.consolidatedFrom, ['a', 'b']);
+        assert.deepEqual(semantic.embedding, [0.5, 0.5]);
+    });
+});
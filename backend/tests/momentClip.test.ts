@@ -0,0 +1,66 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildMomentClipKey, momentClipArgs, parseMomentClipInput, planMomentWindow } from '../processor/momentClip.ts';
+
+describe('planMomentWindow', () => {
+    const cases = [
+        { name: 'centres the window on the moment', center: 30, seconds: 4, duration: 120, expected: { start: 28, seconds: 4 } },
+        { name: 'slides forward at the start of the recording', center: 1, seconds: 6, duration: 120, expected: { start: 0, seconds: 6 } },
+        { name: 'slides back at the end of the recording', center: 119, seconds: 4, duration: 120, expected: { start: 116, seconds: 4 } },
+        { name: 'shrinks to fit a recording shorter than the clip', center: 1, seconds: 6, duration: 3, expected: { start: 0, seconds: 3 } },
+        { name: 'unknown duration only clamps at zero', center: 500, seconds: 2, duration: 0, expected: { start: 499, seconds: 2 } },
+    ];
+    for (const c of cases) {
+        test(c.name, () => {
+            assert.deepEqual(planMomentWindow(c.center, c.seconds, c.duration), c.expected);
+        });
+    }
+});
+
+describe('parseMomentClipInput', () => {
+    test('defaults to a 4s GIF around an M:SS timestamp', () => {
+        assert.deepEqual(parseMomentClipInput({ timestamp: '1:05' }, 300), { clip: { start: 63, seconds: 4, format: 'gif' } });
+    });
+
+    test('accepts seconds and other formats', () => {
+        assert.deepEqual(parseMomentClipInput({ timestamp: 12.5, seconds: 3, format: 'webp' }, 300), {
+            clip: { start: 11, seconds: 3, format: 'webp' },
+        });
+    });
+
+    const rejected = [
+        { name: 'missing timestamps', input: {}, error: /timestamp must be/ },
+        { name: 'free-text timestamps', input: { timestamp: 'soon' }, error: /timestamp must be/ },
+        { name: 'moments past the end', input: { timestamp: '9:00' }, error: /past the end of the 5:00 recording/ },
+        { name: 'clips that are too short', input: { timestamp: '0:10', seconds: 1 }, error: /between 2 and 6/ },
+        { name: 'clips that are too long', input: { timestamp: '0:10', seconds: 10 }, error: /between 2 and 6/ },
+        { name: 'unknown formats', input: { timestamp: '0:10', format: 'avi' }, error: /gif, mp4, webp/ },
+    ];
+    for (const c of rejected) {
+        test(`rejects ${c.name}`, () => {
+            const result = parseMomentClipInput(c.input, 300);
+            assert.ok('error' in result);
+            assert.match(result.error, c.error);
+        });
+    }
+});
+
+describe('buildMomentClipKey / momentClipArgs', () => {
+    test('keys are filename-safe and distinguish window and format', () => {
+        assert.equal(buildMomentClipKey({ start: 11, seconds: 3, format: 'webp' }), 'moment-11_0s-3s.webp');
+        assert.notEqual(
+            buildMomentClipKey({ start: 11, seconds: 3, format: 'gif' }),
+            buildMomentClipKey({ start: 11, seconds: 4, format: 'gif' })
+        );
+    });
+
+    test('GIFs get a per-clip palette and loop forever', () => {
+        const args = momentClipArgs({ start: 0, seconds: 4, format: 'gif' });
+        assert.match(args, /palettegen=stats_mode=diff/);
+        assert.match(args, /-loop 0$/);
+    });
+
+    test('MP4 loops are muted', () => {
+        assert.match(momentClipArgs({ start: 0, seconds: 4, format: 'mp4' }), / -an /);
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { groupDaySessions, layoutDayClips, mergeDayAnalyses, selectDayHighlights } from '../processor/petDay.ts';
+
+// 2026-03-14 08:00 and 23:30 in Los Angeles; the second is already the 15th in UTC.
+const MORNING = Date.UTC(2026, 2, 14, 15, 0);
+const LATE = Date.UTC(2026, 2, 15, 6, 30);
+
+const clip = (id: string, recordedAt: number, overrides: any = {}) => ({
+    id,
+    status: 'ready',
+    petName: 'Rex',
+    visitorId: 'alice',
+    recordedAt,
+    originalDuration: 60,
+    analysis: {
+        aiNote: `Note ${id}`,
+        moodData: [{ name: '0:10', value: 50 }],
+        timeline: [{ time: '0:05', label: 'Walk', icon: 'pets' }],
+        friends: [{ name: 'Coco', type: 'Golden Retriever', timestamp: '0:20', timestamps: [{ time: '0:20', duration: 4 }], duration: 4, frequency: 1 }],
+        highlightTimestamps: [{ start: '0:10', end: '0:20', score: 5 }],
+    },
+    ...overrides,
+});
+
+describe('day grouping', () => {
+    test('groups one pet by the owner\'s local date, in recording order', () => {
+        const sessions = [
+            clip('late', LATE),
+            clip('morning', MORNING),
+            clip('bob', MORNING, { visitorId: 'bob' }),
+            clip('milo', MORNING, { petName: 'Milo' }),
+            clip('sample', MORNING, { isSample: true }),
+            clip('pending', MORNING, { status: 'processing' }),
+        ];
+        const inLosAngeles = groupDaySessions(sessions, 'alice', 'America/Los_Angeles');
+        assert.deepEqual([...inLosAngeles.entries()].map(([key, group]) => [key, group.map((s) => s.id)]), [
+            ['rex|2026-03-14', ['morning', 'late']],
+            ['milo|2026-03-14', ['milo']],
+        ]);
+        // In UTC the late clip falls on the next day.
+        assert.deepEqual([...groupDaySessions(sessions, 'alice').keys()], ['rex|2026-03-15', 'rex|2026-03-14', 'milo|2026-03-14']);
+    });
+});
+
+describe('day merge', () => {
+    test('lays clips out where they were filmed and shifts their arrays onto the day clock', () => {
+        const { clips, dayDuration } = layoutDayClips([clip('a', MORNING), clip('b', MORNING + 90_000), clip('c', MORNING + 100_000)]);
+        // b starts 90s in; c overlaps it by clock skew and starts where b ends.
+        assert.deepEqual(clips.map((c) => c.offset), [0, 90, 150]);
+        assert.equal(dayDuration, 210);
+
+        const merged = mergeDayAnalyses(clips, 'Rex', (session) => session.analysis);
+        assert.equal(merged.title, "Rex's Day: 3 Adventures");
+        assert.deepEqual(merged.moodData.map((p) => p.name), ['0:10', '1:40', '2:40']);
+        assert.deepEqual(merged.highlightTimestamps.map((h) => [h.start, h.end, h.sourceSessionId]), [
+            ['0:10', '0:20', 'a'],
+            ['1:40', '1:50', 'b'],
+            ['2:40', '2:50', 'c'],
+        ]);
+        // The same friend across clips is one entry with every encounter.
+        assert.equal(merged.friends.length, 1);
+        assert.deepEqual(merged.friends[0].timestamps?.map((t) => t.time), ['0:20', '1:50', '2:50']);
+        assert.deepEqual([merged.friends[0].duration, merged.friends[0].frequency], [12, 3]);
+        assert.equal(merged.aiNote, 'Note a\n\nNote b\n\nNote c');
+    });
+
+    test('the reel keeps each clip\'s best segment before filling by priority', () => {
+        const segments = [
+            { start: '0:00', end: '0:20', score: 9, source: 'friend', sourceSessionId: 'a' },
+            { start: '0:30', end: '0:50', score: 8, source: 'friend', sourceSessionId: 'a' },
+            { start: '1:40', end: '1:50', score: 2, sourceSessionId: 'b' },
+            { start: '2:00', end: '2:05', score: 1, source: 'safety', sourceSessionId: 'c' },
+        ];
+        assert.deepEqual(selectDayHighlights(segments, 35).map((s) => s.start), ['0:00', '1:40', '2:00']);
+        assert.deepEqual(selectDayHighlights(segments, 60).map((s) => s.start), ['0:00', '0:30', '1:40', '2:00']);
+    });
+});
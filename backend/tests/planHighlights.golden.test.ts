@@ -0,0 +1,71 @@
+import { before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { applyHighlightMapping, planHighlights, timeToSeconds } from '../processor/highlightPlanner.ts';
+import { getHighlightLimits, normalizeHighlightSpec } from '../processor/highlightSpec.ts';
+
+// Golden files for the highlight length budget. Each <case>.input.json holds
+// { videoDuration, analysis, highlightSpec? } (no spec means the default 60s reel, capped
+// at 120s); <case>.expected.json is the planned reel. After an intentional policy change,
+// regenerate with UPDATE_GOLDEN=1 npm test and review the diff.
+const GOLDEN_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'golden', 'planHighlights');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+before(() => {
+    mock.method(console, 'log', () => {});
+});
+
+function plan(input: { videoDuration: number; analysis: any; highlightSpec?: any }) {
+    const analysis = JSON.parse(JSON.stringify(input.analysis));
+    const highlights = planHighlights(analysis, input.videoDuration, normalizeHighlightSpec(input.highlightSpec));
+    applyHighlightMapping(analysis, highlights);
+    const totalSeconds = highlights.reduce((sum, seg) => sum + timeToSeconds(seg.end) - timeToSeconds(seg.start), 0);
+    return {
+        totalSeconds,
+        highlights,
+        narrativeInHighlight: analysis.narrativeSegments.map((seg: any) => ({
+            originalTime: seg.originalTime,
+            timestamp: seg.timestamp,
+            inHighlight: seg.inHighlight
+        }))
+    };
+}
+
+const cases = fs.readdirSync(GOLDEN_DIR)
+    .filter(name => name.endsWith('.input.json'))
+    .map(name => name.replace(/\.input\.json$/, ''))
+    .sort();
+
+describe('planHighlights golden files', () => {
+    test('has golden cases', () => {
+        assert.ok(cases.length > 0);
+    });
+
+    for (const name of cases) {
+        test(name, () => {
+            const input = JSON.parse(fs.readFileSync(path.join(GOLDEN_DIR, `${name}.input.json`), 'utf8'));
+            const actual = plan(input);
+            const expectedPath = path.join(GOLDEN_DIR, `${name}.expected.json`);
+            // planHighlights may exceed maxSeconds by overageSeconds to keep a friend's only clip or the scenery fallback.
+            const { maxSeconds, overageSeconds } = getHighlightLimits(normalizeHighlightSpec(input.highlightSpec));
+
+            assert.ok(
+                actual.totalSeconds <= maxSeconds + overageSeconds,
+                `reel is ${actual.totalSeconds}s`
+            );
+            for (const seg of actual.highlights) {
+                assert.ok(timeToSeconds(seg.end) <= input.videoDuration, `${seg.start}-${seg.end} ends past the video`);
+            }
+
+            if (UPDATE_GOLDEN) {
+                fs.writeFileSync(expectedPath, `${JSON.stringify(actual, null, 2)}\n`);
+                return;
+            }
+            assert.ok(fs.existsSync(expectedPath), `missing ${name}.expected.json; run with UPDATE_GOLDEN=1`);
+            const expected = JSON.parse(fs.readFileSync(expectedPath, 'utf8'));
+            assert.deepEqual(JSON.parse(JSON.stringify(actual)), expected);
+        });
+    }
+});
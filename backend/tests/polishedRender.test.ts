@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { POLISHED_CROSSFADE_SECONDS, endCardFilters, musicBedFilters, planCrossfades, titleCardFilter } from '../processor/polishedRender.ts';
+
+describe('planCrossfades', () => {
+    test('clips start on the highlight clock no matter how long the fades are', () => {
+        const { offsets } = planCrossfades([4, 6, 2.5], [4.5, 6.5, 3]);
+        assert.deepEqual(offsets, [4, 10, 12.5]);
+    });
+
+    test('fades use the cut tail, capped at the crossfade length', () => {
+        const { fades } = planCrossfades([4, 6, 2.5], [4.5, 6.2, 9]);
+        assert.equal(fades[0], POLISHED_CROSSFADE_SECONDS);
+        assert.ok(Math.abs(fades[1] - 0.2) < 1e-9, `fade was ${fades[1]}`);
+        assert.equal(fades[2], POLISHED_CROSSFADE_SECONDS);
+    });
+
+    test('a clip at the very end of its source still gets a minimal fade', () => {
+        const { fades } = planCrossfades([5], [5]);
+        assert.equal(fades[0], 0.04);
+    });
+
+    test('unreadable segment lengths fall back to a minimal fade', () => {
+        const { fades } = planCrossfades([3, 3], [0, 3.5]);
+        assert.deepEqual(fades, [0.04, POLISHED_CROSSFADE_SECONDS]);
+    });
+});
+
+describe('title and end cards', () => {
+    test('the title band and both lines share one fade, gone after three seconds', () => {
+        const filter = titleCardFilter('/tmp/reel-title.txt', '/tmp/reel-subtitle.txt');
+        const alpha = "alpha='if(lt(t,0.4),t/0.4,if(lt(t,2.5),1,max(0,(3-t)/0.5)))'";
+        assert.ok(filter.startsWith("drawbox=y=ih*0.3:w=iw:h=ih*0.4:color=black@0.35:t=fill:enable='lt(t,3)'"), filter);
+        assert.equal(filter.split(alpha).length - 1, 2);
+        assert.match(filter, /textfile='\/tmp\/reel-title.txt':fontsize=64:.*y=h\*0.38/);
+        assert.match(filter, /textfile='\/tmp\/reel-subtitle.txt':fontsize=32:.*y=h\*0.52/);
+    });
+
+    test('text file paths are escaped for the filter script', () => {
+        assert.match(titleCardFilter("/tmp/it's:here.txt", '/tmp/s.txt'), /textfile='\/tmp\/it\\'s\\:here.txt'/);
+    });
+
+    test('the end card reads its own inputs and fades out at the end', () => {
+        const [video, audio] = endCardFilters(4, '/tmp/reel-end.txt');
+        assert.ok(video.startsWith('[4:v]scale=1280:720:'), video);
+        assert.match(video, /fontsize=56:.*alpha='min\(1,t\/0.6\)'.*fade=t=out:st=2.4:d=0.6,settb=AVTB\[vend\]$/);
+        assert.equal(audio, '[5:a]aformat=sample_rates=48000:channel_layouts=stereo[aend]');
+    });
+});
+
+describe('musicBedFilters', () => {
+    test('the bed is trimmed to the reel, faded, ducked under the camera audio and mixed', () => {
+        const filters = musicBedFilters('ax3', 6, 12.5, true);
+        assert.deepEqual(filters, [
+            '[ax3]highpass=f=100,asplit=2[cam][sidechain]',
+            '[6:a]atrim=0:12.500,asetpts=PTS-STARTPTS,aformat=sample_rates=48000:channel_layouts=stereo,'
+                + 'volume=0.35,afade=t=in:d=1,afade=t=out:st=10.500:d=2[bed]',
+            '[bed][sidechain]sidechaincompress=threshold=0.03:ratio=8:attack=20:release=400[ducked]',
+            '[cam][ducked]amix=inputs=2:duration=first:normalize=0,loudnorm=I=-16:TP=-1.5:LRA=11[aout]',
+        ]);
+    });
+
+    test('the synthesized pad plays louder, and short reels fade out from the start', () => {
+        const [, bed] = musicBedFilters('a0', 3, 1.5, false);
+        assert.match(bed, /volume=0.6,afade=t=in:d=1,afade=t=out:st=0.000:d=2\[bed\]$/);
+    });
+});
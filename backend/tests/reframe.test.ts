@@ -0,0 +1,84 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildReframeFilter, collectSubjectSightings, planReframeWindows } from '../processor/reframe.ts';
+
+const clips = [
+    { start: '0:10', end: '0:15' },
+    { start: '1:00', end: '1:08' },
+    { start: '2:00', end: '2:04' },
+];
+
+describe('collectSubjectSightings', () => {
+    test('takes the mosaic hit and the Gemini box, on the original clock', () => {
+        const sightings = collectSubjectSightings({
+            friends: [{
+                name: 'Mochi',
+                timestamp: '0:05',
+                originalTimestamp: '1:02',
+                box: [100, 600, 500, 900],
+                mosaicSighting: { seconds: 61.5, box: [200, 500, 700, 800] },
+            }],
+        } as any);
+        assert.deepEqual(sightings, [
+            { seconds: 61.5, box: [200, 500, 700, 800] },
+            { seconds: 62, box: [100, 600, 500, 900] },
+        ]);
+    });
+
+    test('ignores malformed or empty boxes', () => {
+        const sightings = collectSubjectSightings({
+            friends: [
+                { name: 'A', timestamp: '0:12', box: [500, 500, 500, 600] },
+                { name: 'B', timestamp: '0:12', box: [1, 2, 3] },
+                { name: 'C', timestamp: '0:12' },
+            ],
+        } as any);
+        assert.deepEqual(sightings, []);
+    });
+});
+
+describe('planReframeWindows', () => {
+    test('lays clips end to end and centres each on the largest nearby box', () => {
+        const windows = planReframeWindows({
+            highlightTimestamps: clips,
+            friends: [
+                { name: 'Small', timestamp: '1:03', box: [400, 100, 500, 200] },
+                { name: 'Close', best_photo_timestamp: '1:07', timestamp: '1:20', box: [0, 600, 1000, 1000] },
+                // 1.5s before the third clip: still within the mosaic window.
+                { name: 'Edge', timestamp: '1:58', box: [200, 0, 600, 300] },
+            ],
+        } as any);
+        assert.deepEqual(windows, [
+            { start: 0, end: 5, centerX: 0.5, centerY: 0.5 },
+            { start: 5, end: 13, centerX: 0.8, centerY: 0.5 },
+            { start: 13, end: 17, centerX: 0.15, centerY: 0.4 },
+        ]);
+    });
+
+    test('no friends means a centred crop throughout', () => {
+        const windows = planReframeWindows({ highlightTimestamps: clips } as any);
+        assert.ok(windows.every(w => w.centerX === 0.5 && w.centerY === 0.5));
+    });
+});
+
+describe('buildReframeFilter', () => {
+    const windows = [
+        { start: 0, end: 5, centerX: 0.8, centerY: 0.5 },
+        { start: 5, end: 9, centerX: 0.25, centerY: 0.5 },
+    ];
+
+    test('vertical crops a full-height 9:16 window that steps per clip', () => {
+        const filter = buildReframeFilter(windows, 'vertical');
+        assert.match(filter, /^crop=w='trunc\(min\(iw,ih\*0\.5625\)\/2\)\*2'/);
+        assert.ok(filter.includes(
+            "x='if(lt(t,5.000),clip(0.800*iw-ow/2,0,iw-ow),if(lt(t,9.000),clip(0.250*iw-ow/2,0,iw-ow),(iw-ow)/2))'"
+        ));
+        assert.match(filter, /scale=720:1280,setsar=1$/);
+    });
+
+    test('square output is 720x720 and an empty plan stays centred', () => {
+        const filter = buildReframeFilter([], 'square');
+        assert.ok(filter.includes("x='(iw-ow)/2':y='(ih-oh)/2'"));
+        assert.match(filter, /scale=720:720,setsar=1$/);
+    });
+});
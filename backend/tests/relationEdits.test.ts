@@ -0,0 +1,109 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    canonicalFriendName,
+    findEdgeForFriendKey,
+    mergeEdges,
+    renameEdge,
+    rewriteRelatedPetIds,
+    splitEdgeByMemories,
+    splitMergedEdge,
+} from '../persona/relationEdits.ts';
+import type { PetMemory, PetRelationEdge } from '../persona/personaTypes.ts';
+
+const edge = (displayName: string, overrides: Partial<PetRelationEdge> = {}): PetRelationEdge => ({
+    otherKey: `${displayName.toLowerCase()}|dog`,
+    displayName,
+    type: 'friend_pet',
+    status: 'Acquaintance',
+    bondScore: 30,
+    lastInteractionAt: 2000,
+    encounterCount: 2,
+    totalInteractionSeconds: 40,
+    lastSeenAt: 2000,
+    firstSeenAt: 1000,
+    notableMemoryIds: [],
+    ...overrides,
+});
+
+const memory = (id: string, relatedPetIds?: string[], sessionId = 's1'): PetMemory => ({
+    id,
+    relatedPetIds,
+    source: { sessionId },
+    createdAt: 1500,
+} as PetMemory);
+
+describe('renameEdge', () => {
+    test('re-keys the edge and keeps the old key as an alias', () => {
+        const renamed = renameEdge(edge('Golden Companion'), 'Pepper');
+        assert.equal(renamed.otherKey, 'pepper|dog');
+        assert.equal(renamed.displayName, 'Pepper');
+        assert.equal(renamed.ownerNamed, true);
+        assert.deepEqual(renamed.aliases, ['golden companion|dog']);
+    });
+
+    test('later sessions using the old name find the renamed edge', () => {
+        const edges = [renameEdge(edge('Golden Companion'), 'Pepper')];
+        assert.equal(findEdgeForFriendKey(edges, 'golden companion|dog')?.displayName, 'Pepper');
+        assert.equal(canonicalFriendName(edges, 'Golden Companion'), 'pepper');
+        assert.equal(canonicalFriendName(edges, 'Rex'), 'rex');
+    });
+});
+
+describe('rewriteRelatedPetIds', () => {
+    test('patches only memories that reference an old name', () => {
+        const patches = rewriteRelatedPetIds(
+            [memory('m1', ['golden companion', 'rex']), memory('m2', ['rex']), memory('m3')],
+            ['golden companion'],
+            'Pepper'
+        );
+        assert.deepEqual(patches, [{ id: 'm1', relatedPetIds: ['pepper', 'rex'] }]);
+    });
+});
+
+describe('mergeEdges / splitMergedEdge', () => {
+    const target = edge('Pepper', { notableMemoryIds: ['m1'], bondScore: 50 });
+    const source = edge('Golden Companion', {
+        encounterCount: 3, totalInteractionSeconds: 20, firstSeenAt: 500, notableMemoryIds: ['m2'],
+        externalPetId: 'pet-9',
+    });
+
+    test('sums encounters and seconds and unions notable memories', () => {
+        const merged = mergeEdges(target, source, ['m2']);
+        assert.equal(merged.otherKey, 'pepper|dog');
+        assert.equal(merged.encounterCount, 5);
+        assert.equal(merged.totalInteractionSeconds, 60);
+        assert.equal(merged.firstSeenAt, 500);
+        assert.equal(merged.bondScore, 50);
+        assert.equal(merged.externalPetId, 'pet-9');
+        assert.deepEqual(merged.notableMemoryIds, ['m1', 'm2']);
+        assert.deepEqual(merged.aliases, ['golden companion|dog']);
+    });
+
+    test('splitting a merge restores the absorbed edge', () => {
+        const undone = splitMergedEdge(mergeEdges(target, source, ['m2']), 'golden companion|dog');
+        assert.ok(undone);
+        assert.deepEqual(undone.restored, source);
+        assert.deepEqual(undone.memoryIds, ['m2']);
+        assert.equal(undone.remaining.encounterCount, 2);
+        assert.equal(undone.remaining.totalInteractionSeconds, 40);
+        assert.deepEqual(undone.remaining.notableMemoryIds, ['m1']);
+        assert.deepEqual(undone.remaining.aliases, []);
+        assert.deepEqual(undone.remaining.mergedFrom, []);
+        assert.equal(splitMergedEdge(target, 'golden companion|dog'), null);
+    });
+});
+
+describe('splitEdgeByMemories', () => {
+    test('moves the picked memories and their share of encounters', () => {
+        const conflated = edge('Golden Companion', { encounterCount: 4, totalInteractionSeconds: 80, notableMemoryIds: ['m1', 'm2'] });
+        const { remaining, split } = splitEdgeByMemories(conflated, 'Pepper', [memory('m2', ['golden companion'], 's3')]);
+        assert.equal(split.otherKey, 'pepper|dog');
+        assert.equal(split.encounterCount, 1);
+        assert.equal(split.totalInteractionSeconds, 20);
+        assert.deepEqual(split.notableMemoryIds, ['m2']);
+        assert.equal(remaining.encounterCount, 3);
+        assert.equal(remaining.totalInteractionSeconds, 60);
+        assert.deepEqual(remaining.notableMemoryIds, ['m1']);
+    });
+});
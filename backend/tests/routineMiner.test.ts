@@ -0,0 +1,139 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    buildSessionDigest,
+    candidatePhrases,
+    extractSessionEvents,
+    formatHour,
+    localClock,
+    mineCatchphrases,
+    mineRoutines,
+} from '../persona/routineMiner.ts';
+import { parseCreationTimeFromMediaInfo } from '../processor/mediaTools.ts';
+import type { PetMemory, PetSessionDigest } from '../persona/personaTypes.ts';
+
+const DAY = 86_400_000;
+// 17:00 UTC on consecutive days.
+const FIVE_PM = Date.UTC(2026, 4, 1, 17);
+
+const digest = (sessionId: string, recordedAt: number | undefined, events: Array<[string, number]>): PetSessionDigest => ({
+    petId: 'pet-1',
+    sessionId,
+    recordedAt,
+    events: events.map(([key, offsetSeconds]) => ({ key, source: 'timeline', label: key, offsetSeconds })),
+    createdAt: 0,
+});
+const memory = (id: string, sessionId: string, timestamp: string, text: string, extra: Partial<PetMemory> = {}) => ({
+    id,
+    text,
+    importance: 5,
+    source: { sessionId, timestamp },
+    ...extra,
+} as PetMemory);
+
+describe('extractSessionEvents', () => {
+    test('reads timeline labels and icons, dietary habits and place scenery', () => {
+        const events = extractSessionEvents({
+            timeline: [
+                { time: '0:05', label: 'Heads out on the leash', icon: 'pets' },
+                { time: '2:10', label: 'Big stretch', icon: 'bedtime' },
+                { time: '3:00', label: 'Looks around', icon: 'visibility' },
+            ],
+            dietaryHabits: [{ item: 'water', action: 'drinking', timestamp: '1:30' }],
+            scenery: [
+                { description: 'Sunny windowsill with a view of the street', timestamp: '4:00' },
+                { description: 'Owner plays with a ball in the kitchen', timestamp: '4:30' },
+            ],
+        });
+        assert.deepEqual(events.map((e) => [e.key, e.source, e.offsetSeconds]), [
+            ['walk', 'timeline', 5],
+            ['drink', 'diet', 90],
+            ['nap', 'timeline', 130],
+            ['window', 'scenery', 240],
+        ]);
+    });
+
+    test('skips events without a usable timestamp', () => {
+        assert.deepEqual(extractSessionEvents({ timeline: [{ time: 'soon', label: 'walk', icon: 'pets' }] }), []);
+        assert.deepEqual(buildSessionDigest('pet-1', { sessionId: 's', analysis: null, recordedAt: NaN }).events, []);
+    });
+});
+
+describe('localClock / formatHour', () => {
+    test('reads the recording time on the owner clock', () => {
+        assert.deepEqual(localClock(Date.UTC(2026, 0, 1, 23, 30), 'Asia/Tokyo'), { day: '2026-01-02', hour: 8.5 });
+        assert.deepEqual(localClock(Date.UTC(2026, 0, 1, 23, 30), 'Not/AZone'), { day: '2026-01-01', hour: 23.5 });
+        assert.equal(formatHour(17.2), '5 PM');
+        assert.equal(formatHour(0), '12 AM');
+        assert.equal(formatHour(23.8), '12 AM');
+    });
+});
+
+describe('mineRoutines', () => {
+    test('finds a time-of-day habit and cites memories near it', () => {
+        const digests = [0, 1, 2, 3].map((d) => digest(`s${d}`, FIVE_PM + d * DAY + (d % 2) * 1_200_000, [['window', 60]]));
+        digests.push(digest('s4', FIVE_PM + 4 * DAY - 9 * 3_600_000, [['window', 60]]));
+        const memories = [
+            memory('m1', 's0', '1:10', 'Watched a squirrel from the couch'),
+            memory('m2', 's1', '5:00', 'Barked at the mail carrier'),
+            memory('m3', 's2', '1:05', 'Stared at the birds', { archived: true }),
+        ];
+        const [routine] = mineRoutines(digests, memories, 'UTC');
+        assert.equal(routine.pattern, 'Window-watching around 5 PM');
+        assert.equal(routine.confidence, 64); // 4 of 5 days, 4 sessions of support
+        assert.deepEqual(routine.sourceMemoryIds, ['m1']);
+    });
+
+    test('finds one activity following another within the same recording', () => {
+        const digests = [
+            digest('a', undefined, [['walk', 0], ['drink', 120]]),
+            digest('b', undefined, [['walk', 30], ['drink', 400]]),
+            digest('c', undefined, [['walk', 10], ['play', 20]]),
+            digest('d', undefined, [['walk', 0], ['nap', 900]]),
+            digest('e', undefined, [['drink', 10], ['walk', 20]]),
+        ];
+        const memories = [memory('m1', 'c', '1:00', 'Lapping at the water bowl after the stroll')];
+        const [routine] = mineRoutines(digests, memories);
+        // a and b from their timelines, c from the memory; 3 of 5 walks.
+        assert.deepEqual(routine, { pattern: 'Drinks water after walks', confidence: 36, sourceMemoryIds: ['m1'] });
+    });
+
+    test('needs three days or sessions before calling anything a routine', () => {
+        const digests = [0, 1].map((d) => digest(`s${d}`, FIVE_PM + d * DAY, [['walk', 0], ['drink', 60]]));
+        assert.deepEqual(mineRoutines(digests, []), []);
+    });
+});
+
+describe('mineCatchphrases', () => {
+    test('short lines and emotes from up-rated replies, offset by down ratings', () => {
+        const replies = [
+            { text: 'Sniff sniff, what is that? *tail wag*', rating: 'up' as const },
+            { text: 'Sniff sniff! The park smelled amazing today. *tail wag*', rating: 'up' as const },
+            { text: 'Sniff sniff, another nap please.', rating: 'up' as const },
+            { text: 'Treat time? *tail wag*', rating: 'down' as const },
+            { text: 'Treat time?', rating: 'up' as const },
+        ];
+        assert.deepEqual(mineCatchphrases(replies), ['Sniff sniff']);
+    });
+
+    test('candidate phrases skip long sentences and fragments', () => {
+        assert.deepEqual(
+            candidatePhrases('Oh! I walked all the way to the big park and back again today, it was great.'),
+            []
+        );
+        assert.deepEqual(candidatePhrases('Hmph. *slow blink*'), ['*slow blink*', 'Hmph.']);
+    });
+});
+
+describe('parseCreationTimeFromMediaInfo', () => {
+    test('reads the container timestamp and rejects unset camera clocks', () => {
+        const now = Date.UTC(2026, 5, 1);
+        assert.equal(
+            parseCreationTimeFromMediaInfo('    creation_time   : 2026-05-01T17:03:22.000000Z\n', now),
+            Date.UTC(2026, 4, 1, 17, 3, 22)
+        );
+        assert.equal(parseCreationTimeFromMediaInfo('    creation_time   : 1970-01-01T00:00:00.000000Z', now), null);
+        assert.equal(parseCreationTimeFromMediaInfo('    creation_time   : 2027-01-01T00:00:00.000000Z', now), null);
+        assert.equal(parseCreationTimeFromMediaInfo('Duration: 00:01:00.00', now), null);
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config.ts';
+import {
+    createSegmentWorkDir,
+    parseKeyframeTimes,
+    planSegmentCuts,
+    removeSegmentWorkDir,
+    snapToKeyframe,
+    withSegmentSlot,
+} from '../processor/segmentPipeline.ts';
+
+describe('parseKeyframeTimes', () => {
+    test('keeps keyframe packets only, sorted, skipping N/A timestamps', () => {
+        const csv = ['2.002000,K__', '0.000000,K_', '0.033367,__', 'N/A,K_', '4.004000,K_', ''].join('\n');
+        assert.deepEqual(parseKeyframeTimes(csv), [0, 2.002, 4.004]);
+    });
+});
+
+describe('snapToKeyframe', () => {
+    const keyframes = [0, 2.002, 4.004, 6.006];
+    const cases = [
+        { name: 'an exact keyframe', start: 4.004, expected: 4.004 },
+        { name: 'a keyframe just before', start: 2.2, expected: 2.002 },
+        { name: 'a keyframe just after', start: 5.8, expected: 6.006 },
+        { name: 'nothing within tolerance', start: 3, expected: null },
+    ];
+    for (const c of cases) {
+        test(`snaps to ${c.name}`, () => {
+            assert.equal(snapToKeyframe(c.start, keyframes), c.expected);
+        });
+    }
+});
+
+describe('planSegmentCuts', () => {
+    const clips = [{ start: 2, seconds: 3 }, { start: 10, seconds: 4 }];
+
+    test('stream-copies when every clip snaps, keeping planned lengths', () => {
+        assert.deepEqual(planSegmentCuts(clips, [0, 1.9, 10.1]), {
+            mode: 'copy',
+            cuts: [{ start: 1.9, seconds: 3 }, { start: 10.1, seconds: 4 }],
+        });
+    });
+
+    test('re-encodes the whole reel when one clip cannot snap', () => {
+        assert.deepEqual(planSegmentCuts(clips, [0, 1.9, 8]), { mode: 'encode', cuts: clips });
+    });
+
+    test('re-encodes when the probe found no keyframes', () => {
+        assert.equal(planSegmentCuts(clips, []).mode, 'encode');
+    });
+});
+
+describe('withSegmentSlot', () => {
+    test('never runs more jobs than config.segmentConcurrency', async () => {
+        let running = 0;
+        let peak = 0;
+        const job = () => withSegmentSlot(async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+        });
+        await Promise.all(Array.from({ length: config.segmentConcurrency + 3 }, job));
+        assert.equal(peak, config.segmentConcurrency);
+        assert.equal(running, 0);
+    });
+
+    test('a failing job frees its slot', async () => {
+        await assert.rejects(withSegmentSlot(async () => { throw new Error('ffmpeg exited 1'); }));
+        const results = await Promise.all(Array.from({ length: config.segmentConcurrency }, () => withSegmentSlot(async () => 'ok')));
+        assert.deepEqual(results, Array(config.segmentConcurrency).fill('ok'));
+    });
+});
+
+describe('createSegmentWorkDir', () => {
+    test('gives each run of the same reel its own directory', () => {
+        const base = fs.mkdtempSync(path.join(os.tmpdir(), 'segments-test-'));
+        try {
+            const first = createSegmentWorkDir(base, 'session-1');
+            const second = createSegmentWorkDir(base, 'session-1');
+            assert.notEqual(first, second);
+            fs.writeFileSync(path.join(first, 'segments.txt'), 'file a.mp4');
+            removeSegmentWorkDir(first);
+            assert.equal(fs.existsSync(first), false);
+            assert.equal(fs.existsSync(second), true);
+        } finally {
+            fs.rmSync(base, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { joinSessionDocument, splitSessionDocument } from '../processor/sessionDocument.ts';
+
+const curve = Array.from({ length: 3600 }, (_, i) => ({ name: String(i), value: i % 100 }));
+
+describe('session documents', () => {
+    test('checkpoints, the raw analysis and the activity curve move to sidecars', () => {
+        const session = {
+            id: 's1',
+            status: 'processing',
+            analysis: { summary: 'Walk', activityData: curve },
+            rawAnalysis: { summary: 'raw', activityData: curve },
+            checkpoints: { proxy: { path: '/tmp/p.mp4', completedAt: 1 }, analysisWindows: { results: {}, completedAt: 2 }, highlights: null },
+        };
+        const { doc, sidecars } = splitSessionDocument(session);
+        assert.deepEqual(doc, { id: 's1', status: 'processing', analysis: { summary: 'Walk' }, sidecars: [
+            'analysis.activityData', 'checkpoints.analysisWindows', 'checkpoints.proxy', 'rawAnalysis',
+        ] });
+        assert.ok(JSON.stringify(doc).length < 1000);
+        assert.deepEqual(joinSessionDocument(doc, sidecars), {
+            ...session,
+            checkpoints: { proxy: session.checkpoints.proxy, analysisWindows: session.checkpoints.analysisWindows },
+        });
+        // The caller's session is left alone.
+        assert.equal(session.analysis.activityData, curve);
+    });
+
+    test('documents written before sidecars existed load as they are', () => {
+        const legacy = { id: 's2', analysis: { activityData: [] }, checkpoints: { analysis: { result: {}, completedAt: 1 } } };
+        assert.deepEqual(joinSessionDocument(legacy, {}), legacy);
+        assert.deepEqual(joinSessionDocument({ id: 's3', sidecars: ['rawAnalysis'] }, {}), { id: 's3' });
+    });
+});
@@ -0,0 +1,82 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import { countSessionListeners, emitSessionEvent, streamSessionEvents, type SessionStreamOptions } from '../processor/sessionEvents.ts';
+
+// The test server streams whatever session the query describes.
+let server: Server;
+let baseUrl = '';
+let remoteUpdates: Array<{ event: 'progress' | 'status'; data: any }> = [];
+
+before(async () => {
+    const app = express();
+    app.get('/events/:id', (req, res) => {
+        const options: SessionStreamOptions = { maxMs: Number(req.query.maxMs || 5000) };
+        if (req.query.remote) options.remote = { intervalMs: 10, check: async () => remoteUpdates.shift() || null };
+        streamSessionEvents(res, req.params.id, { sessionId: req.params.id, status: String(req.query.status || 'processing') }, options);
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => server.close());
+
+function parseEvents(body: string) {
+    return body.split('\n\n').filter((block) => block.startsWith('event:')).map((block) => {
+        const [eventLine, dataLine] = block.split('\n');
+        return [eventLine.slice('event: '.length), JSON.parse(dataLine.slice('data: '.length))];
+    });
+}
+
+describe('session event streams', () => {
+    test('a finished session gets its snapshot and the stream ends', async () => {
+        const res = await fetch(`${baseUrl}/events/done?status=ready`);
+        assert.equal(res.headers.get('content-type'), 'text/event-stream; charset=utf-8');
+        assert.deepEqual(parseEvents(await res.text()), [['snapshot', { sessionId: 'done', status: 'ready' }]]);
+    });
+
+    test('relays only its own session\'s events until the session leaves processing', async () => {
+        const res = await fetch(`${baseUrl}/events/s1`);
+        const other = await fetch(`${baseUrl}/events/s2?maxMs=50`);
+        assert.equal(countSessionListeners('s1'), 1);
+
+        emitSessionEvent('s1', 'progress', { stage: 'Proxy', percent: 10 });
+        emitSessionEvent('s2', 'progress', { stage: 'Elsewhere', percent: 99 });
+        emitSessionEvent('s1', 'stage', { stage: 'Proxy', duration: 1 });
+        emitSessionEvent('s1', 'status', { sessionId: 's1', status: 'ready' });
+        emitSessionEvent('s1', 'progress', { stage: 'Too late', percent: 100 });
+
+        assert.deepEqual(parseEvents(await res.text()), [
+            ['snapshot', { sessionId: 's1', status: 'processing' }],
+            ['progress', { stage: 'Proxy', percent: 10 }],
+            ['stage', { stage: 'Proxy', duration: 1 }],
+            ['status', { sessionId: 's1', status: 'ready' }],
+        ]);
+        assert.equal(countSessionListeners('s1'), 0);
+        assert.equal(parseEvents(await other.text()).length, 3);
+    });
+
+    test('an expired stream says so and lets go of its listener, so the client reconnects', async () => {
+        const res = await fetch(`${baseUrl}/events/slow?maxMs=30`);
+        assert.deepEqual(parseEvents(await res.text()), [
+            ['snapshot', { sessionId: 'slow', status: 'processing' }],
+            ['expired', {}],
+        ]);
+        assert.equal(countSessionListeners('slow'), 0);
+    });
+
+    test('jobs on another instance are followed through the remote check', async () => {
+        remoteUpdates = [
+            { event: 'progress', data: { stage: 'Remote', percent: 50 } },
+            { event: 'status', data: { sessionId: 'remote', status: 'error' } },
+        ];
+        const res = await fetch(`${baseUrl}/events/remote?remote=1`);
+        assert.deepEqual(parseEvents(await res.text()).slice(1), [
+            ['progress', { stage: 'Remote', percent: 50 }],
+            ['status', { sessionId: 'remote', status: 'error' }],
+        ]);
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPlaydates, isMutualLink, memoriesAboutFriend, sessionTimes } from '../persona/socialGraph.ts';
+import type { Pet, PetMemory, PetRelationEdge } from '../persona/personaTypes.ts';
+
+const DAY = 86_400_000;
+const T0 = Date.UTC(2026, 4, 1, 10);
+
+const pet = (id: string, socialGraphOptIn = true) => ({ id, name: id.toUpperCase(), socialGraphOptIn } as Pet);
+const edge = (displayName: string, externalPetId?: string) => ({
+    otherKey: `${displayName.toLowerCase()}|dog`,
+    displayName,
+    externalPetId,
+} as PetRelationEdge);
+const memory = (id: string, relatedPetIds: string[], createdAt: number, extra: Partial<PetMemory> = {}) => ({
+    id,
+    text: `memory ${id}`,
+    relatedPetIds,
+    createdAt,
+    source: { sessionId: `session-${id}`, coverUrl: `cover-${id}.jpg` },
+    ...extra,
+} as PetMemory);
+
+describe('isMutualLink', () => {
+    const a = pet('a');
+    const b = pet('b');
+
+    test('needs both edges linked and both pets opted in', () => {
+        const theirs = edge('A', 'a');
+        assert.equal(isMutualLink(a, edge('B', 'b'), b, [theirs]), theirs);
+        assert.equal(isMutualLink(a, edge('B', 'b'), b, [edge('A')]), null);
+        assert.equal(isMutualLink(a, edge('B', 'b'), pet('b', false), [theirs]), null);
+        assert.equal(isMutualLink(pet('a', false), edge('B', 'b'), b, [theirs]), null);
+        assert.equal(isMutualLink(a, edge('B', 'b'), null, []), null);
+    });
+});
+
+describe('memoriesAboutFriend', () => {
+    test('follows renames and leaves out private, wrong and archived memories', () => {
+        const renamed = { ...edge('Pepper', 'b'), aliases: ['golden companion|dog'] };
+        const memories = [
+            memory('m1', ['pepper'], T0),
+            memory('m2', ['golden companion'], T0),
+            memory('m3', ['pepper'], T0, { userVerdict: 'private' }),
+            memory('m4', ['pepper'], T0, { archived: true }),
+            memory('m5', ['rex'], T0),
+        ];
+        assert.deepEqual(memoriesAboutFriend(memories, renamed).map(m => m.id), ['m1', 'm2']);
+    });
+});
+
+describe('buildPlaydates', () => {
+    test('groups both pets\' memories by day, newest first', () => {
+        const playdates = buildPlaydates(
+            { pet: pet('a'), memories: [memory('a1', ['b'], T0), memory('a2', ['b'], T0 + 2 * DAY)] },
+            { pet: pet('b'), memories: [memory('b1', ['a'], T0 + 3600_000)] }
+        );
+        assert.deepEqual(playdates.map(p => [p.date, p.bothRecorded, p.entries.map(e => e.memoryId)]), [
+            ['2026-05-03', false, ['a2']],
+            ['2026-05-01', true, ['a1', 'b1']],
+        ]);
+    });
+
+    test('only the viewer\'s own entries carry session ids and covers', () => {
+        const [day] = buildPlaydates(
+            { pet: pet('a'), memories: [memory('a1', ['b'], T0)] },
+            { pet: pet('b'), memories: [memory('b1', ['a'], T0)] }
+        );
+        const [own, theirs] = day.entries;
+        assert.equal(own.coverUrl, 'cover-a1.jpg');
+        assert.equal(theirs.coverUrl, undefined);
+        assert.equal(theirs.sessionId, undefined);
+    });
+
+    test('dates each memory by when its session was filmed, in the viewer\'s time zone', () => {
+        const filmed = Date.UTC(2026, 4, 1, 23, 30);
+        const times = sessionTimes([
+            { petId: 'a', sessionId: 'session-a1', recordedAt: filmed, uploadedAt: filmed + DAY, events: [], createdAt: filmed + 2 * DAY },
+            { petId: 'a', sessionId: 'session-a2', uploadedAt: T0, events: [], createdAt: T0 + DAY },
+        ]);
+        // Analysed days later; the memories' own createdAt would land on other days.
+        const memories = [memory('a1', ['b'], filmed + 3 * DAY), memory('a2', ['b'], T0 + 3 * DAY)];
+        const inUtc = buildPlaydates({ pet: pet('a'), memories, sessionTimes: times }, { pet: pet('b'), memories: [] });
+        assert.deepEqual(inUtc.map(p => [p.date, p.entries.map(e => e.memoryId)]), [['2026-05-01', ['a2', 'a1']]]);
+
+        const tokyo = { ...pet('a'), timeZone: 'Asia/Tokyo' };
+        const local = buildPlaydates({ pet: tokyo, memories, sessionTimes: times }, { pet: pet('b'), memories: [] });
+        assert.deepEqual(local.map(p => [p.date, p.entries.map(e => e.memoryId)]), [
+            ['2026-05-02', ['a1']],
+            ['2026-05-01', ['a2']],
+        ]);
+    });
+});
@@ -0,0 +1,56 @@
+import { RefObject, useEffect } from 'react';
+import type Hls from 'hls.js';
+
+// Attaches a session video to the player: the HLS ladder when the backend has packaged
+// one, the progressive MP4 otherwise. Safari/iOS play HLS natively; other browsers load
+// hls.js on demand. A fatal HLS error drops back to the progressive file.
+export function useAdaptivePlayback(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  hlsUrl: string | null | undefined,
+  fallbackSrc: string | null | undefined
+): void {
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let cancelled = false;
+    let player: Hls | null = null;
+
+    const playProgressive = () => {
+      if (cancelled) return;
+      if (fallbackSrc) video.src = fallbackSrc;
+      else video.removeAttribute('src');
+      video.load();
+    };
+
+    if (!hlsUrl) {
+      playProgressive();
+    } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = hlsUrl;
+    } else {
+      import('hls.js')
+        .then(({ default: HlsPlayer }) => {
+          if (cancelled) return;
+          if (!HlsPlayer.isSupported()) {
+            playProgressive();
+            return;
+          }
+          player = new HlsPlayer({ capLevelToPlayerSize: true });
+          player.on(HlsPlayer.Events.ERROR, (_event, data) => {
+            if (!data.fatal) return;
+            console.warn('HLS playback failed, using the progressive video:', data.details);
+            player?.destroy();
+            player = null;
+            playProgressive();
+          });
+          player.loadSource(hlsUrl);
+          player.attachMedia(video);
+        })
+        .catch(playProgressive);
+    }
+
+    return () => {
+      cancelled = true;
+      player?.destroy();
+    };
+  }, [videoRef, hlsUrl, fallbackSrc]);
+}
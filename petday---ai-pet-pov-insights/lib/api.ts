@@ -1,4 +1,4 @@
-import type { ChatStreamMeta } from '../types';
+import type { ChatStreamMeta, ConsolidationReport, HighlightClip, HighlightSpec, MomentClip, MomentClipFormat, PetDaySummary, PetRelationEdge, PetSocialGraph, SessionProgress, SessionStageTiming, SessionStatusEvent } from '../types';
 
 const fallbackApiBase = 'http://localhost:3001';
 const configuredApiBase = typeof import.meta.env.VITE_API_BASE_URL === 'string'
@@ -43,6 +43,156 @@ function visitorHeaders(extra?: HeadersInit): HeadersInit {
   return base;
 }
 
+// ---------------- Session progress stream (EventSource) ----------------
+
+export interface SessionEventCallbacks {
+  onProgress?: (progress: SessionProgress) => void;
+  onStage?: (timing: SessionStageTiming) => void;
+  onStatus?: (status: SessionStatusEvent) => void;
+}
+
+const SESSION_POLL_MS = 3000;
+
+// Streams progress until the session leaves 'processing'. The server ends streams after a
+// short while (each one holds a Cloud Run instance) with an `expired` event; the stream is
+// then reopened and starts again from a fresh snapshot. Only if it cannot be opened at
+// all is the session polled instead.
+export function subscribeSessionEvents(sessionId: string, cb: SessionEventCallbacks): () => void {
+  let source: EventSource | null = null;
+  let closed = false;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  const close = () => {
+    closed = true;
+    source?.close();
+    if (pollTimer) clearTimeout(pollTimer);
+  };
+  const parse = (e: MessageEvent) => {
+    try { return JSON.parse(e.data); } catch { return null; }
+  };
+  const handleStatus = (status: SessionStatusEvent | null) => {
+    if (!status) return;
+    if (status.progress) cb.onProgress?.(status.progress);
+    cb.onStatus?.(status);
+    if (status.status !== 'processing') close();
+  };
+  const poll = (delayMs: number) => {
+    source?.close();
+    if (closed || pollTimer) return;
+    pollTimer = setTimeout(async () => {
+      pollTimer = null;
+      try {
+        const res = await fetch(apiUrl(`/api/session/${encodeURIComponent(sessionId)}`));
+        if (res.ok && !closed) {
+          const data = await res.json();
+          handleStatus({
+            sessionId,
+            status: data.status,
+            progress: data.progress || null,
+            stageTimes: data.stageTimes || [],
+            error: data.error || null,
+            processingTime: data.processingTime ?? null,
+          });
+        }
+      } catch (error) {
+        console.error('Polling error:', error);
+      }
+      poll(SESSION_POLL_MS);
+    }, delayMs);
+  };
+  const connect = () => {
+    const stream = new EventSource(apiUrl(`/api/session/${encodeURIComponent(sessionId)}/events`));
+    source = stream;
+    stream.addEventListener('snapshot', (e) => handleStatus(parse(e as MessageEvent)));
+    stream.addEventListener('status', (e) => handleStatus(parse(e as MessageEvent)));
+    stream.addEventListener('progress', (e) => {
+      const progress = parse(e as MessageEvent);
+      if (progress) cb.onProgress?.(progress);
+    });
+    stream.addEventListener('stage', (e) => {
+      const timing = parse(e as MessageEvent);
+      if (timing) cb.onStage?.(timing);
+    });
+    stream.addEventListener('expired', () => {
+      stream.close();
+      if (!closed) connect();
+    });
+    stream.onerror = () => {
+      // EventSource retries transient drops itself; only give up once it has closed.
+      if (closed || stream.readyState !== EventSource.CLOSED) return;
+      poll(SESSION_POLL_MS);
+    };
+  };
+
+  connect();
+  return close;
+}
+
+// ---------------- Pet days (multi-clip digests) ----------------
+
+// Days are the owner's calendar days, so group and build them in this browser's zone.
+const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export async function fetchPetDays(): Promise<PetDaySummary[]> {
+  const query = `visitorId=${encodeURIComponent(getVisitorId())}&tz=${encodeURIComponent(localTimeZone())}`;
+  const res = await fetch(apiUrl(`/api/days?${query}`), {
+    headers: visitorHeaders(),
+  });
+  if (!res.ok) throw new Error(`Failed to load days (${res.status})`);
+  return res.json();
+}
+
+export async function buildPetDay(day: Pick<PetDaySummary, 'petName' | 'date' | 'sessionIds'>): Promise<{ dayId: string }> {
+  const res = await fetch(apiUrl('/api/days'), {
+    method: 'POST',
+    headers: visitorHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ ...day, visitorId: getVisitorId(), timeZone: localTimeZone() }),
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || `Failed to build day (${res.status})`);
+  return json;
+}
+
+// ---------------- Highlight reels ----------------
+
+// Starts a background re-cut; poll /api/session/:id until highlightJob clears or fails.
+export async function regenerateHighlights(sessionId: string, highlightSpec: HighlightSpec): Promise<any> {
+  const res = await fetch(apiUrl(`/api/session/${encodeURIComponent(sessionId)}/highlights/regenerate`), {
+    method: 'POST',
+    headers: visitorHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ highlightSpec }),
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || `Failed to regenerate highlights (${res.status})`);
+  return json;
+}
+
+// Same background contract as regenerateHighlights, with the user's clip list on the original clock.
+export async function saveHighlightClips(sessionId: string, clips: Pick<HighlightClip, 'start' | 'end' | 'source' | 'friendName'>[]): Promise<any> {
+  const res = await fetch(apiUrl(`/api/session/${encodeURIComponent(sessionId)}/highlights`), {
+    method: 'PUT',
+    headers: visitorHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ clips }),
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || `Failed to save highlight clips (${res.status})`);
+  return json;
+}
+
+// Renders (or returns the cached) loop around an original-clock timestamp.
+export async function createMomentClip(
+  sessionId: string,
+  request: { timestamp: string; seconds?: number; format?: MomentClipFormat },
+): Promise<MomentClip> {
+  const res = await fetch(apiUrl(`/api/session/${encodeURIComponent(sessionId)}/clips`), {
+    method: 'POST',
+    headers: visitorHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify(request),
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || `Failed to make clip (${res.status})`);
+  return json.clip;
+}
+
 // ---------------- Persona REST helpers ----------------
 
 export async function fetchPets(): Promise<any[]> {
@@ -87,6 +237,75 @@ export async function deletePetMemory(petId: string, memoryId: string): Promise<
   if (!res.ok) throw new Error(`Failed to delete memory (${res.status})`);
 }
 
+async function relationRequest(petId: string, path: string, method: string, body: unknown): Promise<PetRelationEdge[]> {
+  const res = await fetch(apiUrl(`/api/pets/${encodeURIComponent(petId)}/relations${path}`), {
+    method,
+    headers: visitorHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify(body),
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || `Failed to update friend (${res.status})`);
+  return json.relations || [];
+}
+
+export function updatePetRelation(
+  petId: string,
+  otherKey: string,
+  body: { displayName?: string; externalPetId?: string | null }
+): Promise<PetRelationEdge[]> {
+  return relationRequest(petId, `/${encodeURIComponent(otherKey)}`, 'PATCH', body);
+}
+
+export function mergePetRelations(petId: string, targetKey: string, sourceKey: string): Promise<PetRelationEdge[]> {
+  return relationRequest(petId, '/merge', 'POST', { targetKey, sourceKey });
+}
+
+export function dismissPetRelationMatch(petId: string, otherKey: string): Promise<PetRelationEdge[]> {
+  return relationRequest(petId, `/${encodeURIComponent(otherKey)}/proposed-match`, 'DELETE', {});
+}
+
+export function splitPetRelation(
+  petId: string,
+  otherKey: string,
+  body: { mergedKey: string } | { displayName: string; memoryIds: string[] }
+): Promise<PetRelationEdge[]> {
+  return relationRequest(petId, `/${encodeURIComponent(otherKey)}/split`, 'POST', body);
+}
+
+export async function fetchPetSocialGraph(petId: string): Promise<PetSocialGraph> {
+  const res = await fetch(apiUrl(`/api/pets/${encodeURIComponent(petId)}/social`), {
+    headers: visitorHeaders(),
+  });
+  if (!res.ok) throw new Error(`Failed to load friends (${res.status})`);
+  return res.json();
+}
+
+export async function setPetSocialGraphOptIn(petId: string, socialGraphOptIn: boolean): Promise<void> {
+  const res = await fetch(apiUrl(`/api/pets/${encodeURIComponent(petId)}`), {
+    method: 'PATCH',
+    headers: visitorHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ socialGraphOptIn }),
+  });
+  if (!res.ok) throw new Error(`Failed to update sharing (${res.status})`);
+}
+
+export async function fetchConsolidationReport(petId: string, run = false): Promise<ConsolidationReport> {
+  const res = await fetch(apiUrl(`/api/pets/${encodeURIComponent(petId)}/consolidation`), {
+    method: run ? 'POST' : 'GET',
+    headers: visitorHeaders(),
+  });
+  if (!res.ok) throw new Error(`Consolidation failed (${res.status})`);
+  return res.json();
+}
+
+export async function undoMemoryConsolidation(petId: string, memoryId: string): Promise<void> {
+  const res = await fetch(apiUrl(`/api/pets/${encodeURIComponent(petId)}/memories/${encodeURIComponent(memoryId)}/unconsolidate`), {
+    method: 'POST',
+    headers: visitorHeaders(),
+  });
+  if (!res.ok) throw new Error(`Undo failed (${res.status})`);
+}
+
 export async function rebuildPetTraits(petId: string): Promise<void> {
   const res = await fetch(apiUrl(`/api/pets/${encodeURIComponent(petId)}/rebuild`), {
     method: 'POST',
@@ -195,3 +414,24 @@ export async function fetchChatMessages(petId: string, threadId: string): Promis
   const json = await res.json();
   return json.messages || [];
 }
+
+// Thumbs up/down on a pet reply (null clears it). Returns the pet's catchphrases as
+// re-derived from all rated replies.
+export async function rateChatMessage(
+  petId: string,
+  threadId: string,
+  messageId: string,
+  rating: 'up' | 'down' | null
+): Promise<string[]> {
+  const res = await fetch(
+    apiUrl(`/api/pets/${encodeURIComponent(petId)}/chats/${encodeURIComponent(threadId)}/messages/${encodeURIComponent(messageId)}`),
+    {
+      method: 'PATCH',
+      headers: visitorHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ rating }),
+    }
+  );
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json.error || `Failed to rate reply (${res.status})`);
+  return json.catchphrases || [];
+}
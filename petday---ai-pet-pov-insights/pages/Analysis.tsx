@@ -1,9 +1,10 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import { AnalysisData } from '../types';
-import { apiUrl } from '../lib/api';
+import { AnalysisData, HighlightSpec, HighlightStyle, HighlightTargetSeconds, SessionProgress } from '../types';
+import { apiUrl, createMomentClip, regenerateHighlights, saveHighlightClips, subscribeSessionEvents } from '../lib/api';
+import { useAdaptivePlayback } from '../lib/adaptivePlayback';
 import {
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, ReferenceLine
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, ReferenceLine, ReferenceDot
 } from 'recharts';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
@@ -14,6 +15,29 @@ import {
   Copy, Check, Link, ChevronDown, Film
 } from 'lucide-react';
 
+const DEFAULT_REEL_SPEC: HighlightSpec = {
+  targetSeconds: 60,
+  style: 'balanced',
+  mandatory: { friends: true, scenery: true, food: true, safety: true },
+  burnCaptions: false,
+  renderMode: 'standard'
+};
+const REEL_LENGTHS: HighlightTargetSeconds[] = [15, 30, 60, 180];
+const REEL_STYLES: HighlightStyle[] = ['balanced', 'action', 'scenic', 'social'];
+const REEL_POLL_INTERVAL_MS = 4000;
+const REEL_VARIANTS: { variant: 'vertical' | 'square'; label: string; hint: string }[] = [
+  { variant: 'vertical', label: 'Vertical Highlight (9:16)', hint: 'For Stories, Reels and TikTok' },
+  { variant: 'square', label: 'Square Highlight (1:1)', hint: 'For feed posts' },
+];
+const NEW_CLIP_SECONDS = 5;
+
+interface EditableClip {
+  start: number; // seconds on the original recording
+  end: number;
+  source?: string;
+  friendName?: string;
+}
+
 interface AnalysisProps {
   onBack?: () => void;
   onNavigate?: (page: import('../types').Page) => void;
@@ -24,6 +48,7 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
   const [sessionData, setSessionData] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [processingProgress, setProcessingProgress] = useState<SessionProgress | null>(null);
 
   // Video & TTS State
   const [isPlaying, setIsPlaying] = useState(false);
@@ -48,12 +73,17 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
   const [showOriginalVideo, setShowOriginalVideo] = useState(false);
   const [pendingOriginalActivity, setPendingOriginalActivity] = useState<{ label: string; time: string } | null>(null);
   const [videoWarning, setVideoWarning] = useState<string | null>(null);
+  const [reelSpec, setReelSpec] = useState<HighlightSpec>(DEFAULT_REEL_SPEC);
+  const [reelRegenerating, setReelRegenerating] = useState(false);
+  const [editedClips, setEditedClips] = useState<EditableClip[] | null>(null);
+  const [selectedClipIdx, setSelectedClipIdx] = useState<number | null>(null);
   const sceneryModalRef = useRef<HTMLDivElement>(null);
   const [sceneryModalWidth, setSceneryModalWidth] = useState(0);
 
   // Share & Download State
   const [showShareModal, setShowShareModal] = useState(false);
   const [showDownloadMenu, setShowDownloadMenu] = useState(false);
+  const [clipRenders, setClipRenders] = useState<Record<string, 'rendering' | 'failed'>>({});
   const [linkCopied, setLinkCopied] = useState(false);
   const [discoverySharing, setDiscoverySharing] = useState(false);
   const [discoveryShared, setDiscoveryShared] = useState(false);
@@ -105,7 +135,10 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
       return;
     }
 
+    let unsubscribe: (() => void) | null = null;
+
     const fetchAnalysis = async () => {
+      let stillProcessing = false;
       try {
         const response = await fetch(apiUrl(`/api/session/${sessionId}`));
         const data = await response.json();
@@ -134,19 +167,130 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
           setVideoWarning(hasHighlight ? null : (readyData.highlightError || 'AI highlight is unavailable for this session. Showing the original video.'));
         } else if (data.status === 'error') {
           setError(data.error || 'Analysis failed');
+        } else if (data.status === 'cancelled') {
+          setError('Analysis was cancelled');
+        } else if (data.status === 'processing') {
+          // Keep the loading screen up and reload once the pipeline finishes.
+          stillProcessing = true;
+          setProcessingProgress(data.progress || null);
+          unsubscribe = subscribeSessionEvents(sessionId, {
+            onProgress: setProcessingProgress,
+            onStatus: (event) => {
+              if (event.status === 'processing') return;
+              unsubscribe?.();
+              unsubscribe = null;
+              fetchAnalysis();
+            }
+          });
         } else {
           setError('Analysis is still processing');
         }
       } catch (err) {
         setError('Failed to fetch analysis data');
       } finally {
-        setIsLoading(false);
+        if (!stillProcessing) setIsLoading(false);
       }
     };
 
     fetchAnalysis();
+    return () => unsubscribe?.();
   }, []);
 
+  // Reel settings start from the spec the current reel was cut with; resume polling after a reload.
+  useEffect(() => {
+    if (!sessionData?.id) return;
+    setReelSpec({ ...DEFAULT_REEL_SPEC, ...(sessionData.highlightJob?.spec || sessionData.highlightSpec) });
+    setReelRegenerating(sessionData.highlightJob?.status === 'running');
+  }, [sessionData?.id]);
+
+  useEffect(() => {
+    if (!reelRegenerating || !sessionData?.id) return;
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(apiUrl(`/api/session/${sessionData.id}`));
+        const data = await response.json();
+        if (data.highlightJob?.status === 'running') return;
+        setReelRegenerating(false);
+        setSessionData(data);
+        setAnalysis(data.analysis);
+        if (data.highlightJob?.status === 'failed') {
+          setVideoWarning(data.highlightJob.error || 'Could not re-cut the highlight. The previous reel is still available.');
+        } else {
+          setVideoWarning(null);
+          setShowOriginalVideo(false);
+        }
+      } catch (err) {
+        console.warn('Highlight status check failed:', err);
+      }
+    }, REEL_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [reelRegenerating, sessionData?.id]);
+
+  const handleRegenerateReel = async () => {
+    if (!sessionData?.id || reelRegenerating) return;
+    try {
+      const data = await regenerateHighlights(sessionData.id, reelSpec);
+      setSessionData(data);
+      setReelRegenerating(true);
+      setVideoWarning(null);
+    } catch (err) {
+      setVideoWarning((err as Error).message);
+    }
+  };
+
+  const startClipEditing = () => {
+    setEditedClips((analysis?.highlightTimestamps || []).map((clip) => ({
+      start: timeToSeconds(clip.start),
+      end: timeToSeconds(clip.end),
+      source: clip.source,
+      friendName: clip.friendName
+    })));
+    setSelectedClipIdx(null);
+  };
+
+  const updateEditedClip = (idx: number, patch: Partial<EditableClip>) => {
+    if (!editedClips) return;
+    const limit = originalDuration || Infinity;
+    setEditedClips(editedClips.map((clip, i) => {
+      if (i !== idx) return clip;
+      const next = { ...clip, ...patch };
+      next.start = Math.max(0, Math.min(next.start, limit - 1));
+      next.end = Math.max(next.start + 1, Math.min(next.end, limit));
+      return next;
+    }));
+  };
+
+  const addEditedClip = () => {
+    if (!editedClips) return;
+    // The playhead is only on the original clock while the original video is showing.
+    const lastEnd = editedClips.reduce((max, clip) => Math.max(max, clip.end), 0);
+    const start = Math.floor(showOriginalVideo ? currentTime : lastEnd);
+    const end = Math.min(start + NEW_CLIP_SECONDS, originalDuration || start + NEW_CLIP_SECONDS);
+    if (end - start < 1) return;
+    const next = [...editedClips, { start, end, source: 'user' }].sort((a, b) => a.start - b.start);
+    setEditedClips(next);
+    setSelectedClipIdx(next.findIndex((clip) => clip.start === start && clip.end === end));
+  };
+
+  const handleSaveClips = async () => {
+    if (!sessionData?.id || !editedClips || reelRegenerating) return;
+    try {
+      const data = await saveHighlightClips(sessionData.id, editedClips.map((clip) => ({
+        start: formatTime(clip.start),
+        end: formatTime(clip.end),
+        source: clip.source,
+        friendName: clip.friendName
+      })));
+      setSessionData(data);
+      setReelRegenerating(true);
+      setEditedClips(null);
+      setSelectedClipIdx(null);
+      setVideoWarning(null);
+    } catch (err) {
+      setVideoWarning((err as Error).message);
+    }
+  };
+
   // Check if session is shared to Discovery and fetch comments
   useEffect(() => {
     if (!sessionData?.id) return;
@@ -421,12 +565,32 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
     }
   }, [showOriginalVideo, pendingOriginalActivity]);
 
+  // The player only mounts once the analysis has loaded, so sources stay empty until then.
+  const playerMounted = !isLoading && !error && Boolean(analysis);
+  const playingHighlight = !showOriginalVideo && Boolean(sessionData?.highlightUrl);
+  useAdaptivePlayback(
+    videoRef,
+    playerMounted ? (playingHighlight ? sessionData?.hlsUrls?.highlight : sessionData?.hlsUrls?.original) : null,
+    playerMounted ? (playingHighlight ? sessionData?.highlightUrl : sessionData?.videoUrl) : null
+  );
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-screen bg-[#0F1115]">
         <div className="flex flex-col items-center gap-6">
           <div className="size-20 border-4 border-[#F2CC0D] border-t-transparent rounded-full animate-spin"></div>
           <p className="text-xl font-bold text-[#F2CC0D] animate-pulse uppercase tracking-[0.3em]">AI Analyzing...</p>
+          {processingProgress && (
+            <div className="w-64 space-y-2">
+              <div className="flex justify-between text-xs font-bold uppercase tracking-widest text-slate-400">
+                <span>{processingProgress.stage}</span>
+                <span>{processingProgress.percent}%</span>
+              </div>
+              <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                <div className="h-full bg-[#F2CC0D] rounded-full transition-all duration-700" style={{ width: `${processingProgress.percent}%` }} />
+              </div>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -456,9 +620,11 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
 
   const originalDuration = sessionData?.originalDuration || 0;
   const hasHighlightVideo = Boolean(sessionData?.highlightUrl);
-  const currentVideoSrc = (!showOriginalVideo && hasHighlightVideo)
-    ? sessionData?.highlightUrl
-    : sessionData?.videoUrl;
+  // Day digests stitch several clips; there is no single original video to switch to.
+  const isDayDigest = sessionData?.kind === 'day';
+  const canMakeClips = !isDayDigest && !sessionData?.isSample;
+  const highlightHasBurnedCaptions = Boolean(sessionData?.highlightSpec?.burnCaptions);
+  const dayClips: { sessionId: string; originalName: string; offset: number; duration: number }[] = sessionData?.dayClips || [];
 
   const getRelationshipConfig = (status?: string) => {
     switch (status) {
@@ -572,7 +738,7 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
     }
   };
 
-  const handleDownload = async (type: 'highlight' | 'original' | 'cover') => {
+  const handleDownload = async (type: 'highlight' | 'highlight-vertical' | 'highlight-square' | 'original' | 'cover' | 'captions-srt' | 'captions-vtt') => {
     let url: string | undefined;
     let filename: string;
 
@@ -581,6 +747,13 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
         url = sessionData?.highlightUrl;
         filename = `${sessionData?.petName || 'pet'}-highlight.mp4`;
         break;
+      case 'highlight-vertical':
+      case 'highlight-square': {
+        const variant = type === 'highlight-vertical' ? 'vertical' : 'square';
+        url = sessionData?.highlightVariantUrls?.[variant];
+        filename = `${sessionData?.petName || 'pet'}-highlight-${variant}.mp4`;
+        break;
+      }
       case 'original':
         url = sessionData?.videoUrl;
         filename = `${sessionData?.petName || 'pet'}-original.mp4`;
@@ -589,10 +762,22 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
         url = sessionData?.coverUrl;
         filename = `${sessionData?.petName || 'pet'}-cover.jpg`;
         break;
+      case 'captions-srt':
+      case 'captions-vtt': {
+        const format = type === 'captions-srt' ? 'srt' : 'vtt';
+        url = sessionData?.captionUrls?.[format];
+        filename = `${sessionData?.petName || 'pet'}-highlight.${format}`;
+        break;
+      }
     }
 
     if (!url) return;
 
+    await saveUrlAs(url, filename);
+    setShowDownloadMenu(false);
+  };
+
+  const saveUrlAs = async (url: string, filename: string) => {
     try {
       const response = await fetch(url);
       const blob = await response.blob();
@@ -608,8 +793,44 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
       // Fallback: open in new tab
       window.open(url, '_blank');
     }
+  };
 
-    setShowDownloadMenu(false);
+  // Card action: a looping GIF around the card's moment, on the original clock.
+  const handleMakeGif = async (cardKey: string, originalTime: string | undefined, label: string) => {
+    if (!sessionData?.id || !originalTime || clipRenders[cardKey] === 'rendering') return;
+    setClipRenders((prev) => ({ ...prev, [cardKey]: 'rendering' }));
+    try {
+      const clip = await createMomentClip(sessionData.id, { timestamp: originalTime, format: 'gif' });
+      const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'moment';
+      await saveUrlAs(clip.url, `${sessionData.petName || 'pet'}-${slug}.${clip.format}`);
+      setClipRenders((prev) => {
+        const next = { ...prev };
+        delete next[cardKey];
+        return next;
+      });
+    } catch (err) {
+      console.error('Failed to make GIF:', err);
+      setClipRenders((prev) => ({ ...prev, [cardKey]: 'failed' }));
+    }
+  };
+
+  const renderMakeGifButton = (cardKey: string, originalTime: string | undefined, label: string, className = '') => {
+    if (!canMakeClips || !originalTime) return null;
+    const state = clipRenders[cardKey];
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          handleMakeGif(cardKey, originalTime, label);
+        }}
+        disabled={state === 'rendering'}
+        title={state === 'failed' ? 'Could not make the GIF. Click to try again.' : `Make a looping GIF of ${label}`}
+        className={`flex items-center gap-1 px-2 py-1 rounded-lg bg-black/60 backdrop-blur-md border border-white/10 text-[9px] font-black uppercase tracking-widest transition-all hover:bg-[#F2CC0D] hover:text-black disabled:opacity-60 ${state === 'failed' ? 'text-red-400' : 'text-white/80'} ${className}`}
+      >
+        <span className="material-symbols-outlined text-xs">{state === 'rendering' ? 'hourglass_top' : 'gif_box'}</span>
+        {state === 'rendering' ? 'Making…' : state === 'failed' ? 'Retry GIF' : 'Make GIF'}
+      </button>
+    );
   };
 
   const fullTimeline = (analysis?.timeline && analysis.timeline.length > 0)
@@ -632,6 +853,15 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
     originalSeconds: timeToSeconds(d.originalTime || d.name)
   })) || []; // Keep order as provided by AI to maintain the story sequence
 
+  // Measured activity is per second; thin it so long recordings don't flood the chart.
+  const activityChartData = (() => {
+    const points = analysis?.activityData || [];
+    const step = Math.max(1, Math.ceil(points.length / 300));
+    return points
+      .filter((_, idx) => idx % step === 0)
+      .map(p => ({ originalSeconds: timeToSeconds(p.name), activity: p.value }));
+  })();
+
   // 1. Process Scenery Focus Data for Graph
   // We create a "Density" curve where the Y-axis is the stayDuration
   const sceneryFocusData = analysis?.scenery?.map(s => ({
@@ -674,7 +904,7 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
             initial={{ opacity: 0, x: -20 }} animate={{ opacity: 1, x: 0 }}
             className="flex items-center gap-3"
           >
-            <span className="px-3 py-1 bg-[#F2CC0D]/10 text-[#F2CC0D] text-[10px] font-black uppercase tracking-[0.2em] rounded-full border border-[#F2CC0D]/20">AI Generated Report</span>
+            <span className="px-3 py-1 bg-[#F2CC0D]/10 text-[#F2CC0D] text-[10px] font-black uppercase tracking-[0.2em] rounded-full border border-[#F2CC0D]/20">{isDayDigest ? `Day Digest · ${dayClips.length} Clips` : 'AI Generated Report'}</span>
             <span className="text-slate-500 text-xs font-bold uppercase tracking-widest flex items-center gap-2">
               <Calendar size={12} /> {sessionData?.createdAt ? new Date(sessionData.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : 'Jan 21, 2026'}
             </span>
@@ -685,6 +915,23 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
           >
             {analysis.title}
           </motion.h1>
+          {isDayDigest && dayClips.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {dayClips.map((clip, i) => (
+                <button
+                  key={clip.sessionId}
+                  onClick={() => {
+                    localStorage.setItem('currentSessionId', clip.sessionId);
+                    window.location.reload();
+                  }}
+                  title={`Open clip ${i + 1}`}
+                  className="px-3 py-1.5 rounded-xl bg-white/5 border border-white/10 text-[11px] font-bold text-white/60 hover:text-white hover:border-[#F2CC0D]/40 transition-all"
+                >
+                  {formatTime(clip.offset)} · {clip.originalName}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="flex items-center gap-4">
             {/* Ask My Pet (persona chat) */}
             {onNavigate && sessionData?.petId && (
@@ -735,6 +982,32 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
                         <div className="text-xs text-white/40 font-normal">Edited video</div>
                       </div>
                     </button>
+                    {REEL_VARIANTS.filter(({ variant }) => sessionData?.highlightVariantUrls?.[variant]).map(({ variant, label, hint }) => (
+                      <button
+                        key={variant}
+                        onClick={() => handleDownload(`highlight-${variant}`)}
+                        className="flex items-center gap-3 w-full px-5 py-4 text-left text-sm font-semibold text-white hover:bg-white/5 transition-colors"
+                      >
+                        <span className="material-symbols-outlined text-lg text-[#F2CC0D]">{variant === 'vertical' ? 'crop_portrait' : 'crop_square'}</span>
+                        <div>
+                          <div>{label}</div>
+                          <div className="text-xs text-white/40 font-normal">{hint}</div>
+                        </div>
+                      </button>
+                    ))}
+                    {sessionData?.captionUrls && (['srt', 'vtt'] as const).map((format) => (
+                      <button
+                        key={format}
+                        onClick={() => handleDownload(format === 'srt' ? 'captions-srt' : 'captions-vtt')}
+                        className="flex items-center gap-3 w-full px-5 py-4 text-left text-sm font-semibold text-white hover:bg-white/5 transition-colors"
+                      >
+                        <span className="material-symbols-outlined text-lg text-[#F2CC0D]">closed_caption</span>
+                        <div>
+                          <div>Captions (.{format})</div>
+                          <div className="text-xs text-white/40 font-normal">{format === 'srt' ? 'For video editors and social apps' : 'For web players'}</div>
+                        </div>
+                      </button>
+                    ))}
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -779,6 +1052,7 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
               >
                 AI Highlight
               </button>
+              {!isDayDigest && (
               <button
                 onClick={() => {
                   if (!showOriginalVideo) {
@@ -801,6 +1075,7 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
               >
                 Original
               </button>
+              )}
             </div>
           </div>
 
@@ -808,13 +1083,14 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
           <section className="relative aspect-video bg-black rounded-2xl md:rounded-[3rem] overflow-hidden border border-white/5 shadow-2xl group ring-1 ring-white/10">
             <video
               ref={videoRef}
-              src={currentVideoSrc}
               className="w-full h-full object-cover"
               onTimeUpdate={handleTimeUpdate}
               onLoadedMetadata={handleLoadedMetadata}
               onClick={togglePlay}
               onError={() => {
-                if (!showOriginalVideo) {
+                if (isDayDigest) {
+                  setVideoWarning(sessionData?.highlightError || 'The day reel failed to load. Please refresh and try again.');
+                } else if (!showOriginalVideo) {
                   setVideoWarning(sessionData?.highlightError || 'AI highlight failed to load. Switched to original video.');
                   setShowOriginalVideo(true);
                 } else {
@@ -842,8 +1118,8 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
               )}
             </AnimatePresence>
 
-            {/* Subtitles Overlay */}
-            {showSubtitles && currentSubtitle && (
+            {/* Subtitles Overlay (skipped when the reel already has them burned in) */}
+            {showSubtitles && currentSubtitle && !(highlightHasBurnedCaptions && !showOriginalVideo) && (
               <div className="absolute bottom-24 left-1/2 -translate-x-1/2 w-3/4 text-center z-10">
                 <p className="bg-black/60 backdrop-blur-md text-white text-lg font-bold px-6 py-3 rounded-2xl border border-white/10 shadow-2xl inline-block">
                   {currentSubtitle}
@@ -888,6 +1164,97 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
             </div>
           </section>
 
+          {/* REEL SETTINGS */}
+          {!isDayDigest && !sessionData?.isSample && (
+            <section className="bg-surface-dark rounded-2xl md:rounded-[3rem] border border-white/5 p-4 md:p-8 shadow-2xl space-y-6">
+              <header className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                  <div className="size-10 bg-white/5 rounded-xl flex items-center justify-center text-[#F2CC0D]">
+                    <Film size={20} />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-black uppercase tracking-tight">Reel Settings</h2>
+                    <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest mt-0.5">Re-cut the highlight without re-analyzing</p>
+                  </div>
+                </div>
+                <button
+                  onClick={handleRegenerateReel}
+                  disabled={reelRegenerating}
+                  className="bg-[#F2CC0D] text-black px-5 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest hover:scale-105 transition-all disabled:opacity-50 disabled:hover:scale-100"
+                >
+                  {reelRegenerating ? 'Re-cutting…' : 'Regenerate'}
+                </button>
+              </header>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="space-y-2">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-white/40">Length</p>
+                  <div className="flex flex-wrap gap-2">
+                    {REEL_LENGTHS.map((seconds) => (
+                      <button
+                        key={seconds}
+                        disabled={reelRegenerating}
+                        onClick={() => setReelSpec({ ...reelSpec, targetSeconds: seconds })}
+                        className={`px-3 py-2 rounded-xl text-xs font-black transition-all ${reelSpec.targetSeconds === seconds ? 'bg-[#F2CC0D] text-black' : 'bg-white/5 text-white/50 hover:text-white'}`}
+                      >
+                        {seconds < 60 ? `${seconds}s` : `${seconds / 60}m`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-white/40">Style</p>
+                  <div className="flex flex-wrap gap-2">
+                    {REEL_STYLES.map((style) => (
+                      <button
+                        key={style}
+                        disabled={reelRegenerating}
+                        onClick={() => setReelSpec({ ...reelSpec, style })}
+                        className={`px-3 py-2 rounded-xl text-xs font-black capitalize transition-all ${reelSpec.style === style ? 'bg-[#F2CC0D] text-black' : 'bg-white/5 text-white/50 hover:text-white'}`}
+                      >
+                        {style}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-white/40">Always include</p>
+                  <div className="flex flex-wrap gap-2">
+                    {(Object.keys(reelSpec.mandatory) as (keyof HighlightSpec['mandatory'])[]).map((key) => (
+                      <button
+                        key={key}
+                        disabled={reelRegenerating}
+                        onClick={() => setReelSpec({ ...reelSpec, mandatory: { ...reelSpec.mandatory, [key]: !reelSpec.mandatory[key] } })}
+                        className={`px-3 py-2 rounded-xl text-xs font-black capitalize transition-all border ${reelSpec.mandatory[key] ? 'border-[#F2CC0D]/40 text-[#F2CC0D]' : 'border-white/10 text-white/30 hover:text-white'}`}
+                      >
+                        {key}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <label className="flex items-center gap-3 text-xs font-bold text-white/60 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={reelSpec.burnCaptions}
+                  disabled={reelRegenerating}
+                  onChange={(e) => setReelSpec({ ...reelSpec, burnCaptions: e.target.checked })}
+                  className="accent-[#F2CC0D]"
+                />
+                Burn pet-POV captions into the video (for sharing to social apps)
+              </label>
+              <label className="flex items-center gap-3 text-xs font-bold text-white/60 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={reelSpec.renderMode === 'polished'}
+                  disabled={reelRegenerating}
+                  onChange={(e) => setReelSpec({ ...reelSpec, renderMode: e.target.checked ? 'polished' : 'standard' })}
+                  className="accent-[#F2CC0D]"
+                />
+                Polished render: crossfades, title and end cards, and a music bed under the camera audio
+              </label>
+            </section>
+          )}
+
           {/* INTEGRATED MOOD & EVENT TIMELINE */}
           <section className="bg-surface-dark rounded-2xl md:rounded-[3rem] border border-white/5 p-4 md:p-10 shadow-2xl space-y-10 relative overflow-hidden">
             <div className="absolute top-0 right-0 p-8 opacity-5">
@@ -1074,12 +1441,41 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
                     <Area
                       type="monotone"
                       dataKey="value"
+                      name="Mood"
                       stroke="#F2CC0D"
                       strokeWidth={4}
                       fillOpacity={1}
                       fill="url(#colorValue)"
                       animationDuration={2000}
                     />
+                    {activityChartData.length > 0 && (
+                      <Area
+                        type="monotone"
+                        data={activityChartData}
+                        dataKey="activity"
+                        name="Activity"
+                        stroke="rgba(255,255,255,0.35)"
+                        strokeWidth={1.5}
+                        fill="none"
+                        dot={false}
+                        activeDot={false}
+                        tooltipType="none"
+                        isAnimationActive={false}
+                      />
+                    )}
+                    {/* Mood points the measured motion disagrees with */}
+                    {chartData.filter(d => d.activityConflict).map((d, idx) => (
+                      <ReferenceDot
+                        key={`conflict-${idx}`}
+                        x={d.originalSeconds}
+                        y={d.value}
+                        r={5}
+                        fill="#1A1D23"
+                        stroke="#F97316"
+                        strokeWidth={2}
+                        ifOverflow="extendDomain"
+                      />
+                    ))}
                     {/* Correlation Line Markers on Chart - Muted and smaller to prioritize SVG connections */}
                     {fullTimeline.map((event, idx) => (
                       <ReferenceLine
@@ -1096,7 +1492,101 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
                   })()}
                 </ResponsiveContainer>
               </div>
+              {activityChartData.length > 0 && (
+                <div className="flex items-center gap-6 px-10 mt-2 text-[10px] font-black uppercase tracking-widest text-white/40">
+                  <span className="flex items-center gap-2"><span className="w-4 h-1 rounded-full bg-[#F2CC0D]" />Mood</span>
+                  <span className="flex items-center gap-2"><span className="w-4 h-0.5 rounded-full bg-white/40" />Measured activity</span>
+                  {chartData.some(d => d.activityConflict) && (
+                    <span className="flex items-center gap-2"><span className="size-2.5 rounded-full border-2 border-[#F97316]" />Mood vs. motion mismatch</span>
+                  )}
+                </div>
+              )}
             </div>
+
+            {/* HIGHLIGHT CLIP EDITOR (original clock) */}
+            {!isDayDigest && !sessionData?.isSample && originalDuration > 0 && (
+              <div className="space-y-4 pt-6 border-t border-white/5">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-[10px] font-black uppercase tracking-widest text-white/40">Highlight Clips</p>
+                    <p className="text-[10px] font-bold text-white/20 mt-0.5">
+                      {(editedClips || []).length > 0
+                        ? `${editedClips!.length} clips · ${formatTime(editedClips!.reduce((sum, clip) => sum + clip.end - clip.start, 0))} reel`
+                        : sessionData?.highlightEdited ? 'Edited by you' : 'Picked by AI'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {editedClips ? (
+                      <>
+                        <button onClick={addEditedClip} className="px-3 py-2 rounded-xl bg-white/5 text-white/60 hover:text-white text-[10px] font-black uppercase tracking-widest">
+                          Add clip{showOriginalVideo ? ' at playhead' : ''}
+                        </button>
+                        <button onClick={() => { setEditedClips(null); setSelectedClipIdx(null); }} className="px-3 py-2 rounded-xl bg-white/5 text-white/60 hover:text-white text-[10px] font-black uppercase tracking-widest">
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleSaveClips}
+                          disabled={reelRegenerating || editedClips.length === 0}
+                          className="px-3 py-2 rounded-xl bg-[#F2CC0D] text-black text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+                        >
+                          Save & Re-cut
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={startClipEditing}
+                        disabled={reelRegenerating}
+                        className="px-3 py-2 rounded-xl bg-white/5 text-white/60 hover:text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+                      >
+                        {reelRegenerating ? 'Re-cutting…' : 'Edit Clips'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="relative h-8 rounded-xl bg-white/5 overflow-hidden">
+                  {(editedClips || (analysis.highlightTimestamps || []).map((clip) => ({
+                    start: timeToSeconds(clip.start),
+                    end: timeToSeconds(clip.end),
+                    source: clip.source
+                  }))).map((clip, idx) => (
+                    <button
+                      key={`${clip.start}-${idx}`}
+                      disabled={!editedClips}
+                      onClick={() => setSelectedClipIdx(idx)}
+                      title={`${formatTime(clip.start)}–${formatTime(clip.end)}${clip.source ? ` · ${clip.source}` : ''}`}
+                      className={`absolute inset-y-1 rounded-md transition-colors ${selectedClipIdx === idx && editedClips ? 'bg-[#F2CC0D]' : 'bg-[#F2CC0D]/40 hover:bg-[#F2CC0D]/70'}`}
+                      style={{
+                        left: `${(clip.start / originalDuration) * 100}%`,
+                        width: `${Math.max(0.5, ((clip.end - clip.start) / originalDuration) * 100)}%`
+                      }}
+                    />
+                  ))}
+                </div>
+
+                {editedClips && selectedClipIdx !== null && editedClips[selectedClipIdx] && (
+                  <div className="flex flex-wrap items-center gap-3 text-xs font-bold text-white/60">
+                    {(['start', 'end'] as const).map((edge) => (
+                      <div key={edge} className="flex items-center gap-1">
+                        <span className="uppercase tracking-widest text-[10px] text-white/30 w-10">{edge}</span>
+                        <button onClick={() => updateEditedClip(selectedClipIdx, { [edge]: editedClips[selectedClipIdx][edge] - 1 })} className="px-2 py-1 rounded-lg bg-white/5 hover:text-white">−1s</button>
+                        <span className="w-12 text-center text-white tabular-nums">{formatTime(editedClips[selectedClipIdx][edge])}</span>
+                        <button onClick={() => updateEditedClip(selectedClipIdx, { [edge]: editedClips[selectedClipIdx][edge] + 1 })} className="px-2 py-1 rounded-lg bg-white/5 hover:text-white">+1s</button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => {
+                        setEditedClips(editedClips.filter((_, i) => i !== selectedClipIdx));
+                        setSelectedClipIdx(null);
+                      }}
+                      className="ml-auto px-3 py-1 rounded-lg bg-red-500/10 text-red-400 hover:bg-red-500/20 text-[10px] font-black uppercase tracking-widest"
+                    >
+                      Remove clip
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
           </section>
 
           {/* SCENERY INTELLIGENCE (Moved from Right Column) */}
@@ -1131,6 +1621,7 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
                       <span className="text-[10px] text-white/40 font-bold leading-tight uppercase">{item.sceneryLabel || item.description}</span>
                     </div>
                   )}
+                  {renderMakeGifButton(`scenery-${idx}`, item.originalTime || item.timestamp, item.sceneryLabel || 'the view', 'absolute top-2 right-2 opacity-0 group-hover:opacity-100')}
                   <div className="absolute inset-x-0 bottom-0 p-3 bg-gradient-to-t from-black/80 to-transparent">
                     <p className="text-[9px] font-black text-white/90 leading-tight uppercase truncate">{item.sceneryLabel || item.description || 'Scenery'}</p>
                     <span className="text-[8px] font-black text-blue-400/80 uppercase mt-0.5 block tracking-widest">{item.timestamp}</span>
@@ -1261,6 +1752,8 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
                       </div>
                     )}
 
+                    {renderMakeGifButton(`friend-${idx}`, friend.originalTimestamp || friend.timestamp, friend.name, 'mt-3')}
+
                     <div className="absolute top-2 right-2">
                       <span className="text-[10px] bg-black/60 backdrop-blur-md text-white/60 px-2 py-0.5 rounded-lg font-black tabular-nums border border-white/5">
                         {hasMultipleInteractions ? `${interactions.length}x` : ((showOriginalVideo ? friend.originalTimestamp : friend.timestamp) || '0:00')}
@@ -1309,6 +1802,7 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
                         <span className="text-[9px] bg-white/10 backdrop-blur-md text-white/60 px-2 py-0.5 rounded font-black tabular-nums mt-1 inline-block">{habit.timestamp}</span>
                       </div>
                     </div>
+                    {renderMakeGifButton(`food-${idx}`, habit.originalTime || habit.timestamp, habit.item, 'absolute top-3 right-3 opacity-0 group-hover:opacity-100')}
                   </motion.div>
                 ))}
               </div>
@@ -1346,6 +1840,7 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
                         }`}>
                         {alert.timestamp}
                       </span>
+                      {renderMakeGifButton(`safety-${idx}`, alert.timestamp, alert.message)}
                     </div>
                   </div>
                 </motion.div>
@@ -1938,7 +2433,7 @@ const Analysis: React.FC<AnalysisProps> = ({ onBack, onNavigate }) => {
 
       {/* ACTIVITY JUMP NOTICE */}
       <AnimatePresence>
-        {pendingOriginalActivity && !showOriginalVideo && (
+        {pendingOriginalActivity && !showOriginalVideo && !isDayDigest && (
           <div className="fixed inset-0 z-[130] flex items-center justify-center p-6">
             <motion.div
               initial={{ opacity: 0 }}
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { apiUrl, fetchPets, getVisitorId } from '../lib/api';
+import { apiUrl, fetchPets, getVisitorId, subscribeSessionEvents } from '../lib/api';
 import { setActivePetId } from '../lib/personaState';
 import { Page } from '../types';
 
@@ -51,6 +51,21 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
     }
   };
 
+  const handleCancel = async (sessionId: string) => {
+    try {
+      const res = await fetch(apiUrl(`/api/session/${sessionId}/cancel`), { method: 'POST' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({ error: 'Cancel failed' }));
+        throw new Error(data.error || 'Cancel failed');
+      }
+      setRecentUploads(prev => prev.map(u =>
+        u.id === sessionId ? { ...u, progress: { ...(u.progress || {}), stage: 'Cancelling' } } : u
+      ));
+    } catch (err: any) {
+      alert(err.message || 'Failed to cancel session');
+    }
+  };
+
   const formatSessionForDashboard = (session: any) => ({
     id: session.id,
     name: session.originalName,
@@ -65,32 +80,47 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
     progress: session.progress || null
   });
 
-  const activePollers = React.useRef<Set<string>>(new Set());
+  const activeWatchers = React.useRef<Map<string, () => void>>(new Map());
 
-  const pollStatus = React.useCallback((sessionId: string) => {
-    // Prevent duplicate pollers for the same session
-    if (activePollers.current.has(sessionId)) return;
-    activePollers.current.add(sessionId);
+  const watchStatus = React.useCallback((sessionId: string) => {
+    // Prevent duplicate watchers for the same session
+    if (activeWatchers.current.has(sessionId)) return;
 
-    const interval = setInterval(async () => {
+    const stop = () => {
+      unsubscribe();
+      activeWatchers.current.delete(sessionId);
+    };
+
+    const setProgress = (progress: any) => {
+      setRecentUploads(prev => prev.map(u =>
+        u.id === sessionId ? { ...u, progress } : u
+      ));
+    };
+
+    const refreshFinished = async () => {
+      stop();
       try {
         const response = await fetch(apiUrl(`/api/session/${sessionId}`));
         const data = await response.json();
-        if (data.status === 'ready' || data.status === 'error') {
-          setRecentUploads(prev => prev.map(u =>
-            u.id === sessionId ? { ...u, ...formatSessionForDashboard(data) } : u
-          ));
-          clearInterval(interval);
-          activePollers.current.delete(sessionId);
-        } else if (data.status === 'processing' && data.progress) {
-          setRecentUploads(prev => prev.map(u =>
-            u.id === sessionId ? { ...u, progress: data.progress } : u
-          ));
-        }
+        setRecentUploads(prev => prev.map(u =>
+          u.id === sessionId ? { ...u, ...formatSessionForDashboard(data) } : u
+        ));
       } catch (error) {
-        console.error('Polling error:', error);
+        console.error('Failed to refresh session:', error);
+      }
+    };
+
+    const unsubscribe = subscribeSessionEvents(sessionId, {
+      onProgress: setProgress,
+      onStatus: (event) => {
+        if (event.status !== 'processing') void refreshFinished();
       }
-    }, 3000);
+    });
+    activeWatchers.current.set(sessionId, stop);
+  }, []);
+
+  React.useEffect(() => () => {
+    activeWatchers.current.forEach(stop => stop());
   }, []);
 
   React.useEffect(() => {
@@ -105,7 +135,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
           const filtered = formatted.filter((s: any) => !sampleIds.has(s.id));
           return [...prev.filter(s => s.isSample), ...filtered];
         });
-        formatted.forEach((s: any) => { if (s.status === 'processing') pollStatus(s.id); });
+        formatted.forEach((s: any) => { if (s.status === 'processing') watchStatus(s.id); });
       } catch (e) {
         console.error('Failed to fetch user sessions:', e);
       }
@@ -128,7 +158,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
 
     fetchUserSessions();
     fetchSamples();
-  }, [pollStatus]);
+  }, [watchStatus]);
 
   const readErrorMessage = async (response: Response) => {
     try {
@@ -229,6 +259,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
     formData.append('video', file);
     formData.append('petName', selectedPetName);
     formData.append('visitorId', visitorId);
+    formData.append('fileModifiedAt', String(file.lastModified));
+    formData.append('timeZone', Intl.DateTimeFormat().resolvedOptions().timeZone);
 
     setUploadStage('uploading');
     setUploadProgress(10);
@@ -286,7 +318,10 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
           fileType: file.type || 'application/octet-stream',
           fileSize: file.size,
           petName: selectedPetName,
-          visitorId
+          visitorId,
+          // When the clip was filmed, for the pet's time-of-day routines.
+          fileModifiedAt: file.lastModified,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
         })
       });
       if (!initResponse.ok) {
@@ -304,7 +339,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
             isSample: false
           };
           setRecentUploads(prev => [newUpload, ...prev.filter(item => item.id !== sessionId)]);
-          pollStatus(sessionId);
+          watchStatus(sessionId);
           return;
         }
         throw new Error(message);
@@ -343,7 +378,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
       setRecentUploads(prev =>
         prev.map(u => (u.id === sessionId ? { ...u, status: 'processing' } : u))
       );
-      pollStatus(sessionId);
+      watchStatus(sessionId);
     } catch (error) {
       console.error('Upload failed:', error);
       const message = error instanceof Error ? error.message : 'Upload failed.';
@@ -390,7 +425,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
         isSample: false
       };
       setRecentUploads(prev => [newUpload, ...prev]);
-      pollStatus(sessionId);
+      watchStatus(sessionId);
     } catch (error) {
       console.error('Example upload failed:', error);
       setUploadError(error instanceof Error ? error.message : 'Failed to start example video.');
@@ -639,6 +674,11 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
                             </div>
                           )}
                         </div>
+                      ) : upload.status === 'cancelled' ? (
+                        <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-bold bg-slate-500/20 text-slate-400 border border-slate-500/10">
+                          <span className="material-symbols-outlined !text-sm">block</span>
+                          Cancelled
+                        </span>
                       ) : (
                         <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-bold bg-red-500/20 text-red-400 border border-red-500/10">
                           <span className="material-symbols-outlined !text-sm">error</span>
@@ -661,6 +701,15 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
                         >
                           See AI Summary
                         </button>
+                        {upload.status === 'processing' && !upload.isSample && (
+                          <button
+                            onClick={() => handleCancel(upload.id)}
+                            className="flex items-center gap-1 font-bold text-xs px-3 py-2 rounded-lg transition-all text-slate-300 bg-slate-700/50 hover:bg-slate-600"
+                          >
+                            <span className="material-symbols-outlined !text-sm">block</span>
+                            Cancel
+                          </button>
+                        )}
                         {!upload.isSample && (
                           <button
                             onClick={() => setDeleteTarget({ id: upload.id, name: upload.name })}
@@ -732,6 +781,10 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
                           </div>
                         )}
                       </div>
+                    ) : upload.status === 'cancelled' ? (
+                      <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-[10px] font-bold bg-slate-500/20 text-slate-400">
+                        <span className="material-symbols-outlined !text-xs">block</span> Cancelled
+                      </span>
                     ) : (
                       <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-[10px] font-bold bg-red-500/20 text-red-400">
                         <span className="material-symbols-outlined !text-xs">error</span> Error
@@ -752,6 +805,14 @@ const Dashboard: React.FC<DashboardProps> = ({ onAnalyze, onGallery, onNavigate
                     >
                       View
                     </button>
+                    {upload.status === 'processing' && !upload.isSample && (
+                      <button
+                        onClick={() => handleCancel(upload.id)}
+                        className="p-1.5 rounded-lg text-slate-300 bg-slate-700/50"
+                      >
+                        <span className="material-symbols-outlined !text-sm">block</span>
+                      </button>
+                    )}
                     {!upload.isSample && (
                       <button
                         onClick={() => setDeleteTarget({ id: upload.id, name: upload.name })}
@@ -1,15 +1,17 @@
 
 import React, { useEffect, useState } from 'react';
-import { apiUrl } from '../lib/api';
+import { apiUrl, buildPetDay, fetchPetDays } from '../lib/api';
+import type { PetDaySummary } from '../types';
 
 interface Session {
   id: string;
   originalName: string;
-  status: 'processing' | 'ready' | 'error';
+  status: 'processing' | 'ready' | 'error' | 'cancelled';
   createdAt: string;
   analysis?: any;
   coverUrl?: string;
   petName?: string;
+  kind?: 'day';
 }
 
 interface GalleryProps {
@@ -20,6 +22,8 @@ const Gallery: React.FC<GalleryProps> = ({ onSelect }) => {
   const [sessions, setSessions] = useState<Session[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedPet, setSelectedPet] = useState<string>('All');
+  const [days, setDays] = useState<PetDaySummary[]>([]);
+  const [buildingDayId, setBuildingDayId] = useState<string | null>(null);
 
   useEffect(() => {
     const allSessions: Map<string, Session> = new Map();
@@ -45,8 +49,35 @@ const Gallery: React.FC<GalleryProps> = ({ onSelect }) => {
         mergeAndRender();
       })
       .catch(err => console.error('Failed to fetch sessions:', err));
+
+    fetchPetDays()
+      .then(setDays)
+      .catch(err => console.error('Failed to fetch pet days:', err));
   }, []);
 
+  const openSession = (sessionId: string) => {
+    localStorage.setItem('currentSessionId', sessionId);
+    onSelect();
+  };
+
+  const handleDay = async (day: PetDaySummary) => {
+    const isStale = day.builtClipCount !== day.clipCount;
+    if ((day.status === 'ready' && !isStale) || day.status === 'processing') {
+      openSession(day.dayId);
+      return;
+    }
+    setBuildingDayId(day.dayId);
+    try {
+      const { dayId } = await buildPetDay(day);
+      openSession(dayId);
+    } catch (err) {
+      console.error('Failed to build pet day:', err);
+      alert(err instanceof Error ? err.message : 'Failed to build day digest');
+    } finally {
+      setBuildingDayId(null);
+    }
+  };
+
   return (
     <div className="p-4 md:p-8 pb-20 max-w-7xl mx-auto pt-16 md:pt-8">
       <header className="mb-12">
@@ -85,14 +116,44 @@ const Gallery: React.FC<GalleryProps> = ({ onSelect }) => {
         })()}
       </header>
 
+      {days.filter(d => selectedPet === 'All' || d.petName === selectedPet).length > 0 && (
+        <section className="mb-12">
+          <h2 className="text-lg font-black tracking-tight mb-4 flex items-center gap-2">
+            <span className="material-symbols-outlined text-primary">calendar_month</span>
+            Day Digests
+          </h2>
+          <div className="flex flex-wrap gap-3">
+            {days.filter(d => selectedPet === 'All' || d.petName === selectedPet).map((day) => {
+              const isStale = day.status === 'ready' && day.builtClipCount !== day.clipCount;
+              const label = buildingDayId === day.dayId || day.status === 'processing'
+                ? 'Building...'
+                : day.status === 'ready' && !isStale ? 'Open Day' : isStale ? 'Rebuild Day' : 'Build Day';
+              return (
+                <button
+                  key={day.dayId}
+                  onClick={() => handleDay(day)}
+                  disabled={buildingDayId === day.dayId}
+                  className="px-5 py-3 rounded-2xl bg-surface-dark border border-warm-gray/30 hover:border-primary/50 transition-all text-left disabled:opacity-60"
+                >
+                  <p className="font-bold text-sm">
+                    <span className="text-primary mr-2">{day.petName}</span>
+                    {new Date(`${day.date}T00:00:00`).toLocaleDateString()}
+                  </p>
+                  <p className="text-[10px] font-black uppercase tracking-wider text-slate-500 mt-1">
+                    {day.clipCount} clips · {label}
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
         {sessions.filter(s => selectedPet === 'All' || s.petName === selectedPet).map((story) => (
           <div
             key={story.id}
-            onClick={() => {
-              localStorage.setItem('currentSessionId', story.id);
-              onSelect();
-            }}
+            onClick={() => openSession(story.id)}
             className="group bg-surface-dark rounded-[2rem] overflow-hidden border border-warm-gray/30 hover:border-primary/50 transition-all shadow-xl cursor-pointer"
           >
             <div className="relative aspect-video bg-black overflow-hidden">
@@ -104,6 +165,11 @@ const Gallery: React.FC<GalleryProps> = ({ onSelect }) => {
                 </div>
               )}
               <div className="absolute inset-0 bg-black/40 group-hover:bg-black/10 transition-all"></div>
+              {story.kind === 'day' && (
+                <span className="absolute top-4 left-4 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-wider bg-primary text-background-dark">
+                  Day Digest
+                </span>
+              )}
               <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                 <div className="bg-primary size-14 rounded-full flex items-center justify-center shadow-2xl scale-75 group-hover:scale-100 transition-transform duration-300">
                   <span className="material-symbols-outlined text-background-dark font-black text-3xl">play_arrow</span>
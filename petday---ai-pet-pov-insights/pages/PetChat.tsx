@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { chatStream, fetchChatMessages, fetchPetProfile } from '../lib/api';
+import { chatStream, fetchChatMessages, fetchPetProfile, rateChatMessage } from '../lib/api';
 import { getActivePetId } from '../lib/personaState';
 import type { ChatMessageRecord, ChatStreamMeta, Page, PetProfileResponse } from '../types';
 
@@ -15,6 +15,9 @@ interface UiMessage {
   citedMemoryIds?: string[];
   moodHint?: string;
   pending?: boolean;
+  // Server id of a stored pet reply; needed to rate it.
+  messageId?: string;
+  ownerRating?: ChatMessageRecord['ownerRating'];
 }
 
 const CITATION_LABEL: Record<string, { label: string; color: string }> = {
@@ -85,6 +88,7 @@ const PetChat: React.FC<PetChatProps> = ({ onNavigate }) => {
                       citationStatus: meta.citationStatus,
                       citedMemoryIds: meta.citedMemoryIds,
                       moodHint: meta.moodHint,
+                      messageId: meta.messageId,
                     }
                   : x
               )
@@ -105,6 +109,21 @@ const PetChat: React.FC<PetChatProps> = ({ onNavigate }) => {
     }
   };
 
+  // Ratings teach the persona which lines land; up-rated phrasing becomes catchphrases.
+  const rate = async (message: UiMessage, rating: 'up' | 'down') => {
+    if (!petId || !threadId || !message.messageId) return;
+    const next = message.ownerRating === rating ? null : rating;
+    const setRating = (value: UiMessage['ownerRating']) =>
+      setMessages((m) => m.map((x) => (x.id === message.id ? { ...x, ownerRating: value } : x)));
+    setRating(next || undefined);
+    try {
+      await rateChatMessage(petId, threadId, message.messageId, next);
+    } catch (e: any) {
+      setRating(message.ownerRating);
+      setError(e?.message || 'Failed to rate reply');
+    }
+  };
+
   const askChips = profile
     ? [
         `Tell me about your friends`,
@@ -183,6 +202,20 @@ const PetChat: React.FC<PetChatProps> = ({ onNavigate }) => {
                     <span className="text-[10px] text-slate-500">refs: {m.citedMemoryIds!.length}</span>
                   )}
                   {m.moodHint && <span className="text-[10px] text-slate-500">mood: {m.moodHint}</span>}
+                  {m.messageId && (
+                    <span className="ml-auto flex gap-1">
+                      {(['up', 'down'] as const).map((rating) => (
+                        <button
+                          key={rating}
+                          onClick={() => rate(m, rating)}
+                          title={rating === 'up' ? 'Sounds just like them' : "Doesn't sound like them"}
+                          className={`p-1 rounded-lg hover:bg-warm-gray/20 ${m.ownerRating === rating ? 'text-primary' : 'text-slate-500'}`}
+                        >
+                          <span className="material-symbols-outlined text-sm">{rating === 'up' ? 'thumb_up' : 'thumb_down'}</span>
+                        </button>
+                      ))}
+                    </span>
+                  )}
                 </div>
               )}
             </div>
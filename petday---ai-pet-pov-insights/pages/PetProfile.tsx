@@ -1,14 +1,22 @@
 import React, { useEffect, useState } from 'react';
 import {
   deletePetMemory,
+  dismissPetRelationMatch,
   exportPetData,
+  fetchConsolidationReport,
   fetchPetMemories,
   fetchPetProfile,
+  fetchPetSocialGraph,
+  mergePetRelations,
   patchPetMemory,
   rebuildPetTraits,
+  setPetSocialGraphOptIn,
+  splitPetRelation,
+  undoMemoryConsolidation,
+  updatePetRelation,
 } from '../lib/api';
 import { getActivePetId, growthStageDisplay, setActivePetId } from '../lib/personaState';
-import type { Page, PetMemory, PetProfileResponse } from '../types';
+import type { Page, PetMemory, PetProfileResponse, PetRelationEdge, PetSocialGraph } from '../types';
 
 interface PetProfileProps {
   onNavigate: (page: Page) => void;
@@ -25,20 +33,26 @@ const TRAIT_DIMS: Array<{ key: keyof PetProfileResponse['traits'] extends never
 const PetProfile: React.FC<PetProfileProps> = ({ onNavigate }) => {
   const [profile, setProfile] = useState<PetProfileResponse | null>(null);
   const [allMemories, setAllMemories] = useState<PetMemory[]>([]);
+  const [social, setSocial] = useState<PetSocialGraph | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [editingRelation, setEditingRelation] = useState<string | null>(null);
+  const [splitName, setSplitName] = useState('');
+  const [splitMemoryIds, setSplitMemoryIds] = useState<string[]>([]);
 
   const petId = getActivePetId();
 
   const reload = async () => {
     if (!petId) return;
     try {
-      const [p, mems] = await Promise.all([
+      const [p, mems, graph] = await Promise.all([
         fetchPetProfile(petId),
         fetchPetMemories(petId),
+        fetchPetSocialGraph(petId).catch(() => null),
       ]);
       setProfile(p);
       setAllMemories(mems);
+      setSocial(graph);
     } catch (e: any) {
       setError(e?.message || 'Failed to load pet');
     }
@@ -67,12 +81,95 @@ const PetProfile: React.FC<PetProfileProps> = ({ onNavigate }) => {
     await reload();
   };
 
+  // Shows the dry-run report first; nothing changes unless the owner confirms.
+  const onConsolidate = async () => {
+    if (!petId) return;
+    const plan = await fetchConsolidationReport(petId);
+    if (plan.clusters.length === 0 && plan.archived.length === 0) {
+      alert('Memories are already tidy.');
+      return;
+    }
+    const merged = plan.clusters.reduce((sum, c) => sum + c.memberIds.length, 0);
+    if (!confirm(`Merge ${merged} similar memories into ${plan.clusters.length} and archive ${plan.archived.length} faded ones (${plan.liveBefore} → ${plan.liveAfter})?`)) return;
+    await fetchConsolidationReport(petId, true);
+    await reload();
+  };
+
+  const onUndoConsolidation = async (memId: string) => {
+    if (!petId) return;
+    await undoMemoryConsolidation(petId, memId);
+    await reload();
+  };
+
   const onRebuild = async () => {
     if (!petId) return;
     await rebuildPetTraits(petId);
     await reload();
   };
 
+  // Friend edits report conflicts (e.g. renaming onto an existing friend) inline.
+  const editRelation = async (edit: () => Promise<unknown>) => {
+    try {
+      await edit();
+      setSplitName('');
+      setSplitMemoryIds([]);
+      await reload();
+    } catch (e: any) {
+      alert(e?.message || 'Failed to update friend');
+    }
+  };
+
+  const onRenameRelation = (r: PetRelationEdge) => {
+    const name = prompt('What is this friend called?', r.displayName)?.trim();
+    if (!petId || !name || name === r.displayName) return;
+    editRelation(() => updatePetRelation(petId, r.otherKey, { displayName: name }));
+  };
+
+  const onLinkRelation = (r: PetRelationEdge) => {
+    const linked = prompt('PetDay pet id of this friend (leave empty to unlink)', r.externalPetId || '');
+    if (!petId || linked === null) return;
+    editRelation(() => updatePetRelation(petId, r.otherKey, { externalPetId: linked.trim() || null }));
+  };
+
+  const onMergeRelation = (r: PetRelationEdge, sourceKey: string) => {
+    const source = profile?.relations.find((o) => o.otherKey === sourceKey);
+    if (!petId || !source) return;
+    if (!confirm(`Merge "${source.displayName}" into "${r.displayName}"?`)) return;
+    editRelation(() => mergePetRelations(petId, r.otherKey, sourceKey));
+  };
+
+  // Re-identification proposals are never applied on their own; "same friend" is a merge.
+  const onAcceptMatch = (r: PetRelationEdge, target: PetRelationEdge) => {
+    if (!petId) return;
+    editRelation(() => mergePetRelations(petId, target.otherKey, r.otherKey));
+  };
+
+  const onDismissMatch = (r: PetRelationEdge) => {
+    if (!petId) return;
+    editRelation(() => dismissPetRelationMatch(petId, r.otherKey));
+  };
+
+  const onSplitRelation = (r: PetRelationEdge, body: { mergedKey: string } | { displayName: string; memoryIds: string[] }) => {
+    if (!petId) return;
+    editRelation(() => splitPetRelation(petId, r.otherKey, body));
+  };
+
+  const matchTarget = (r: PetRelationEdge) =>
+    r.proposedMatch ? profile?.relations.find((o) => o.otherKey === r.proposedMatch!.otherKey) : undefined;
+
+  const firstCrop = (r: PetRelationEdge) => r.gallery?.find((s) => s.imageUrl)?.imageUrl;
+
+  const friendMemories = (r: PetRelationEdge) => {
+    const name = r.displayName.trim().toLowerCase();
+    return allMemories.filter((m) => m.relatedPetIds?.some((p) => p.toLowerCase() === name));
+  };
+
+  const onToggleSocialGraph = async () => {
+    if (!petId || !profile) return;
+    await setPetSocialGraphOptIn(petId, !profile.pet.socialGraphOptIn);
+    await reload();
+  };
+
   const onExport = async () => {
     if (!petId) return;
     await exportPetData(petId);
@@ -188,6 +285,35 @@ const PetProfile: React.FC<PetProfileProps> = ({ onNavigate }) => {
             </div>
           </div>
         )}
+        {(profile.traits?.routines?.length ?? 0) > 0 && (
+          <div className="mt-6">
+            <div className="text-xs uppercase font-bold text-slate-400 mb-2">Routines</div>
+            <ul className="space-y-2">
+              {profile.traits!.routines.map((r) => (
+                <li key={r.pattern} className="flex items-center gap-3 bg-background-dark/50 rounded-xl px-4 py-2">
+                  <span className="material-symbols-outlined text-base text-primary">schedule</span>
+                  <span className="text-sm flex-1">{r.pattern}</span>
+                  {r.sourceMemoryIds.length > 0 && (
+                    <span className="text-[10px] text-slate-500">{r.sourceMemoryIds.length} memories</span>
+                  )}
+                  <span className="text-[10px] uppercase tracking-widest font-bold text-primary">{r.confidence}%</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {(profile.traits?.catchphrases?.length ?? 0) > 0 && (
+          <div className="mt-3">
+            <div className="text-xs uppercase font-bold text-slate-400 mb-2">Catchphrases</div>
+            <div className="flex flex-wrap gap-2">
+              {profile.traits!.catchphrases.map((c) => (
+                <span key={c} className="text-xs italic bg-warm-gray/20 text-slate-200 px-3 py-1 rounded-full">
+                  “{c}”
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
       </section>
 
       {/* Inner Circle */}
@@ -198,7 +324,8 @@ const PetProfile: React.FC<PetProfileProps> = ({ onNavigate }) => {
             Inner Circle
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {profile.relations.slice(0, 9).map((r) => (
+            {/* Friends awaiting a same-friend answer come first so the question is seen. */}
+            {[...profile.relations].sort((a, b) => Number(!!matchTarget(b)) - Number(!!matchTarget(a))).slice(0, 9).map((r) => (
               <div key={r.otherKey} className="bg-background-dark/50 rounded-xl p-4">
                 <div className="flex items-center justify-between mb-2">
                   <h3 className="font-bold">{r.displayName}</h3>
@@ -208,18 +335,194 @@ const PetProfile: React.FC<PetProfileProps> = ({ onNavigate }) => {
                 <div className="mt-2 h-1.5 bg-warm-gray/30 rounded-full overflow-hidden">
                   <div className="h-full bg-primary" style={{ width: `${r.bondScore}%` }} />
                 </div>
+                {matchTarget(r) && (
+                  <div className="mt-3 p-3 rounded-lg bg-primary/10 border border-primary/30 text-xs space-y-2">
+                    <div className="font-bold text-primary">Same friend as {matchTarget(r)!.displayName}?</div>
+                    {firstCrop(r) && firstCrop(matchTarget(r)!) && (
+                      <div className="flex gap-2">
+                        {[firstCrop(r), firstCrop(matchTarget(r)!)].map((url) => (
+                          <div key={url} className="size-14 rounded-lg bg-cover bg-center bg-warm-gray/30" style={{ backgroundImage: `url('${url}')` }} />
+                        ))}
+                      </div>
+                    )}
+                    <div className="text-slate-400">
+                      {r.proposedMatch!.method === 'image' ? 'They look like the same animal' : 'Their descriptions match'}
+                      {' '}({Math.round(r.proposedMatch!.score * 100)}%)
+                    </div>
+                    <div className="flex gap-1">
+                      <button onClick={() => onAcceptMatch(r, matchTarget(r)!)} className="text-[10px] px-2 py-1 rounded bg-primary/20 text-primary hover:bg-primary/30">
+                        Same friend
+                      </button>
+                      <button onClick={() => onDismissMatch(r)} className="text-[10px] px-2 py-1 rounded bg-warm-gray/20 hover:bg-warm-gray/30">
+                        Not them
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {r.externalPetId && (
+                  <div className="text-[10px] text-slate-500 mt-2 inline-flex items-center gap-1">
+                    <span className="material-symbols-outlined !text-xs">link</span> PetDay pet {r.externalPetId}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-1 mt-3">
+                  <button onClick={() => onRenameRelation(r)} className="text-[10px] px-2 py-1 rounded bg-warm-gray/20 hover:bg-warm-gray/30">
+                    Rename
+                  </button>
+                  <button onClick={() => onLinkRelation(r)} className="text-[10px] px-2 py-1 rounded bg-warm-gray/20 hover:bg-warm-gray/30">
+                    {r.externalPetId ? 'Relink' : 'Link pet'}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingRelation(editingRelation === r.otherKey ? null : r.otherKey);
+                      setSplitName('');
+                      setSplitMemoryIds([]);
+                    }}
+                    className="text-[10px] px-2 py-1 rounded bg-warm-gray/20 hover:bg-warm-gray/30"
+                  >
+                    Merge / split
+                  </button>
+                </div>
+                {editingRelation === r.otherKey && (
+                  <div className="mt-3 pt-3 border-t border-warm-gray/30 space-y-3 text-xs">
+                    {profile.relations.length > 1 && (
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && onMergeRelation(r, e.target.value)}
+                        className="w-full bg-background-dark border border-warm-gray/30 rounded-lg px-2 py-1"
+                      >
+                        <option value="">Same friend as…</option>
+                        {profile.relations.filter((o) => o.otherKey !== r.otherKey).map((o) => (
+                          <option key={o.otherKey} value={o.otherKey}>{o.displayName}</option>
+                        ))}
+                      </select>
+                    )}
+                    {(r.mergedFrom || []).map((m) => (
+                      <div key={m.edge.otherKey} className="flex items-center justify-between gap-2">
+                        <span className="text-slate-400">Merged: {m.edge.displayName}</span>
+                        <button
+                          onClick={() => onSplitRelation(r, { mergedKey: m.edge.otherKey })}
+                          className="text-[10px] px-2 py-1 rounded bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-300"
+                        >
+                          Split out
+                        </button>
+                      </div>
+                    ))}
+                    {friendMemories(r).length > 1 && (
+                      <div className="space-y-1">
+                        <div className="text-slate-400">Memories of a different friend:</div>
+                        {friendMemories(r).map((m) => (
+                          <label key={m.id} className="flex items-start gap-2 text-slate-300">
+                            <input
+                              type="checkbox"
+                              checked={splitMemoryIds.includes(m.id)}
+                              onChange={(e) => setSplitMemoryIds(e.target.checked
+                                ? [...splitMemoryIds, m.id]
+                                : splitMemoryIds.filter((id) => id !== m.id))}
+                              className="mt-0.5"
+                            />
+                            <span className="line-clamp-2">{m.text}</span>
+                          </label>
+                        ))}
+                        <div className="flex gap-1 pt-1">
+                          <input
+                            value={splitName}
+                            onChange={(e) => setSplitName(e.target.value)}
+                            placeholder="Their name"
+                            className="flex-1 bg-background-dark border border-warm-gray/30 rounded-lg px-2 py-1"
+                          />
+                          <button
+                            disabled={!splitName.trim() || splitMemoryIds.length === 0}
+                            onClick={() => onSplitRelation(r, { displayName: splitName.trim(), memoryIds: splitMemoryIds })}
+                            className="text-[10px] px-2 py-1 rounded bg-primary/20 text-primary hover:bg-primary/30 disabled:opacity-40"
+                          >
+                            Split
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
         </section>
       )}
 
+      {/* Mutual Friends (cross-owner, opt-in) */}
+      {(profile.relations.some((r) => r.externalPetId) || profile.pet.socialGraphOptIn) && (
+        <section className="bg-surface-dark rounded-3xl border border-warm-gray/30 p-8 mb-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-bold flex items-center gap-3">
+              <span className="material-symbols-outlined text-primary">diversity_1</span>
+              Mutual Friends
+            </h2>
+            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={!!profile.pet.socialGraphOptIn} onChange={onToggleSocialGraph} />
+              Share friendships with linked pets' owners
+            </label>
+          </div>
+          {!profile.pet.socialGraphOptIn ? (
+            <p className="text-slate-400 text-sm">
+              Turn on sharing to see playdates with friends you've linked to their PetDay pet. Their owner has to link back and opt in too.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {social?.friendships.map((f) => (
+                <div key={f.otherKey} className="bg-background-dark/50 rounded-xl p-4">
+                  <div className="flex items-center gap-3 mb-3">
+                    <div
+                      className="size-10 rounded-full bg-cover bg-center bg-warm-gray/30 shrink-0"
+                      style={f.friend.photoUrl ? { backgroundImage: `url('${f.friend.photoUrl}')` } : undefined}
+                    />
+                    <div className="flex-1">
+                      <h3 className="font-bold">{f.friend.name}</h3>
+                      <div className="text-xs text-slate-400">
+                        {f.status} · they say {f.theirStatus} · last met {new Date(f.lastMetAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    {f.playdates.slice(0, 5).map((day) => (
+                      <div key={day.date} className="border-l-2 border-primary/30 pl-3">
+                        <div className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+                          {day.date}{day.bothRecorded ? ' · both filmed it' : ''}
+                        </div>
+                        {day.entries.map((e) => (
+                          <p key={e.memoryId} className="text-sm mt-1">
+                            <span className="text-primary font-bold">{e.petName}:</span> {e.text}
+                          </p>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {social?.pending.map((p) => (
+                <div key={p.otherKey} className="text-xs text-slate-500">
+                  {p.displayName}: waiting for their owner to link back and share.
+                </div>
+              ))}
+              {social && social.friendships.length === 0 && social.pending.length === 0 && (
+                <p className="text-slate-400 text-sm">Link a friend in the Inner Circle to their PetDay pet to start.</p>
+              )}
+            </div>
+          )}
+        </section>
+      )}
+
       {/* Memory Lane */}
       <section className="bg-surface-dark rounded-3xl border border-warm-gray/30 p-8 mb-8">
-        <h2 className="text-xl font-bold mb-6 flex items-center gap-3">
-          <span className="material-symbols-outlined text-primary">menu_book</span>
-          Memory Lane
-        </h2>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold flex items-center gap-3">
+            <span className="material-symbols-outlined text-primary">menu_book</span>
+            Memory Lane
+          </h2>
+          {allMemories.length > 0 && (
+            <button onClick={onConsolidate} className="text-xs bg-warm-gray/20 hover:bg-warm-gray/30 px-3 py-1 rounded-full">
+              Tidy up memories
+            </button>
+          )}
+        </div>
         {allMemories.length === 0 ? (
           <p className="text-slate-400 text-sm">No memories yet — upload a video and watch them grow.</p>
         ) : (
@@ -236,6 +539,11 @@ const PetProfile: React.FC<PetProfileProps> = ({ onNavigate }) => {
                     <span>conf {m.confidence}</span>
                     {m.source?.timestamp && <span>ts {m.source.timestamp}</span>}
                     {m.userVerdict && <span className="text-yellow-400">{m.userVerdict}</span>}
+                    {(m.consolidatedFrom?.length ?? 0) > 0 && (
+                      <button onClick={() => onUndoConsolidation(m.id)} className="text-primary hover:underline">
+                        merged from {m.consolidatedFrom!.length} · undo
+                      </button>
+                    )}
                   </div>
                 </div>
                 <div className="flex gap-1">
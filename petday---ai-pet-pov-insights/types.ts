@@ -33,8 +33,10 @@ export interface AnalysisData {
   title: string;
   aiNote: string;
   narrativeSegments?: { text: string; timestamp: string }[];
-  moodData: { name: string; value: number; originalTime?: string }[];
-  moodDataHighlight?: { name: string; value: number; originalTime?: string }[];
+  moodData: { name: string; value: number; originalTime?: string; activityConflict?: 'low-activity' | 'high-activity' }[];
+  moodDataHighlight?: { name: string; value: number; originalTime?: string; activityConflict?: 'low-activity' | 'high-activity' }[];
+  activityData?: { name: string; value: number }[];  // Measured motion, one 0-100 point per original second
+  activitySegments?: { start: string; end: string; level: 'rest' | 'active'; meanActivity: number }[];
   scenery: {
     description: string;
     timestamp: string;
@@ -47,6 +49,7 @@ export interface AnalysisData {
     name: string;
     type: string;
     timestamp: string;  // Primary timestamp (first/best interaction)
+    originalTimestamp?: string;  // Same moment on the original recording
     timestamps?: { time: string; duration?: number }[];  // All interaction timestamps
     url?: string;
     box?: [number, number, number, number];
@@ -57,8 +60,93 @@ export interface AnalysisData {
   }[];
   timeline: ActivityLog[];
   timelineHighlight?: ActivityLog[];
+  highlightTimestamps?: HighlightClip[];  // Original-clock clips stitched into the reel
   safetyAlerts?: { type: 'warning' | 'danger'; message: string; timestamp: string }[];
-  dietaryHabits?: { item: string; action: 'eating' | 'drinking'; timestamp: string; url?: string }[];
+  dietaryHabits?: { item: string; action: 'eating' | 'drinking'; timestamp: string; url?: string; originalTime?: string }[];
+}
+
+// ---------------- Session processing progress ----------------
+
+export interface SessionProgress {
+  stage: string;
+  percent: number;
+  stageIndex: number;
+  totalStages: number;
+}
+
+export interface SessionStageTiming {
+  stage: string;
+  duration: number; // seconds
+  startedAt: number;
+  completedAt: number;
+}
+
+export interface SessionStatusEvent {
+  sessionId: string;
+  status: string;
+  progress: SessionProgress | null;
+  stageTimes: SessionStageTiming[];
+  error: string | null;
+  processingTime: number | null;
+}
+
+// ---------------- Highlight reel settings ----------------
+
+export type HighlightTargetSeconds = 15 | 30 | 60 | 180;
+export type HighlightStyle = 'balanced' | 'action' | 'scenic' | 'social';
+
+export interface HighlightSpec {
+  targetSeconds: HighlightTargetSeconds;
+  style: HighlightStyle;
+  mandatory: { friends: boolean; scenery: boolean; food: boolean; safety: boolean };
+  burnCaptions: boolean; // Narrative rendered into the reel itself
+  renderMode: 'standard' | 'polished'; // Polished adds crossfades, title/end cards and music
+}
+
+export interface HighlightClip {
+  start: string; // M:SS on the original recording
+  end: string;
+  source?: string;
+  friendName?: string;
+}
+
+export interface HighlightJob {
+  status: 'running' | 'failed';
+  spec: HighlightSpec;
+  clips?: HighlightClip[]; // Set when the job re-cuts a user-edited clip list
+  startedAt: number;
+  completedAt?: number;
+  error?: string;
+}
+
+export type MomentClipFormat = 'gif' | 'mp4' | 'webp';
+
+// Short looping clip around one moment, rendered on demand and cached on the session.
+export interface MomentClip {
+  key: string;
+  format: MomentClipFormat;
+  start: number; // seconds on the original recording
+  seconds: number;
+  url: string;
+}
+
+// ---------------- Pet days (multi-clip digests) ----------------
+
+export interface PetDaySummary {
+  dayId: string;
+  petName: string;
+  date: string; // YYYY-MM-DD
+  sessionIds: string[];
+  clipCount: number;
+  status: 'available' | 'processing' | 'ready' | 'error';
+  builtClipCount: number;
+}
+
+export interface PetDayClip {
+  sessionId: string;
+  originalName: string;
+  offset: number; // seconds from the start of the day clock
+  duration: number;
 }
 
 // ---------------- Pet AI Persona ----------------
@@ -99,6 +187,7 @@ export interface Pet {
   updatedAt: number;
   isMerged?: boolean;
   mergedFromPetIds?: string[];
+  socialGraphOptIn?: boolean;
 }
 
 export interface PetTraits {
@@ -144,6 +233,7 @@ export interface PetMemory {
   relatedPetIds?: string[];
   relatedMemoryIds?: string[];
   consolidatedInto?: string;
+  consolidatedFrom?: string[];
   lastAccessedAt: number;
   accessCount: number;
   createdAt: number;
@@ -174,6 +264,12 @@ export interface PetRelationEdge {
   firstSeenAt: number;
   notableMemoryIds: string[];
   externalPetId?: string;
+  ownerNamed?: boolean;
+  aliases?: string[];
+  mergedFrom?: { edge: PetRelationEdge; memoryIds: string[] }[];
+  gallery?: { sessionId: string; imageUrl?: string; visualTraits?: string; breed?: string; seenAt: number }[];
+  // A known friend this one probably is; accept by merging into it.
+  proposedMatch?: { otherKey: string; score: number; method: 'image' | 'traits'; proposedAt: number };
 }
 
 export interface PersonaSnapshot {
@@ -194,6 +290,44 @@ export interface PetListItem extends Pet {
   growthStageLabel: GrowthStageLabel;
 }
 
+export interface PlaydateEntry {
+  petId: string;
+  petName: string;
+  memoryId: string;
+  text: string;
+  at: number;
+  sessionId?: string;
+  timestamp?: string;
+  coverUrl?: string;
+}
+
+export interface MutualFriendship {
+  otherKey: string;
+  friend: Pick<Pet, 'id' | 'name' | 'species' | 'breed' | 'photoUrl'>;
+  status: PetRelationEdge['status'];
+  theirStatus: PetRelationEdge['status'];
+  encounterCount: number;
+  lastMetAt: number;
+  playdates: { date: string; bothRecorded: boolean; entries: PlaydateEntry[] }[];
+}
+
+export interface PetSocialGraph {
+  optedIn: boolean;
+  friendships: MutualFriendship[];
+  pending: { otherKey: string; displayName: string; externalPetId: string }[];
+}
+
+export interface ConsolidationReport {
+  petId: string;
+  dryRun: boolean;
+  ranAt: number;
+  liveBefore: number;
+  liveAfter: number;
+  decayed: { id: string; from: number; to: number }[];
+  clusters: { memberIds: string[]; texts: string[]; summaryId?: string; summary?: string }[];
+  archived: { id: string; text: string; importanceCurrent: number }[];
+}
+
 export interface PetProfileResponse {
   pet: Pet;
   traits: PetTraits | null;
@@ -217,6 +351,7 @@ export interface ChatMessageRecord {
   citedMemoryIds?: string[];
   citationStatus?: CitationStatus;
   moodHint?: string;
+  ownerRating?: 'up' | 'down';
   createdAt: number;
 }
 